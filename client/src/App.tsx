@@ -8,12 +8,16 @@ import { AppSidebar } from "@/components/AppSidebar";
 import { ThemeProvider } from "@/components/ThemeProvider";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { NotificationDropdown } from "@/components/NotificationDropdown";
+import { GlobalSearch } from "@/components/GlobalSearch";
 import { NotificationProvider } from "@/contexts/NotificationContext";
+import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { Suspense, lazy } from "react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { PageTransition } from "@/components/ui/page-transitions";
 import { FormLoadingSkeleton } from "@/components/ui/loading-components";
 import { VersionDisplay } from "@/components/VersionDisplay";
+import { Button } from "@/components/ui/button";
+import { LogOut } from "lucide-react";
 
 // Lazy load large/non-critical pages for better performance
 const MowerDetails = lazy(() => import("@/pages/MowerDetails"));
@@ -34,6 +38,9 @@ import Maintenance from "@/pages/Maintenance";
 import MaintenanceHistory from "@/pages/MaintenanceHistory";
 import Reports from "@/pages/Reports";
 import Reminders from "@/pages/Reminders";
+import Tasks from "@/pages/Tasks";
+import Calendar from "@/pages/Calendar";
+import Login from "@/pages/Login";
 import NotFound from "@/pages/not-found";
 
 // Loading fallback component
@@ -56,6 +63,8 @@ function Router() {
         window.location.replace('/maintenance');
         return null;
       }} />
+      <Route path="/tasks" component={() => <PageTransition><Tasks /></PageTransition>} />
+      <Route path="/calendar" component={() => <PageTransition><Calendar /></PageTransition>} />
       <Route path="/reports" component={() => <PageTransition><Reports /></PageTransition>} />
       <Route path="/catalog" component={() => <PageTransition><PartsCatalog /></PageTransition>} />
       <Route path="/catalog/parts/:partId" component={() => <PageTransition><PartDetails /></PageTransition>} />
@@ -93,46 +102,78 @@ function Router() {
   );
 }
 
-export default function App() {
+function AppShell() {
+  const { user, isLoading, logout } = useAuth();
+
   const style = {
     "--sidebar-width": "20rem",
     "--sidebar-width-icon": "4rem",
   };
 
+  if (isLoading) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-calendar-bg">
+        <Skeleton className="h-64 w-full max-w-md mx-4" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Login />;
+  }
+
+  return (
+    <NotificationProvider>
+      <SidebarProvider style={style as React.CSSProperties}>
+        <div className="flex h-screen w-full bg-panel">
+          <AppSidebar />
+          <div className="flex flex-col flex-1">
+            <header className="flex items-center justify-between p-4 border-b border-panel-border bg-panel shadow-card">
+              <div className="flex items-center gap-4">
+                <SidebarTrigger data-testid="button-sidebar-toggle" />
+                <div className="hidden md:block">
+                  <h2 className="text-lg font-semibold text-text-primary">MowerM8</h2>
+                </div>
+                <GlobalSearch />
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="hidden md:flex items-center gap-2 text-sm text-text-muted">
+                  <span data-testid="text-welcome-user">Welcome back, {user.displayName || user.username}</span>
+                </div>
+                <NotificationDropdown />
+                <ThemeToggle />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => logout()}
+                  title="Sign out"
+                  data-testid="button-logout"
+                >
+                  <LogOut className="h-4 w-4" />
+                </Button>
+              </div>
+            </header>
+            <main className="flex-1 overflow-auto p-6 bg-calendar-bg">
+              <Router />
+            </main>
+          </div>
+        </div>
+        <VersionDisplay />
+      </SidebarProvider>
+    </NotificationProvider>
+  );
+}
+
+export default function App() {
   return (
     <ThemeProvider defaultTheme="light" storageKey="mower-tracker-theme">
       <QueryClientProvider client={queryClient}>
-        <NotificationProvider>
+        <AuthProvider>
           <TooltipProvider>
-            <SidebarProvider style={style as React.CSSProperties}>
-              <div className="flex h-screen w-full bg-panel">
-                <AppSidebar />
-                <div className="flex flex-col flex-1">
-                  <header className="flex items-center justify-between p-4 border-b border-panel-border bg-panel shadow-card">
-                    <div className="flex items-center gap-4">
-                      <SidebarTrigger data-testid="button-sidebar-toggle" />
-                      <div className="hidden md:block">
-                        <h2 className="text-lg font-semibold text-text-primary">MowerM8</h2>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-4">
-                      <div className="hidden md:flex items-center gap-2 text-sm text-text-muted">
-                        <span>Welcome back, John Doe</span>
-                      </div>
-                      <NotificationDropdown />
-                      <ThemeToggle />
-                    </div>
-                  </header>
-                  <main className="flex-1 overflow-auto p-6 bg-calendar-bg">
-                    <Router />
-                  </main>
-                </div>
-              </div>
-              <VersionDisplay />
-            </SidebarProvider>
+            <AppShell />
             <Toaster />
           </TooltipProvider>
-        </NotificationProvider>
+        </AuthProvider>
       </QueryClientProvider>
     </ThemeProvider>
   );
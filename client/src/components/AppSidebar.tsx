@@ -1,5 +1,5 @@
 import { Sidebar, SidebarContent, SidebarFooter, SidebarGroup, SidebarGroupContent, SidebarGroupLabel, SidebarHeader, SidebarMenu, SidebarMenuButton, SidebarMenuItem } from "@/components/ui/sidebar";
-import { Home, Tractor, Settings, Plus, Package, Wrench, BarChart3, Bell } from "lucide-react";
+import { Home, Tractor, Settings, Plus, Package, Wrench, BarChart3, Bell, KanbanSquare, CalendarDays } from "lucide-react";
 import { useLocation } from "wouter";
 import { VersionDisplay } from "@/components/VersionDisplay";
 
@@ -19,6 +19,16 @@ const navigationItems = [
     url: "/maintenance",
     icon: Wrench,
   },
+  {
+    title: "Tasks",
+    url: "/tasks",
+    icon: KanbanSquare,
+  },
+  {
+    title: "Calendar",
+    url: "/calendar",
+    icon: CalendarDays,
+  },
 ];
 
 const quickActions = [
@@ -0,0 +1,179 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import TaskList from "@/components/TaskList";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { safeFormatDateForAPI, safeFormatDateForDisplay } from "@/lib/utils";
+import type { Task, TaskWithActivity, InsertTask } from "@shared/schema";
+
+interface AssetTaskListProps {
+  assetType: "mower" | "engine" | "part";
+  assetId: string;
+}
+
+type TaskOwner = 'mowerId' | 'engineId' | 'partId';
+
+// apiRequest errors look like "400: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.details || parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+// The task list of a mower, engine or part, with its add, edit, complete and delete actions
+export default function AssetTaskList({ assetType, assetId }: AssetTaskListProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const tasksQueryKey = [`/api/${assetType}s`, assetId, 'tasks'];
+  const { data: tasks = [], isLoading, error } = useQuery<TaskWithActivity[]>({
+    queryKey: tasksQueryKey,
+    enabled: !!assetId,
+  });
+
+  const invalidateTasks = () => queryClient.invalidateQueries({ queryKey: tasksQueryKey });
+
+  const addTaskMutation = useMutation({
+    mutationFn: async (taskData: Omit<InsertTask, TaskOwner>) => {
+      // Convert date and sanitize cost
+      const processedData = {
+        ...taskData,
+        dueDate: taskData.dueDate ? new Date(taskData.dueDate) : undefined,
+        estimatedCost: taskData.estimatedCost ? taskData.estimatedCost.replace(/[$,]/g, '') : undefined,
+      };
+      const response = await apiRequest('POST', `/api/${assetType}s/${assetId}/tasks`, processedData);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateTasks();
+      toast({ title: "Success", description: "Task added successfully" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: extractErrorMessage(error, "Failed to add task"), variant: "destructive" });
+    },
+  });
+
+  const updateTaskMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string, data: Partial<InsertTask> }) => {
+      // Convert date and sanitize cost
+      const processedData = {
+        ...data,
+        dueDate: data.dueDate ? new Date(data.dueDate) : undefined,
+        estimatedCost: data.estimatedCost ? data.estimatedCost.replace(/[$,]/g, '') : undefined,
+      };
+      const response = await apiRequest('PUT', `/api/tasks/${id}`, processedData);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateTasks();
+      toast({ title: "Success", description: "Task updated successfully" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: extractErrorMessage(error, "Failed to update task"), variant: "destructive" });
+    },
+  });
+
+  const deleteTaskMutation = useMutation({
+    mutationFn: async (taskId: string) => {
+      await apiRequest('DELETE', `/api/tasks/${taskId}`);
+    },
+    onSuccess: () => {
+      invalidateTasks();
+      toast({ title: "Success", description: "Task deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete task", variant: "destructive" });
+    },
+  });
+
+  const completeTaskMutation = useMutation({
+    mutationFn: async (taskId: string) => {
+      const response = await apiRequest('POST', `/api/tasks/${taskId}/complete`);
+      return response.json();
+    },
+    onSuccess: (data: Task & { nextTask: Task | null }) => {
+      invalidateTasks();
+      const next = data.nextTask;
+      const nextDue = next?.dueDate ? safeFormatDateForDisplay(next.dueDate) : next?.dueHours != null ? `at ${next.dueHours} h` : null;
+      toast({
+        title: "Success",
+        description: next ? `Task completed. The next one is due ${nextDue ?? "later"}.` : "Task completed successfully",
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to complete task", variant: "destructive" });
+    },
+  });
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="text-center py-8">
+            <p className="text-destructive">Failed to load tasks data</p>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={invalidateTasks}
+            >
+              Retry
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        <span>Loading tasks...</span>
+      </div>
+    );
+  }
+
+  return (
+    <TaskList
+      tasks={tasks.map(task => ({
+        ...task,
+        description: task.description || undefined,
+        priority: task.priority as "low" | "medium" | "high" | "urgent",
+        status: task.status as "pending" | "in_progress" | "completed" | "cancelled",
+        category: task.category as "maintenance" | "repair" | "parts" | "inspection" | "other",
+        dueDate: task.dueDate ? safeFormatDateForAPI(task.dueDate) || undefined : undefined,
+        estimatedCost: task.estimatedCost ? `$${task.estimatedCost}` : undefined,
+        partNumber: task.partNumber || undefined,
+        createdAt: safeFormatDateForAPI(task.createdAt) || new Date().toISOString(),
+        completedAt: task.completedAt ? safeFormatDateForAPI(task.completedAt) || undefined : undefined,
+        recurrenceUnit: task.recurrenceUnit as "days" | "weeks" | "months" | "hours" | null,
+      }))}
+      onAddTask={(task) => addTaskMutation.mutate({
+        ...task,
+        dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
+        estimatedCost: task.estimatedCost ? task.estimatedCost.replace(/[$,]/g, '') : undefined,
+      })}
+      onEditTask={(id, task) => updateTaskMutation.mutate({
+        id,
+        data: {
+          ...task,
+          dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
+          estimatedCost: task.estimatedCost ? task.estimatedCost.replace(/[$,]/g, '') : undefined,
+        }
+      })}
+      onDeleteTask={(id) => deleteTaskMutation.mutate(id)}
+      onCompleteTask={(id) => completeTaskMutation.mutate(id)}
+      readOnly={!can("tasks:write")}
+      hasHourMeter={assetType !== "part"}
+    />
+  );
+}
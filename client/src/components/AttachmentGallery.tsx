@@ -30,6 +30,7 @@ interface AttachmentGalleryProps {
   thumbnailAttachmentId?: string | null;
   isUploading?: boolean;
   isDeleting?: boolean;
+  readOnly?: boolean; // hides upload, edit, thumbnail and delete actions
 }
 
 const getFileIcon = (fileType: string) => {
@@ -164,7 +165,8 @@ export default function AttachmentGallery({
   onSetThumbnail,
   thumbnailAttachmentId,
   isUploading = false,
-  isDeleting = false
+  isDeleting = false,
+  readOnly = false
 }: AttachmentGalleryProps) {
   const { toast } = useToast();
 
@@ -210,59 +212,61 @@ export default function AttachmentGallery({
             <Upload className="h-5 w-5" />
             Attachments ({attachments.length})
           </CardTitle>
-          <div>
-            <input
-              id="attachment-file-input"
-              type="file"
-              multiple
-              style={{ display: 'none' }}
-              accept=".pdf,.jpg,.jpeg,.png,.gif,.doc,.docx,.txt,.zip,.rar"
-              onChange={handleFileInputChange}
-            />
-            
-            {isMobile ? (
-              // Mobile: Show camera and gallery options
-              <div className="flex gap-2">
+          {!readOnly && (
+            <div>
+              <input
+                id="attachment-file-input"
+                type="file"
+                multiple
+                style={{ display: 'none' }}
+                accept=".pdf,.jpg,.jpeg,.png,.gif,.doc,.docx,.txt,.zip,.rar"
+                onChange={handleFileInputChange}
+              />
+              
+              {isMobile ? (
+                // Mobile: Show camera and gallery options
+                <div className="flex gap-2">
+                  <Button 
+                    onClick={handleCameraCapture} 
+                    disabled={isUploading}
+                    size="sm"
+                    data-testid="button-camera-capture"
+                  >
+                    {isUploading ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Camera className="h-4 w-4 mr-2" />
+                    )}
+                    {isUploading ? 'Uploading...' : 'Camera'}
+                  </Button>
+                  <Button 
+                    onClick={handleGallerySelect} 
+                    disabled={isUploading}
+                    variant="outline"
+                    size="sm"
+                    data-testid="button-gallery-select"
+                  >
+                    <FolderOpen className="h-4 w-4 mr-2" />
+                    Gallery
+                  </Button>
+                </div>
+              ) : (
+                // Desktop: Show single upload button
                 <Button 
-                  onClick={handleCameraCapture} 
+                  onClick={triggerFileInput} 
                   disabled={isUploading}
-                  size="sm"
-                  data-testid="button-camera-capture"
+                  data-testid="button-upload-attachment"
                 >
                   {isUploading ? (
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                   ) : (
-                    <Camera className="h-4 w-4 mr-2" />
+                    <Upload className="h-4 w-4 mr-2" />
                   )}
-                  {isUploading ? 'Uploading...' : 'Camera'}
-                </Button>
-                <Button 
-                  onClick={handleGallerySelect} 
-                  disabled={isUploading}
-                  variant="outline"
-                  size="sm"
-                  data-testid="button-gallery-select"
-                >
-                  <FolderOpen className="h-4 w-4 mr-2" />
-                  Gallery
+                  {isUploading ? 'Uploading...' : 'Upload Files'}
                 </Button>
-              </div>
-            ) : (
-              // Desktop: Show single upload button
-              <Button 
-                onClick={triggerFileInput} 
-                disabled={isUploading}
-                data-testid="button-upload-attachment"
-              >
-                {isUploading ? (
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                ) : (
-                  <Upload className="h-4 w-4 mr-2" />
-                )}
-                {isUploading ? 'Uploading...' : 'Upload Files'}
-              </Button>
-            )}
-          </div>
+              )}
+            </div>
+          )}
         </div>
       </CardHeader>
       <CardContent>
@@ -341,7 +345,7 @@ export default function AttachmentGallery({
                           <Download className="h-4 w-4 mr-2" />
                           Download
                         </DropdownMenuItem>
-                        {onEdit && (
+                        {onEdit && !readOnly && (
                           <DropdownMenuItem 
                             onClick={(e) => {
                               e.stopPropagation();
@@ -353,7 +357,7 @@ export default function AttachmentGallery({
                             Edit
                           </DropdownMenuItem>
                         )}
-                        {isImage && onSetThumbnail && (
+                        {isImage && onSetThumbnail && !readOnly && (
                           <DropdownMenuItem 
                             onClick={(e) => {
                               e.stopPropagation();
@@ -365,22 +369,24 @@ export default function AttachmentGallery({
                             {isThumbnail ? 'Remove as Thumbnail' : 'Set as Thumbnail'}
                           </DropdownMenuItem>
                         )}
-                        <DropdownMenuItem 
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            onDelete(attachment.id);
-                          }}
-                          className="text-destructive"
-                          disabled={isDeleting}
-                          data-testid={`button-delete-attachment-${attachment.id}`}
-                        >
-                          {isDeleting ? (
-                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                          ) : (
-                            <Trash2 className="h-4 w-4 mr-2" />
-                          )}
-                          Delete
-                        </DropdownMenuItem>
+                        {!readOnly && (
+                          <DropdownMenuItem 
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onDelete(attachment.id);
+                            }}
+                            className="text-destructive"
+                            disabled={isDeleting}
+                            data-testid={`button-delete-attachment-${attachment.id}`}
+                          >
+                            {isDeleting ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <Trash2 className="h-4 w-4 mr-2" />
+                            )}
+                            Delete
+                          </DropdownMenuItem>
+                        )}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </div>
@@ -0,0 +1,139 @@
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History, Loader2, User } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { AuditEvent, AuditEntityType } from "@shared/schema";
+
+interface AuditHistoryProps {
+  // Which asset's change log to show; includes changes to its child records
+  assetType: "mower" | "engine" | "part";
+  assetId: string;
+}
+
+const entityLabels: Record<AuditEntityType, string> = {
+  mower: "Mower",
+  engine: "Engine",
+  part: "Part",
+  asset_part: "Part allocation",
+  task: "Task",
+  service_record: "Service record",
+  attachment: "Attachment",
+  meter_reading: "Meter reading",
+  work_order: "Work order",
+};
+
+const actionColors = {
+  create: "bg-accent-teal/10 text-accent-teal",
+  update: "bg-accent-blue/10 text-accent-blue",
+  delete: "bg-accent-orange/10 text-accent-orange",
+};
+
+// Fields that identify a record in create/delete summaries, in order of preference
+const SUMMARY_FIELDS = ["name", "title", "fileName", "serviceType", "make", "partNumber"];
+
+function formatFieldName(field: string) {
+  return field
+    .replace(/Id$/, "")
+    .replace(/([A-Z])/g, " $1")
+    .replace(/^./, (c) => c.toUpperCase());
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleString();
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function summarize(event: AuditEvent) {
+  const side = event.action === "delete" ? "before" : "after";
+  const field = SUMMARY_FIELDS.find((f) => event.changes[f]?.[side]);
+  return field ? formatValue(event.changes[field][side]) : `#${event.entityId}`;
+}
+
+export default function AuditHistory({ assetType, assetId }: AuditHistoryProps) {
+  const filterKey = `${assetType}Id`;
+
+  const { data: events = [], isLoading, error } = useQuery<AuditEvent[]>({
+    queryKey: ['/api/audit', filterKey, assetId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/audit?${filterKey}=${encodeURIComponent(assetId)}&limit=200`);
+      return response.json();
+    },
+    enabled: !!assetId,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span>Loading history...</span>
+          </div>
+        ) : error ? (
+          <p className="text-destructive text-center py-8">Failed to load history</p>
+        ) : events.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8" data-testid="text-no-history">
+            No changes recorded yet.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {events.map((event) => {
+              const changedFields = Object.entries(event.changes);
+              return (
+                <div key={event.id} className="border rounded-lg p-4" data-testid={`audit-event-${event.id}`}>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge className={actionColors[event.action as keyof typeof actionColors]}>
+                        {event.action.charAt(0).toUpperCase() + event.action.slice(1)}
+                      </Badge>
+                      <span className="font-medium">
+                        {entityLabels[event.entityType as AuditEntityType] ?? event.entityType}
+                      </span>
+                      {event.action !== "update" && (
+                        <span className="text-muted-foreground">{summarize(event)}</span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <User className="h-3 w-3" />
+                        {event.actorName ?? "System"}
+                      </span>
+                      <span title={new Date(event.createdAt).toLocaleString()}>
+                        {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                      </span>
+                    </div>
+                  </div>
+
+                  {event.action === "update" && changedFields.length > 0 && (
+                    <div className="mt-3 space-y-1 text-sm">
+                      {changedFields.map(([field, change]) => (
+                        <div key={field} className="flex flex-wrap gap-2">
+                          <span className="text-muted-foreground min-w-[140px]">{formatFieldName(field)}</span>
+                          <span className="line-through text-muted-foreground">{formatValue(change.before)}</span>
+                          <span>→</span>
+                          <span className="font-medium">{formatValue(change.after)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Copy, Link2, Loader2, RefreshCw, Rss } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const SUBSCRIPTION_QUERY_KEY = ['/api/calendar/subscription'];
+
+interface CalendarSubscription {
+  url: string | null;
+}
+
+/**
+ * The signed-in user's iCalendar feed URL, for subscribing from Outlook or
+ * Google Calendar. Anyone with the URL can read the calendar, so it can be
+ * reset (the old URL stops working) or turned off.
+ */
+export default function CalendarSubscriptionDialog() {
+  const { toast } = useToast();
+
+  const { data: subscription, isLoading } = useQuery<CalendarSubscription>({
+    queryKey: SUBSCRIPTION_QUERY_KEY,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/calendar/subscription');
+      return response.json() as Promise<CalendarSubscription>;
+    },
+    onSuccess: (data) => queryClient.setQueryData(SUBSCRIPTION_QUERY_KEY, data),
+    onError: () => toast({ title: "Error", description: "Failed to create the feed URL", variant: "destructive" }),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', '/api/calendar/subscription');
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(SUBSCRIPTION_QUERY_KEY, { url: null });
+      toast({ title: "Calendar feed turned off" });
+    },
+    onError: () => toast({ title: "Error", description: "Failed to turn off the feed", variant: "destructive" }),
+  });
+
+  const copyUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Feed URL copied" });
+    } catch {
+      toast({ title: "Could not copy", description: "Select the URL and copy it instead", variant: "destructive" });
+    }
+  };
+
+  const isPending = createMutation.isPending || revokeMutation.isPending;
+  const url = subscription?.url ?? null;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2" data-testid="button-calendar-subscribe">
+          <Rss className="h-4 w-4" />
+          Subscribe
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Subscribe to the fleet calendar</DialogTitle>
+          <DialogDescription>
+            Add this URL to Outlook ("Subscribe from web") or Google Calendar ("From URL") to see service dates,
+            appointments, task due dates and warranty expirations there. It is read-only and updates about hourly.
+            Anyone with the URL can read the calendar, so keep it private.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-text-muted" />
+          </div>
+        ) : url ? (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input readOnly value={url} onFocus={(e) => e.target.select()} data-testid="input-calendar-feed-url" />
+              <Button type="button" variant="outline" size="icon" onClick={() => copyUrl(url)} data-testid="button-copy-feed-url">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex justify-between gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isPending}
+                onClick={() => createMutation.mutate()}
+                className="flex items-center gap-2"
+                data-testid="button-reset-feed-url"
+              >
+                <RefreshCw className="h-4 w-4" />
+                Reset URL
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                disabled={isPending}
+                onClick={() => revokeMutation.mutate()}
+                className="text-destructive"
+                data-testid="button-revoke-feed-url"
+              >
+                Turn off feed
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            type="button"
+            disabled={isPending}
+            onClick={() => createMutation.mutate()}
+            className="flex items-center gap-2"
+            data-testid="button-create-feed-url"
+          >
+            {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+            Create feed URL
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { useCameraCapture } from '@/hooks/useCameraCapture';
+import { useAuth } from '@/contexts/AuthContext';
 import AttachmentGallery from './AttachmentGallery';
 import AttachmentMetadataDialog from './AttachmentMetadataDialog';
 import EditAttachmentDialog from './EditAttachmentDialog';
@@ -25,6 +26,7 @@ export default function GenericAttachmentGallery({
 }: GenericAttachmentGalleryProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAuth();
   
   // State for file upload and dialogs
   const [pendingFiles, setPendingFiles] = useState<File[]>([]);
@@ -165,7 +167,7 @@ export default function GenericAttachmentGallery({
   const handleEditAttachment = (attachmentId: string) => {
     const attachment = attachments.find(a => a.id === attachmentId);
     if (attachment) {
-      setEditingAttachment({ ...attachment, fileData: '' });
+      setEditingAttachment({ ...attachment, legacyFileData: null, textContent: null });
       setShowEditAttachmentDialog(true);
     }
   };
@@ -228,6 +230,7 @@ export default function GenericAttachmentGallery({
         thumbnailAttachmentId={thumbnailAttachmentId}
         isUploading={uploadAttachmentMutation.isPending}
         isDeleting={false}
+        readOnly={!can('attachments:write')}
       />
 
       {/* Dialogs */}
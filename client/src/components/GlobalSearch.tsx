@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Button } from "@/components/ui/button";
+import { ClipboardList, Cog, FileText, Loader2, Package, Search, Tractor, Wrench } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { SearchEntityType, SearchResponse } from "@shared/schema";
+
+const groupLabels: Record<SearchEntityType, string> = {
+  mower: "Mowers",
+  engine: "Engines",
+  part: "Parts",
+  service_record: "Service Records",
+  task: "Tasks",
+  attachment: "Attachments",
+};
+
+const groupIcons: Record<SearchEntityType, typeof Search> = {
+  mower: Tractor,
+  engine: Cog,
+  part: Package,
+  service_record: Wrench,
+  task: ClipboardList,
+  attachment: FileText,
+};
+
+// Matches the server's minimum query length
+const MIN_QUERY_LENGTH = 2;
+
+export function GlobalSearch() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+
+  // Debounce typing so we search once the user pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  // Ctrl/Cmd+K opens search from anywhere
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((value) => !value);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const { data, isFetching } = useQuery<SearchResponse>({
+    queryKey: ['/api/search', query],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/search?q=${encodeURIComponent(query)}&limit=5`);
+      return response.json();
+    },
+    enabled: open && query.length >= MIN_QUERY_LENGTH,
+    staleTime: 30 * 1000,
+  });
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) setInput("");
+  };
+
+  const handleSelect = (url: string) => {
+    handleOpenChange(false);
+    setLocation(url);
+  };
+
+  const hasQuery = query.length >= MIN_QUERY_LENGTH;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setOpen(true)}
+        className="h-9 w-9 p-0 md:w-64 md:justify-start md:px-3 text-text-muted"
+        data-testid="button-global-search"
+      >
+        <Search className="h-4 w-4 md:mr-2" />
+        <span className="hidden md:inline flex-1 text-left">Search...</span>
+        <kbd className="hidden md:inline text-xs border rounded px-1.5 py-0.5 bg-muted">Ctrl K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg max-w-2xl">
+          <DialogTitle className="sr-only">Search</DialogTitle>
+          {/* Results are ranked by the server, so cmdk's own filtering is disabled */}
+          <Command shouldFilter={false}>
+            <CommandInput
+              value={input}
+              onValueChange={setInput}
+              placeholder="Search serial numbers, part numbers, notes, manuals..."
+              data-testid="input-global-search"
+            />
+            <CommandList className="max-h-[60vh]">
+              {!hasQuery ? (
+                <div className="py-6 text-center text-sm text-muted-foreground">
+                  Type at least {MIN_QUERY_LENGTH} characters to search
+                </div>
+              ) : isFetching && !data ? (
+                <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Searching...
+                </div>
+              ) : (
+                <CommandEmpty>No results for "{query}"</CommandEmpty>
+              )}
+              {hasQuery && data?.groups.map((group) => {
+                const Icon = groupIcons[group.entityType];
+                return (
+                  <CommandGroup key={group.entityType} heading={groupLabels[group.entityType]}>
+                    {group.results.map((result) => (
+                      <CommandItem
+                        key={`${result.entityType}-${result.id}`}
+                        value={`${result.entityType}-${result.id}`}
+                        onSelect={() => handleSelect(result.url)}
+                        className="items-start gap-3"
+                        data-testid={`search-result-${result.entityType}-${result.id}`}
+                      >
+                        <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                        <div className="min-w-0">
+                          <div className="font-medium truncate">{result.title}</div>
+                          {result.subtitle && (
+                            <div className="text-xs text-muted-foreground truncate">{result.subtitle}</div>
+                          )}
+                          {result.snippet && (
+                            <div className="text-xs text-muted-foreground line-clamp-2">{result.snippet}</div>
+                          )}
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,69 @@
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+interface ListPaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+  itemLabel?: string;
+}
+
+// Number of page buttons shown around the current page
+const PAGE_BUTTONS = 5;
+
+export default function ListPagination({ page, pageSize, total, onPageChange, itemLabel = "items" }: ListPaginationProps) {
+  const totalPages = Math.ceil(total / pageSize);
+  if (totalPages <= 1) return null;
+
+  const firstButton = Math.max(1, Math.min(page - Math.floor(PAGE_BUTTONS / 2), totalPages - PAGE_BUTTONS + 1));
+  const pages = Array.from({ length: Math.min(PAGE_BUTTONS, totalPages) }, (_, i) => firstButton + i);
+
+  return (
+    <div className="flex items-center justify-between pt-6 border-t border-card-border" data-testid="list-pagination">
+      <div className="text-sm text-text-muted">
+        Showing {((page - 1) * pageSize) + 1} to {Math.min(page * pageSize, total)} of {total} {itemLabel}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(Math.max(1, page - 1))}
+          disabled={page === 1}
+          data-testid="button-previous-page"
+        >
+          <ChevronLeft className="h-4 w-4" />
+          Previous
+        </Button>
+
+        <div className="flex items-center gap-1">
+          {firstButton > 1 && <span className="text-text-muted">...</span>}
+          {pages.map((pageNumber) => (
+            <Button
+              key={pageNumber}
+              variant={page === pageNumber ? "default" : "outline"}
+              size="sm"
+              onClick={() => onPageChange(pageNumber)}
+              className="w-8 h-8 p-0"
+            >
+              {pageNumber}
+            </Button>
+          ))}
+          {firstButton + pages.length - 1 < totalPages && <span className="text-text-muted">...</span>}
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(Math.min(totalPages, page + 1))}
+          disabled={page === totalPages}
+          data-testid="button-next-page"
+        >
+          Next
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
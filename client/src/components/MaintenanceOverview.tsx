@@ -2,22 +2,18 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Calendar, Wrench, DollarSign, ChevronRight, AlertTriangle, TrendingUp, Clock } from "lucide-react";
-import type { ServiceRecord } from "@shared/schema";
+import type { ServiceRecord, MaintenanceSchedule } from "@shared/schema";
 
 interface MaintenanceOverviewProps {
   serviceRecords: ServiceRecord[];
+  schedule?: MaintenanceSchedule; // from the mower's maintenance plan
   onViewDetails?: () => void;
 }
 
-// Service intervals in days
-const SERVICE_INTERVALS = {
-  maintenance: 90,
-  inspection: 180,
-  repair: 0, // repairs don't have regular intervals
-  warranty: 0
-};
+export default function MaintenanceOverview({ serviceRecords: allRecords, schedule, onViewDetails }: MaintenanceOverviewProps) {
+  // Booked appointments are not history yet
+  const serviceRecords = allRecords.filter(r => r.status === 'completed');
 
-export default function MaintenanceOverview({ serviceRecords, onViewDetails }: MaintenanceOverviewProps) {
   // Sort records by date (newest first)
   const sortedRecords = serviceRecords
     .sort((a, b) => new Date(b.serviceDate).getTime() - new Date(a.serviceDate).getTime());
@@ -55,55 +51,15 @@ export default function MaintenanceOverview({ serviceRecords, onViewDetails }: M
   const repairCount = recentRecords.filter(r => r.serviceType === 'repair').length;
   const repairRatio = recentRecords.length > 0 ? (repairCount / recentRecords.length) * 100 : 0;
 
-  // Calculate upcoming maintenance
-  const getUpcomingMaintenance = () => {
-    const upcoming: Array<{
-      type: string;
-      lastDate: Date | null;
-      nextDue: Date;
-      daysUntilDue: number;
-      status: 'overdue' | 'due_soon' | 'upcoming';
-    }> = [];
-
-    Object.entries(SERVICE_INTERVALS).forEach(([serviceType, intervalDays]) => {
-      if (intervalDays === 0) return; // Skip non-recurring services
-
-      const lastService = serviceRecords
-        .filter(r => r.serviceType === serviceType)
-        .sort((a, b) => new Date(b.serviceDate).getTime() - new Date(a.serviceDate).getTime())[0];
-
-      if (lastService || serviceRecords.length === 0) {
-        const lastDate = lastService ? new Date(lastService.serviceDate) : null;
-        const nextDue = new Date();
-        
-        if (lastDate) {
-          nextDue.setTime(lastDate.getTime() + intervalDays * 24 * 60 * 60 * 1000);
-        } else {
-          // If no service history, assume due in standard interval from now
-          nextDue.setTime(Date.now() + intervalDays * 24 * 60 * 60 * 1000);
-        }
-
-        const daysUntilDue = Math.floor((nextDue.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
-        
-        let status: 'overdue' | 'due_soon' | 'upcoming';
-        if (daysUntilDue < 0) status = 'overdue';
-        else if (daysUntilDue <= 30) status = 'due_soon';
-        else status = 'upcoming';
-
-        upcoming.push({
-          type: serviceType,
-          lastDate,
-          nextDue,
-          daysUntilDue,
-          status
-        });
-      }
-    });
-
-    return upcoming.sort((a, b) => a.daysUntilDue - b.daysUntilDue);
-  };
-
-  const upcomingMaintenance = getUpcomingMaintenance();
+  // Plan items, most urgent first (already sorted by the server)
+  const upcomingMaintenance = (schedule?.items ?? []).map(item => ({
+    type: item.name,
+    nextDue: item.nextDueDate ? new Date(item.nextDueDate) : null,
+    daysUntilDue: item.daysUntilDue,
+    hoursUntilDue: item.hoursUntilDue,
+    dueBy: item.dueBy,
+    status: item.status,
+  }));
 
   if (serviceRecords.length === 0) {
     return (
@@ -185,7 +141,16 @@ export default function MaintenanceOverview({ serviceRecords, onViewDetails }: M
             <h4 className="font-semibold mb-3 flex items-center gap-2">
               <Clock className="h-4 w-4" />
               Scheduled Maintenance
+              {schedule?.plan && (
+                <span className="text-xs font-normal text-muted-foreground">({schedule.plan.name})</span>
+              )}
             </h4>
+            {schedule?.currentHours !== null && schedule?.currentHours !== undefined && (
+              <p className="text-xs text-muted-foreground mb-2" data-testid="text-hour-meter">
+                Hour meter: {schedule.currentHours} h
+                {schedule.hoursPerDay !== null && ` · about ${(schedule.hoursPerDay * 7).toFixed(1)} h per week`}
+              </p>
+            )}
             <div className="space-y-2">
               {upcomingMaintenance.slice(0, 3).map((item, index) => (
                 <div 
@@ -205,20 +170,22 @@ export default function MaintenanceOverview({ serviceRecords, onViewDetails }: M
                       {item.type}
                     </Badge>
                     <span className="text-sm">
-                      {item.status === 'overdue' ? (
-                        <>
-                          <AlertTriangle className="h-3 w-3 inline mr-1 text-destructive" />
-                          {Math.abs(item.daysUntilDue)} days overdue
-                        </>
-                      ) : item.status === 'due_soon' ? (
-                        `Due in ${item.daysUntilDue} days`
-                      ) : (
-                        `Due in ${item.daysUntilDue} days`
+                      {item.status === 'overdue' && (
+                        <AlertTriangle className="h-3 w-3 inline mr-1 text-destructive" />
+                      )}
+                      {item.hoursUntilDue !== null && (item.dueBy === 'hours' || item.hoursUntilDue < 0) ? (
+                        item.hoursUntilDue < 0
+                          ? `${Math.abs(item.hoursUntilDue)} hours overdue`
+                          : `Due in ${item.hoursUntilDue} hours`
+                      ) : item.daysUntilDue !== null && (
+                        item.daysUntilDue < 0
+                          ? `${Math.abs(item.daysUntilDue)} days overdue`
+                          : `Due in ${item.daysUntilDue} days`
                       )}
                     </span>
                   </div>
                   <div className="text-xs text-muted-foreground">
-                    {item.nextDue.toLocaleDateString()}
+                    {item.nextDue ? item.nextDue.toLocaleDateString() : 'No usage estimate yet'}
                   </div>
                 </div>
               ))}
@@ -0,0 +1,434 @@
+import { useState } from "react";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, Edit, Loader2, Plus, Trash2, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { MaintenancePlanWithItems } from "@shared/schema";
+
+const SERVICE_TYPES = ["maintenance", "inspection", "repair", "warranty"] as const;
+
+// Blank interval inputs mean "no trigger of this kind"
+const optionalInterval = (unit: string) => z.preprocess(
+  (value) => (value === "" || value === undefined ? null : value),
+  z.coerce.number().int().min(1, `At least 1 ${unit}`).nullable(),
+);
+
+const planFormSchema = z.object({
+  name: z.string().trim().min(1, "Plan name is required"),
+  description: z.string().optional(),
+  make: z.string().optional(),
+  model: z.string().optional(),
+  items: z.array(z.object({
+    name: z.string().trim().min(1, "Item name is required"),
+    serviceType: z.enum(SERVICE_TYPES),
+    matchText: z.string().optional(),
+    intervalDays: optionalInterval("day"),
+    intervalHours: optionalInterval("hour"),
+  }).refine((item) => item.intervalDays || item.intervalHours, {
+    message: "Days or hours",
+    path: ["intervalDays"],
+  })),
+}).refine((plan) => !plan.model?.trim() || plan.make?.trim(), {
+  message: "A plan for a model must also name the make",
+  path: ["model"],
+});
+
+type PlanFormData = z.infer<typeof planFormSchema>;
+
+const emptyItem: PlanFormData["items"][number] = { name: "", serviceType: "maintenance", matchText: "", intervalDays: 90, intervalHours: null };
+
+// apiRequest errors look like "400: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.details || parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+function describeInterval(item: { intervalDays: number | null; intervalHours: number | null }) {
+  const triggers = [
+    item.intervalDays && `${item.intervalDays} days`,
+    item.intervalHours && `${item.intervalHours} hours`,
+  ].filter(Boolean);
+  return `every ${triggers.join(" or ")}`;
+}
+
+function describeScope(plan: MaintenancePlanWithItems) {
+  if (!plan.make) return "Assigned mowers only";
+  return plan.model ? `${plan.make} ${plan.model}` : `All ${plan.make} models`;
+}
+
+function toFormData(plan: MaintenancePlanWithItems | null): PlanFormData {
+  if (!plan) return { name: "", description: "", make: "", model: "", items: [{ ...emptyItem }] };
+  return {
+    name: plan.name,
+    description: plan.description || "",
+    make: plan.make || "",
+    model: plan.model || "",
+    items: plan.items.map((item) => ({
+      name: item.name,
+      serviceType: (SERVICE_TYPES as readonly string[]).includes(item.serviceType)
+        ? item.serviceType as typeof SERVICE_TYPES[number]
+        : "maintenance",
+      matchText: item.matchText || "",
+      intervalDays: item.intervalDays,
+      intervalHours: item.intervalHours,
+    })),
+  };
+}
+
+export default function MaintenancePlanManagement() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEditPlans = can("plans:write");
+  const [editingPlan, setEditingPlan] = useState<MaintenancePlanWithItems | null>(null);
+  const [showPlanDialog, setShowPlanDialog] = useState(false);
+  const [planToDelete, setPlanToDelete] = useState<MaintenancePlanWithItems | null>(null);
+
+  const { data: plans = [], isLoading } = useQuery<MaintenancePlanWithItems[]>({
+    queryKey: ['/api/maintenance-plans'],
+  });
+
+  const form = useForm<PlanFormData>({
+    resolver: zodResolver(planFormSchema),
+    defaultValues: toFormData(null),
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "items" });
+
+  // Plans change next service dates and schedules, so refresh those too
+  const invalidatePlanQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/maintenance-plans'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/maintenance-schedule'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/mowers'] });
+  };
+
+  const savePlanMutation = useMutation({
+    mutationFn: async (data: PlanFormData) => {
+      const body = {
+        ...data,
+        description: data.description || null,
+        items: data.items.map((item) => ({ ...item, matchText: item.matchText || null })),
+      };
+      const response = editingPlan
+        ? await apiRequest('PUT', `/api/maintenance-plans/${editingPlan.id}`, body)
+        : await apiRequest('POST', '/api/maintenance-plans', body);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidatePlanQueries();
+      toast({ title: editingPlan ? "Plan updated" : "Plan created", description: "Next service dates have been recalculated." });
+      setShowPlanDialog(false);
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: extractErrorMessage(error, "Failed to save maintenance plan"), variant: "destructive" });
+    },
+  });
+
+  const deletePlanMutation = useMutation({
+    mutationFn: async (planId: number) => {
+      await apiRequest('DELETE', `/api/maintenance-plans/${planId}`);
+    },
+    onSuccess: () => {
+      invalidatePlanQueries();
+      toast({ title: "Plan deleted" });
+      setPlanToDelete(null);
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: extractErrorMessage(error, "Failed to delete maintenance plan"), variant: "destructive" });
+    },
+  });
+
+  const openPlanDialog = (plan: MaintenancePlanWithItems | null) => {
+    setEditingPlan(plan);
+    form.reset(toFormData(plan));
+    setShowPlanDialog(true);
+  };
+
+  return (
+    <Card className="bg-white border-card-border shadow-card hover:shadow-md hover:border-accent-teal transition-all duration-200">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-text-primary">
+              <CalendarClock className="h-5 w-5 text-accent-teal" />
+              Maintenance Plans
+            </CardTitle>
+            <CardDescription className="text-text-muted">
+              Recurring service intervals, applied to mowers by make/model or assigned on the mower itself
+            </CardDescription>
+          </div>
+          {canEditPlans && (
+            <Button
+              onClick={() => openPlanDialog(null)}
+              className="bg-accent-teal text-white hover:bg-accent-teal/90 rounded-button"
+              data-testid="button-add-plan"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Plan
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span>Loading maintenance plans...</span>
+          </div>
+        ) : plans.length === 0 ? (
+          <div className="text-center py-8 text-text-muted">
+            <CalendarClock className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No maintenance plans yet</p>
+            <p className="text-sm">Without a plan, mowers are due for service 12 months after their last service</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Plan</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Items</TableHead>
+                {canEditPlans && <TableHead></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plans.map((plan) => (
+                <TableRow key={plan.id} data-testid={`row-plan-${plan.id}`}>
+                  <TableCell>
+                    <div className="font-medium">{plan.name}</div>
+                    {plan.description && <div className="text-sm text-text-muted">{plan.description}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm">{describeScope(plan)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {plan.items.map((item) => (
+                        <Badge key={item.id} variant="secondary" className="text-xs">
+                          {item.name} · {describeInterval(item)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  {canEditPlans && (
+                    <TableCell className="whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => openPlanDialog(plan)} data-testid={`button-edit-plan-${plan.id}`}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setPlanToDelete(plan)} data-testid={`button-delete-plan-${plan.id}`}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Add/Edit Plan Dialog */}
+      <Dialog open={showPlanDialog} onOpenChange={setShowPlanDialog}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPlan ? `Edit ${editingPlan.name}` : "Add Maintenance Plan"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => savePlanMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Toro TimeCutter standard" {...field} data-testid="input-plan-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} placeholder="Optional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="make"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Make</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Blank = assigned mowers only" {...field} data-testid="input-plan-make" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="model"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Model</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Blank = every model of the make" {...field} data-testid="input-plan-model" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="border-t pt-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="font-semibold">Items</h3>
+                    <p className="text-sm text-text-muted">
+                      An item is done by a service record of its type whose description contains the match text (any record of the type when blank).
+                      It is due after the days or hours of use, whichever comes first.
+                    </p>
+                  </div>
+                  <Button type="button" variant="outline" size="sm" onClick={() => append({ ...emptyItem })} data-testid="button-add-plan-item">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Item
+                  </Button>
+                </div>
+
+                {fields.map((item, index) => (
+                  <div key={item.id} className="grid grid-cols-12 gap-2 items-start" data-testid={`plan-item-${index}`}>
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.name`}
+                      render={({ field }) => (
+                        <FormItem className="col-span-3">
+                          <FormControl>
+                            <Input placeholder="Oil change" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.serviceType`}
+                      render={({ field }) => (
+                        <FormItem className="col-span-2">
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {SERVICE_TYPES.map((type) => (
+                                <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.matchText`}
+                      render={({ field }) => (
+                        <FormItem className="col-span-2">
+                          <FormControl>
+                            <Input placeholder="Match text, e.g. oil" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.intervalDays`}
+                      render={({ field }) => (
+                        <FormItem className="col-span-2">
+                          <FormControl>
+                            <Input type="number" min={1} placeholder="Days" {...field} value={field.value ?? ""} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.intervalHours`}
+                      render={({ field }) => (
+                        <FormItem className="col-span-2">
+                          <FormControl>
+                            <Input type="number" min={1} placeholder="Hours" {...field} value={field.value ?? ""} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="button" variant="ghost" size="sm" className="col-span-1" onClick={() => remove(index)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setShowPlanDialog(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={savePlanMutation.isPending} data-testid="button-save-plan">
+                  {savePlanMutation.isPending ? "Saving..." : "Save Plan"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Plan Dialog */}
+      <AlertDialog open={!!planToDelete} onOpenChange={(open) => !open && setPlanToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {planToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Mowers assigned this plan fall back to the plan matching their make/model. Service records are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => planToDelete && deletePlanMutation.mutate(planToDelete.id)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Gauge, Loader2, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { safeFormatDateForDisplay } from "@/lib/utils";
+import type { MeterReading, MeterReadingHistory } from "@shared/schema";
+
+interface MeterReadingsProps {
+  assetType: "mower" | "engine";
+  assetId: string;
+}
+
+const readingFormSchema = z.object({
+  hours: z.coerce.number().int("Whole hours only").min(0, "Hours cannot be negative"),
+  readingDate: z.string().min(1, "Reading date is required"),
+  isMeterReplacement: z.boolean(),
+  notes: z.string().optional(),
+});
+
+type ReadingFormData = z.infer<typeof readingFormSchema>;
+
+const chartConfig = {
+  totalHours: { label: "Hours", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+// apiRequest errors look like "400: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.details || parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+function today() {
+  return new Date().toISOString().split("T")[0];
+}
+
+export default function MeterReadings({ assetType, assetId }: MeterReadingsProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canWrite = can("readings:write");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [deletingReading, setDeletingReading] = useState<MeterReading | null>(null);
+
+  const readingsQueryKey = [`/api/${assetType}s`, assetId, 'meter-readings'];
+  const { data: history, isLoading } = useQuery<MeterReadingHistory>({
+    queryKey: readingsQueryKey,
+    enabled: !!assetId,
+  });
+
+  const form = useForm<ReadingFormData>({
+    resolver: zodResolver(readingFormSchema),
+    defaultValues: { hours: undefined, readingDate: today(), isMeterReplacement: false, notes: "" },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: readingsQueryKey });
+    if (assetType === "mower") {
+      queryClient.invalidateQueries({ queryKey: ['/api/mowers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/maintenance-schedule'] });
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: ReadingFormData) => {
+      const response = await apiRequest("POST", `/api/${assetType}s/${assetId}/meter-readings`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setIsDialogOpen(false);
+      toast({ title: "Reading recorded", description: "The hour meter has been updated." });
+    },
+    onError: (error) => {
+      toast({ title: "Could not record reading", description: extractErrorMessage(error, "Failed to record reading"), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/meter-readings/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      setDeletingReading(null);
+      toast({ title: "Reading deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: extractErrorMessage(error, "Failed to delete reading"), variant: "destructive" });
+    },
+  });
+
+  const openDialog = () => {
+    form.reset({ hours: undefined, readingDate: today(), isMeterReplacement: false, notes: "" });
+    setIsDialogOpen(true);
+  };
+
+  const chartData = (history?.points ?? []).map((point) => ({
+    date: safeFormatDateForDisplay(point.date),
+    totalHours: point.totalHours,
+  }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Hour Meter
+          </CardTitle>
+          <CardDescription>
+            {history?.currentHours != null ? `${history.currentHours} h on the meter` : "No readings yet"}
+            {history?.hoursPerWeek != null && ` · about ${history.hoursPerWeek} h per week`}
+          </CardDescription>
+        </div>
+        {canWrite && (
+          <Button size="sm" onClick={openDialog} data-testid="button-record-reading">
+            <Plus className="h-4 w-4 mr-2" />
+            Record Reading
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading readings...
+          </div>
+        ) : (
+          <>
+            {chartData.length >= 2 && (
+              <ChartContainer config={chartConfig} className="h-56 w-full">
+                <LineChart data={chartData} margin={{ left: 4, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line dataKey="totalHours" type="monotone" stroke="var(--color-totalHours)" strokeWidth={2} dot />
+                </LineChart>
+              </ChartContainer>
+            )}
+
+            {(history?.readings.length ?? 0) === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                {assetType === "mower"
+                  ? "Readings entered here or on service records show up in this log."
+                  : "Record a reading to start tracking this engine's hours."}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Hours</TableHead>
+                    <TableHead>Notes</TableHead>
+                    {canWrite && <TableHead className="w-12" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history!.readings.map((reading) => (
+                    <TableRow key={reading.id} data-testid={`row-meter-reading-${reading.id}`}>
+                      <TableCell>{safeFormatDateForDisplay(reading.readingDate)}</TableCell>
+                      <TableCell>
+                        {reading.hours} h
+                        {reading.isMeterReplacement && (
+                          <Badge variant="outline" className="ml-2">New meter</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{reading.notes || "—"}</TableCell>
+                      {canWrite && (
+                        <TableCell>
+                          <Button variant="ghost" size="icon" onClick={() => setDeletingReading(reading)} data-testid={`button-delete-reading-${reading.id}`}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Hour Meter Reading</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="hours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hours</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} value={field.value ?? ""} data-testid="input-reading-hours" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="readingDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-reading-date" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="isMeterReplacement"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} data-testid="checkbox-meter-replacement" />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Meter was replaced</FormLabel>
+                      <FormDescription>The first reading of a new meter may be lower than the last one.</FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createMutation.isPending} data-testid="button-save-reading">
+                  {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Reading
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingReading} onOpenChange={(open) => !open && setDeletingReading(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Reading</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete the reading of {deletingReading?.hours} h from {deletingReading && safeFormatDateForDisplay(deletingReading.readingDate)}?
+              {assetType === "mower" && " The mower's hour meter falls back to its previous reading."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingReading && deleteMutation.mutate(deletingReading.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
@@ -12,7 +13,10 @@ import { InfoIcon } from "lucide-react";
 import { addMonths } from "date-fns";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import UnifiedFileUploadArea from "@/components/UnifiedFileUploadArea";
-import type { InsertMower } from "@shared/schema";
+import type { InsertMower, MaintenancePlanWithItems } from "@shared/schema";
+
+// Select value for "use the plan matching the make/model"
+const AUTO_PLAN = "auto";
 
 const mowerFormSchema = z.object({
   make: z.string().min(1, "Make is required"),
@@ -21,10 +25,13 @@ const mowerFormSchema = z.object({
   serialNumber: z.string().optional(),
   purchaseDate: z.string().optional(),
   purchasePrice: z.string().optional(),
+  warrantyExpirationDate: z.string().optional(),
   condition: z.enum(["excellent", "good", "fair", "poor"]),
   status: z.enum(["active", "maintenance", "retired"]),
   lastServiceDate: z.string().optional(),
   nextServiceDate: z.string().optional(),
+  maintenancePlanId: z.string(),
+  currentHours: z.number().int().min(0, "Hours cannot be negative").optional(),
   notes: z.string().optional(),
 });
 
@@ -48,10 +55,13 @@ interface MowerFormProps {
     serialNumber: string;
     purchaseDate: string | Date;
     purchasePrice: string;
+    warrantyExpirationDate: string | Date;
     condition: "excellent" | "good" | "fair" | "poor";
     status: "active" | "maintenance" | "retired";
     lastServiceDate: string | Date;
     nextServiceDate: string | Date;
+    maintenancePlanId: number | null;
+    currentHours: number | null;
     notes: string;
   }>;
   onSubmit: (data: InsertMower, attachments?: AttachmentFile[], thumbnail?: AttachmentFile) => void;
@@ -82,6 +92,11 @@ export default function MowerForm({
           : initialData.purchaseDate.toISOString().split('T')[0])
         : "",
       purchasePrice: initialData?.purchasePrice || "",
+      warrantyExpirationDate: initialData?.warrantyExpirationDate
+        ? (typeof initialData.warrantyExpirationDate === 'string'
+          ? initialData.warrantyExpirationDate.split('T')[0]
+          : initialData.warrantyExpirationDate.toISOString().split('T')[0])
+        : "",
       condition: initialData?.condition || "good",
       status: initialData?.status || "active",
       lastServiceDate: initialData?.lastServiceDate
@@ -94,10 +109,16 @@ export default function MowerForm({
           ? initialData.nextServiceDate.split('T')[0]
           : initialData.nextServiceDate.toISOString().split('T')[0])
         : "",
+      maintenancePlanId: initialData?.maintenancePlanId ? String(initialData.maintenancePlanId) : AUTO_PLAN,
+      currentHours: initialData?.currentHours ?? undefined,
       notes: initialData?.notes || "",
     },
   });
 
+  const { data: maintenancePlans = [] } = useQuery<MaintenancePlanWithItems[]>({
+    queryKey: ['/api/maintenance-plans'],
+  });
+
   // Watch for changes in lastServiceDate to auto-calculate nextServiceDate
   const lastServiceDate = form.watch('lastServiceDate');
   
@@ -121,8 +142,11 @@ export default function MowerForm({
     const apiData = {
       ...data,
       purchaseDate: data.purchaseDate || null,
+      warrantyExpirationDate: data.warrantyExpirationDate || null,
       lastServiceDate: data.lastServiceDate || null,
       nextServiceDate: data.nextServiceDate || null,
+      maintenancePlanId: data.maintenancePlanId === AUTO_PLAN ? null : parseInt(data.maintenancePlanId),
+      currentHours: data.currentHours ?? null,
     };
     
     onSubmit(apiData as any, attachments, thumbnail || undefined);
@@ -238,6 +262,20 @@ export default function MowerForm({
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="warrantyExpirationDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Warranty Expires</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-warranty-expiration" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -296,10 +334,58 @@ export default function MowerForm({
               <Alert className="mb-4">
                 <InfoIcon className="h-4 w-4" />
                 <AlertDescription>
-                  Next service date will automatically be set to 12 months after the last service date, but can be manually adjusted if needed.
+                  With a maintenance plan, the next service date is worked out from the plan after each service, using the hour meter for hour-based items. Without one it defaults to 12 months after the last service date, and can be manually adjusted if needed.
                 </AlertDescription>
               </Alert>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <FormField
+                  control={form.control}
+                  name="maintenancePlanId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Maintenance Plan</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-maintenance-plan">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={AUTO_PLAN}>Automatic (matched by make/model)</SelectItem>
+                          {maintenancePlans.map((plan) => (
+                            <SelectItem key={plan.id} value={String(plan.id)}>{plan.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="currentHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hour Meter</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder="Current reading in hours"
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : undefined)}
+                          data-testid="input-current-hours"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -0,0 +1,323 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { z } from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Loader2, RadioTower, Send } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { MqttSettingsView } from "@shared/schema";
+
+const MQTT_QUERY_KEY = ['/api/mqtt/settings'];
+
+const topicPrefix = z.string().trim().min(1, "Required")
+  .regex(/^[^#+/]+(\/[^#+/]+)*$/, "Use topic levels separated by /, without + or #");
+
+const mqttFormSchema = z.object({
+  enabled: z.boolean(),
+  brokerUrl: z.string().trim().regex(/^(mqtts?|wss?):\/\/[^/\s]+/i, "Use an mqtt://, mqtts://, ws:// or wss:// URL"),
+  username: z.string(),
+  password: z.string(),
+  topicPrefix,
+  discoveryEnabled: z.boolean(),
+  discoveryPrefix: topicPrefix,
+});
+
+type MqttFormData = z.infer<typeof mqttFormSchema>;
+
+// apiRequest errors look like "400: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed.details === "string" ? parsed.details : parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+/**
+ * Broker settings for the MQTT publisher: where it connects, the topic prefix
+ * for mower state and events, and Home Assistant discovery. The saved
+ * password is never sent back; leaving the field blank keeps it.
+ */
+export default function MqttSettings() {
+  const { toast } = useToast();
+  const [clearPassword, setClearPassword] = useState(false);
+
+  // Polled so the connection state follows the broker
+  const { data: view, isLoading } = useQuery<MqttSettingsView>({
+    queryKey: MQTT_QUERY_KEY,
+    refetchInterval: 10 * 1000,
+  });
+
+  const form = useForm<MqttFormData>({
+    resolver: zodResolver(mqttFormSchema),
+    defaultValues: {
+      enabled: false,
+      brokerUrl: "",
+      username: "",
+      password: "",
+      topicPrefix: "mowerm8",
+      discoveryEnabled: true,
+      discoveryPrefix: "homeassistant",
+    },
+  });
+  const discoveryEnabled = form.watch("discoveryEnabled");
+  const watchedPrefix = form.watch("topicPrefix");
+
+  const saved = view?.settings;
+  useEffect(() => {
+    if (!saved) return;
+    form.reset({
+      enabled: saved.enabled,
+      brokerUrl: saved.brokerUrl,
+      username: saved.username ?? "",
+      password: "",
+      topicPrefix: saved.topicPrefix,
+      discoveryEnabled: saved.discoveryEnabled,
+      discoveryPrefix: saved.discoveryPrefix,
+    });
+    setClearPassword(false);
+  }, [saved, form]);
+
+  // A blank password keeps the saved one unless it was cleared
+  const requestBody = (data: MqttFormData) => ({
+    ...data,
+    username: data.username || null,
+    password: data.password || (clearPassword ? "" : undefined),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: MqttFormData) => {
+      const response = await apiRequest('PUT', '/api/mqtt/settings', requestBody(data));
+      return response.json() as Promise<MqttSettingsView>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(MQTT_QUERY_KEY, data);
+      toast({ title: "MQTT settings saved", description: data.settings.enabled ? "The publisher is reconnecting" : "The publisher is off" });
+      // Give the new connection a moment before showing its state
+      setTimeout(() => queryClient.invalidateQueries({ queryKey: MQTT_QUERY_KEY }), 1500);
+    },
+    onError: (error) => {
+      toast({ title: "Could not save", description: extractErrorMessage(error, "Failed to save MQTT settings"), variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (data: MqttFormData) => {
+      await apiRequest('POST', '/api/mqtt/test', requestBody(data));
+    },
+    onSuccess: () => {
+      toast({ title: "Connected", description: `Published a test message to ${form.getValues("topicPrefix")}/test` });
+    },
+    onError: (error) => {
+      toast({ title: "Test failed", description: extractErrorMessage(error, "Could not reach the broker"), variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-text-muted" />
+      </div>
+    );
+  }
+
+  const status = view?.status;
+
+  return (
+    <Card className="bg-white border-card-border shadow-card">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-text-primary">
+              <RadioTower className="h-5 w-5 text-accent-teal" />
+              MQTT
+            </CardTitle>
+            <CardDescription className="text-text-muted mt-1.5">
+              Publish each mower's status, hours, next service date and open task count as retained topics, and every
+              live update as an event, to an MQTT broker such as Mosquitto.
+            </CardDescription>
+          </div>
+          {saved?.enabled && (
+            <Badge
+              variant="outline"
+              className={status?.connected
+                ? "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-400"
+                : "bg-red-100 text-red-800 border-red-200 dark:bg-red-900/20 dark:text-red-400"}
+              data-testid="badge-mqtt-status"
+            >
+              {status?.connected ? "Connected" : "Disconnected"}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {saved?.enabled && status?.lastError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{status.lastError}</AlertDescription>
+          </Alert>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4 max-w-2xl">
+            <FormField
+              control={form.control}
+              name="enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-3 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-mqtt-enabled" />
+                  </FormControl>
+                  <FormLabel className="font-normal">Publish to the broker</FormLabel>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="brokerUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Broker URL</FormLabel>
+                  <FormControl>
+                    <Input placeholder="mqtt://192.168.1.10:1883" {...field} data-testid="input-mqtt-broker-url" />
+                  </FormControl>
+                  <FormDescription>mqtt:// or mqtts:// for TCP, ws:// or wss:// for WebSockets</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="off" placeholder="Optional" {...field} data-testid="input-mqtt-username" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        autoComplete="new-password"
+                        placeholder={saved?.hasPassword && !clearPassword ? "Unchanged" : "Optional"}
+                        {...field}
+                        data-testid="input-mqtt-password"
+                      />
+                    </FormControl>
+                    {saved?.hasPassword && !clearPassword && (
+                      <button
+                        type="button"
+                        className="text-xs text-text-muted underline"
+                        onClick={() => setClearPassword(true)}
+                        data-testid="button-mqtt-clear-password"
+                      >
+                        Remove saved password
+                      </button>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="topicPrefix"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Topic prefix</FormLabel>
+                  <FormControl>
+                    <Input {...field} data-testid="input-mqtt-topic-prefix" />
+                  </FormControl>
+                  <FormDescription>
+                    Mowers go to {watchedPrefix || "prefix"}/mower/&lt;id&gt;/state, events to {watchedPrefix || "prefix"}/events/&lt;type&gt;,
+                    and {watchedPrefix || "prefix"}/status says online or offline
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="discoveryEnabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-3 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-mqtt-discovery" />
+                  </FormControl>
+                  <FormLabel className="font-normal">Home Assistant discovery (each mower shows up as a device)</FormLabel>
+                </FormItem>
+              )}
+            />
+            {discoveryEnabled && (
+              <FormField
+                control={form.control}
+                name="discoveryPrefix"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Discovery prefix</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-mqtt-discovery-prefix" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {status?.lastPublishedAt && (
+              <p className="text-sm text-text-muted">
+                Last published {format(new Date(status.lastPublishedAt), "d MMM yyyy HH:mm:ss")}
+              </p>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                disabled={testMutation.isPending}
+                onClick={form.handleSubmit((data) => testMutation.mutate(data))}
+                className="flex items-center gap-2"
+                data-testid="button-test-mqtt"
+              >
+                {testMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                Test Connection
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveMutation.isPending}
+                className="bg-accent-teal text-white hover:bg-accent-teal/90"
+                data-testid="button-save-mqtt"
+              >
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,324 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Loader2, Mail, RotateCw, Send } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  NOTIFICATION_PRIORITIES,
+  NOTIFICATION_TYPES,
+  type EmailDeliveryMode,
+  type NotificationDelivery,
+  type NotificationPreferencesView,
+} from "@shared/schema";
+
+const PREFERENCES_QUERY_KEY = ['/api/notification-preferences'];
+const DELIVERIES_QUERY_KEY = ['/api/notification-deliveries'];
+
+const TYPE_LABELS: Record<typeof NOTIFICATION_TYPES[number], string> = {
+  error: "Errors",
+  warning: "Warnings",
+  info: "Info",
+  success: "Success",
+};
+
+const DELIVERY_LABELS: Record<EmailDeliveryMode, string> = {
+  instant: "Instant",
+  digest: "Daily digest",
+  off: "Off",
+};
+
+const statusColors: Record<string, string> = {
+  sent: "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-400",
+  pending: "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400",
+  failed: "bg-red-100 text-red-800 border-red-200 dark:bg-red-900/20 dark:text-red-400",
+};
+
+const preferenceKey = (type: string, priority: string) => `${type}:${priority}`;
+
+// apiRequest errors look like "400: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed.details === "string" ? parsed.details : parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+/**
+ * The signed-in user's email notification settings: their address, how each
+ * notification type and priority is emailed (instant, daily digest or off),
+ * and the log of emails sent to them with a retry for failed ones.
+ */
+export default function NotificationPreferences() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [grid, setGrid] = useState<Record<string, EmailDeliveryMode>>({});
+
+  const { data: view, isLoading } = useQuery<NotificationPreferencesView>({
+    queryKey: PREFERENCES_QUERY_KEY,
+  });
+  const { data: deliveries = [] } = useQuery<NotificationDelivery[]>({
+    queryKey: DELIVERIES_QUERY_KEY,
+  });
+
+  useEffect(() => {
+    if (!view) return;
+    setEmail(view.email ?? "");
+    setGrid(Object.fromEntries(view.preferences.map((preference) => [preferenceKey(preference.type, preference.priority), preference.delivery])));
+  }, [view]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const preferences = NOTIFICATION_TYPES.flatMap((type) => NOTIFICATION_PRIORITIES.map((priority) => ({
+        type,
+        priority,
+        delivery: grid[preferenceKey(type, priority)] ?? "off",
+      })));
+      const response = await apiRequest('PUT', '/api/notification-preferences', { email, preferences });
+      return response.json() as Promise<NotificationPreferencesView>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(PREFERENCES_QUERY_KEY, data);
+      toast({ title: "Notification preferences saved" });
+    },
+    onError: (error) => {
+      toast({ title: "Could not save", description: extractErrorMessage(error, "Failed to save notification preferences"), variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/notification-preferences/test');
+      return response.json() as Promise<NotificationDelivery>;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: DELIVERIES_QUERY_KEY });
+      if (delivery.status === "sent") toast({ title: "Test email sent", description: `Sent to ${delivery.toAddress}` });
+      else toast({ title: "Test email failed", description: delivery.lastError ?? "The mail server did not accept it", variant: "destructive" });
+    },
+    onError: (error) => {
+      toast({ title: "Could not send", description: extractErrorMessage(error, "Failed to send test email"), variant: "destructive" });
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/notification-deliveries/${id}/retry`);
+      return response.json() as Promise<NotificationDelivery>;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: DELIVERIES_QUERY_KEY });
+      if (delivery.status === "sent") toast({ title: "Email sent" });
+      else toast({ title: "Still failing", description: delivery.lastError ?? undefined, variant: "destructive" });
+    },
+    onError: (error) => {
+      toast({ title: "Could not retry", description: extractErrorMessage(error, "Failed to retry delivery"), variant: "destructive" });
+    },
+  });
+
+  // Sets every priority of a type at once
+  const setRow = (type: string, delivery: EmailDeliveryMode) => {
+    setGrid((current) => ({
+      ...current,
+      ...Object.fromEntries(NOTIFICATION_PRIORITIES.map((priority) => [preferenceKey(type, priority), delivery])),
+    }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-text-muted" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-white border-card-border shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-text-primary">
+            <Mail className="h-5 w-5 text-accent-teal" />
+            Email Notifications
+          </CardTitle>
+          <CardDescription className="text-text-muted">
+            Choose which notifications are emailed to you straight away, collected into a daily digest, or not emailed at all.
+            Every notification still appears in the bell.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {view && !view.emailConfigured && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Email is not set up on this server (SMTP_HOST), so nothing is sent yet. Your preferences are kept for when it is.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2 max-w-md">
+            <Label htmlFor="notification-email">Email address</Label>
+            <div className="flex gap-2">
+              <Input
+                id="notification-email"
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                data-testid="input-notification-email"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                disabled={!view?.emailConfigured || !view?.email || testMutation.isPending}
+                onClick={() => testMutation.mutate()}
+                className="flex items-center gap-2 shrink-0"
+                data-testid="button-send-test-email"
+              >
+                {testMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                Send test
+              </Button>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                {NOTIFICATION_PRIORITIES.map((priority) => (
+                  <TableHead key={priority} className="capitalize">{priority} priority</TableHead>
+                ))}
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {NOTIFICATION_TYPES.map((type) => (
+                <TableRow key={type}>
+                  <TableCell className="font-medium">{TYPE_LABELS[type]}</TableCell>
+                  {NOTIFICATION_PRIORITIES.map((priority) => {
+                    const key = preferenceKey(type, priority);
+                    return (
+                      <TableCell key={priority}>
+                        <Select
+                          value={grid[key] ?? "off"}
+                          onValueChange={(value) => setGrid((current) => ({ ...current, [key]: value as EmailDeliveryMode }))}
+                        >
+                          <SelectTrigger className="w-[140px]" data-testid={`select-delivery-${type}-${priority}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(DELIVERY_LABELS).map(([mode, label]) => (
+                              <SelectItem key={mode} value={mode}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    );
+                  })}
+                  <TableCell>
+                    <Select onValueChange={(value) => setRow(type, value as EmailDeliveryMode)}>
+                      <SelectTrigger className="w-[120px]" data-testid={`select-delivery-row-${type}`}>
+                        <SelectValue placeholder="Set all" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(DELIVERY_LABELS).map(([mode, label]) => (
+                          <SelectItem key={mode} value={mode}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              disabled={saveMutation.isPending}
+              onClick={() => saveMutation.mutate()}
+              className="flex items-center gap-2"
+              data-testid="button-save-notification-preferences"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save Preferences
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white border-card-border shadow-card">
+        <CardHeader>
+          <CardTitle className="text-text-primary">Delivery Log</CardTitle>
+          <CardDescription className="text-text-muted">
+            Recent notification emails. Failed emails are retried automatically a few times; retry one yourself at any time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length === 0 ? (
+            <p className="text-center py-6 text-text-muted">No notification emails yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <TableRow key={delivery.id} data-testid={`row-delivery-${delivery.id}`}>
+                    <TableCell className="whitespace-nowrap">{format(new Date(delivery.createdAt), "d MMM yyyy HH:mm")}</TableCell>
+                    <TableCell>{delivery.toAddress}</TableCell>
+                    <TableCell>
+                      <div>{delivery.subject}</div>
+                      {delivery.lastError && delivery.status !== "sent" && (
+                        <div className="text-xs text-destructive">{delivery.lastError}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`text-xs capitalize ${statusColors[delivery.status] ?? ""}`}>
+                        {delivery.status}
+                      </Badge>
+                      {delivery.attempts > 1 && <div className="text-xs text-text-muted mt-1">{delivery.attempts} attempts</div>}
+                    </TableCell>
+                    <TableCell>
+                      {delivery.status === "failed" && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={retryMutation.isPending}
+                          onClick={() => retryMutation.mutate(delivery.id)}
+                          className="flex items-center gap-1"
+                          data-testid={`button-retry-delivery-${delivery.id}`}
+                        >
+                          <RotateCw className="h-4 w-4" />
+                          Retry
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ const partFormSchema = z.object({
   unitCost: z.string().optional(),
   stockQuantity: z.number().min(0, "Stock quantity must be 0 or greater").default(0),
   minStockLevel: z.number().min(0, "Minimum stock level must be 0 or greater").default(0),
+  binLocation: z.string().optional(),
   notes: z.string().optional(),
 });
 
@@ -68,6 +69,7 @@ export default function PartFormModal({
       unitCost: "",
       stockQuantity: 0,
       minStockLevel: 0,
+      binLocation: "",
       notes: "",
     },
   });
@@ -84,6 +86,7 @@ export default function PartFormModal({
         unitCost: part?.unitCost || "",
         stockQuantity: part?.stockQuantity || 0,
         minStockLevel: part?.minStockLevel || 0,
+        binLocation: part?.binLocation || "",
         notes: part?.notes || "",
       });
       // Reset attachments for editing mode
@@ -100,6 +103,7 @@ export default function PartFormModal({
         description: data.description || null,
         manufacturer: data.manufacturer || null,
         unitCost: data.unitCost || null,
+        binLocation: data.binLocation || null,
         notes: data.notes || null,
       };
       
@@ -229,6 +233,7 @@ export default function PartFormModal({
         description: data.description || null,
         manufacturer: data.manufacturer || null,
         unitCost: data.unitCost || null,
+        binLocation: data.binLocation || null,
         notes: data.notes || null,
       };
       
@@ -384,7 +389,7 @@ export default function PartFormModal({
               />
             </div>
 
-            <div className="grid grid-cols-3 gap-4">
+            <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
                 name="unitCost"
@@ -436,6 +441,20 @@ export default function PartFormModal({
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="binLocation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bin Location</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. A3-04" {...field} data-testid="input-part-bin-location" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
 
             <FormField
@@ -2,7 +2,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Bell, Calendar, Package, ArrowRight, AlertTriangle, Clock } from "lucide-react";
+import { Bell, Calendar, CalendarCheck, Package, ArrowRight, AlertTriangle, Clock } from "lucide-react";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 
@@ -12,9 +12,24 @@ interface ServiceReminder {
   type: 'service';
   title: string;
   subtitle: string;
+  daysUntilDue: number | null; // null for hour-based items without a usage estimate
+  hoursUntilDue: number | null;
+  priority: 'low' | 'medium' | 'high';
+  mowerId: number;
+  dueDate: string | null;
+}
+
+// A booked service appointment due soon or past its planned date
+interface AppointmentReminder {
+  id: string;
+  type: 'appointment';
+  title: string;
+  subtitle: string;
   daysUntilDue: number;
   priority: 'low' | 'medium' | 'high';
   mowerId: number;
+  serviceRecordId: string;
+  status: string;
   dueDate: string;
 }
 
@@ -32,12 +47,13 @@ interface StockReminder {
 // Unified reminder interface
 interface UnifiedReminder {
   id: string;
-  type: 'service' | 'stock';
+  type: 'service' | 'appointment' | 'stock';
   title: string;
   subtitle: string;
   daysUntilDue?: number;
+  hoursUntilDue?: number;
   priority: 'low' | 'medium' | 'high';
-  icon: typeof Calendar | typeof Package;
+  icon: typeof Calendar | typeof CalendarCheck | typeof Package;
   onClick: () => void;
 }
 
@@ -55,7 +71,7 @@ export default function RemindersCard({ className = "" }: RemindersCardProps) {
   const [, setLocation] = useLocation();
 
   // Fetch live reminders data
-  const { data: reminders = [], isLoading, error } = useQuery<(ServiceReminder | StockReminder)[]>({
+  const { data: reminders = [], isLoading, error } = useQuery<(ServiceReminder | AppointmentReminder | StockReminder)[]>({
     queryKey: ['/api/reminders'],
   });
 
@@ -79,11 +95,23 @@ export default function RemindersCard({ className = "" }: RemindersCardProps) {
         type: 'service',
         title: reminder.title,
         subtitle: reminder.subtitle,
-        daysUntilDue: reminder.daysUntilDue,
+        daysUntilDue: reminder.daysUntilDue ?? undefined,
+        hoursUntilDue: reminder.hoursUntilDue ?? undefined,
         priority: reminder.priority,
         icon: Calendar,
         onClick: () => handleServiceReminderClick(reminder.mowerId),
       };
+    } else if (reminder.type === 'appointment') {
+      return {
+        id: reminder.id,
+        type: 'appointment',
+        title: reminder.title,
+        subtitle: reminder.subtitle,
+        daysUntilDue: reminder.daysUntilDue,
+        priority: reminder.priority,
+        icon: CalendarCheck,
+        onClick: () => handleServiceReminderClick(reminder.mowerId),
+      };
     } else {
       return {
         id: reminder.id,
@@ -244,6 +272,19 @@ export default function RemindersCard({ className = "" }: RemindersCardProps) {
                                 </span>
                               </div>
                             )}
+                            {reminder.hoursUntilDue !== undefined && (
+                              <div className="flex items-center gap-1 mt-1">
+                                <Clock className={`h-3 w-3 ${reminder.hoursUntilDue <= 0 ? 'text-red-500' : 'text-text-muted'}`} />
+                                <span className={`text-xs ${
+                                  reminder.hoursUntilDue <= 0 ? 'text-red-600 font-medium' : 'text-text-muted'
+                                }`}>
+                                  {reminder.hoursUntilDue < 0
+                                    ? `${Math.abs(reminder.hoursUntilDue)} hours overdue`
+                                    : `${reminder.hoursUntilDue} hours left`
+                                  }
+                                </span>
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -0,0 +1,102 @@
+import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CalendarPlus, CheckCircle, Loader2, Play, XCircle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ServiceRecord, ServiceRecordStatus } from "@shared/schema";
+
+export const SERVICE_STATUS_LABELS: Record<ServiceRecordStatus, string> = {
+  scheduled: "Scheduled",
+  in_progress: "In Progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+const statusColors: Record<ServiceRecordStatus, string> = {
+  scheduled: "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400",
+  in_progress: "bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/20 dark:text-yellow-400",
+  completed: "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-400",
+  cancelled: "bg-gray-100 text-gray-600 border-gray-200 dark:bg-gray-800 dark:text-gray-400",
+};
+
+// apiRequest errors look like "400: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed.details === "string" ? parsed.details : parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+export function ServiceRecordStatusBadge({ status }: { status: string }) {
+  const known = status as ServiceRecordStatus;
+  return (
+    <Badge variant="outline" className={`text-xs ${statusColors[known] ?? ""}`} data-testid="badge-service-status">
+      {SERVICE_STATUS_LABELS[known] ?? status}
+    </Badge>
+  );
+}
+
+interface ServiceAppointmentActionsProps {
+  record: Pick<ServiceRecord, "id" | "status">;
+}
+
+/**
+ * Buttons that move a booked appointment along: start it, complete it (today,
+ * which moves the mower's last service date), cancel it, or book a cancelled
+ * one again. Completed records get none.
+ */
+export default function ServiceAppointmentActions({ record }: ServiceAppointmentActionsProps) {
+  const { toast } = useToast();
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: ServiceRecordStatus) => {
+      const response = await apiRequest('PUT', `/api/service/${record.id}/status`, { status });
+      return response.json() as Promise<ServiceRecord>;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/service-records'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/mowers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reminders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/maintenance-schedule'] });
+      toast({ title: `Service ${SERVICE_STATUS_LABELS[updated.status as ServiceRecordStatus]?.toLowerCase() ?? updated.status}` });
+    },
+    onError: (error) => {
+      toast({ title: "Could not update service", description: extractErrorMessage(error, "Failed to update service status"), variant: "destructive" });
+    },
+  });
+
+  if (record.status === "completed") return null;
+
+  const action = (status: ServiceRecordStatus, label: string, Icon: typeof Play, variant: "outline" | "default" = "outline") => (
+    <Button
+      type="button"
+      size="sm"
+      variant={variant}
+      disabled={statusMutation.isPending}
+      onClick={(e) => {
+        e.stopPropagation();
+        statusMutation.mutate(status);
+      }}
+      className="flex items-center gap-1"
+      data-testid={`button-service-${status}-${record.id}`}
+    >
+      {statusMutation.isPending && statusMutation.variables === status ? <Loader2 className="h-4 w-4 animate-spin" /> : <Icon className="h-4 w-4" />}
+      {label}
+    </Button>
+  );
+
+  return (
+    <div className="flex items-center gap-2">
+      {record.status === "scheduled" && action("in_progress", "Start", Play)}
+      {record.status === "in_progress" && action("scheduled", "Back to scheduled", CalendarPlus)}
+      {(record.status === "scheduled" || record.status === "in_progress") && action("completed", "Complete", CheckCircle, "default")}
+      {(record.status === "scheduled" || record.status === "in_progress") && action("cancelled", "Cancel", XCircle)}
+      {record.status === "cancelled" && action("scheduled", "Book again", CalendarPlus)}
+    </div>
+  );
+}
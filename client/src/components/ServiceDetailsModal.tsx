@@ -1,10 +1,12 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Calendar, DollarSign, User, FileText, Edit, Trash2, Clock, Wrench } from "lucide-react";
 import { useLocation } from "wouter";
+import type { ServiceRecordWithCosts } from "@shared/schema";
 
 interface ServiceDetailsModalProps {
   isOpen: boolean;
@@ -39,6 +41,8 @@ const priorityColors = {
   high: "text-red-600",
 };
 
+const money = (amount: number | string) => `$${Number(amount).toFixed(2)}`;
+
 const typeIcons = {
   maintenance: Calendar,
   repair: Wrench,
@@ -57,6 +61,34 @@ export default function ServiceDetailsModal({
 }: ServiceDetailsModalProps) {
   const [, setLocation] = useLocation();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+
+  // The record's line items, for the itemized breakdown
+  const { data: details } = useQuery<ServiceRecordWithCosts>({
+    queryKey: ['/api/service-records', serviceRecord.id],
+    enabled: isOpen,
+  });
+  const lineItems = details
+    ? [
+        ...details.parts.map((line) => ({
+          key: `part-${line.assetPartId}`,
+          label: `${line.name} × ${line.quantity}`,
+          detail: line.partNumber,
+          amount: line.total,
+        })),
+        ...details.labor.map((entry) => ({
+          key: `labor-${entry.id}`,
+          label: entry.technicianName,
+          detail: entry.hours != null ? `${Number(entry.hours)} h × ${money(entry.hourlyRate ?? 0)}` : "Hours not recorded",
+          amount: Number(entry.hours ?? 0) * Number(entry.hourlyRate ?? 0),
+        })),
+        ...details.fees.map((fee) => ({
+          key: `fee-${fee.id}`,
+          label: fee.description,
+          detail: fee.kind === "supplies" ? "Shop supplies" : "Fee",
+          amount: Number(fee.amount),
+        })),
+      ]
+    : [];
   
   const handleEdit = () => {
     if (onEdit) {
@@ -85,7 +117,7 @@ export default function ServiceDetailsModal({
   return (
     <>
       <Dialog open={isOpen} onOpenChange={onClose}>
-        <DialogContent className="max-w-md">
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <TypeIcon className="h-5 w-5 text-accent-teal" />
@@ -162,6 +194,38 @@ export default function ServiceDetailsModal({
               )}
             </div>
 
+            {/* Itemized cost */}
+            {lineItems.length > 0 && details && (
+              <div className="space-y-2 text-sm" data-testid="service-line-items">
+                <p className="font-medium">Cost breakdown</p>
+                {lineItems.map((item) => (
+                  <div key={item.key} className="flex justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="truncate">{item.label}</p>
+                      {item.detail && <p className="text-xs text-muted-foreground">{item.detail}</p>}
+                    </div>
+                    <span className="whitespace-nowrap">{money(item.amount)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between pt-2 border-t text-muted-foreground">
+                  <span>Parts {money(details.partsCost)} · Labor {money(details.laborCost)} · Fees {money(details.feesCost)}</span>
+                </div>
+                <div className="flex justify-between font-medium">
+                  <span>Total</span>
+                  <span>
+                    {details.costOverride != null ? (
+                      <>
+                        <span className="line-through text-muted-foreground mr-2">{money(details.computedCost)}</span>
+                        {money(details.costOverride)} (override)
+                      </>
+                    ) : (
+                      money(details.computedCost)
+                    )}
+                  </span>
+                </div>
+              </div>
+            )}
+
             {/* Priority */}
             <div className="flex items-center gap-2">
               <span className="text-sm text-muted-foreground">Priority:</span>
@@ -3,13 +3,19 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { Calendar, DollarSign, User, FileText } from "lucide-react";
+import ServiceAppointmentActions, { ServiceRecordStatusBadge } from "@/components/ServiceAppointmentActions";
 
 interface ServiceRecord {
   id: string;
-  serviceDate: string;
+  serviceDate: string; // the planned date until the record is completed
+  status?: string; // scheduled, in_progress, completed, cancelled
   serviceType: "maintenance" | "repair" | "inspection" | "warranty";
   description: string;
   cost?: string;
+  laborCost?: number; // from the record's labor entries
+  partsCost?: number; // from the parts installed under the record
+  feesCost?: number; // from the record's fees and shop supplies
+  costOverride?: string | null; // manual total that replaces the line items
   performedBy?: string;
   nextServiceDue?: string;
   mileage?: number;
@@ -19,12 +25,14 @@ interface ServiceHistoryTableProps {
   serviceRecords: ServiceRecord[];
   onAddService: () => void;
   onEditService: (id: string) => void;
+  readOnly?: boolean; // hides add and edit actions
 }
 
 export default function ServiceHistoryTable({ 
   serviceRecords, 
   onAddService, 
-  onEditService 
+  onEditService,
+  readOnly = false
 }: ServiceHistoryTableProps) {
   return (
     <Card>
@@ -34,9 +42,11 @@ export default function ServiceHistoryTable({
             <FileText className="h-5 w-5" />
             Service History
           </CardTitle>
-          <Button onClick={onAddService} data-testid="button-add-service">
-            Add Service Record
-          </Button>
+          {!readOnly && (
+            <Button onClick={onAddService} data-testid="button-add-service">
+              Add Service Record
+            </Button>
+          )}
         </div>
       </CardHeader>
       <CardContent>
@@ -64,8 +74,8 @@ export default function ServiceHistoryTable({
               {serviceRecords.map((record) => (
                 <TableRow 
                   key={record.id} 
-                  className="hover-elevate cursor-pointer"
-                  onClick={() => onEditService(record.id)}
+                  className={readOnly ? undefined : "hover-elevate cursor-pointer"}
+                  onClick={readOnly ? undefined : () => onEditService(record.id)}
                   data-testid={`row-service-${record.id}`}
                 >
                   <TableCell>
@@ -73,6 +83,11 @@ export default function ServiceHistoryTable({
                       <Calendar className="h-4 w-4 text-muted-foreground" />
                       {record.serviceDate}
                     </div>
+                    {record.status && record.status !== "completed" && (
+                      <div className="mt-1">
+                        <ServiceRecordStatusBadge status={record.status} />
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell>
                     <StatusBadge status={record.serviceType} />
@@ -85,6 +100,13 @@ export default function ServiceHistoryTable({
                       <div className="flex items-center gap-1">
                         <DollarSign className="h-4 w-4 text-muted-foreground" />
                         {record.cost}
+                        {record.costOverride != null && <span className="text-xs text-muted-foreground">(override)</span>}
+                      </div>
+                    )}
+                    {(!!record.laborCost || !!record.partsCost || !!record.feesCost) && (
+                      <div className="text-xs text-muted-foreground" data-testid={`text-cost-breakdown-${record.id}`}>
+                        Labor ${(record.laborCost ?? 0).toFixed(2)} · Parts ${(record.partsCost ?? 0).toFixed(2)}
+                        {!!record.feesCost && <> · Fees ${record.feesCost.toFixed(2)}</>}
                       </div>
                     )}
                   </TableCell>
@@ -111,17 +133,24 @@ export default function ServiceHistoryTable({
                     )}
                   </TableCell>
                   <TableCell>
-                    <Button 
-                      variant="ghost" 
-                      size="sm" 
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onEditService(record.id);
-                      }}
-                      data-testid={`button-edit-service-${record.id}`}
-                    >
-                      Edit
-                    </Button>
+                    {!readOnly && record.status && record.status !== "completed" && (
+                      <div className="mb-2">
+                        <ServiceAppointmentActions record={{ id: record.id, status: record.status }} />
+                      </div>
+                    )}
+                    {!readOnly && (
+                      <Button 
+                        variant="ghost" 
+                        size="sm" 
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onEditService(record.id);
+                        }}
+                        data-testid={`button-edit-service-${record.id}`}
+                      >
+                        Edit
+                      </Button>
+                    )}
                   </TableCell>
                 </TableRow>
               ))}
@@ -0,0 +1,59 @@
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+
+interface ServiceRecordCostSummaryProps {
+  partsCost: number;
+  laborCost: number;
+  feesCost: number;
+  // A manual total that replaces the computed one, or null to use the line items
+  costOverride: string | null;
+  onCostOverrideChange: (costOverride: string | null) => void;
+}
+
+export default function ServiceRecordCostSummary({
+  partsCost,
+  laborCost,
+  feesCost,
+  costOverride,
+  onCostOverrideChange,
+}: ServiceRecordCostSummaryProps) {
+  const computedCost = partsCost + laborCost + feesCost;
+  const lines: [string, number][] = [["Parts", partsCost], ["Labor", laborCost], ["Fees & supplies", feesCost]];
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3" data-testid="service-cost-summary">
+      <div className="space-y-1 text-sm">
+        {lines.map(([label, amount]) => (
+          <div key={label} className="flex justify-between text-muted-foreground">
+            <span>{label}</span>
+            <span>${amount.toFixed(2)}</span>
+          </div>
+        ))}
+        <div className={`flex justify-between font-medium pt-1 border-t ${costOverride !== null ? "line-through text-muted-foreground" : ""}`}>
+          <span>Total</span>
+          <span data-testid="text-computed-cost">${computedCost.toFixed(2)}</span>
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <label htmlFor="switch-cost-override" className="text-sm font-medium">Override total</label>
+        <Switch
+          id="switch-cost-override"
+          checked={costOverride !== null}
+          onCheckedChange={(checked) => onCostOverrideChange(checked ? computedCost.toFixed(2) : null)}
+          data-testid="switch-cost-override"
+        />
+      </div>
+      {costOverride !== null && (
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder="0.00"
+          value={costOverride}
+          onChange={(e) => onCostOverrideChange(e.target.value)}
+          data-testid="input-cost-override"
+        />
+      )}
+    </div>
+  );
+}
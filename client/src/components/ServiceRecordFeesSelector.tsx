@@ -0,0 +1,119 @@
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Plus, X } from "lucide-react";
+import type { ServiceFeeKind, ServiceRecordFee } from "@shared/schema";
+
+// The amount is kept as typed
+export interface ServiceRecordFeeEntry {
+  kind: ServiceFeeKind;
+  description: string;
+  amount: string;
+}
+
+interface ServiceRecordFeesSelectorProps {
+  fees: ServiceRecordFeeEntry[];
+  onFeesChange: (fees: ServiceRecordFeeEntry[]) => void;
+  onCostChange: (feesCost: number) => void;
+}
+
+const FEE_KIND_LABELS: Record<ServiceFeeKind, string> = {
+  fee: "Fee",
+  supplies: "Shop supplies",
+};
+
+export function feeEntriesOf(fees: ServiceRecordFee[]): ServiceRecordFeeEntry[] {
+  return fees.map((fee) => ({ kind: fee.kind as ServiceFeeKind, description: fee.description, amount: fee.amount }));
+}
+
+// The request body for a service record's fees; rows without a description are left out
+export function feesRequestBody(fees: ServiceRecordFeeEntry[]) {
+  return fees
+    .filter((fee) => fee.description.trim())
+    .map((fee) => ({ kind: fee.kind, description: fee.description.trim(), amount: parseFloat(fee.amount) || 0 }));
+}
+
+export default function ServiceRecordFeesSelector({
+  fees,
+  onFeesChange,
+  onCostChange,
+}: ServiceRecordFeesSelectorProps) {
+  // Calculate the fees total whenever the entries change
+  useEffect(() => {
+    onCostChange(fees.reduce((sum, fee) => sum + (parseFloat(fee.amount) || 0), 0));
+  }, [fees, onCostChange]);
+
+  const updateEntry = (index: number, updates: Partial<ServiceRecordFeeEntry>) => {
+    const newFees = [...fees];
+    newFees[index] = { ...newFees[index], ...updates };
+    onFeesChange(newFees);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Fees & Supplies</CardTitle>
+        <CardDescription>
+          Other charges, such as disposal fees or shop supplies
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {fees.map((fee, index) => (
+          <div key={index} className="border rounded-lg p-4 space-y-3" data-testid={`fee-entry-${index}`}>
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Description"
+                value={fee.description}
+                onChange={(e) => updateEntry(index, { description: e.target.value })}
+                data-testid={`input-fee-description-${index}`}
+              />
+              <Button type="button" variant="ghost" size="sm" onClick={() => onFeesChange(fees.filter((_, i) => i !== index))}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Kind</label>
+                <Select value={fee.kind} onValueChange={(value) => updateEntry(index, { kind: value as ServiceFeeKind })}>
+                  <SelectTrigger data-testid={`select-fee-kind-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(FEE_KIND_LABELS).map(([kind, label]) => (
+                      <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Amount</label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={fee.amount}
+                  onChange={(e) => updateEntry(index, { amount: e.target.value })}
+                  data-testid={`input-fee-amount-${index}`}
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onFeesChange([...fees, { kind: "fee", description: "", amount: "" }])}
+          className="w-full"
+          data-testid="button-add-fee"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Fee
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Loader2, Plus, UserPlus, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Technician, TechnicianWithUsage } from "@shared/schema";
+
+// Hours and rate are kept as typed; a blank rate means the technician's own
+export interface ServiceRecordLaborEntry {
+  technicianId: number;
+  hours: string;
+  hourlyRate: string;
+}
+
+interface ServiceRecordLaborSelectorProps {
+  labor: ServiceRecordLaborEntry[];
+  onLaborChange: (labor: ServiceRecordLaborEntry[]) => void;
+  onCostChange: (laborCost: number) => void;
+}
+
+// apiRequest errors look like "400: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed.details === "string" ? parsed.details : parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+// The request body for a service record's labor
+export function laborRequestBody(labor: ServiceRecordLaborEntry[]) {
+  return labor
+    .filter((entry) => entry.technicianId)
+    .map((entry) => ({
+      technicianId: entry.technicianId,
+      hours: entry.hours !== "" ? parseFloat(entry.hours) : null,
+      hourlyRate: entry.hourlyRate !== "" ? parseFloat(entry.hourlyRate) : null,
+    }));
+}
+
+export default function ServiceRecordLaborSelector({
+  labor,
+  onLaborChange,
+  onCostChange,
+}: ServiceRecordLaborSelectorProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [newTechnicianName, setNewTechnicianName] = useState("");
+
+  const { data: technicians = [] } = useQuery<TechnicianWithUsage[]>({
+    queryKey: ['/api/technicians'],
+  });
+
+  const rateOf = (entry: ServiceRecordLaborEntry) => {
+    if (entry.hourlyRate !== "") return parseFloat(entry.hourlyRate) || 0;
+    return parseFloat(technicians.find((technician) => technician.id === entry.technicianId)?.hourlyRate ?? "0");
+  };
+
+  // Calculate the labor cost whenever the entries change
+  useEffect(() => {
+    onCostChange(labor.reduce((sum, entry) => sum + (parseFloat(entry.hours) || 0) * rateOf(entry), 0));
+  }, [labor, technicians, onCostChange]);
+
+  const createTechnicianMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest('POST', '/api/technicians', { name });
+      return response.json() as Promise<Technician>;
+    },
+    onSuccess: (technician) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/technicians'] });
+      onLaborChange([...labor, { technicianId: technician.id, hours: "", hourlyRate: "" }]);
+      setNewTechnicianName("");
+    },
+    onError: (error) => {
+      toast({ title: "Could not add technician", description: extractErrorMessage(error, "Failed to add technician"), variant: "destructive" });
+    },
+  });
+
+  const updateEntry = (index: number, updates: Partial<ServiceRecordLaborEntry>) => {
+    const newLabor = [...labor];
+    newLabor[index] = { ...newLabor[index], ...updates };
+    onLaborChange(newLabor);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Labor</CardTitle>
+        <CardDescription>
+          Who did the work and for how long. A blank rate uses the technician's own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {labor.map((entry, index) => {
+          const technician = technicians.find((candidate) => candidate.id === entry.technicianId);
+          // Inactive technicians stay selectable on the entries that already name them
+          const choices = technicians.filter((candidate) => candidate.isActive || candidate.id === entry.technicianId);
+          const subtotal = (parseFloat(entry.hours) || 0) * rateOf(entry);
+          return (
+            <div key={index} className="border rounded-lg p-4 space-y-3" data-testid={`labor-entry-${index}`}>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={entry.technicianId ? String(entry.technicianId) : ""}
+                  onValueChange={(value) => updateEntry(index, { technicianId: parseInt(value) })}
+                >
+                  <SelectTrigger data-testid={`select-labor-technician-${index}`}>
+                    <SelectValue placeholder="Select a technician" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-60">
+                    {choices.map((candidate) => (
+                      <SelectItem key={candidate.id} value={String(candidate.id)}>
+                        {candidate.name}
+                        {candidate.kind === "shop" && <span className="text-muted-foreground ml-2">(shop)</span>}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button type="button" variant="ghost" size="sm" onClick={() => onLaborChange(labor.filter((_, i) => i !== index))}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Hours</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.25"
+                    placeholder="Not recorded"
+                    value={entry.hours}
+                    onChange={(e) => updateEntry(index, { hours: e.target.value })}
+                    data-testid={`input-labor-hours-${index}`}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Rate per hour</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder={technician?.hourlyRate ?? "0.00"}
+                    value={entry.hourlyRate}
+                    onChange={(e) => updateEntry(index, { hourlyRate: e.target.value })}
+                    data-testid={`input-labor-rate-${index}`}
+                  />
+                </div>
+              </div>
+              {subtotal > 0 && (
+                <div className="pt-2 border-t">
+                  <p className="text-sm font-medium">Subtotal: ${subtotal.toFixed(2)}</p>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onLaborChange([...labor, { technicianId: 0, hours: "", hourlyRate: "" }])}
+          className="w-full"
+          data-testid="button-add-labor-entry"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Technician
+        </Button>
+
+        {can("technicians:write") && (
+          <div className="flex gap-2">
+            <Input
+              placeholder="Not in the directory? Add by name"
+              value={newTechnicianName}
+              onChange={(e) => setNewTechnicianName(e.target.value)}
+              data-testid="input-new-technician"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              disabled={!newTechnicianName.trim() || createTechnicianMutation.isPending}
+              onClick={() => createTechnicianMutation.mutate(newTechnicianName.trim())}
+              data-testid="button-create-technician"
+            >
+              {createTechnicianMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,340 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { ArrowDown, ArrowUp, ImagePlus, ListChecks, Loader2, MessageSquare, Plus, Trash2, User, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { TaskChecklistItem, TaskCommentWithPhotos } from "@shared/schema";
+
+interface TaskActivityDialogProps {
+  task: { id: string; title: string } | null;
+  onOpenChange: (open: boolean) => void;
+  readOnly?: boolean; // hides editing, ticking and commenting
+}
+
+// apiRequest errors look like "400: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed.details === "string" ? parsed.details : parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+export default function TaskActivityDialog({ task, onOpenChange, readOnly = false }: TaskActivityDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [newStep, setNewStep] = useState("");
+  const [commentBody, setCommentBody] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  const taskId = task?.id ?? "";
+  const checklistKey = ['/api/tasks', taskId, 'checklist'];
+  const commentsKey = ['/api/tasks', taskId, 'comments'];
+
+  const { data: checklist = [], isLoading: isChecklistLoading } = useQuery<TaskChecklistItem[]>({
+    queryKey: checklistKey,
+    enabled: !!task,
+  });
+  const { data: comments = [], isLoading: isCommentsLoading } = useQuery<TaskCommentWithPhotos[]>({
+    queryKey: commentsKey,
+    enabled: !!task,
+  });
+
+  // The asset's task list and the task board show checklist progress and comment counts
+  const invalidate = (key: string[]) => {
+    queryClient.invalidateQueries({ queryKey: key });
+    queryClient.invalidateQueries({ predicate: (query) => query.queryKey[2] === 'tasks' });
+    queryClient.invalidateQueries({ queryKey: ['/api/tasks'], exact: true });
+  };
+
+  const onError = (fallback: string) => (error: unknown) => {
+    toast({ title: "Error", description: extractErrorMessage(error, fallback), variant: "destructive" });
+  };
+
+  const addStepMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const response = await apiRequest("POST", `/api/tasks/${taskId}/checklist`, { text });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewStep("");
+      invalidate(checklistKey);
+    },
+    onError: onError("Failed to add step"),
+  });
+
+  const updateStepMutation = useMutation({
+    mutationFn: async ({ id, isDone }: { id: number; isDone: boolean }) => {
+      const response = await apiRequest("PUT", `/api/tasks/${taskId}/checklist/${id}`, { isDone });
+      return response.json();
+    },
+    onSuccess: () => invalidate(checklistKey),
+    onError: onError("Failed to update step"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (itemIds: number[]) => {
+      const response = await apiRequest("PUT", `/api/tasks/${taskId}/checklist/order`, { itemIds });
+      return response.json();
+    },
+    onSuccess: () => invalidate(checklistKey),
+    onError: onError("Failed to reorder steps"),
+  });
+
+  const deleteStepMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/tasks/${taskId}/checklist/${id}`);
+    },
+    onSuccess: () => invalidate(checklistKey),
+    onError: onError("Failed to delete step"),
+  });
+
+  const addCommentMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("body", commentBody);
+      photos.forEach((photo) => formData.append("photos", photo));
+      const response = await fetch(`/api/tasks/${taskId}/comments`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error(`${response.status}: ${await response.text()}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      setCommentBody("");
+      setPhotos([]);
+      invalidate(commentsKey);
+    },
+    onError: onError("Failed to post comment"),
+  });
+
+  const deleteCommentMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/tasks/${taskId}/comments/${id}`);
+    },
+    onSuccess: () => invalidate(commentsKey),
+    onError: onError("Failed to delete comment"),
+  });
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    const ids = checklist.map((item) => item.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const doneCount = checklist.filter((item) => item.isDone).length;
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{task?.title}</DialogTitle>
+        </DialogHeader>
+
+        <section className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium flex items-center gap-2">
+              <ListChecks className="h-4 w-4" />
+              Checklist
+            </h3>
+            {checklist.length > 0 && (
+              <span className="text-sm text-muted-foreground" data-testid="text-checklist-progress">
+                {doneCount}/{checklist.length} steps
+              </span>
+            )}
+          </div>
+          {checklist.length > 0 && <Progress value={(doneCount / checklist.length) * 100} className="h-2" />}
+
+          {isChecklistLoading ? (
+            <div className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              Loading checklist...
+            </div>
+          ) : checklist.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No steps yet</p>
+          ) : (
+            <ul className="space-y-2">
+              {checklist.map((item, index) => (
+                <li key={item.id} className="flex items-start gap-3" data-testid={`checklist-item-${item.id}`}>
+                  <Checkbox
+                    checked={item.isDone}
+                    disabled={readOnly}
+                    onCheckedChange={(checked) => updateStepMutation.mutate({ id: item.id, isDone: checked === true })}
+                    className="mt-0.5"
+                    data-testid={`checkbox-checklist-item-${item.id}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={item.isDone ? "line-through text-muted-foreground" : ""}>{item.text}</p>
+                    {item.isDone && item.completedAt && (
+                      <p className="text-xs text-muted-foreground">
+                        {item.completedByName ?? "Someone"} · {formatDistanceToNow(new Date(item.completedAt), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                  {!readOnly && (
+                    <div className="flex items-center">
+                      <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === 0} onClick={() => moveStep(index, -1)}>
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === checklist.length - 1} onClick={() => moveStep(index, 1)}>
+                        <ArrowDown className="h-3 w-3" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => deleteStepMutation.mutate(item.id)} data-testid={`button-delete-checklist-item-${item.id}`}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!readOnly && (
+            <form
+              className="flex gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                if (newStep.trim()) addStepMutation.mutate(newStep.trim());
+              }}
+            >
+              <Input
+                value={newStep}
+                onChange={(event) => setNewStep(event.target.value)}
+                placeholder="Add a step..."
+                data-testid="input-new-checklist-item"
+              />
+              <Button type="submit" variant="outline" disabled={!newStep.trim() || addStepMutation.isPending}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </form>
+          )}
+        </section>
+
+        <Separator />
+
+        <section className="space-y-3">
+          <h3 className="font-medium flex items-center gap-2">
+            <MessageSquare className="h-4 w-4" />
+            Comments ({comments.length})
+          </h3>
+
+          {isCommentsLoading ? (
+            <div className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              Loading comments...
+            </div>
+          ) : comments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No comments yet</p>
+          ) : (
+            <ul className="space-y-4">
+              {comments.map((comment) => (
+                <li key={comment.id} className="rounded-md border p-3 space-y-2" data-testid={`comment-${comment.id}`}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-1 font-medium">
+                      <User className="h-3 w-3" />
+                      {comment.authorName ?? "Deleted user"}
+                    </span>
+                    <span className="flex items-center gap-1 text-muted-foreground">
+                      {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                      {!readOnly && (comment.authorId === user?.id || user?.role === "admin") && (
+                        <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => deleteCommentMutation.mutate(comment.id)} data-testid={`button-delete-comment-${comment.id}`}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </span>
+                  </div>
+                  {comment.body && <p className="text-sm whitespace-pre-wrap">{comment.body}</p>}
+                  {comment.photos.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {comment.photos.map((photo) => (
+                        <a key={photo.id} href={`/api/attachments/${photo.id}/download?inline=1`} target="_blank" rel="noreferrer">
+                          <img
+                            src={`/api/attachments/${photo.id}/download?inline=1`}
+                            alt={photo.fileName}
+                            className="h-20 w-20 rounded object-cover border"
+                          />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!readOnly && (
+            <form
+              className="space-y-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                addCommentMutation.mutate();
+              }}
+            >
+              <Textarea
+                value={commentBody}
+                onChange={(event) => setCommentBody(event.target.value)}
+                placeholder="Write a comment..."
+                rows={3}
+                data-testid="input-task-comment"
+              />
+              {photos.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {photos.map((photo, index) => (
+                    <span key={`${photo.name}-${index}`} className="flex items-center gap-1 rounded bg-muted px-2 py-1 text-xs">
+                      {photo.name}
+                      <button type="button" onClick={() => setPhotos(photos.filter((_, i) => i !== index))} aria-label={`Remove ${photo.name}`}>
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="flex justify-between">
+                <input
+                  ref={photoInputRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  className="hidden"
+                  onChange={(event) => {
+                    setPhotos([...photos, ...Array.from(event.target.files ?? [])].slice(0, 5));
+                    event.target.value = "";
+                  }}
+                />
+                <Button type="button" variant="outline" size="sm" onClick={() => photoInputRef.current?.click()} disabled={photos.length >= 5}>
+                  <ImagePlus className="h-4 w-4 mr-2" />
+                  Add Photos
+                </Button>
+                <Button
+                  type="submit"
+                  size="sm"
+                  disabled={(!commentBody.trim() && photos.length === 0) || addCommentMutation.isPending}
+                  data-testid="button-post-comment"
+                >
+                  {addCommentMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Post Comment
+                </Button>
+              </div>
+            </form>
+          )}
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,13 +9,15 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Calendar, Plus, DollarSign, Package, Check, X, Edit, Trash2 } from "lucide-react";
+import { Calendar, Plus, DollarSign, Package, Check, X, Edit, Trash2, Repeat, CalendarOff, ListChecks, MessageSquare, User, Printer } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { format } from "date-fns";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
+import TaskActivityDialog from "@/components/TaskActivityDialog";
+import type { TaskAssignee } from "@shared/schema";
 
 interface Task {
   id: string;
@@ -28,14 +31,26 @@ interface Task {
   category: "maintenance" | "repair" | "parts" | "inspection" | "other";
   createdAt: string;
   completedAt?: string;
+  recurrenceUnit?: RecurrenceUnit | null;
+  recurrenceInterval?: number | null;
+  dueHours?: number | null;
+  seriesId?: string | null;
+  assigneeId?: number | null;
+  checklistDone?: number;
+  checklistTotal?: number;
+  commentCount?: number;
 }
 
+type RecurrenceUnit = "days" | "weeks" | "months" | "hours";
+
 interface TaskListProps {
   tasks: Task[];
   onAddTask: (task: Omit<Task, 'id' | 'createdAt' | 'completedAt'>) => void;
   onEditTask: (id: string, task: Partial<Task>) => void;
   onDeleteTask: (id: string) => void;
   onCompleteTask: (id: string) => void;
+  readOnly?: boolean; // hides add, edit, complete and delete actions
+  hasHourMeter?: boolean; // offers repeats by hours of use
 }
 
 const taskFormSchema = z.object({
@@ -46,6 +61,12 @@ const taskFormSchema = z.object({
   dueDate: z.date().optional(),
   estimatedCost: z.string().optional(),
   partNumber: z.string().optional(),
+  recurrenceUnit: z.enum(["none", "days", "weeks", "months", "hours"]),
+  recurrenceInterval: z.coerce.number().int().min(1, "At least 1").optional(),
+  assignee: z.string(), // user id, or "unassigned"
+}).refine((task) => task.recurrenceUnit === "none" || task.recurrenceInterval, {
+  message: "How often?",
+  path: ["recurrenceInterval"],
 });
 
 type TaskFormData = z.infer<typeof taskFormSchema>;
@@ -64,6 +85,34 @@ const statusColors = {
   cancelled: "bg-gray-light text-text-muted"
 };
 
+const recurrenceLabels: Record<RecurrenceUnit, string> = {
+  days: "day",
+  weeks: "week",
+  months: "month",
+  hours: "hour of use",
+};
+
+function describeRecurrence(unit: RecurrenceUnit, interval: number) {
+  const label = recurrenceLabels[unit];
+  if (interval === 1) return `Every ${label}`;
+  return unit === "hours" ? `Every ${interval} hours of use` : `Every ${interval} ${label}s`;
+}
+
+// Form fields for a task's repeat rule; "none" ends the series
+function recurrenceFields(data: TaskFormData, current?: Task) {
+  if (data.recurrenceUnit === "none") {
+    return { recurrenceUnit: null, recurrenceInterval: null, dueHours: null };
+  }
+  const fields = { recurrenceUnit: data.recurrenceUnit, recurrenceInterval: data.recurrenceInterval ?? null };
+  // Switching to hours lets the server count the first interval from the hour meter
+  if (data.recurrenceUnit === "hours" && current?.recurrenceUnit === "hours") return fields;
+  return { ...fields, dueHours: null };
+}
+
+function assigneeField(data: TaskFormData) {
+  return { assigneeId: data.assignee === "unassigned" ? null : parseInt(data.assignee) };
+}
+
 const categoryColors = {
   maintenance: "bg-accent-blue/10 text-accent-blue",
   repair: "bg-accent-orange/10 text-accent-orange",
@@ -77,10 +126,18 @@ export default function TaskList({
   onAddTask, 
   onEditTask, 
   onDeleteTask, 
-  onCompleteTask 
+  onCompleteTask,
+  readOnly = false,
+  hasHourMeter = true
 }: TaskListProps) {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [activityTask, setActivityTask] = useState<Task | null>(null);
+
+  const { data: assignees = [] } = useQuery<TaskAssignee[]>({
+    queryKey: ['/api/users/assignees'],
+  });
+  const assigneeName = (id: number | null | undefined) => assignees.find((assignee) => assignee.id === id)?.name;
 
   const form = useForm<TaskFormData>({
     resolver: zodResolver(taskFormSchema),
@@ -91,6 +148,8 @@ export default function TaskList({
       category: "maintenance",
       estimatedCost: "",
       partNumber: "",
+      recurrenceUnit: "none",
+      assignee: "unassigned",
     },
   });
 
@@ -99,8 +158,11 @@ export default function TaskList({
   });
 
   const handleAddTask = (data: TaskFormData) => {
+    const { assignee: _assignee, ...fields } = data;
     onAddTask({
-      ...data,
+      ...fields,
+      ...recurrenceFields(data),
+      ...assigneeField(data),
       status: "pending",
       dueDate: data.dueDate ? format(data.dueDate, "yyyy-MM-dd") : undefined,
     });
@@ -110,8 +172,11 @@ export default function TaskList({
 
   const handleEditTask = (data: TaskFormData) => {
     if (!editingTask) return;
+    const { assignee: _assignee, ...fields } = data;
     onEditTask(editingTask.id, {
-      ...data,
+      ...fields,
+      ...recurrenceFields(data, editingTask),
+      ...assigneeField(data),
       dueDate: data.dueDate ? format(data.dueDate, "yyyy-MM-dd") : undefined,
     });
     setEditingTask(null);
@@ -127,9 +192,16 @@ export default function TaskList({
       estimatedCost: task.estimatedCost || "",
       partNumber: task.partNumber || "",
       dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
+      recurrenceUnit: task.recurrenceUnit ?? "none",
+      recurrenceInterval: task.recurrenceInterval ?? undefined,
+      assignee: task.assigneeId != null ? String(task.assigneeId) : "unassigned",
     });
   };
 
+  const endSeries = (task: Task) => {
+    onEditTask(task.id, { recurrenceUnit: null, recurrenceInterval: null, dueHours: null });
+  };
+
   const TaskFormContent = ({ form: currentForm, onSubmit }: { form: any, onSubmit: (data: TaskFormData) => void }) => (
     <Form {...currentForm}>
       <form onSubmit={currentForm.handleSubmit(onSubmit)} className="space-y-4">
@@ -266,19 +338,88 @@ export default function TaskList({
           />
         </div>
 
-        <FormField
-          control={currentForm.control}
-          name="partNumber"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Part Number</FormLabel>
-              <FormControl>
-                <Input placeholder="Enter part number..." {...field} data-testid="input-task-part-number" />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={currentForm.control}
+            name="recurrenceUnit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Repeat</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-task-recurrence">
+                      <SelectValue placeholder="Does not repeat" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">Does not repeat</SelectItem>
+                    <SelectItem value="days">Every N days</SelectItem>
+                    <SelectItem value="weeks">Every N weeks</SelectItem>
+                    <SelectItem value="months">Every N months</SelectItem>
+                    {hasHourMeter && <SelectItem value="hours">Every N hours of use</SelectItem>}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {currentForm.watch("recurrenceUnit") !== "none" && (
+            <FormField
+              control={currentForm.control}
+              name="recurrenceInterval"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>N</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} {...field} value={field.value ?? ""} data-testid="input-task-recurrence-interval" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           )}
-        />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={currentForm.control}
+            name="partNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Part Number</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter part number..." {...field} data-testid="input-task-part-number" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={currentForm.control}
+            name="assignee"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Assigned To</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-task-assignee">
+                      <SelectValue placeholder="Unassigned" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    {assignees.map((assignee) => (
+                      <SelectItem key={assignee.id} value={String(assignee.id)}>{assignee.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
 
         <div className="flex justify-end gap-2">
           <Button
@@ -308,20 +449,22 @@ export default function TaskList({
             <Package className="h-5 w-5" />
             Tasks & To-Do ({tasks.length})
           </CardTitle>
-          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-            <DialogTrigger asChild>
-              <Button data-testid="button-add-task">
-                <Plus className="h-4 w-4 mr-2" />
-                Add Task
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl">
-              <DialogHeader>
-                <DialogTitle>Add New Task</DialogTitle>
-              </DialogHeader>
-              <TaskFormContent form={form} onSubmit={handleAddTask} />
-            </DialogContent>
-          </Dialog>
+          {!readOnly && (
+            <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-add-task">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Task
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>Add New Task</DialogTitle>
+                </DialogHeader>
+                <TaskFormContent form={form} onSubmit={handleAddTask} />
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
       </CardHeader>
       <CardContent>
@@ -350,14 +493,47 @@ export default function TaskList({
                 <TableRow key={task.id} data-testid={`row-task-${task.id}`}>
                   <TableCell>
                     <div>
-                      <p className="font-medium" data-testid={`text-task-title-${task.id}`}>
+                      <button
+                        type="button"
+                        className="font-medium text-left hover:underline"
+                        onClick={() => setActivityTask(task)}
+                        data-testid={`text-task-title-${task.id}`}
+                      >
                         {task.title}
-                      </p>
+                      </button>
                       {task.description && (
                         <p className="text-sm text-muted-foreground truncate max-w-xs">
                           {task.description}
                         </p>
                       )}
+                      {task.assigneeId != null && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1" data-testid={`text-task-assignee-${task.id}`}>
+                          <User className="h-3 w-3" />
+                          {assigneeName(task.assigneeId) ?? "Inactive user"}
+                        </p>
+                      )}
+                      {task.recurrenceUnit && task.recurrenceInterval && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1" data-testid={`text-task-recurrence-${task.id}`}>
+                          <Repeat className="h-3 w-3" />
+                          {describeRecurrence(task.recurrenceUnit, task.recurrenceInterval)}
+                        </p>
+                      )}
+                      {(!!task.checklistTotal || !!task.commentCount) && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-3">
+                          {!!task.checklistTotal && (
+                            <span className="flex items-center gap-1" data-testid={`text-task-checklist-${task.id}`}>
+                              <ListChecks className="h-3 w-3" />
+                              {task.checklistDone ?? 0}/{task.checklistTotal} steps
+                            </span>
+                          )}
+                          {!!task.commentCount && (
+                            <span className="flex items-center gap-1">
+                              <MessageSquare className="h-3 w-3" />
+                              {task.commentCount}
+                            </span>
+                          )}
+                        </p>
+                      )}
                     </div>
                   </TableCell>
                   <TableCell>
@@ -376,7 +552,10 @@ export default function TaskList({
                     </Badge>
                   </TableCell>
                   <TableCell data-testid={`text-task-due-date-${task.id}`}>
-                    {task.dueDate ? format(new Date(task.dueDate), "MMM d, yyyy") : "-"}
+                    {task.dueDate ? format(new Date(task.dueDate), "MMM d, yyyy") : task.dueHours == null ? "-" : null}
+                    {task.dueHours != null && (
+                      <p className="text-xs text-muted-foreground">at {task.dueHours} h</p>
+                    )}
                   </TableCell>
                   <TableCell data-testid={`text-task-cost-${task.id}`}>
                     {task.estimatedCost || "-"}
@@ -386,35 +565,63 @@ export default function TaskList({
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-1">
-                      {task.status !== "completed" && (
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          onClick={() => onCompleteTask(task.id)}
-                          className="h-8 w-8"
-                          data-testid={`button-complete-task-${task.id}`}
-                        >
-                          <Check className="h-4 w-4" />
-                        </Button>
-                      )}
                       <Button
                         size="icon"
                         variant="ghost"
-                        onClick={() => openEditDialog(task)}
                         className="h-8 w-8"
-                        data-testid={`button-edit-task-${task.id}`}
+                        title="Print job sheet"
+                        asChild
+                        data-testid={`button-print-task-${task.id}`}
                       >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        onClick={() => onDeleteTask(task.id)}
-                        className="h-8 w-8"
-                        data-testid={`button-delete-task-${task.id}`}
-                      >
-                        <Trash2 className="h-4 w-4" />
+                        <a href={`/api/tasks/${task.id}/pdf`} target="_blank" rel="noopener noreferrer">
+                          <Printer className="h-4 w-4" />
+                        </a>
                       </Button>
+                      {!readOnly && (
+                        <>
+                          {task.status !== "completed" && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => onCompleteTask(task.id)}
+                              className="h-8 w-8"
+                              data-testid={`button-complete-task-${task.id}`}
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {task.recurrenceUnit && task.status !== "completed" && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => endSeries(task)}
+                              className="h-8 w-8"
+                              title="End series"
+                              data-testid={`button-end-series-${task.id}`}
+                            >
+                              <CalendarOff className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => openEditDialog(task)}
+                            className="h-8 w-8"
+                            data-testid={`button-edit-task-${task.id}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => onDeleteTask(task.id)}
+                            className="h-8 w-8"
+                            data-testid={`button-delete-task-${task.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -424,6 +631,12 @@ export default function TaskList({
         )}
       </CardContent>
 
+      <TaskActivityDialog
+        task={activityTask}
+        onOpenChange={(open) => !open && setActivityTask(null)}
+        readOnly={readOnly}
+      />
+
       {/* Edit Task Dialog */}
       <Dialog open={!!editingTask} onOpenChange={(open) => !open && setEditingTask(null)}>
         <DialogContent className="max-w-2xl">
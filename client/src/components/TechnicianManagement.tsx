@@ -0,0 +1,476 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Edit, GitMerge, HardHat, Loader2, Trash2, UserPlus } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { TECHNICIAN_KINDS, type Technician, type TechnicianWithUsage } from "@shared/schema";
+
+const KIND_LABELS: Record<typeof TECHNICIAN_KINDS[number], string> = {
+  staff: "Staff",
+  shop: "Service shop",
+};
+
+const technicianFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  kind: z.enum(TECHNICIAN_KINDS),
+  hourlyRate: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+type TechnicianFormData = z.infer<typeof technicianFormSchema>;
+
+const emptyForm: TechnicianFormData = { name: "", kind: "staff", hourlyRate: "", phone: "", email: "", notes: "" };
+
+// Which technicians are being merged, and into which one
+type MergeState = { candidates: TechnicianWithUsage[]; targetId: number | null; sourceIds: number[] };
+
+// apiRequest errors look like "400: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed.details === "string" ? parsed.details : parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+export default function TechnicianManagement() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canWrite = can("technicians:write");
+  const canManage = can("technicians:manage");
+  const [editing, setEditing] = useState<Technician | "new" | null>(null);
+  const [merge, setMerge] = useState<MergeState | null>(null);
+
+  const { data: technicians = [], isLoading } = useQuery<TechnicianWithUsage[]>({
+    queryKey: ['/api/technicians'],
+  });
+  const { data: duplicates = [] } = useQuery<Technician[][]>({
+    queryKey: ['/api/technicians/duplicates'],
+    enabled: canManage,
+  });
+
+  const form = useForm<TechnicianFormData>({
+    resolver: zodResolver(technicianFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/technicians'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/technicians/duplicates'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: TechnicianFormData) => {
+      const body = {
+        ...data,
+        hourlyRate: data.hourlyRate ? parseFloat(data.hourlyRate) : null,
+        phone: data.phone || null,
+        email: data.email || null,
+        notes: data.notes || null,
+      };
+      const response = editing && editing !== "new"
+        ? await apiRequest('PUT', `/api/technicians/${editing.id}`, body)
+        : await apiRequest('POST', '/api/technicians', body);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: editing === "new" ? "Technician added" : "Technician updated" });
+      setEditing(null);
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: extractErrorMessage(error, "Failed to save technician"), variant: "destructive" });
+    },
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const response = await apiRequest('PUT', `/api/technicians/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Error", description: extractErrorMessage(error, "Failed to update technician"), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/technicians/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Technician deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Could not delete technician", description: extractErrorMessage(error, "Failed to delete technician"), variant: "destructive" });
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ targetId, sourceIds }: { targetId: number; sourceIds: number[] }) => {
+      const response = await apiRequest('POST', `/api/technicians/${targetId}/merge`, { sourceIds });
+      return response.json() as Promise<{ technician: Technician; serviceRecordCount: number }>;
+    },
+    onSuccess: (result) => {
+      invalidate();
+      // Service records now name the merged technician
+      queryClient.invalidateQueries({ queryKey: ['/api/mowers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/service-records'] });
+      toast({
+        title: "Technicians merged",
+        description: `${result.serviceRecordCount} service record${result.serviceRecordCount === 1 ? "" : "s"} now name ${result.technician.name}.`,
+      });
+      setMerge(null);
+    },
+    onError: (error) => {
+      toast({ title: "Could not merge technicians", description: extractErrorMessage(error, "Failed to merge technicians"), variant: "destructive" });
+    },
+  });
+
+  const openEditor = (technician: Technician | "new") => {
+    form.reset(technician === "new" ? emptyForm : {
+      name: technician.name,
+      kind: technician.kind as TechnicianFormData["kind"],
+      hourlyRate: technician.hourlyRate ?? "",
+      phone: technician.phone ?? "",
+      email: technician.email ?? "",
+      notes: technician.notes ?? "",
+    });
+    setEditing(technician);
+  };
+
+  // A duplicate group keeps the name with the most service records by default
+  const openGroupMerge = (group: Technician[]) => {
+    const candidates = technicians.filter((technician) => group.some((member) => member.id === technician.id));
+    if (candidates.length < 2) return;
+    const target = [...candidates].sort((a, b) => b.serviceRecordCount - a.serviceRecordCount)[0];
+    setMerge({ candidates, targetId: target.id, sourceIds: candidates.filter((candidate) => candidate.id !== target.id).map((candidate) => candidate.id) });
+  };
+
+  const openRowMerge = (technician: TechnicianWithUsage) => {
+    setMerge({ candidates: technicians, targetId: null, sourceIds: [technician.id] });
+  };
+
+  const mergeTarget = merge ? technicians.find((technician) => technician.id === merge.targetId) : undefined;
+  const mergeSources = merge ? merge.sourceIds.filter((id) => id !== merge.targetId) : [];
+
+  return (
+    <Card className="bg-white border-card-border shadow-card hover:shadow-md hover:border-accent-teal transition-all duration-200">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-text-primary">
+              <HardHat className="h-5 w-5 text-accent-teal" />
+              Technicians
+            </CardTitle>
+            <CardDescription className="text-text-muted">
+              Staff and service shops who work on the fleet, and the rates their labor is costed at
+            </CardDescription>
+          </div>
+          {canWrite && (
+            <Button
+              onClick={() => openEditor("new")}
+              className="bg-accent-teal text-white hover:bg-accent-teal/90 rounded-button"
+              data-testid="button-add-technician"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add Technician
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canManage && duplicates.length > 0 && (
+          <Alert data-testid="alert-duplicate-technicians">
+            <GitMerge className="h-4 w-4" />
+            <AlertDescription>
+              <p className="mb-2">These names look like the same technician:</p>
+              <div className="space-y-2">
+                {duplicates.map((group) => (
+                  <div key={group.map((technician) => technician.id).join("-")} className="flex flex-wrap items-center gap-2">
+                    {group.map((technician) => (
+                      <Badge key={technician.id} variant="outline">{technician.name}</Badge>
+                    ))}
+                    <Button variant="outline" size="sm" onClick={() => openGroupMerge(group)} data-testid={`button-review-duplicates-${group[0].id}`}>
+                      Review merge
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span>Loading technicians...</span>
+          </div>
+        ) : technicians.length === 0 ? (
+          <p className="text-sm text-text-muted text-center py-4">No technicians yet. They are also added when a service record names someone new.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Technician</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-right">Service records</TableHead>
+                <TableHead className="text-right">Hours</TableHead>
+                <TableHead>Active</TableHead>
+                {canWrite && <TableHead></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {technicians.map((technician) => (
+                <TableRow key={technician.id} data-testid={`row-technician-${technician.id}`}>
+                  <TableCell>
+                    <div className="font-medium">{technician.name}</div>
+                    <div className="text-sm text-text-muted">
+                      {KIND_LABELS[technician.kind as keyof typeof KIND_LABELS] ?? technician.kind}
+                      {technician.phone && ` · ${technician.phone}`}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{technician.hourlyRate ? `$${technician.hourlyRate}/h` : "—"}</TableCell>
+                  <TableCell className="text-right">{technician.serviceRecordCount}</TableCell>
+                  <TableCell className="text-right">{technician.laborHours > 0 ? technician.laborHours.toFixed(2) : "—"}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={technician.isActive}
+                      onCheckedChange={(isActive) => activeMutation.mutate({ id: technician.id, isActive })}
+                      disabled={!canWrite || activeMutation.isPending}
+                      data-testid={`switch-technician-active-${technician.id}`}
+                    />
+                  </TableCell>
+                  {canWrite && (
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openEditor(technician)} aria-label="Edit" data-testid={`button-edit-technician-${technician.id}`}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        {canManage && (
+                          <Button variant="ghost" size="sm" onClick={() => openRowMerge(technician)} aria-label="Merge" data-testid={`button-merge-technician-${technician.id}`}>
+                            <GitMerge className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canManage && technician.serviceRecordCount === 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteMutation.mutate(technician.id)}
+                            disabled={deleteMutation.isPending}
+                            aria-label="Delete"
+                            data-testid={`button-delete-technician-${technician.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Add / Edit Technician Dialog */}
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Technician" : "Edit Technician"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-technician-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="kind"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-technician-kind">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {TECHNICIAN_KINDS.map((kind) => (
+                            <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="hourlyRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hourly Rate</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step="0.01" placeholder="0.00" {...field} data-testid="input-technician-rate" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Optional" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="Optional" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-technician">
+                  {saveMutation.isPending ? "Saving..." : "Save Technician"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge Technicians Dialog */}
+      <Dialog open={merge !== null} onOpenChange={(open) => !open && setMerge(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Merge Technicians</DialogTitle>
+            <DialogDescription>
+              The checked technicians are folded into the one kept. Their service records and labor move over and they are removed from the directory.
+            </DialogDescription>
+          </DialogHeader>
+          {merge && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Keep</label>
+                <Select
+                  value={merge.targetId != null ? String(merge.targetId) : ""}
+                  onValueChange={(value) => setMerge({ ...merge, targetId: parseInt(value), sourceIds: merge.sourceIds.filter((id) => id !== parseInt(value)) })}
+                >
+                  <SelectTrigger data-testid="select-merge-target">
+                    <SelectValue placeholder="Technician to keep" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-60">
+                    {merge.candidates.map((candidate) => (
+                      <SelectItem key={candidate.id} value={String(candidate.id)}>{candidate.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Merge into it</label>
+                <div className="space-y-2 rounded-md border p-3 max-h-64 overflow-y-auto">
+                  {merge.candidates.filter((candidate) => candidate.id !== merge.targetId).map((candidate) => (
+                    <label key={candidate.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={merge.sourceIds.includes(candidate.id)}
+                        onCheckedChange={(checked) => setMerge({
+                          ...merge,
+                          sourceIds: checked === true ? [...merge.sourceIds, candidate.id] : merge.sourceIds.filter((id) => id !== candidate.id),
+                        })}
+                        data-testid={`checkbox-merge-source-${candidate.id}`}
+                      />
+                      {candidate.name}
+                      <span className="text-text-muted">
+                        ({candidate.serviceRecordCount} service record{candidate.serviceRecordCount === 1 ? "" : "s"})
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setMerge(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => mergeTarget && mergeMutation.mutate({ targetId: mergeTarget.id, sourceIds: mergeSources })}
+                  disabled={!mergeTarget || mergeSources.length === 0 || mergeMutation.isPending}
+                  data-testid="button-confirm-merge"
+                >
+                  {mergeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Merge {mergeSources.length > 0 ? mergeSources.length : ""} into {mergeTarget?.name ?? "…"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
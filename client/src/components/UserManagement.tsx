@@ -0,0 +1,331 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { KeyRound, Loader2, UserPlus, Users } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { USER_ROLES, ROLE_LABELS, type UserRole } from "@shared/permissions";
+import type { SafeUser } from "@shared/schema";
+
+const newUserFormSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  displayName: z.string().trim().optional(),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(USER_ROLES),
+});
+
+type NewUserFormData = z.infer<typeof newUserFormSchema>;
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: "Full access including parts catalog, backup/restore and users",
+  technician: "Service records, tasks and attachments",
+  viewer: "Read-only access",
+};
+
+// apiRequest errors look like "400: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+export default function UserManagement() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [resetPasswordUser, setResetPasswordUser] = useState<SafeUser | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+
+  const { data: users = [], isLoading } = useQuery<SafeUser[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const form = useForm<NewUserFormData>({
+    resolver: zodResolver(newUserFormSchema),
+    defaultValues: { username: "", displayName: "", password: "", role: "technician" },
+  });
+
+  const createUserMutation = useMutation({
+    mutationFn: async (data: NewUserFormData) => {
+      const response = await apiRequest('POST', '/api/users', {
+        ...data,
+        displayName: data.displayName || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({ title: "User created", description: "The new account can sign in now." });
+      form.reset();
+      setShowAddDialog(false);
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: extractErrorMessage(error, "Failed to create user"), variant: "destructive" });
+    },
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: { role?: UserRole; isActive?: boolean; password?: string } }) => {
+      const response = await apiRequest('PUT', `/api/users/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: extractErrorMessage(error, "Failed to update user"), variant: "destructive" });
+    },
+  });
+
+  const handleResetPassword = () => {
+    if (!resetPasswordUser) return;
+    updateUserMutation.mutate(
+      { id: resetPasswordUser.id, data: { password: newPassword } },
+      {
+        onSuccess: () => {
+          toast({ title: "Password reset", description: `New password set for ${resetPasswordUser.username}.` });
+          setResetPasswordUser(null);
+          setNewPassword("");
+        },
+      },
+    );
+  };
+
+  return (
+    <Card className="bg-white border-card-border shadow-card hover:shadow-md hover:border-accent-teal transition-all duration-200">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-text-primary">
+              <Users className="h-5 w-5 text-accent-teal" />
+              Users
+            </CardTitle>
+            <CardDescription className="text-text-muted">
+              Manage who can sign in and what they are allowed to change
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => setShowAddDialog(true)}
+            className="bg-accent-teal text-white hover:bg-accent-teal/90 rounded-button"
+            data-testid="button-add-user"
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            Add User
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span>Loading users...</span>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Last Login</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => {
+                const isSelf = user.id === currentUser?.id;
+                return (
+                  <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{user.displayName || user.username}</div>
+                      <div className="text-sm text-text-muted">
+                        {user.username}
+                        {isSelf && <Badge variant="secondary" className="ml-2 text-xs">You</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        onValueChange={(role) => updateUserMutation.mutate({ id: user.id, data: { role: role as UserRole } })}
+                        disabled={updateUserMutation.isPending}
+                      >
+                        <SelectTrigger className="w-36" data-testid={`select-user-role-${user.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {USER_ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-sm text-text-muted">
+                      {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : 'Never'}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={user.isActive}
+                        onCheckedChange={(isActive) => updateUserMutation.mutate({ id: user.id, data: { isActive } })}
+                        disabled={isSelf || updateUserMutation.isPending}
+                        data-testid={`switch-user-active-${user.id}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setResetPasswordUser(user)}
+                        data-testid={`button-reset-password-${user.id}`}
+                      >
+                        <KeyRound className="h-4 w-4 mr-2" />
+                        Reset Password
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Add User Dialog */}
+      <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add User</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createUserMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="off" {...field} data-testid="input-new-user-username" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="displayName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Display Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional" {...field} data-testid="input-new-user-display-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} data-testid="input-new-user-password" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-new-user-role">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {USER_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-text-muted">{ROLE_DESCRIPTIONS[form.watch("role")]}</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setShowAddDialog(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createUserMutation.isPending} data-testid="button-save-user">
+                  {createUserMutation.isPending ? "Creating..." : "Create User"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reset Password Dialog */}
+      <Dialog
+        open={!!resetPasswordUser}
+        onOpenChange={(open) => {
+          if (!open) {
+            setResetPasswordUser(null);
+            setNewPassword("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset Password for {resetPasswordUser?.username}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              type="password"
+              autoComplete="new-password"
+              placeholder="New password (min. 8 characters)"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              data-testid="input-reset-password"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setResetPasswordUser(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleResetPassword}
+                disabled={newPassword.length < 8 || updateUserMutation.isPending}
+                data-testid="button-confirm-reset-password"
+              >
+                Reset Password
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
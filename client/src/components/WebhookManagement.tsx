@@ -0,0 +1,483 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { z } from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Copy, Edit, History, KeyRound, Loader2, Plus, RotateCw, Send, Trash2, Webhook as WebhookIcon } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { WEBHOOK_EVENT_TYPES, type Webhook, type WebhookDelivery, type WebhookEventType } from "@shared/schema";
+
+const WEBHOOKS_QUERY_KEY = ['/api/webhooks'];
+
+const webhookFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  url: z.string().trim().url("Enter a valid URL"),
+  allEvents: z.boolean(),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)),
+});
+
+type WebhookFormData = z.infer<typeof webhookFormSchema>;
+
+const emptyForm: WebhookFormData = { name: "", url: "", allEvents: true, eventTypes: [] };
+
+const statusColors: Record<string, string> = {
+  success: "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-400",
+  pending: "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400",
+  failed: "bg-red-100 text-red-800 border-red-200 dark:bg-red-900/20 dark:text-red-400",
+};
+
+// "asset-part-created" → "asset part created"
+const eventLabel = (eventType: string) => eventType.replace(/-/g, " ");
+
+// apiRequest errors look like "400: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed.details === "string" ? parsed.details : parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+function DeliveryHistory({ webhook }: { webhook: Webhook }) {
+  const { toast } = useToast();
+  const queryKey = ['/api/webhooks', webhook.id.toString(), 'deliveries'];
+
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey,
+    // Pending deliveries and scheduled retries change on their own
+    refetchInterval: 15000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/webhook-deliveries/${id}/retry`);
+      return response.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey });
+      if (delivery.status === "success") toast({ title: "Event delivered" });
+      else toast({ title: "Still failing", description: delivery.lastError ?? undefined, variant: "destructive" });
+    },
+    onError: (error) => {
+      toast({ title: "Could not retry", description: extractErrorMessage(error, "Failed to retry delivery"), variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-text-muted" />
+      </div>
+    );
+  }
+  if (deliveries.length === 0) {
+    return <p className="text-center py-6 text-text-muted">Nothing has been sent to this webhook yet</p>;
+  }
+
+  return (
+    <div className="max-h-[60vh] overflow-y-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Sent</TableHead>
+            <TableHead>Event</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Response</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {deliveries.map((delivery) => (
+            <TableRow key={delivery.id} data-testid={`row-webhook-delivery-${delivery.id}`}>
+              <TableCell className="whitespace-nowrap">{format(new Date(delivery.createdAt), "d MMM HH:mm:ss")}</TableCell>
+              <TableCell>
+                <div>{eventLabel(delivery.eventType)}</div>
+                <div className="text-xs text-text-muted">#{delivery.id}</div>
+              </TableCell>
+              <TableCell>
+                <Badge variant="outline" className={`text-xs capitalize ${statusColors[delivery.status] ?? ""}`}>
+                  {delivery.status}
+                </Badge>
+                {delivery.attempts > 1 && <div className="text-xs text-text-muted mt-1">{delivery.attempts} attempts</div>}
+                {delivery.status === "failed" && delivery.nextAttemptAt && (
+                  <div className="text-xs text-text-muted">Retrying {format(new Date(delivery.nextAttemptAt), "HH:mm:ss")}</div>
+                )}
+              </TableCell>
+              <TableCell className="max-w-[220px]">
+                {delivery.responseStatus !== null && <div>HTTP {delivery.responseStatus}</div>}
+                {delivery.lastError && <div className="text-xs text-destructive break-words">{delivery.lastError}</div>}
+              </TableCell>
+              <TableCell>
+                {delivery.status === "failed" && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={retryMutation.isPending}
+                    onClick={() => retryMutation.mutate(delivery.id)}
+                    className="flex items-center gap-1"
+                    data-testid={`button-retry-webhook-delivery-${delivery.id}`}
+                  >
+                    <RotateCw className="h-4 w-4" />
+                    Retry
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+/**
+ * Outbound webhooks: HTTP endpoints that receive the same asset, service,
+ * task and stock events as the live WebSocket, signed with a per-webhook
+ * secret, with the delivery history of each.
+ */
+export default function WebhookManagement() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<Webhook | "new" | null>(null);
+  const [historyFor, setHistoryFor] = useState<Webhook | null>(null);
+
+  const { data: webhooks = [], isLoading } = useQuery<Webhook[]>({
+    queryKey: WEBHOOKS_QUERY_KEY,
+  });
+
+  const form = useForm<WebhookFormData>({
+    resolver: zodResolver(webhookFormSchema),
+    defaultValues: emptyForm,
+  });
+  const allEvents = form.watch("allEvents");
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: WEBHOOKS_QUERY_KEY });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: WebhookFormData) => {
+      const body = { name: data.name, url: data.url, eventTypes: data.allEvents ? [] : data.eventTypes };
+      const response = editing && editing !== "new"
+        ? await apiRequest('PUT', `/api/webhooks/${editing.id}`, body)
+        : await apiRequest('POST', '/api/webhooks', body);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: editing === "new" ? "Webhook added" : "Webhook updated" });
+      setEditing(null);
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: extractErrorMessage(error, "Failed to save webhook"), variant: "destructive" });
+    },
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const response = await apiRequest('PUT', `/api/webhooks/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Error", description: extractErrorMessage(error, "Failed to update webhook"), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Webhook deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Could not delete webhook", description: extractErrorMessage(error, "Failed to delete webhook"), variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/webhooks/${id}/test`);
+      return response.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/webhooks', delivery.webhookId.toString(), 'deliveries'] });
+      if (delivery.status === "success") toast({ title: "Test event delivered", description: `The endpoint answered HTTP ${delivery.responseStatus}` });
+      else toast({ title: "Test event failed", description: delivery.lastError ?? "The endpoint did not accept it", variant: "destructive" });
+    },
+    onError: (error) => {
+      toast({ title: "Could not send test event", description: extractErrorMessage(error, "Failed to send test event"), variant: "destructive" });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/webhooks/${id}/secret`);
+      return response.json() as Promise<Webhook>;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Secret replaced", description: "Give the receiving system the new secret" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: extractErrorMessage(error, "Failed to replace secret"), variant: "destructive" });
+    },
+  });
+
+  const openEditor = (webhook: Webhook | "new") => {
+    form.reset(webhook === "new" ? emptyForm : {
+      name: webhook.name,
+      url: webhook.url,
+      allEvents: webhook.eventTypes.length === 0,
+      eventTypes: webhook.eventTypes as WebhookEventType[],
+    });
+    setEditing(webhook);
+  };
+
+  const copySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast({ title: "Secret copied" });
+    } catch {
+      toast({ title: "Could not copy", description: "Open the webhook and copy the secret by hand", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="bg-white border-card-border shadow-card hover:shadow-md hover:border-accent-teal transition-all duration-200">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-text-primary">
+              <WebhookIcon className="h-5 w-5 text-accent-teal" />
+              Webhooks
+            </CardTitle>
+            <CardDescription className="text-text-muted">
+              Send asset, service, task and stock events to other systems as signed HTTP POST requests
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => openEditor("new")}
+            className="bg-accent-teal text-white hover:bg-accent-teal/90 rounded-button"
+            data-testid="button-add-webhook"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Webhook
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span>Loading webhooks...</span>
+          </div>
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-text-muted text-center py-4">No webhooks yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Webhook</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Secret</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {webhooks.map((webhook) => (
+                <TableRow key={webhook.id} data-testid={`row-webhook-${webhook.id}`}>
+                  <TableCell>
+                    <div className="font-medium">{webhook.name}</div>
+                    <div className="text-sm text-text-muted break-all">{webhook.url}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {webhook.eventTypes.length === 0 ? "All events" : `${webhook.eventTypes.length} event${webhook.eventTypes.length === 1 ? "" : "s"}`}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <code className="text-xs text-text-muted">{webhook.secret.slice(0, 8)}…</code>
+                      <Button variant="ghost" size="sm" onClick={() => copySecret(webhook.secret)} aria-label="Copy secret" data-testid={`button-copy-webhook-secret-${webhook.id}`}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => rotateMutation.mutate(webhook.id)}
+                        disabled={rotateMutation.isPending}
+                        aria-label="Replace secret"
+                        data-testid={`button-rotate-webhook-secret-${webhook.id}`}
+                      >
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={webhook.isActive}
+                      onCheckedChange={(isActive) => activeMutation.mutate({ id: webhook.id, isActive })}
+                      disabled={activeMutation.isPending}
+                      data-testid={`switch-webhook-active-${webhook.id}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => testMutation.mutate(webhook.id)}
+                        disabled={testMutation.isPending}
+                        aria-label="Send test event"
+                        data-testid={`button-test-webhook-${webhook.id}`}
+                      >
+                        {testMutation.isPending && testMutation.variables === webhook.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setHistoryFor(webhook)} aria-label="Delivery history" data-testid={`button-webhook-history-${webhook.id}`}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => openEditor(webhook)} aria-label="Edit" data-testid={`button-edit-webhook-${webhook.id}`}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(webhook.id)}
+                        disabled={deleteMutation.isPending}
+                        aria-label="Delete"
+                        data-testid={`button-delete-webhook-${webhook.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Add / Edit Webhook Dialog */}
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Webhook" : "Edit Webhook"}</DialogTitle>
+            <DialogDescription>
+              Events are POSTed as JSON with an X-MowerM8-Signature header: sha256= followed by the HMAC-SHA256 of
+              "timestamp.body" (timestamp from X-MowerM8-Timestamp) keyed with the webhook's secret.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Ticketing" {...field} data-testid="input-webhook-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="url"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>URL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://example.com/hooks/mowerm8" {...field} data-testid="input-webhook-url" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="allEvents"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} data-testid="checkbox-webhook-all-events" />
+                    </FormControl>
+                    <FormLabel className="font-normal">All events, including ones added later</FormLabel>
+                  </FormItem>
+                )}
+              />
+              {!allEvents && (
+                <FormField
+                  control={form.control}
+                  name="eventTypes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-[240px] overflow-y-auto rounded-md border p-3">
+                        {WEBHOOK_EVENT_TYPES.map((eventType) => (
+                          <label key={eventType} className="flex items-center gap-2 text-sm capitalize">
+                            <Checkbox
+                              checked={field.value.includes(eventType)}
+                              onCheckedChange={(checked) => field.onChange(
+                                checked ? [...field.value, eventType] : field.value.filter((value) => value !== eventType),
+                              )}
+                              data-testid={`checkbox-webhook-event-${eventType}`}
+                            />
+                            {eventLabel(eventType)}
+                          </label>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={saveMutation.isPending || (!allEvents && form.watch("eventTypes").length === 0)}
+                  className="bg-accent-teal text-white hover:bg-accent-teal/90"
+                  data-testid="button-save-webhook"
+                >
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delivery History Dialog */}
+      <Dialog open={historyFor !== null} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Delivery History: {historyFor?.name}</DialogTitle>
+            <DialogDescription>
+              The last 50 events sent to this webhook. Failed deliveries are retried with increasing delays, up to 6 attempts.
+            </DialogDescription>
+          </DialogHeader>
+          {historyFor && <DeliveryHistory webhook={historyFor} />}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,533 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, Clock, ListTodo, Loader2, Package, Play, Plus, Printer, Trash2, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { safeFormatDateForDisplay } from "@/lib/utils";
+import type { Engine, Part, Task, TechnicianWithUsage, WorkOrderWithDetails } from "@shared/schema";
+
+interface WorkOrderDialogProps {
+  mowerId: string;
+  workOrderId: number | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const workOrderStatusLabels: Record<string, string> = {
+  open: "Open",
+  in_progress: "In progress",
+  closed: "Closed",
+  cancelled: "Cancelled",
+};
+
+export const workOrderStatusColors: Record<string, string> = {
+  open: "bg-accent-orange/10 text-accent-orange",
+  in_progress: "bg-accent-blue/10 text-accent-blue",
+  closed: "bg-accent-teal/10 text-accent-teal",
+  cancelled: "bg-gray-light text-text-muted",
+};
+
+// Open tasks of the mower that no work order has taken yet
+export function availableWorkOrderTasks(tasks: Task[]) {
+  return tasks.filter((task) => task.workOrderId == null && task.status !== "completed" && task.status !== "cancelled");
+}
+
+// apiRequest errors look like "400: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed.details === "string" ? parsed.details : parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+function today() {
+  return new Date().toISOString().split("T")[0];
+}
+
+function money(amount: number) {
+  return `$${amount.toFixed(2)}`;
+}
+
+// A work order's tasks, reserved parts, labor and costs, and its sign-off
+export default function WorkOrderDialog({ mowerId, workOrderId, onOpenChange }: WorkOrderDialogProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [taskToAdd, setTaskToAdd] = useState("");
+  const [partId, setPartId] = useState("");
+  const [engineId, setEngineId] = useState("none");
+  const [quantity, setQuantity] = useState("1");
+  const [technicianId, setTechnicianId] = useState("");
+  const [workDate, setWorkDate] = useState(today());
+  const [hours, setHours] = useState("");
+  const [hourlyRate, setHourlyRate] = useState("");
+  const [signOffNotes, setSignOffNotes] = useState("");
+  const [mileage, setMileage] = useState("");
+  const [confirming, setConfirming] = useState<"cancel" | "delete" | null>(null);
+
+  const detailsKey = ['/api/work-orders', String(workOrderId)];
+  const { data: workOrder, isLoading } = useQuery<WorkOrderWithDetails>({
+    queryKey: detailsKey,
+    enabled: workOrderId != null,
+  });
+  const isOpen = workOrder?.status === "open" || workOrder?.status === "in_progress";
+  const canWrite = can("workorders:write") && isOpen;
+
+  const { data: tasks = [] } = useQuery<Task[]>({
+    queryKey: ['/api/mowers', mowerId, 'tasks'],
+    enabled: workOrderId != null && canWrite,
+  });
+  const { data: parts = [] } = useQuery<Part[]>({
+    queryKey: ['/api/parts'],
+    enabled: workOrderId != null && canWrite,
+  });
+  const { data: engines = [] } = useQuery<Engine[]>({
+    queryKey: ['/api/mowers', mowerId, 'engines'],
+    enabled: workOrderId != null && canWrite,
+  });
+  const { data: technicians = [] } = useQuery<TechnicianWithUsage[]>({
+    queryKey: ['/api/technicians'],
+    enabled: workOrderId != null && canWrite,
+  });
+  const activeTechnicians = technicians.filter((technician) => technician.isActive);
+  const selectedTechnician = activeTechnicians.find((technician) => String(technician.id) === technicianId);
+  const addableTasks = availableWorkOrderTasks(tasks);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: detailsKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId, 'work-orders'] });
+  };
+
+  const onError = (fallback: string) => (error: unknown) => {
+    toast({ title: "Error", description: extractErrorMessage(error, fallback), variant: "destructive" });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: { status?: string; taskIds?: string[] }) => {
+      await apiRequest("PUT", `/api/work-orders/${workOrderId}`, data);
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId, 'tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId, 'parts'] });
+      setTaskToAdd("");
+      setConfirming(null);
+    },
+    onError: onError("Failed to update work order"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/work-orders/${workOrderId}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId, 'parts'] });
+      setConfirming(null);
+      onOpenChange(false);
+      toast({ title: "Work order deleted" });
+    },
+    onError: onError("Failed to delete work order"),
+  });
+
+  // Reserving and releasing parts changes stock levels
+  const invalidateParts = () => {
+    invalidate();
+    queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId, 'parts'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/parts'] });
+  };
+
+  const reservePartMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/work-orders/${workOrderId}/parts`, {
+        partId: parseInt(partId),
+        engineId: engineId !== "none" ? parseInt(engineId) : null,
+        quantity: parseInt(quantity) || 1,
+      });
+    },
+    onSuccess: () => {
+      invalidateParts();
+      setPartId("");
+      setEngineId("none");
+      setQuantity("1");
+    },
+    onError: onError("Failed to reserve part"),
+  });
+
+  const releasePartMutation = useMutation({
+    mutationFn: async (assetPartId: number) => {
+      await apiRequest("DELETE", `/api/work-orders/${workOrderId}/parts/${assetPartId}`);
+    },
+    onSuccess: invalidateParts,
+    onError: onError("Failed to release part"),
+  });
+
+  const addLaborMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/work-orders/${workOrderId}/labor`, {
+        technicianId: parseInt(technicianId),
+        workDate,
+        hours,
+        hourlyRate: hourlyRate !== "" ? hourlyRate : null,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setHours("");
+    },
+    onError: onError("Failed to add labor"),
+  });
+
+  const deleteLaborMutation = useMutation({
+    mutationFn: async (laborId: number) => {
+      await apiRequest("DELETE", `/api/work-orders/${workOrderId}/labor/${laborId}`);
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to delete labor"),
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/work-orders/${workOrderId}/close`, {
+        signOffNotes: signOffNotes || null,
+        mileage: mileage !== "" ? parseInt(mileage) : null,
+      });
+    },
+    onSuccess: () => {
+      invalidateParts();
+      queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/service-records'] });
+      setSignOffNotes("");
+      setMileage("");
+      toast({ title: "Work order signed off", description: "The service record has been added to the mower's service history." });
+    },
+    onError: onError("Failed to sign off work order"),
+  });
+
+  const taskIds = workOrder?.tasks.map((task) => task.id) ?? [];
+
+  return (
+    <Dialog open={workOrderId != null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {isLoading || !workOrder ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading work order...
+          </div>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                {workOrder.title}
+                <Badge className={workOrderStatusColors[workOrder.status] ?? ""}>
+                  {workOrderStatusLabels[workOrder.status] ?? workOrder.status}
+                </Badge>
+              </DialogTitle>
+              <DialogDescription>
+                <span className="capitalize">{workOrder.serviceType}</span> · opened {safeFormatDateForDisplay(workOrder.createdAt)}
+              </DialogDescription>
+            </DialogHeader>
+
+            {workOrder.description && <p className="text-sm whitespace-pre-wrap">{workOrder.description}</p>}
+
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" asChild data-testid="button-print-work-order">
+                <a href={`/api/work-orders/${workOrder.id}/pdf`} target="_blank" rel="noopener noreferrer">
+                  <Printer className="h-4 w-4 mr-2" />
+                  Print Job Sheet
+                </a>
+              </Button>
+              {can("workorders:write") && (
+                <>
+                  {workOrder.status === "open" && (
+                    <Button size="sm" variant="outline" onClick={() => updateMutation.mutate({ status: "in_progress" })} data-testid="button-start-work-order">
+                      <Play className="h-4 w-4 mr-2" />
+                      Start Work
+                    </Button>
+                  )}
+                  {isOpen && (
+                    <Button size="sm" variant="outline" onClick={() => setConfirming("cancel")} data-testid="button-cancel-work-order">
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel Work Order
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => setConfirming("delete")} data-testid="button-delete-work-order">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <Separator />
+
+            <section className="space-y-2">
+              <h3 className="font-medium flex items-center gap-2"><ListTodo className="h-4 w-4" /> Tasks</h3>
+              {workOrder.tasks.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No tasks on this work order.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {workOrder.tasks.map((task) => (
+                    <li key={task.id} className="flex items-center justify-between text-sm" data-testid={`work-order-task-${task.id}`}>
+                      <span className={task.status === "completed" ? "line-through text-muted-foreground" : ""}>{task.title}</span>
+                      {canWrite && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => updateMutation.mutate({ taskIds: taskIds.filter((id) => id !== task.id) })}
+                          data-testid={`button-remove-work-order-task-${task.id}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {canWrite && addableTasks.length > 0 && (
+                <div className="flex gap-2">
+                  <Select value={taskToAdd} onValueChange={setTaskToAdd}>
+                    <SelectTrigger data-testid="select-work-order-add-task">
+                      <SelectValue placeholder="Add a task of this mower" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {addableTasks.map((task) => (
+                        <SelectItem key={task.id} value={task.id}>{task.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    disabled={!taskToAdd || updateMutation.isPending}
+                    onClick={() => updateMutation.mutate({ taskIds: [...taskIds, taskToAdd] })}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </section>
+
+            <Separator />
+
+            <section className="space-y-2">
+              <h3 className="font-medium flex items-center gap-2"><Package className="h-4 w-4" /> Parts</h3>
+              {workOrder.parts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No parts reserved.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Part</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">Unit cost</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      {canWrite && <TableHead className="w-12" />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {workOrder.parts.map((assetPart) => (
+                      <TableRow key={assetPart.id} data-testid={`row-work-order-part-${assetPart.id}`}>
+                        <TableCell>
+                          {assetPart.part.name}
+                          <div className="text-xs text-muted-foreground">{assetPart.part.partNumber}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{assetPart.quantity}</TableCell>
+                        <TableCell className="text-right">{money(Number(assetPart.part.unitCost ?? 0))}</TableCell>
+                        <TableCell className="text-right">{money(Number(assetPart.part.unitCost ?? 0) * assetPart.quantity)}</TableCell>
+                        {canWrite && (
+                          <TableCell>
+                            <Button variant="ghost" size="icon" onClick={() => releasePartMutation.mutate(assetPart.id)} data-testid={`button-release-part-${assetPart.id}`}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              {canWrite && (
+                <div className="grid grid-cols-[1fr_10rem_5rem_auto] gap-2">
+                  <Select value={partId} onValueChange={setPartId}>
+                    <SelectTrigger data-testid="select-work-order-part">
+                      <SelectValue placeholder="Reserve a part" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {parts.map((part) => (
+                        <SelectItem key={part.id} value={String(part.id)}>
+                          {part.name} ({part.stockQuantity} in stock)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={engineId} onValueChange={setEngineId}>
+                    <SelectTrigger data-testid="select-work-order-part-engine">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">On the mower</SelectItem>
+                      {engines.map((engine) => (
+                        <SelectItem key={engine.id} value={String(engine.id)}>{engine.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input type="number" min={1} value={quantity} onChange={(e) => setQuantity(e.target.value)} aria-label="Quantity" />
+                  <Button size="sm" disabled={!partId || reservePartMutation.isPending} onClick={() => reservePartMutation.mutate()} data-testid="button-reserve-part">
+                    {reservePartMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                  </Button>
+                </div>
+              )}
+            </section>
+
+            <Separator />
+
+            <section className="space-y-2">
+              <h3 className="font-medium flex items-center gap-2"><Clock className="h-4 w-4" /> Labor</h3>
+              {workOrder.labor.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No labor booked.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Technician</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Hours</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      {canWrite && <TableHead className="w-12" />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {workOrder.labor.map((entry) => (
+                      <TableRow key={entry.id} data-testid={`row-work-order-labor-${entry.id}`}>
+                        <TableCell>{entry.technicianName}</TableCell>
+                        <TableCell>{safeFormatDateForDisplay(entry.workDate)}</TableCell>
+                        <TableCell className="text-right">{Number(entry.hours)}</TableCell>
+                        <TableCell className="text-right">{entry.hourlyRate != null ? money(Number(entry.hourlyRate)) : "—"}</TableCell>
+                        <TableCell className="text-right">{money(Number(entry.hours) * Number(entry.hourlyRate ?? 0))}</TableCell>
+                        {canWrite && (
+                          <TableCell>
+                            <Button variant="ghost" size="icon" onClick={() => deleteLaborMutation.mutate(entry.id)} data-testid={`button-delete-labor-${entry.id}`}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              {canWrite && (
+                <div className="grid grid-cols-[1fr_9rem_5rem_6rem_auto] gap-2">
+                  <Select value={technicianId} onValueChange={setTechnicianId}>
+                    <SelectTrigger data-testid="select-labor-technician">
+                      <SelectValue placeholder="Technician" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeTechnicians.map((technician) => (
+                        <SelectItem key={technician.id} value={String(technician.id)}>{technician.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input type="date" value={workDate} onChange={(e) => setWorkDate(e.target.value)} aria-label="Work date" />
+                  <Input type="number" min={0} step="0.25" placeholder="Hours" value={hours} onChange={(e) => setHours(e.target.value)} data-testid="input-labor-hours" />
+                  <Input type="number" min={0} step="0.01" placeholder={selectedTechnician?.hourlyRate ? `${selectedTechnician.hourlyRate}/h` : "Rate/h"} value={hourlyRate} onChange={(e) => setHourlyRate(e.target.value)} data-testid="input-labor-rate" />
+                  <Button size="sm" disabled={!technicianId || !hours || addLaborMutation.isPending} onClick={() => addLaborMutation.mutate()} data-testid="button-add-labor">
+                    {addLaborMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                  </Button>
+                </div>
+              )}
+            </section>
+
+            <Separator />
+
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Parts</div>
+                <div className="font-medium">{money(workOrder.partsCost)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Labor</div>
+                <div className="font-medium">{money(workOrder.laborCost)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Total</div>
+                <div className="font-semibold" data-testid="text-work-order-total">{money(workOrder.totalCost)}</div>
+              </div>
+            </div>
+
+            <Separator />
+
+            {workOrder.status === "closed" ? (
+              <section className="space-y-1 text-sm">
+                <h3 className="font-medium flex items-center gap-2"><CheckCircle2 className="h-4 w-4" /> Signed off</h3>
+                <p>
+                  By {workOrder.signedOffByName ?? "a deleted user"} on {safeFormatDateForDisplay(workOrder.closedAt)}.
+                  {workOrder.serviceRecordId && " Its service record is in the mower's service history."}
+                </p>
+                {workOrder.signOffNotes && <p className="text-muted-foreground whitespace-pre-wrap">{workOrder.signOffNotes}</p>}
+              </section>
+            ) : canWrite && (
+              <section className="space-y-2">
+                <h3 className="font-medium flex items-center gap-2"><CheckCircle2 className="h-4 w-4" /> Sign-off</h3>
+                <Textarea rows={2} placeholder="Completion notes" value={signOffNotes} onChange={(e) => setSignOffNotes(e.target.value)} data-testid="input-sign-off-notes" />
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-48"
+                    placeholder="Hour meter (optional)"
+                    value={mileage}
+                    onChange={(e) => setMileage(e.target.value)}
+                    data-testid="input-sign-off-hours"
+                  />
+                  <Button className="ml-auto" disabled={closeMutation.isPending} onClick={() => closeMutation.mutate()} data-testid="button-close-work-order">
+                    {closeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Sign Off &amp; Close
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Closing completes the open tasks, installs the reserved parts and adds a {money(workOrder.totalCost)} service record.
+                </p>
+              </section>
+            )}
+          </>
+        )}
+      </DialogContent>
+
+      <AlertDialog open={confirming !== null} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirming === "delete" ? "Delete Work Order" : "Cancel Work Order"}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming === "delete" && !isOpen
+                ? "Delete this work order? Its service record and installed parts are kept."
+                : "Its reserved parts go back into stock and its tasks become free for another work order."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => confirming === "delete" ? deleteMutation.mutate() : updateMutation.mutate({ status: "cancelled" })}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {confirming === "delete" ? "Delete" : "Cancel Work Order"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Dialog>
+  );
+}
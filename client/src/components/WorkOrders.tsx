@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardList, Loader2, Plus } from "lucide-react";
+import WorkOrderDialog, { availableWorkOrderTasks, workOrderStatusColors, workOrderStatusLabels } from "@/components/WorkOrderDialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { safeFormatDateForDisplay } from "@/lib/utils";
+import { SERVICE_TYPES, type Task, type WorkOrderWithDetails } from "@shared/schema";
+
+interface WorkOrdersProps {
+  mowerId: string;
+}
+
+const workOrderFormSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  description: z.string().optional(),
+  serviceType: z.enum(SERVICE_TYPES),
+  taskIds: z.array(z.string()),
+});
+
+type WorkOrderFormData = z.infer<typeof workOrderFormSchema>;
+
+// apiRequest errors look like "400: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed.details === "string" ? parsed.details : parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+export default function WorkOrders({ mowerId }: WorkOrdersProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canWrite = can("workorders:write");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [openWorkOrderId, setOpenWorkOrderId] = useState<number | null>(null);
+
+  const workOrdersQueryKey = ['/api/mowers', mowerId, 'work-orders'];
+  const { data: workOrders = [], isLoading } = useQuery<WorkOrderWithDetails[]>({
+    queryKey: workOrdersQueryKey,
+    enabled: !!mowerId,
+  });
+  const { data: tasks = [] } = useQuery<Task[]>({
+    queryKey: ['/api/mowers', mowerId, 'tasks'],
+    enabled: !!mowerId,
+  });
+  const availableTasks = availableWorkOrderTasks(tasks);
+
+  const form = useForm<WorkOrderFormData>({
+    resolver: zodResolver(workOrderFormSchema),
+    defaultValues: { title: "", description: "", serviceType: "repair", taskIds: [] },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: WorkOrderFormData) => {
+      const response = await apiRequest("POST", `/api/mowers/${mowerId}/work-orders`, data);
+      return response.json() as Promise<WorkOrderWithDetails>;
+    },
+    onSuccess: (workOrder) => {
+      queryClient.invalidateQueries({ queryKey: workOrdersQueryKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId, 'tasks'] });
+      setIsDialogOpen(false);
+      setOpenWorkOrderId(workOrder.id);
+      toast({ title: "Work order created", description: "Reserve parts and book labor, then sign it off." });
+    },
+    onError: (error) => {
+      toast({ title: "Could not create work order", description: extractErrorMessage(error, "Failed to create work order"), variant: "destructive" });
+    },
+  });
+
+  const openDialog = () => {
+    form.reset({ title: "", description: "", serviceType: "repair", taskIds: [] });
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Work Orders
+          </CardTitle>
+          <CardDescription>
+            Group tasks, parts and labor into one job; signing it off writes the service record.
+          </CardDescription>
+        </div>
+        {canWrite && (
+          <Button size="sm" onClick={openDialog} data-testid="button-new-work-order">
+            <Plus className="h-4 w-4 mr-2" />
+            New Work Order
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading work orders...
+          </div>
+        ) : workOrders.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No work orders for this mower yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Work order</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Tasks</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {workOrders.map((workOrder) => (
+                <TableRow
+                  key={workOrder.id}
+                  className="cursor-pointer"
+                  onClick={() => setOpenWorkOrderId(workOrder.id)}
+                  data-testid={`row-work-order-${workOrder.id}`}
+                >
+                  <TableCell>
+                    <div className="font-medium">{workOrder.title}</div>
+                    <div className="text-xs text-muted-foreground capitalize">{workOrder.serviceType}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={workOrderStatusColors[workOrder.status] ?? ""}>
+                      {workOrderStatusLabels[workOrder.status] ?? workOrder.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{safeFormatDateForDisplay(workOrder.createdAt)}</TableCell>
+                  <TableCell className="text-right">{workOrder.tasks.length}</TableCell>
+                  <TableCell className="text-right">${workOrder.totalCost.toFixed(2)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Work Order</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Replace drive belt" {...field} data-testid="input-work-order-title" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="serviceType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Service type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-work-order-service-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SERVICE_TYPES.map((type) => (
+                          <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Used for the service record written when the work order is signed off.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="taskIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tasks</FormLabel>
+                    {availableTasks.length === 0 ? (
+                      <FormDescription>This mower has no open tasks that are not on a work order already.</FormDescription>
+                    ) : (
+                      <div className="space-y-2 rounded-md border p-3">
+                        {availableTasks.map((task) => (
+                          <label key={task.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(task.id)}
+                              onCheckedChange={(checked) => field.onChange(
+                                checked === true ? [...field.value, task.id] : field.value.filter((id) => id !== task.id)
+                              )}
+                              data-testid={`checkbox-work-order-task-${task.id}`}
+                            />
+                            {task.title}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createMutation.isPending} data-testid="button-save-work-order">
+                  {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Create Work Order
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <WorkOrderDialog
+        mowerId={mowerId}
+        workOrderId={openWorkOrderId}
+        onOpenChange={(open) => !open && setOpenWorkOrderId(null)}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+import React, { createContext, useContext } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest, getQueryFn } from '@/lib/queryClient';
+import type { SafeUser } from '@shared/schema';
+import { hasPermission, type Permission } from '@shared/permissions';
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+interface SetupData extends Credentials {
+  displayName?: string;
+}
+
+interface AuthContextType {
+  user: SafeUser | null;
+  isLoading: boolean;
+  needsSetup: boolean;
+  login: (credentials: Credentials) => Promise<SafeUser>;
+  setup: (data: SetupData) => Promise<SafeUser>;
+  logout: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+}
+
+export const AUTH_USER_QUERY_KEY = ['/api/auth/user'];
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const queryClient = useQueryClient();
+
+  // Current session user; null when signed out
+  const { data: user = null, isLoading: isLoadingUser } = useQuery<SafeUser | null>({
+    queryKey: AUTH_USER_QUERY_KEY,
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  // Whether the first account still has to be created
+  const { data: setupStatus, isLoading: isLoadingSetup } = useQuery<{ needsSetup: boolean }>({
+    queryKey: ['/api/auth/setup'],
+    enabled: !user,
+  });
+
+  const onSignedIn = (signedIn: SafeUser) => {
+    queryClient.setQueryData(AUTH_USER_QUERY_KEY, signedIn);
+    queryClient.setQueryData(['/api/auth/setup'], { needsSetup: false });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest('POST', '/api/auth/login', credentials);
+      return (await response.json()) as SafeUser;
+    },
+    onSuccess: onSignedIn,
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: async (data: SetupData) => {
+      const response = await apiRequest('POST', '/api/auth/setup', data);
+      return (await response.json()) as SafeUser;
+    },
+    onSuccess: onSignedIn,
+  });
+
+  const logout = async () => {
+    try {
+      await apiRequest('POST', '/api/auth/logout');
+    } finally {
+      // Drop every cached response so the next user starts clean
+      queryClient.clear();
+      queryClient.setQueryData(AUTH_USER_QUERY_KEY, null);
+    }
+  };
+
+  const value: AuthContextType = {
+    user,
+    isLoading: isLoadingUser || (!user && isLoadingSetup),
+    needsSetup: !user && !!setupStatus?.needsSetup,
+    login: loginMutation.mutateAsync,
+    setup: setupMutation.mutateAsync,
+    logout,
+    can: (permission) => hasPermission(user?.role, permission),
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { useAuth } from '@/contexts/AuthContext';
 import type { Notification } from '@shared/schema';
 
 interface NotificationContextType {
@@ -29,7 +31,14 @@ interface NotificationProviderProps {
 
 export function NotificationProvider({ children }: NotificationProviderProps) {
   const queryClient = useQueryClient();
-  
+  // Viewers see the notifications but cannot mark them read or dismiss them
+  const { can } = useAuth();
+  const canDismiss = can('notifications:dismiss');
+
+  // New notifications are pushed over the WebSocket (useWebSocket refetches the list on
+  // notification-created), so polling is only a fallback for a dropped connection
+  useWebSocket({ autoReconnect: true, topics: ['notifications'] });
+
   // Fetch notifications
   const { data: notifications = [], refetch } = useQuery<Notification[]>({
     queryKey: ['/api/notifications'],
@@ -37,13 +46,14 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
       const response = await apiRequest('GET', '/api/notifications');
       return response.json();
     },
-    refetchInterval: 30000, // Refetch every 30 seconds
+    refetchInterval: 5 * 60 * 1000, // Fallback refetch every 5 minutes
     staleTime: 10000, // Consider data stale after 10 seconds
   });
 
   const unreadCount = notifications.filter(n => !n.isRead).length;
 
   const markAsRead = async (id: string) => {
+    if (!canDismiss) return;
     try {
       await apiRequest('PATCH', `/api/notifications/${id}/read`);
       queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
@@ -53,6 +63,7 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
   };
 
   const markAllAsRead = async () => {
+    if (!canDismiss) return;
     try {
       await apiRequest('PATCH', '/api/notifications/read-all');
       queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
@@ -62,6 +73,7 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
   };
 
   const deleteNotification = async (id: string) => {
+    if (!canDismiss) return;
     try {
       await apiRequest('DELETE', `/api/notifications/${id}`);
       queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
@@ -71,6 +83,7 @@ export function NotificationProvider({ children }: NotificationProviderProps) {
   };
 
   const dismissAll = async () => {
+    if (!canDismiss) return;
     try {
       await apiRequest('DELETE', '/api/notifications');
       queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
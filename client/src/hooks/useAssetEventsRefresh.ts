@@ -1,6 +1,27 @@
+import { useLocation } from 'wouter';
 import { useWebSocket, WebSocketMessage } from './useWebSocket';
 import { queryClient } from '@/lib/queryClient';
 
+// WebSocket topics each page listens to, first match wins; detail pages only follow their own record
+const PAGE_TOPICS: { pattern: RegExp; topics: (match: RegExpMatchArray) => string[] }[] = [
+  { pattern: /^\/$/, topics: () => ['mowers', 'service-records', 'tasks', 'parts'] }, // Dashboard
+  { pattern: /^\/mowers\/?$/, topics: () => ['mowers'] },
+  { pattern: /^\/mowers\/(\d+)/, topics: (match) => [`mower:${match[1]}`] },
+  { pattern: /^\/tasks/, topics: () => ['tasks'] },
+  { pattern: /^\/calendar/, topics: () => ['mowers', 'service-records', 'tasks'] },
+  { pattern: /^\/catalog\/parts\/(\d+)/, topics: (match) => [`part:${match[1]}`] },
+  { pattern: /^\/catalog\/engines\/(\d+)/, topics: (match) => [`engine:${match[1]}`] },
+  { pattern: /^\/catalog/, topics: () => ['parts', 'engines'] },
+];
+
+export function pageTopics(path: string): string[] {
+  for (const { pattern, topics } of PAGE_TOPICS) {
+    const match = path.match(pattern);
+    if (match) return topics(match);
+  }
+  return [];
+}
+
 /**
  * Centralized hook for asset-related WebSocket auto-refresh functionality.
  * This hook provides comprehensive cache invalidation for all asset-related pages and components.
@@ -9,17 +30,23 @@ import { queryClient } from '@/lib/queryClient';
  * ```tsx
  * const { isConnected, error, reconnectAttempts } = useAssetEventsRefresh();
  * ```
+ *
+ * It subscribes to the topics of the current page (see PAGE_TOPICS), so the
+ * server only sends the events that page shows; pass topics to override them.
  * 
  * The hook automatically invalidates React Query cache keys based on WebSocket events:
- * - Mower events: invalidate mower lists, mower details, related components/parts
+ * - Mower events: invalidate mower lists, mower details, related components/parts, the calendar
  * - Component events: invalidate component lists, component details, related mower data
  * - Part events: invalidate part lists, part details, related allocations
  * - Asset-part events: invalidate part allocations for mowers and components
- * - Service events: invalidate service records, mower maintenance data
- * - Task events: invalidate task lists for mowers
+ * - Service events: invalidate service records, mower maintenance data, the technician directory, the calendar
+ * - Task events: invalidate the task board, task lists for mowers, engines and parts, task checklists and comments, the calendar
+ * - Work order events: invalidate the work orders of the mower
  */
-export function useAssetEventsRefresh() {
+export function useAssetEventsRefresh(topics?: string[]) {
+  const [location] = useLocation();
   return useWebSocket({
+    topics: topics ?? pageTopics(location),
     onMessage: (message: WebSocketMessage) => {
       handleComprehensiveAutoRefresh(message);
       console.log('Asset events: WebSocket message received:', message.type);
@@ -60,14 +87,15 @@ function handleComprehensiveAutoRefresh(message: WebSocketMessage) {
           ['/api/mowers', data.id.toString(), 'parts'], // MowerDetails parts tab
           ['/api/mowers', data.id.toString(), 'service'], // MowerDetails service history
           ['/api/mowers', data.id.toString(), 'tasks'], // MowerDetails tasks
-          ['/api/service-records'] // Dashboard maintenance timeline
+          ['/api/service-records'], // Dashboard maintenance timeline
+          ['/api/calendar'] // Calendar (next service dates, warranty expirations)
         );
       }
       break;
 
-    case 'component-created':
-    case 'component-updated':
-    case 'component-deleted':
+    case 'engine-created':
+    case 'engine-updated':
+    case 'engine-deleted':
       // Invalidate component-related queries
       queriesToInvalidate.push(
         ['/api/engines'], // PartsCatalog components tab
@@ -124,7 +152,9 @@ function handleComprehensiveAutoRefresh(message: WebSocketMessage) {
       // Invalidate service-related queries
       queriesToInvalidate.push(
         ['/api/service-records'], // Dashboard maintenance timeline, service history
-        ['/api/service-records', data.id.toString()] // Specific service record
+        ['/api/service-records', data.id.toString()], // Specific service record
+        ['/api/technicians'], // Technician directory (service record counts, names added from performedBy)
+        ['/api/calendar'] // Calendar (booked services, follow-up dates)
       );
       
       if (data.mowerId) {
@@ -140,13 +170,31 @@ function handleComprehensiveAutoRefresh(message: WebSocketMessage) {
     case 'task-updated':
     case 'task-deleted':
       // Invalidate task-related queries
+      queriesToInvalidate.push(['/api/tasks'], ['/api/calendar']); // Task board, task checklist and comments, calendar due dates
       if (data.mowerId) {
         queriesToInvalidate.push(
           ['/api/mowers', data.mowerId.toString(), 'tasks'], // MowerDetails tasks tab
+          ['/api/mowers', data.mowerId.toString(), 'work-orders'], // MowerDetails work orders (task titles and status)
           ['/api/mowers', data.mowerId.toString()], // MowerDetails (may affect status)
           ['/api/mowers'] // Dashboard (may affect overall status)
         );
       }
+      if (data.engineId) {
+        queriesToInvalidate.push(['/api/engines', data.engineId.toString(), 'tasks']); // EngineDetails tasks tab
+      }
+      if (data.partId) {
+        queriesToInvalidate.push(['/api/parts', data.partId.toString(), 'tasks']); // PartDetails tasks tab
+      }
+      break;
+
+    case 'work-order-created':
+    case 'work-order-updated':
+    case 'work-order-deleted':
+      // Invalidate work order queries; closing one also sends service, task and asset-part events
+      queriesToInvalidate.push(['/api/work-orders', data.id.toString()]);
+      if (data.mowerId) {
+        queriesToInvalidate.push(['/api/mowers', data.mowerId.toString(), 'work-orders']); // MowerDetails work orders tab
+      }
       break;
 
     default:
@@ -154,6 +202,11 @@ function handleComprehensiveAutoRefresh(message: WebSocketMessage) {
       break;
   }
 
+  // Every asset change writes an audit event, so History tabs need a refresh too
+  if (queriesToInvalidate.length > 0) {
+    queriesToInvalidate.push(['/api/audit']);
+  }
+
   // Invalidate all relevant queries
   queriesToInvalidate.forEach(queryKey => {
     queryClient.invalidateQueries({ queryKey });
@@ -170,7 +223,9 @@ function handleComprehensiveAutoRefresh(message: WebSocketMessage) {
  * Useful for showing connection status in the UI without triggering refreshes.
  */
 export function useAssetEventsStatus() {
+  const [location] = useLocation();
   return useWebSocket({
+    topics: pageTopics(location),
     onMessage: (message) => {
       // Don't handle auto-refresh, just track connection status
       console.log('Asset events status: message received:', message.type);
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { PaginatedResponse } from '@shared/schema';
+
+export type ListParams = Record<string, string | number | boolean | null | undefined>;
+
+// Hook to fetch one page of a list endpoint (/api/mowers, /api/parts, ...).
+// Empty params are left out of the URL. The query key starts with the path, so
+// invalidating e.g. ['/api/mowers'] after a change refetches the page too.
+export function usePaginatedList<T>(path: string, params: ListParams, options: { enabled?: boolean } = {}) {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== '') search.set(key, String(value));
+  }
+
+  return useQuery<PaginatedResponse<T>>({
+    queryKey: [path, params],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `${path}?${search.toString()}`);
+      return response.json();
+    },
+    // Keep showing the current page while the next one loads
+    placeholderData: keepPreviousData,
+    enabled: options.enabled,
+  });
+}
+
+// Hook to delay a fast-changing value (e.g. a search box) until typing pauses
+export function useDebouncedValue<T>(value: T, delay = 250): T {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+  return debounced;
+}
@@ -2,10 +2,10 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { queryClient } from '@/lib/queryClient';
 
 export interface WebSocketMessage {
-  type: 'connection' | 'asset-created' | 'asset-updated' | 'asset-deleted' | 'service-created' | 'service-updated' | 'service-deleted' | 'task-created' | 'task-updated' | 'task-deleted' | 'component-created' | 'component-updated' | 'component-deleted' | 'part-created' | 'part-updated' | 'part-deleted' | 'asset-part-created' | 'asset-part-updated' | 'asset-part-deleted';
+  type: 'connection' | 'subscribed' | 'error' | 'asset-created' | 'asset-updated' | 'asset-deleted' | 'service-created' | 'service-updated' | 'service-deleted' | 'task-created' | 'task-updated' | 'task-deleted' | 'engine-created' | 'engine-updated' | 'engine-deleted' | 'part-created' | 'part-updated' | 'part-deleted' | 'asset-part-created' | 'asset-part-updated' | 'asset-part-deleted' | 'work-order-created' | 'work-order-updated' | 'work-order-deleted' | 'notification-created';
   data: {
     id: string | number;
-    entityType?: 'mower' | 'component' | 'part' | 'asset-part' | 'task' | 'service-record';
+    entityType?: 'mower' | 'engine' | 'part' | 'asset-part' | 'task' | 'service-record' | 'work-order' | 'notification';
     mowerId?: string | number;
     engineId?: string | number;
     [key: string]: any;
@@ -14,6 +14,8 @@ export interface WebSocketMessage {
 }
 
 interface UseWebSocketOptions {
+  // Topics to receive, e.g. ['mower:42'] or ['parts', 'engines']; the server only sends messages for these
+  topics?: string[];
   onMessage?: (message: WebSocketMessage) => void;
   onError?: (error: Event) => void;
   onConnect?: () => void;
@@ -43,6 +45,8 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
     reconnectInterval = 3000,
     maxReconnectAttempts = 10
   } = options;
+  const topics = options.topics ?? [];
+  const topicsKey = Array.from(new Set(topics)).sort().join(' ');
 
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
@@ -51,27 +55,53 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
 
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const reconnectAttemptsRef = useRef(0);
   const isMountedRef = useRef(true);
 
+  // Callbacks are usually inline functions; reading them through a ref keeps the connection from being recreated every render
+  const callbacksRef = useRef({ onMessage, onError, onConnect, onDisconnect });
+  callbacksRef.current = { onMessage, onError, onConnect, onDisconnect };
+
+  // Topics wanted, and the ones the open connection is subscribed to
+  const topicsRef = useRef<string[]>([]);
+  topicsRef.current = topicsKey ? topicsKey.split(' ') : [];
+  const subscribedRef = useRef<Set<string>>(new Set());
+
   const getWebSocketUrl = () => {
     const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
     const host = window.location.host;
     return `${protocol}//${host}/ws`;
   };
 
+  // Sends the topic changes since the last call; on a new connection that is every wanted topic
+  const syncSubscriptions = useCallback(() => {
+    const ws = wsRef.current;
+    if (ws?.readyState !== WebSocket.OPEN) return;
+    const wanted = new Set(topicsRef.current);
+    const subscribed = subscribedRef.current;
+    const added = Array.from(wanted).filter((topic) => !subscribed.has(topic));
+    const removed = Array.from(subscribed).filter((topic) => !wanted.has(topic));
+    if (removed.length > 0) ws.send(JSON.stringify({ type: 'unsubscribe', topics: removed }));
+    if (added.length > 0) ws.send(JSON.stringify({ type: 'subscribe', topics: added }));
+    subscribedRef.current = wanted;
+  }, []);
+
   const handleMessage = useCallback((event: MessageEvent) => {
     try {
       const message: WebSocketMessage = JSON.parse(event.data);
+      if (message.type === 'error') {
+        console.warn('WebSocket server error:', message.data.message);
+      }
       
       // Handle message with custom handler
-      onMessage?.(message);
+      callbacksRef.current.onMessage?.(message);
 
       // Auto-invalidate queries based on message type
       handleAutoRefresh(message);
     } catch (error) {
       console.error('Error parsing WebSocket message:', error);
     }
-  }, [onMessage]);
+  }, []);
 
   const handleAutoRefresh = useCallback((message: WebSocketMessage) => {
     const { type, data } = message;
@@ -112,9 +142,9 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
         queriesToInvalidate.push(['/api/mowers']);
         break;
 
-      case 'component-created':
-      case 'component-updated':
-      case 'component-deleted':
+      case 'engine-created':
+      case 'engine-updated':
+      case 'engine-deleted':
         queriesToInvalidate.push(['/api/engines']);
         if (data.mowerId) {
           queriesToInvalidate.push(['/api/mowers', data.mowerId.toString(), 'components']);
@@ -137,6 +167,10 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
           queriesToInvalidate.push(['/api/engines', data.engineId.toString(), 'parts']);
         }
         break;
+
+      case 'notification-created':
+        queriesToInvalidate.push(['/api/notifications']);
+        break;
     }
 
     // Invalidate all relevant queries
@@ -167,24 +201,28 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
         console.log('WebSocket connected');
         setIsConnected(true);
         setIsConnecting(false);
+        reconnectAttemptsRef.current = 0;
         setReconnectAttempts(0);
         setError(null);
-        onConnect?.();
+        subscribedRef.current = new Set();
+        syncSubscriptions();
+        callbacksRef.current.onConnect?.();
       };
 
       ws.onmessage = handleMessage;
 
       ws.onclose = () => {
-        if (!isMountedRef.current) return;
+        if (!isMountedRef.current || wsRef.current !== ws) return;
         
         console.log('WebSocket disconnected');
         setIsConnected(false);
         setIsConnecting(false);
-        onDisconnect?.();
+        callbacksRef.current.onDisconnect?.();
 
         // Auto-reconnect if enabled
-        if (autoReconnect && reconnectAttempts < maxReconnectAttempts) {
-          setReconnectAttempts(prev => prev + 1);
+        if (autoReconnect && reconnectAttemptsRef.current < maxReconnectAttempts) {
+          reconnectAttemptsRef.current++;
+          setReconnectAttempts(reconnectAttemptsRef.current);
           reconnectTimeoutRef.current = setTimeout(() => {
             if (isMountedRef.current) {
               connect();
@@ -200,7 +238,7 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
         const errorMessage = 'WebSocket connection error';
         setError(errorMessage);
         setIsConnecting(false);
-        onError?.(event);
+        callbacksRef.current.onError?.(event);
       };
 
     } catch (error) {
@@ -210,7 +248,7 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
       setError('Failed to create WebSocket connection');
       setIsConnecting(false);
     }
-  }, [handleMessage, onConnect, onDisconnect, onError, autoReconnect, reconnectAttempts, maxReconnectAttempts, reconnectInterval]);
+  }, [handleMessage, syncSubscriptions, autoReconnect, maxReconnectAttempts, reconnectInterval]);
 
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
@@ -219,12 +257,14 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
     }
 
     if (wsRef.current) {
-      wsRef.current.close();
+      const ws = wsRef.current;
       wsRef.current = null;
+      ws.close();
     }
 
     setIsConnected(false);
     setIsConnecting(false);
+    reconnectAttemptsRef.current = 0;
     setReconnectAttempts(0);
   }, []);
 
@@ -238,6 +278,7 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
 
   // Auto-connect on mount
   useEffect(() => {
+    isMountedRef.current = true;
     connect();
 
     // Cleanup on unmount
@@ -247,6 +288,11 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
     };
   }, [connect, disconnect]);
 
+  // Follow topic changes (e.g. navigating between mowers) without reconnecting
+  useEffect(() => {
+    syncSubscriptions();
+  }, [topicsKey, syncSubscriptions]);
+
   return {
     isConnected,
     isConnecting,
@@ -259,8 +305,9 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
 }
 
 // Simpler hook for just auto-refresh functionality
-export function useWebSocketAutoRefresh() {
+export function useWebSocketAutoRefresh(topics: string[]) {
   return useWebSocket({
+    topics,
     onMessage: (message) => {
       console.log('WebSocket message received:', message.type);
     },
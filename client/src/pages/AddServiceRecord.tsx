@@ -13,15 +13,19 @@ import { z } from "zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
 import type { Mower } from "@shared/schema";
 import ServiceRecordPartsSelector, { type ServiceRecordPart } from "@/components/ServiceRecordPartsSelector";
+import ServiceRecordLaborSelector, { laborRequestBody, type ServiceRecordLaborEntry } from "@/components/ServiceRecordLaborSelector";
+import ServiceRecordFeesSelector, { feesRequestBody, type ServiceRecordFeeEntry } from "@/components/ServiceRecordFeesSelector";
+import ServiceRecordCostSummary from "@/components/ServiceRecordCostSummary";
 
 const serviceRecordSchema = z.object({
   serviceType: z.string().min(1, "Service type is required"),
   description: z.string().min(1, "Description is required"),
+  // A scheduled record books the work for its date; the mower's service dates move once it is completed
+  status: z.enum(["completed", "scheduled"]),
   serviceDate: z.string().min(1, "Service date is required"),
-  cost: z.string().optional(),
-  performedBy: z.string().optional(),
   mileage: z.string().optional(),
 });
 
@@ -31,9 +35,15 @@ export default function AddServiceRecord() {
   const [, params] = useRoute("/mowers/:id/service/new");
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { can } = useAuth();
   const mowerId = params?.id;
   const [selectedParts, setSelectedParts] = useState<ServiceRecordPart[]>([]);
-  const [calculatedCost, setCalculatedCost] = useState<number>(0);
+  const [labor, setLabor] = useState<ServiceRecordLaborEntry[]>([]);
+  const [partsCost, setPartsCost] = useState<number>(0);
+  const [laborCost, setLaborCost] = useState<number>(0);
+  const [fees, setFees] = useState<ServiceRecordFeeEntry[]>([]);
+  const [feesCost, setFeesCost] = useState<number>(0);
+  const [costOverride, setCostOverride] = useState<string | null>(null);
 
   const { data: mower, isLoading } = useQuery<Mower>({
     queryKey: ['/api/mowers', mowerId],
@@ -45,9 +55,8 @@ export default function AddServiceRecord() {
     defaultValues: {
       serviceType: "",
       description: "",
+      status: "completed",
       serviceDate: new Date().toISOString().split('T')[0], // Today's date
-      cost: "",
-      performedBy: "",
       mileage: "",
     },
   });
@@ -58,9 +67,11 @@ export default function AddServiceRecord() {
         mowerId: parseInt(mowerId!),
         serviceType: data.serviceType,
         description: data.description,
+        status: data.status,
         serviceDate: new Date(data.serviceDate),
-        cost: data.cost ? parseFloat(data.cost) : null,
-        performedBy: data.performedBy || null,
+        costOverride: costOverride ? parseFloat(costOverride) : null,
+        labor: laborRequestBody(labor),
+        fees: feesRequestBody(fees),
         mileage: data.mileage ? parseInt(data.mileage) : null,
       };
       
@@ -95,6 +106,7 @@ export default function AddServiceRecord() {
       queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId] });
       queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId, 'service'] });
       queryClient.invalidateQueries({ queryKey: ['/api/parts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reminders'] });
       setLocation(`/mowers/${mowerId}`);
     },
     onError: (error) => {
@@ -107,6 +119,8 @@ export default function AddServiceRecord() {
     },
   });
 
+  const isScheduled = form.watch("status") === "scheduled";
+
   const handleSubmit = (data: ServiceRecordData) => {
     createServiceMutation.mutate(data);
   };
@@ -115,14 +129,6 @@ export default function AddServiceRecord() {
     setLocation(`/mowers/${mowerId}`);
   };
 
-  const handleCostChange = (totalCost: number) => {
-    setCalculatedCost(totalCost);
-    // Update the cost field with the calculated value
-    if (totalCost > 0) {
-      form.setValue("cost", totalCost.toFixed(2));
-    }
-  };
-
   if (isLoading) {
     return <div>Loading...</div>;
   }
@@ -191,12 +197,34 @@ export default function AddServiceRecord() {
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="status"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Status</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-service-status">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="completed">Completed</SelectItem>
+                            <SelectItem value="scheduled">Scheduled (book an appointment)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={form.control}
                     name="serviceDate"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Service Date</FormLabel>
+                        <FormLabel>{isScheduled ? "Planned Date" : "Service Date"}</FormLabel>
                         <FormControl>
                           <Input
                             type="date"
@@ -228,69 +256,32 @@ export default function AddServiceRecord() {
                   )}
                 />
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="cost"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Cost (optional)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            step="0.01"
-                            placeholder="0.00"
-                            {...field}
-                            data-testid="input-cost"
-                          />
-                        </FormControl>
-                        {calculatedCost > 0 && (
-                          <p className="text-xs text-muted-foreground">
-                            Auto-calculated from parts: ${calculatedCost.toFixed(2)}
-                          </p>
-                        )}
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="performedBy"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Performed By (optional)</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="Service provider name"
-                            {...field}
-                            data-testid="input-performed-by"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                <FormField
+                  control={form.control}
+                  name="mileage"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hours (optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          placeholder="Operating hours"
+                          {...field}
+                          data-testid="input-mileage"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-                  <FormField
-                    control={form.control}
-                    name="mileage"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Hours (optional)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            placeholder="Operating hours"
-                            {...field}
-                            data-testid="input-mileage"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
+                <ServiceRecordCostSummary
+                  partsCost={partsCost}
+                  laborCost={laborCost}
+                  feesCost={feesCost}
+                  costOverride={costOverride}
+                  onCostOverrideChange={setCostOverride}
+                />
 
                 <div className="flex gap-4 pt-4">
                   <Button
@@ -314,13 +305,25 @@ export default function AddServiceRecord() {
           </CardContent>
         </Card>
 
-        {/* Right column: Parts Used section */}
-        <div>
-          <ServiceRecordPartsSelector
-            mowerId={mowerId!}
-            parts={selectedParts}
-            onPartsChange={setSelectedParts}
-            onCostChange={handleCostChange}
+        {/* Right column: Parts Used (allocating parts changes stock) and Labor */}
+        <div className="space-y-6">
+          {can("parts:allocate") && (
+            <ServiceRecordPartsSelector
+              mowerId={mowerId!}
+              parts={selectedParts}
+              onPartsChange={setSelectedParts}
+              onCostChange={setPartsCost}
+            />
+          )}
+          <ServiceRecordLaborSelector
+            labor={labor}
+            onLaborChange={setLabor}
+            onCostChange={setLaborCost}
+          />
+          <ServiceRecordFeesSelector
+            fees={fees}
+            onFeesChange={setFees}
+            onCostChange={setFeesCost}
           />
         </div>
       </div>
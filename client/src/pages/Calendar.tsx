@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import {
+  addMonths, addWeeks, eachDayOfInterval, endOfMonth, endOfWeek, format, isSameMonth, isToday, startOfMonth, startOfWeek,
+} from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAssetEventsRefresh } from "@/hooks/useAssetEventsRefresh";
+import CalendarSubscriptionDialog from "@/components/CalendarSubscriptionDialog";
+import { cn } from "@/lib/utils";
+import type { CalendarEvent, CalendarEventKind } from "@shared/schema";
+
+type CalendarView = "month" | "week" | "agenda";
+
+const KIND_LABELS: Record<CalendarEventKind, string> = {
+  appointment: "Booked service",
+  next_service: "Next service",
+  service_due: "Follow-up due",
+  task: "Task due",
+  warranty: "Warranty expires",
+};
+
+const kindColors: Record<CalendarEventKind, string> = {
+  appointment: "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400",
+  next_service: "bg-teal-100 text-teal-800 border-teal-200 dark:bg-teal-900/20 dark:text-teal-400",
+  service_due: "bg-cyan-100 text-cyan-800 border-cyan-200 dark:bg-cyan-900/20 dark:text-cyan-400",
+  task: "bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/20 dark:text-yellow-400",
+  warranty: "bg-purple-100 text-purple-800 border-purple-200 dark:bg-purple-900/20 dark:text-purple-400",
+};
+
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+const dayKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+// The days a view covers around the cursor date; the month grid is padded to whole weeks
+function visibleRange(view: CalendarView, cursor: Date) {
+  if (view === "week") return { start: startOfWeek(cursor, WEEK_OPTIONS), end: endOfWeek(cursor, WEEK_OPTIONS) };
+  if (view === "agenda") return { start: startOfMonth(cursor), end: endOfMonth(cursor) };
+  return { start: startOfWeek(startOfMonth(cursor), WEEK_OPTIONS), end: endOfWeek(endOfMonth(cursor), WEEK_OPTIONS) };
+}
+
+function EventChip({ event, onOpen }: { event: CalendarEvent; onOpen: (event: CalendarEvent) => void }) {
+  return (
+    <button
+      type="button"
+      onClick={() => onOpen(event)}
+      title={event.description ? `${event.title}\n${event.description}` : event.title}
+      className={cn("w-full truncate rounded border px-1.5 py-0.5 text-left text-xs", kindColors[event.kind])}
+      data-testid={`calendar-event-${event.id}`}
+    >
+      {event.title}
+    </button>
+  );
+}
+
+export default function Calendar() {
+  const [, setLocation] = useLocation();
+  const [view, setView] = useState<CalendarView>("month");
+  const [cursor, setCursor] = useState(() => new Date());
+  const [kindFilter, setKindFilter] = useState<"all" | CalendarEventKind>("all");
+
+  // Keep the calendar current as services, tasks and mowers change
+  useAssetEventsRefresh();
+
+  const { start, end } = visibleRange(view, cursor);
+  const params = { from: dayKey(start), to: dayKey(end) };
+
+  const { data: events = [], isLoading } = useQuery<CalendarEvent[]>({
+    queryKey: ['/api/calendar', params],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/calendar?${new URLSearchParams(params).toString()}`);
+      return response.json();
+    },
+    // Keep showing the current range while the next one loads
+    placeholderData: keepPreviousData,
+  });
+
+  const shown = events.filter((event) => kindFilter === "all" || event.kind === kindFilter);
+  const eventsByDay = new Map<string, CalendarEvent[]>();
+  for (const event of shown) {
+    eventsByDay.set(event.date, [...(eventsByDay.get(event.date) ?? []), event]);
+  }
+
+  const step = (direction: 1 | -1) => {
+    setCursor((current) => (view === "week" ? addWeeks(current, direction) : addMonths(current, direction)));
+  };
+
+  const openEvent = (event: CalendarEvent) => setLocation(event.path);
+
+  const title = view === "week"
+    ? `${format(start, "d MMM")} – ${format(end, "d MMM yyyy")}`
+    : format(cursor, "MMMM yyyy");
+
+  const days = eachDayOfInterval({ start, end });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-text-dark flex items-center gap-2">
+            <CalendarDays className="h-7 w-7" />
+            Calendar
+          </h1>
+          <p className="text-text-muted">
+            Booked services, service due dates, task due dates and warranty expirations across the fleet
+          </p>
+        </div>
+        <CalendarSubscriptionDialog />
+      </div>
+
+      <Card className="bg-panel border-card-border shadow-card">
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => step(-1)} data-testid="button-calendar-previous">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" onClick={() => setCursor(new Date())} data-testid="button-calendar-today">
+                Today
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => step(1)} data-testid="button-calendar-next">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <h2 className="ml-2 text-lg font-semibold text-text-primary">{title}</h2>
+              {isLoading && <Loader2 className="h-4 w-4 animate-spin text-text-muted" />}
+            </div>
+
+            <div className="flex flex-col md:flex-row gap-4">
+              <Select value={kindFilter} onValueChange={(value) => setKindFilter(value as typeof kindFilter)}>
+                <SelectTrigger className="md:w-[180px]" data-testid="select-calendar-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Events</SelectItem>
+                  {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                    <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+                <TabsList>
+                  <TabsTrigger value="month" data-testid="tab-calendar-month">Month</TabsTrigger>
+                  <TabsTrigger value="week" data-testid="tab-calendar-week">Week</TabsTrigger>
+                  <TabsTrigger value="agenda" data-testid="tab-calendar-agenda">Agenda</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(KIND_LABELS).map(([kind, label]) => (
+              <span key={kind} className={cn("rounded border px-2 py-0.5 text-xs", kindColors[kind as CalendarEventKind])}>
+                {label}
+              </span>
+            ))}
+          </div>
+
+          {view === "agenda" ? (
+            shown.length === 0 ? (
+              <div className="text-center py-8 text-text-muted">
+                <CalendarDays className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>Nothing on the calendar this month</p>
+              </div>
+            ) : (
+              <div className="divide-y border rounded-lg">
+                {days.filter((day) => eventsByDay.has(dayKey(day))).map((day) => (
+                  <div key={dayKey(day)} className="flex flex-col md:flex-row gap-2 md:gap-6 p-4">
+                    <div className={cn("md:w-40 shrink-0 text-sm font-medium", isToday(day) ? "text-accent-teal" : "text-text-primary")}>
+                      {format(day, "EEE d MMM")}
+                    </div>
+                    <div className="flex-1 space-y-2">
+                      {eventsByDay.get(dayKey(day))!.map((event) => (
+                        <button
+                          key={event.id}
+                          type="button"
+                          onClick={() => openEvent(event)}
+                          className="flex w-full items-start gap-3 text-left hover:opacity-80"
+                          data-testid={`agenda-event-${event.id}`}
+                        >
+                          <span className={cn("shrink-0 rounded border px-2 py-0.5 text-xs", kindColors[event.kind])}>
+                            {KIND_LABELS[event.kind]}
+                          </span>
+                          <span>
+                            <span className="block text-sm text-text-primary">{event.title}</span>
+                            {event.description && <span className="block text-xs text-text-muted">{event.description}</span>}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )
+          ) : (
+            <div className="grid grid-cols-7 border-l border-t rounded-lg overflow-hidden">
+              {days.slice(0, 7).map((day) => (
+                <div key={`heading-${dayKey(day)}`} className="border-r border-b bg-muted/50 px-2 py-1 text-xs font-medium text-text-muted">
+                  {format(day, "EEE")}
+                </div>
+              ))}
+              {days.map((day) => {
+                const dayEvents = eventsByDay.get(dayKey(day)) ?? [];
+                const limit = view === "week" ? dayEvents.length : 3;
+                return (
+                  <div
+                    key={dayKey(day)}
+                    className={cn(
+                      "border-r border-b p-1 space-y-1",
+                      view === "week" ? "min-h-[240px]" : "min-h-[110px]",
+                      view === "month" && !isSameMonth(day, cursor) && "bg-muted/30 opacity-60",
+                    )}
+                    data-testid={`calendar-day-${dayKey(day)}`}
+                  >
+                    <div className={cn(
+                      "text-xs font-medium w-6 h-6 flex items-center justify-center rounded-full",
+                      isToday(day) ? "bg-accent-teal text-white" : "text-text-primary",
+                    )}>
+                      {format(day, "d")}
+                    </div>
+                    {dayEvents.slice(0, limit).map((event) => (
+                      <EventChip key={event.id} event={event} onOpen={openEvent} />
+                    ))}
+                    {dayEvents.length > limit && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setCursor(day);
+                          setView("week");
+                        }}
+                        className="text-xs text-text-muted hover:underline"
+                      >
+                        +{dayEvents.length - limit} more
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -148,6 +148,7 @@ export default function Dashboard() {
 
   // Transform service records into maintenance events for the Recent Maintenance timeline
   const maintenanceEvents = serviceRecords
+    .filter(record => record.status === 'completed')
     .map(record => {
       const mower = mowers?.find(m => m.id === record.mowerId);
       if (!mower) return null;
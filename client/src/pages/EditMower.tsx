@@ -130,10 +130,13 @@ export default function EditMower() {
             serialNumber: mower?.serialNumber || '',
             purchaseDate: mower?.purchaseDate ? new Date(mower.purchaseDate) : undefined,
             purchasePrice: mower?.purchasePrice || '',
+            warrantyExpirationDate: mower?.warrantyExpirationDate || undefined,
             condition: (mower?.condition as "excellent" | "good" | "fair" | "poor") || 'good',
             status: (mower?.status as "active" | "maintenance" | "retired") || 'active',
             lastServiceDate: mower?.lastServiceDate ? new Date(mower.lastServiceDate) : undefined,
             nextServiceDate: mower?.nextServiceDate ? new Date(mower.nextServiceDate) : undefined,
+            maintenancePlanId: mower?.maintenancePlanId ?? null,
+            currentHours: mower?.currentHours ?? null,
             notes: mower?.notes || ''
           }}
           onSubmit={handleSubmit}
@@ -13,16 +13,19 @@ import { z } from "zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
 import { safeFormatDateForAPI } from "@/lib/utils";
-import type { Mower, ServiceRecord, AssetPartWithDetails } from "@shared/schema";
+import type { Mower, ServiceRecordWithCosts, AssetPartWithDetails } from "@shared/schema";
 import ServiceRecordPartsSelector, { type ServiceRecordPart } from "@/components/ServiceRecordPartsSelector";
+import ServiceRecordLaborSelector, { laborRequestBody, type ServiceRecordLaborEntry } from "@/components/ServiceRecordLaborSelector";
+import ServiceRecordFeesSelector, { feesRequestBody, feeEntriesOf, type ServiceRecordFeeEntry } from "@/components/ServiceRecordFeesSelector";
+import ServiceRecordCostSummary from "@/components/ServiceRecordCostSummary";
+import ServiceAppointmentActions, { ServiceRecordStatusBadge } from "@/components/ServiceAppointmentActions";
 
 const serviceRecordSchema = z.object({
   serviceType: z.string().min(1, "Service type is required"),
   description: z.string().min(1, "Description is required"),
   serviceDate: z.string().min(1, "Service date is required"),
-  cost: z.string().optional(),
-  performedBy: z.string().optional(),
   mileage: z.string().optional(),
 });
 
@@ -32,10 +35,16 @@ export default function EditServiceRecord() {
   const [, params] = useRoute("/mowers/:id/service/:serviceId/edit");
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { can } = useAuth();
   const mowerId = params?.id;
   const serviceId = params?.serviceId;
   const [selectedParts, setSelectedParts] = useState<ServiceRecordPart[]>([]);
-  const [calculatedCost, setCalculatedCost] = useState<number>(0);
+  const [labor, setLabor] = useState<ServiceRecordLaborEntry[]>([]);
+  const [partsCost, setPartsCost] = useState<number>(0);
+  const [laborCost, setLaborCost] = useState<number>(0);
+  const [fees, setFees] = useState<ServiceRecordFeeEntry[]>([]);
+  const [feesCost, setFeesCost] = useState<number>(0);
+  const [costOverride, setCostOverride] = useState<string | null>(null);
 
   const { data: mower, isLoading: mowerLoading } = useQuery<Mower>({
     queryKey: ['/api/mowers', mowerId],
@@ -43,7 +52,7 @@ export default function EditServiceRecord() {
   });
 
   // Get all service records for the mower, then find the specific one
-  const { data: serviceRecords, isLoading: serviceLoading } = useQuery<ServiceRecord[]>({
+  const { data: serviceRecords, isLoading: serviceLoading } = useQuery<ServiceRecordWithCosts[]>({
     queryKey: ['/api/mowers', mowerId, 'service'],
     enabled: !!mowerId,
   });
@@ -55,6 +64,10 @@ export default function EditServiceRecord() {
   });
 
   const serviceRecord = serviceRecords?.find(record => record.id === serviceId);
+  // Without the parts selector, the parts already installed under the record still count
+  const shownPartsCost = can("parts:allocate") ? partsCost : serviceRecord?.partsCost ?? 0;
+  // Until it is completed, the record's date is when the work is planned
+  const isAppointment = !!serviceRecord && serviceRecord.status !== "completed";
 
   const form = useForm<ServiceRecordData>({
     resolver: zodResolver(serviceRecordSchema),
@@ -62,8 +75,6 @@ export default function EditServiceRecord() {
       serviceType: "",
       description: "",
       serviceDate: "",
-      cost: "",
-      performedBy: "",
       mileage: "",
     },
   });
@@ -71,16 +82,23 @@ export default function EditServiceRecord() {
   // Update form values when service record is loaded
   useEffect(() => {
     if (serviceRecord) {
-      const serviceDate = safeFormatDateForAPI(serviceRecord.serviceDate) || "";
+      const serviceDate = safeFormatDateForAPI(
+        serviceRecord.status !== "completed" ? serviceRecord.scheduledDate ?? serviceRecord.serviceDate : serviceRecord.serviceDate,
+      ) || "";
 
       form.reset({
         serviceType: serviceRecord.serviceType,
         description: serviceRecord.description,
         serviceDate,
-        cost: serviceRecord.cost || "",
-        performedBy: serviceRecord.performedBy || "",
         mileage: serviceRecord.mileage ? String(serviceRecord.mileage) : "",
       });
+      setLabor(serviceRecord.labor.map((entry) => ({
+        technicianId: entry.technicianId,
+        hours: entry.hours ?? "",
+        hourlyRate: entry.hourlyRate ?? "",
+      })));
+      setFees(feeEntriesOf(serviceRecord.fees));
+      setCostOverride(serviceRecord.costOverride);
     }
   }, [serviceRecord, form]);
 
@@ -105,9 +123,12 @@ export default function EditServiceRecord() {
       const serviceData = {
         serviceType: data.serviceType,
         description: data.description,
-        serviceDate: new Date(data.serviceDate),
-        cost: data.cost ? parseFloat(data.cost) : null,
-        performedBy: data.performedBy || null,
+        ...(isAppointment
+          ? { scheduledDate: new Date(data.serviceDate) }
+          : { serviceDate: new Date(data.serviceDate) }),
+        costOverride: costOverride ? parseFloat(costOverride) : null,
+        labor: laborRequestBody(labor),
+        fees: feesRequestBody(fees),
         mileage: data.mileage ? parseInt(data.mileage) : null,
       };
       
@@ -170,6 +191,7 @@ export default function EditServiceRecord() {
       queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId, 'service'] });
       queryClient.invalidateQueries({ queryKey: ['/api/parts'] });
       queryClient.invalidateQueries({ queryKey: ['/api/asset-parts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reminders'] });
       setLocation(`/mowers/${mowerId}`);
     },
     onError: (error) => {
@@ -190,14 +212,6 @@ export default function EditServiceRecord() {
     setLocation(`/mowers/${mowerId}`);
   };
 
-  const handleCostChange = (totalCost: number) => {
-    setCalculatedCost(totalCost);
-    // Update the cost field with the calculated value
-    if (totalCost > 0) {
-      form.setValue("cost", totalCost.toFixed(2));
-    }
-  };
-
   if (mowerLoading || serviceLoading || assetPartsLoading) {
     return <div>Loading...</div>;
   }
@@ -222,12 +236,19 @@ export default function EditServiceRecord() {
           <ArrowLeft className="h-4 w-4" />
         </Button>
         
-        <div>
+        <div className="flex-1">
           <h1 className="text-3xl font-bold tracking-tight text-text-dark">Edit Service Record</h1>
           <p className="text-text-muted">
             Edit service record for {mower.make} {mower.model}
           </p>
         </div>
+
+        {isAppointment && (
+          <div className="flex items-center gap-3">
+            <ServiceRecordStatusBadge status={serviceRecord.status} />
+            <ServiceAppointmentActions record={serviceRecord} />
+          </div>
+        )}
       </div>
 
       {/* Two-column layout for desktop, single column for mobile */}
@@ -275,7 +296,7 @@ export default function EditServiceRecord() {
                     name="serviceDate"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Service Date</FormLabel>
+                        <FormLabel>{isAppointment ? "Planned Date" : "Service Date"}</FormLabel>
                         <FormControl>
                           <Input
                             type="date"
@@ -307,69 +328,32 @@ export default function EditServiceRecord() {
                   )}
                 />
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="cost"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Cost (optional)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            step="0.01"
-                            placeholder="0.00"
-                            {...field}
-                            data-testid="input-cost"
-                          />
-                        </FormControl>
-                        {calculatedCost > 0 && (
-                          <p className="text-xs text-muted-foreground">
-                            Auto-calculated from parts: ${calculatedCost.toFixed(2)}
-                          </p>
-                        )}
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="performedBy"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Performed By (optional)</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="Service provider name"
-                            {...field}
-                            data-testid="input-performed-by"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                <FormField
+                  control={form.control}
+                  name="mileage"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hours (optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          placeholder="Operating hours"
+                          {...field}
+                          data-testid="input-mileage"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-                  <FormField
-                    control={form.control}
-                    name="mileage"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Hours (optional)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            placeholder="Operating hours"
-                            {...field}
-                            data-testid="input-mileage"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
+                <ServiceRecordCostSummary
+                  partsCost={shownPartsCost}
+                  laborCost={laborCost}
+                  feesCost={feesCost}
+                  costOverride={costOverride}
+                  onCostOverrideChange={setCostOverride}
+                />
 
                 <div className="flex gap-4 pt-4">
                   <Button
@@ -393,13 +377,25 @@ export default function EditServiceRecord() {
           </CardContent>
         </Card>
 
-        {/* Right column: Parts Used section */}
-        <div>
-          <ServiceRecordPartsSelector
-            mowerId={mowerId!}
-            parts={selectedParts}
-            onPartsChange={setSelectedParts}
-            onCostChange={handleCostChange}
+        {/* Right column: Parts Used (allocating parts changes stock) and Labor */}
+        <div className="space-y-6">
+          {can("parts:allocate") && (
+            <ServiceRecordPartsSelector
+              mowerId={mowerId!}
+              parts={selectedParts}
+              onPartsChange={setSelectedParts}
+              onCostChange={setPartsCost}
+            />
+          )}
+          <ServiceRecordLaborSelector
+            labor={labor}
+            onLaborChange={setLabor}
+            onCostChange={setLaborCost}
+          />
+          <ServiceRecordFeesSelector
+            fees={fees}
+            onFeesChange={setFees}
+            onCostChange={setFeesCost}
           />
         </div>
       </div>
@@ -6,9 +6,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { ArrowLeft, Wrench, DollarSign, Hash, Building, FileText, AlertTriangle, Calendar, Paperclip, Edit, Trash2, Plus, Package, ImageOff } from "lucide-react";
+import { ArrowLeft, Wrench, DollarSign, Hash, Building, FileText, AlertTriangle, Calendar, Paperclip, Edit, Trash2, Plus, Package, ImageOff, History, Gauge, ListTodo } from "lucide-react";
 import { useLocation } from "wouter";
 import { useAssetEventsRefresh } from "@/hooks/useAssetEventsRefresh";
+import { useAuth } from "@/contexts/AuthContext";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { safeFormatDateForDisplay, safeFormatTimeForDisplay, safeIsDateBefore } from "@/lib/utils";
@@ -16,9 +17,12 @@ import EngineFormModal from "@/components/EngineFormModal";
 
 import AllocatePartModal from "@/components/AllocatePartModal";
 import AllocateEngineToMowerModal from "@/components/AllocateEngineToMowerModal";
-import type { Engine, Attachment, AssetPartWithDetails, AssetPart } from "@shared/schema";
+import type { Engine, Attachment, AssetPartWithDetails, AssetPart, TaskWithActivity } from "@shared/schema";
 import { CardLoadingSkeleton } from "@/components/ui/loading-components";
 import GenericAttachmentGallery from "@/components/GenericAttachmentGallery";
+import AuditHistory from "@/components/AuditHistory";
+import MeterReadings from "@/components/MeterReadings";
+import AssetTaskList from "@/components/AssetTaskList";
 import { useEngineThumbnail, usePartThumbnail } from "@/hooks/useThumbnails";
 
 // Helper component for rendering part thumbnail with fallback
@@ -64,6 +68,7 @@ export default function EngineDetails() {
   const [, setLocation] = useLocation();
   const engineId = params?.engineId;
   const { toast } = useToast();
+  const { can } = useAuth();
 
   // Modal states
   const [showEditModal, setShowEditModal] = useState(false);
@@ -86,7 +91,7 @@ export default function EngineDetails() {
   const { data: thumbnail } = useEngineThumbnail(engineId || '');
 
   // Fetch engine attachments
-  const { data: attachments = [], isLoading: isAttachmentsLoading } = useQuery<Omit<Attachment, 'fileData'>[]>({
+  const { data: attachments = [], isLoading: isAttachmentsLoading } = useQuery<Omit<Attachment, 'legacyFileData' | 'textContent'>[]>({
     queryKey: ['/api/engines', engineId, 'attachments'],
     enabled: !!engineId,
   });
@@ -97,6 +102,12 @@ export default function EngineDetails() {
     enabled: !!engineId,
   });
 
+  // Fetch engine tasks (for the tab count; the tab itself shares this query)
+  const { data: tasks = [] } = useQuery<TaskWithActivity[]>({
+    queryKey: ['/api/engines', engineId, 'tasks'],
+    enabled: !!engineId,
+  });
+
   // Delete mutation
   const deleteMutation = useMutation({
     mutationFn: async (engineId: number) => {
@@ -280,30 +291,32 @@ export default function EngineDetails() {
           </div>
           <h1 className="text-3xl font-bold tracking-tight text-text-dark">{engine.name}</h1>
         </div>
-        <div className="flex items-center gap-2">
-          <Button variant="outline" size="sm" onClick={handleEdit}>
-            <Edit className="h-4 w-4 mr-2" />
-            Edit
-          </Button>
-          {!engine.mowerId ? (
-            <Button variant="outline" size="sm" onClick={handleAllocateEngineToMower}>
-              <Wrench className="h-4 w-4 mr-2" />
-              Allocate to Mower
+        {can("engines:write") && (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleEdit}>
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
             </Button>
-          ) : (
-            <Button variant="outline" size="sm" onClick={handleUnallocate} className="border-orange-600 text-orange-600 hover:bg-orange-50">
-              <Wrench className="h-4 w-4 mr-2" />
-              Unallocate from Mower
+            {!engine.mowerId ? (
+              <Button variant="outline" size="sm" onClick={handleAllocateEngineToMower}>
+                <Wrench className="h-4 w-4 mr-2" />
+                Allocate to Mower
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={handleUnallocate} className="border-orange-600 text-orange-600 hover:bg-orange-50">
+                <Wrench className="h-4 w-4 mr-2" />
+                Unallocate from Mower
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
             </Button>
-          )}
-          <Button variant="outline" size="sm" onClick={handleDelete}>
-            <Trash2 className="h-4 w-4 mr-2" />
-            Delete
-          </Button>
-        </div>
+          </div>
+        )}
       </div>
 
-      <Tabs defaultValue="details" className="space-y-4">
+      <Tabs defaultValue={new URLSearchParams(window.location.search).get('tab') || "details"} className="space-y-4">
         <TabsList>
           <TabsTrigger value="details">
             <Wrench className="h-4 w-4 mr-2" />
@@ -313,6 +326,18 @@ export default function EngineDetails() {
             <Paperclip className="h-4 w-4 mr-2" />
             Attachments ({attachments.length})
           </TabsTrigger>
+          <TabsTrigger value="tasks" data-testid="tab-tasks">
+            <ListTodo className="h-4 w-4 mr-2" />
+            Tasks ({tasks.length})
+          </TabsTrigger>
+          <TabsTrigger value="hour-meter" data-testid="tab-hour-meter">
+            <Gauge className="h-4 w-4 mr-2" />
+            Hour Meter
+          </TabsTrigger>
+          <TabsTrigger value="history" data-testid="tab-history">
+            <History className="h-4 w-4 mr-2" />
+            History
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="details">
@@ -445,10 +470,12 @@ export default function EngineDetails() {
                     <Package className="h-5 w-5" />
                     Allocated Parts ({allocatedParts.length})
                   </CardTitle>
-                  <Button variant="outline" size="sm" onClick={handleAllocatePart}>
-                    <Plus className="h-4 w-4 mr-2" />
-                    Allocate Part
-                  </Button>
+                  {can("parts:allocate") && (
+                    <Button variant="outline" size="sm" onClick={handleAllocatePart}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Allocate Part
+                    </Button>
+                  )}
                 </div>
               </CardHeader>
               <CardContent>
@@ -559,6 +586,18 @@ export default function EngineDetails() {
             isLoading={isAttachmentsLoading}
           />
         </TabsContent>
+
+        <TabsContent value="tasks">
+          <AssetTaskList assetType="engine" assetId={engineId!} />
+        </TabsContent>
+
+        <TabsContent value="hour-meter">
+          <MeterReadings assetType="engine" assetId={engineId!} />
+        </TabsContent>
+
+        <TabsContent value="history">
+          <AuditHistory assetType="engine" assetId={engineId!} />
+        </TabsContent>
       </Tabs>
 
       {/* Edit Engine Modal */}
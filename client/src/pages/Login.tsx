@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, LogIn, UserPlus } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+
+const loginFormSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+const setupFormSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  displayName: z.string().trim().optional(),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type LoginFormData = z.infer<typeof loginFormSchema>;
+type SetupFormData = z.infer<typeof setupFormSchema>;
+
+// apiRequest errors look like "401: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+export default function Login() {
+  const { login, setup, needsSetup } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+
+  const loginForm = useForm<LoginFormData>({
+    resolver: zodResolver(loginFormSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const setupForm = useForm<SetupFormData>({
+    resolver: zodResolver(setupFormSchema),
+    defaultValues: { username: "", displayName: "", password: "", confirmPassword: "" },
+  });
+
+  const handleLogin = async (data: LoginFormData) => {
+    setError(null);
+    try {
+      await login(data);
+    } catch (err) {
+      setError(extractErrorMessage(err, "Login failed"));
+    }
+  };
+
+  const handleSetup = async (data: SetupFormData) => {
+    setError(null);
+    try {
+      await setup({
+        username: data.username,
+        password: data.password,
+        displayName: data.displayName || undefined,
+      });
+    } catch (err) {
+      setError(extractErrorMessage(err, "Failed to create account"));
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-calendar-bg">
+      <Card className="w-full max-w-md mx-4 bg-white border-panel-border shadow-card">
+        <CardHeader className="items-center text-center">
+          <img src="/logo.png" alt="MowerM8" className="h-24 w-24 object-contain rounded-md" />
+          <CardTitle className="text-2xl font-bold tracking-tight text-text-dark">
+            {needsSetup ? "Create Admin Account" : "Sign In"}
+          </CardTitle>
+          <CardDescription className="text-text-muted">
+            {needsSetup
+              ? "No accounts exist yet. Create the first account to get started."
+              : "Sign in to manage your fleet"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive" data-testid="alert-login-error">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {needsSetup ? (
+            <Form {...setupForm}>
+              <form onSubmit={setupForm.handleSubmit(handleSetup)} className="space-y-4">
+                <FormField
+                  control={setupForm.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="username" {...field} data-testid="input-setup-username" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={setupForm.control}
+                  name="displayName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Display Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Optional" {...field} data-testid="input-setup-display-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={setupForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} data-testid="input-setup-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={setupForm.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} data-testid="input-setup-confirm-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full bg-accent-teal text-white hover:bg-accent-teal/90 rounded-button flex items-center gap-2"
+                  disabled={setupForm.formState.isSubmitting}
+                  data-testid="button-create-account"
+                >
+                  <UserPlus className="h-4 w-4" />
+                  {setupForm.formState.isSubmitting ? "Creating Account..." : "Create Account"}
+                </Button>
+              </form>
+            </Form>
+          ) : (
+            <Form {...loginForm}>
+              <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
+                <FormField
+                  control={loginForm.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="username" autoFocus {...field} data-testid="input-login-username" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={loginForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="current-password" {...field} data-testid="input-login-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full bg-accent-teal text-white hover:bg-accent-teal/90 rounded-button flex items-center gap-2"
+                  disabled={loginForm.formState.isSubmitting}
+                  data-testid="button-login"
+                >
+                  <LogIn className="h-4 w-4" />
+                  {loginForm.formState.isSubmitting ? "Signing In..." : "Sign In"}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
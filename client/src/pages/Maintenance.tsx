@@ -4,27 +4,22 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { 
-  Tractor, Wrench, AlertTriangle, Calendar, Search, Plus, Eye, CheckCircle 
+  Tractor, Wrench, AlertTriangle, Calendar, CalendarCheck, Search, Plus, Eye, CheckCircle 
 } from "lucide-react";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import type { Mower, ServiceRecord } from "@shared/schema";
-
-// Service intervals in days
-const SERVICE_INTERVALS = {
-  maintenance: 90,
-  inspection: 180,
-  repair: 0, // repairs don't have regular intervals
-  warranty: 0
-};
+import { useAuth } from "@/contexts/AuthContext";
+import ServiceAppointmentActions, { ServiceRecordStatusBadge } from "@/components/ServiceAppointmentActions";
+import type { Mower, MaintenanceSchedule, ServiceAppointment } from "@shared/schema";
 
 interface UpcomingMaintenanceItem {
   type: string;
   mowerId: number;
   mowerName: string;
   lastDate: Date | null;
-  nextDue: Date;
-  daysUntilDue: number;
+  nextDue?: Date; // unset for hour-based items without a usage estimate
+  daysUntilDue?: number;
+  hoursUntilDue?: number;
   status: 'overdue' | 'due_soon' | 'upcoming';
 }
 
@@ -38,6 +33,7 @@ interface UnifiedMaintenanceItem {
   lastDate: Date | null;
   nextDue?: Date;
   daysUntilDue?: number;
+  hoursUntilDue?: number;
   status: 'in_maintenance' | 'overdue' | 'due_soon' | 'upcoming';
   priority: number; // For sorting: 1 = In Maintenance, 2 = Overdue, 3 = Upcoming
 }
@@ -51,15 +47,21 @@ const priorityColors = {
 export default function Maintenance() {
   const [, setLocation] = useLocation();
   const [searchQuery, setSearchQuery] = useState("");
+  const { can } = useAuth();
 
   // Fetch mowers data
   const { data: mowers = [], isLoading: isMowersLoading } = useQuery<Mower[]>({
     queryKey: ['/api/mowers'],
   });
 
-  // Fetch all service records for calculating upcoming maintenance
-  const { data: serviceRecords = [], isLoading: isServiceRecordsLoading } = useQuery<ServiceRecord[]>({
-    queryKey: ['/api/service-records'],
+  // Plan item due dates for every mower in service, computed on the server
+  const { data: schedules = [] } = useQuery<MaintenanceSchedule[]>({
+    queryKey: ['/api/maintenance-schedule'],
+  });
+
+  // Booked service appointments that are not completed or cancelled yet, soonest first
+  const { data: appointments = [] } = useQuery<ServiceAppointment[]>({
+    queryKey: ['/api/service-records', 'appointments'],
   });
 
   // Calculate stats
@@ -81,55 +83,34 @@ export default function Maintenance() {
     return nextServiceDate < today;
   }).length;
 
-  // Calculate upcoming maintenance for next 12 months using live data
+  // Maintenance plan items due in the next 12 months, or already due by hours of use
   const getUpcomingMaintenance = (): UpcomingMaintenanceItem[] => {
     const upcoming: UpcomingMaintenanceItem[] = [];
     const twelveMonthsFromNow = new Date();
     twelveMonthsFromNow.setFullYear(twelveMonthsFromNow.getFullYear() + 1);
 
-    Object.entries(SERVICE_INTERVALS).forEach(([serviceType, intervalDays]) => {
-      if (intervalDays === 0) return; // Skip non-recurring services
-
-      mowers.forEach(mower => {
-        const mowerServiceRecords = serviceRecords.filter(r => r.mowerId === mower.id && r.serviceType === serviceType);
-        
-        let lastService: Date | null = null;
-        if (mowerServiceRecords.length > 0) {
-          const sortedRecords = mowerServiceRecords.sort((a, b) => 
-            new Date(b.serviceDate).getTime() - new Date(a.serviceDate).getTime()
-          );
-          lastService = new Date(sortedRecords[0].serviceDate);
-        }
-
-        // Calculate next due date
-        const nextDue = lastService 
-          ? new Date(lastService.getTime() + (intervalDays * 24 * 60 * 60 * 1000))
-          : new Date(); // If no previous service, assume due now
-
-        // Only include if within 12 months
-        if (nextDue <= twelveMonthsFromNow) {
-          const today = new Date();
-          const daysUntilDue = Math.ceil((nextDue.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-          
-          let status: 'overdue' | 'due_soon' | 'upcoming';
-          if (daysUntilDue < 0) status = 'overdue';
-          else if (daysUntilDue <= 30) status = 'due_soon';
-          else status = 'upcoming';
-
-          upcoming.push({
-            type: serviceType,
-            mowerId: mower.id,
-            mowerName: `${mower.make} ${mower.model}`,
-            lastDate: lastService,
-            nextDue,
-            daysUntilDue,
-            status
-          });
-        }
+    schedules.forEach(schedule => {
+      const mower = mowers.find(m => m.id === schedule.mowerId);
+      if (!mower) return;
+
+      schedule.items.forEach(item => {
+        const nextDue = item.nextDueDate ? new Date(item.nextDueDate) : undefined;
+        if (nextDue ? nextDue > twelveMonthsFromNow : item.status === 'upcoming') return;
+
+        upcoming.push({
+          type: item.name,
+          mowerId: mower.id,
+          mowerName: `${mower.make} ${mower.model}`,
+          lastDate: item.lastServiceDate ? new Date(item.lastServiceDate) : null,
+          nextDue,
+          daysUntilDue: item.daysUntilDue ?? undefined,
+          hoursUntilDue: item.hoursUntilDue ?? undefined,
+          status: item.status
+        });
       });
     });
 
-    return upcoming.sort((a, b) => a.daysUntilDue - b.daysUntilDue);
+    return upcoming.sort((a, b) => (a.daysUntilDue ?? Infinity) - (b.daysUntilDue ?? Infinity));
   };
 
   const upcomingMaintenance = getUpcomingMaintenance();
@@ -198,6 +179,7 @@ export default function Maintenance() {
         lastDate: item.lastDate,
         nextDue: item.nextDue,
         daysUntilDue: item.daysUntilDue,
+        hoursUntilDue: item.hoursUntilDue,
         status: item.status,
         priority: item.status === 'overdue' ? 2 : 3 // Overdue = 2, Upcoming = 3
       });
@@ -254,6 +236,12 @@ export default function Maintenance() {
     item.serviceType?.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const filteredAppointments = appointments.filter(appointment =>
+    `${appointment.mower.make} ${appointment.mower.model}`.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    appointment.mower.serialNumber?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    appointment.serviceType.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
   const handleMowerClick = (mowerId: number) => {
     setLocation(`/mowers/${mowerId}`);
   };
@@ -352,6 +340,53 @@ export default function Maintenance() {
       </Card>
 
       <div className="grid grid-cols-1 gap-6">
+        {/* Booked Appointments */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarCheck className="h-5 w-5" />
+              Booked Appointments ({filteredAppointments.length})
+            </CardTitle>
+            <CardDescription>
+              Scheduled and in-progress service; completing one updates the mower's last service date
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {filteredAppointments.length === 0 ? (
+              <div className="text-center py-6 text-text-muted">
+                <p>No booked appointments</p>
+              </div>
+            ) : (
+              filteredAppointments.map((appointment) => (
+                <div
+                  key={appointment.id}
+                  className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border rounded-lg hover:bg-accent-card cursor-pointer"
+                  onClick={() => setLocation(`/mowers/${appointment.mowerId}`)}
+                  data-testid={`appointment-${appointment.id}`}
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-text-primary capitalize">{appointment.serviceType}</span>
+                      <ServiceRecordStatusBadge status={appointment.status} />
+                    </div>
+                    <p className="text-sm text-text-muted">
+                      {appointment.mower.make} {appointment.mower.model}
+                      {appointment.mower.serialNumber ? ` (${appointment.mower.serialNumber})` : ""} · {appointment.description}
+                    </p>
+                    <p className={`text-xs ${appointment.daysUntilDue < 0 ? "text-destructive" : "text-text-muted"}`}>
+                      Planned {new Date(appointment.scheduledDate ?? appointment.serviceDate).toLocaleDateString()}
+                      {appointment.daysUntilDue < 0
+                        ? ` (${Math.abs(appointment.daysUntilDue)} days overdue)`
+                        : appointment.daysUntilDue === 0 ? " (today)" : ` (in ${appointment.daysUntilDue} days)`}
+                    </p>
+                  </div>
+                  {can("service:write") && <ServiceAppointmentActions record={appointment} />}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
         {/* Unified Maintenance List */}
         <Card>
           <CardHeader>
@@ -442,6 +477,16 @@ export default function Maintenance() {
                               )}
                             </div>
                           )}
+                          {item.hoursUntilDue !== undefined && (
+                            <div>
+                              <p className="text-text-muted">Hours Left</p>
+                              <p className={`font-medium ${item.hoursUntilDue < 0 ? 'text-red-600' : 'text-text-primary'}`}>
+                                {item.hoursUntilDue < 0
+                                  ? `${Math.abs(item.hoursUntilDue)} hours overdue`
+                                  : `${item.hoursUntilDue} hours`}
+                              </p>
+                            </div>
+                          )}
                         </div>
                       </div>
                       
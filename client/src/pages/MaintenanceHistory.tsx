@@ -1,13 +1,15 @@
-import { useState, useMemo } from "react";
+import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ArrowLeft, Calendar, Clock, Wrench, Search, Filter, ChevronLeft, ChevronRight } from "lucide-react";
+import { ArrowLeft, Calendar, Wrench, Search } from "lucide-react";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { usePaginatedList, useDebouncedValue } from "@/hooks/usePaginatedList";
+import ListPagination from "@/components/ListPagination";
+import { SERVICE_STATUS_LABELS, ServiceRecordStatusBadge } from "@/components/ServiceAppointmentActions";
 import type { ServiceRecord, Mower } from "@shared/schema";
 
 const ITEMS_PER_PAGE = 10;
@@ -18,6 +20,7 @@ export default function MaintenanceHistory() {
   const [statusFilter, setStatusFilter] = useState("all");
   const [typeFilter, setTypeFilter] = useState("all");
   const [currentPage, setCurrentPage] = useState(1);
+  const debouncedSearch = useDebouncedValue(searchQuery.trim());
 
   // Fetch all mowers to get mower names
   const { data: mowers } = useQuery<Mower[]>({
@@ -28,80 +31,30 @@ export default function MaintenanceHistory() {
     },
   });
 
-  // Fetch all service records from all mowers
-  const { data: allServiceRecords, isLoading } = useQuery<(ServiceRecord & { mowerName: string; technician?: string })[]>({
-    queryKey: ["/api/service-records"],
-    queryFn: async () => {
-      if (!mowers || mowers.length === 0) return [];
-      
-      // Fetch service records for all mowers
-      const recordPromises = mowers.map(async (mower: Mower) => {
-        try {
-          const response = await apiRequest("GET", `/api/mowers/${mower.id}/service-records`);
-          if (!response.ok) return [];
-          return response.json();
-        } catch {
-          return [];
-        }
-      });
-      
-      const allRecords = await Promise.all(recordPromises);
-      
-      // Flatten and add mower info to each record
-      return allRecords.flat().map((record: ServiceRecord) => ({
-        ...record,
-        mowerName: mowers.find((m: Mower) => m.id === record.mowerId)?.make + " " + mowers.find((m: Mower) => m.id === record.mowerId)?.model || "Unknown Mower",
-        technician: record.performedBy || undefined // Map performedBy to technician for compatibility
-      }));
-    },
-    enabled: !!mowers && mowers.length > 0,
+  // Filtering, sorting (newest first) and paging happen on the server
+  const { data: recordsPage, isLoading } = usePaginatedList<ServiceRecord>("/api/service-records", {
+    page: currentPage,
+    pageSize: ITEMS_PER_PAGE,
+    sort: "-serviceDate",
+    q: debouncedSearch,
+    serviceType: typeFilter === "all" ? undefined : typeFilter,
+    status: statusFilter === "all" ? undefined : statusFilter,
   });
 
-  // Filter and sort service records
-  const filteredAndSortedRecords = useMemo(() => {
-    if (!allServiceRecords) return [];
-
-    let filtered = allServiceRecords.filter((record: ServiceRecord & { mowerName: string; technician?: string }) => {
-      const matchesSearch = 
-        searchQuery === "" ||
-        record.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        record.mowerName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        record.serviceType?.toLowerCase().includes(searchQuery.toLowerCase());
-
-      const matchesStatus = 
-        statusFilter === "all" || 
-        (record.serviceDate && new Date(record.serviceDate) <= new Date() ? "completed" : "pending") === statusFilter;
-
-      const matchesType = 
-        typeFilter === "all" || 
-        record.serviceType === typeFilter;
-
-      return matchesSearch && matchesStatus && matchesType;
-    });
-
-    // Sort by service date (newest first)
-    return filtered.sort((a: ServiceRecord & { mowerName: string; technician?: string }, b: ServiceRecord & { mowerName: string; technician?: string }) => 
-      new Date(b.serviceDate || 0).getTime() - new Date(a.serviceDate || 0).getTime()
-    );
-  }, [allServiceRecords, searchQuery, statusFilter, typeFilter]);
-
-  // Pagination
-  const totalPages = Math.ceil(filteredAndSortedRecords.length / ITEMS_PER_PAGE);
-  const paginatedRecords = filteredAndSortedRecords.slice(
-    (currentPage - 1) * ITEMS_PER_PAGE,
-    currentPage * ITEMS_PER_PAGE
-  );
-
-  const getStatusColor = (record: ServiceRecord) => {
-    const isCompleted = record.serviceDate && new Date(record.serviceDate) <= new Date();
-    return isCompleted 
-      ? "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-400"
-      : "bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/20 dark:text-yellow-400";
-  };
+  const totalRecords = recordsPage?.total ?? 0;
+  const paginatedRecords = (recordsPage?.items ?? []).map((record) => {
+    const mower = mowers?.find((m) => m.id === record.mowerId);
+    return {
+      ...record,
+      mowerName: mower ? `${mower.make} ${mower.model}` : "Unknown Mower",
+      technician: record.performedBy || undefined, // Map performedBy to technician for compatibility
+    };
+  });
 
-  const getStatusLabel = (record: ServiceRecord) => {
-    const isCompleted = record.serviceDate && new Date(record.serviceDate) <= new Date();
-    return isCompleted ? "Completed" : "Pending";
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setCurrentPage(1);
   };
 
   if (isLoading) {
@@ -140,7 +93,7 @@ export default function MaintenanceHistory() {
         <div className="flex-1">
           <h1 className="text-3xl font-bold tracking-tight text-text-dark">Maintenance History</h1>
           <p className="text-text-muted">
-            Complete maintenance history for all mowers ({filteredAndSortedRecords.length} records)
+            Complete maintenance history for all mowers ({totalRecords} records)
           </p>
         </div>
       </div>
@@ -155,24 +108,25 @@ export default function MaintenanceHistory() {
                 <Input
                   placeholder="Search maintenance records..."
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => updateFilter(setSearchQuery)(e.target.value)}
                   className="pl-10"
                 />
               </div>
             </div>
             
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <Select value={statusFilter} onValueChange={updateFilter(setStatusFilter)}>
               <SelectTrigger className="w-[180px]">
                 <SelectValue placeholder="Filter by status" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
+                {Object.entries(SERVICE_STATUS_LABELS).map(([status, label]) => (
+                  <SelectItem key={status} value={status}>{label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
-            <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <Select value={typeFilter} onValueChange={updateFilter(setTypeFilter)}>
               <SelectTrigger className="w-[180px]">
                 <SelectValue placeholder="Filter by type" />
               </SelectTrigger>
@@ -205,7 +159,7 @@ export default function MaintenanceHistory() {
             </div>
           ) : (
             <div className="space-y-4">
-              {paginatedRecords.map((record: ServiceRecord & { mowerName: string; technician?: string }) => (
+              {paginatedRecords.map((record) => (
                 <div 
                   key={record.id} 
                   className="flex items-center justify-between p-4 border border-card-border rounded-lg hover:bg-accent-card transition-colors"
@@ -219,15 +173,15 @@ export default function MaintenanceHistory() {
                         <h3 className="font-medium text-text-primary">
                           {record.serviceType} - {record.mowerName}
                         </h3>
-                        <Badge className={`text-xs ${getStatusColor(record)}`}>
-                          {getStatusLabel(record)}
-                        </Badge>
+                        <ServiceRecordStatusBadge status={record.status} />
                       </div>
                       <p className="text-sm text-text-muted">{record.description}</p>
                       <div className="flex items-center gap-4 mt-2 text-xs text-text-muted">
                         <div className="flex items-center gap-1">
                           <Calendar className="h-3 w-3" />
-                          {record.serviceDate ? new Date(record.serviceDate).toLocaleDateString() : "No date"}
+                          {record.status === "completed"
+                            ? new Date(record.serviceDate).toLocaleDateString()
+                            : `Planned ${new Date(record.scheduledDate ?? record.serviceDate).toLocaleDateString()}`}
                         </div>
                         {record.cost && (
                           <div className="flex items-center gap-1">
@@ -257,54 +211,13 @@ export default function MaintenanceHistory() {
             </div>
           )}
 
-          {/* Pagination */}
-          {totalPages > 1 && (
-            <div className="flex items-center justify-between pt-6 border-t border-card-border">
-              <div className="text-sm text-text-muted">
-                Showing {((currentPage - 1) * ITEMS_PER_PAGE) + 1} to {Math.min(currentPage * ITEMS_PER_PAGE, filteredAndSortedRecords.length)} of {filteredAndSortedRecords.length} records
-              </div>
-              
-              <div className="flex items-center gap-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-                  disabled={currentPage === 1}
-                >
-                  <ChevronLeft className="h-4 w-4" />
-                  Previous
-                </Button>
-                
-                <div className="flex items-center gap-1">
-                  {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                    const page = i + 1;
-                    return (
-                      <Button
-                        key={page}
-                        variant={currentPage === page ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => setCurrentPage(page)}
-                        className="w-8 h-8 p-0"
-                      >
-                        {page}
-                      </Button>
-                    );
-                  })}
-                  {totalPages > 5 && <span className="text-text-muted">...</span>}
-                </div>
-                
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-                  disabled={currentPage === totalPages}
-                >
-                  Next
-                  <ChevronRight className="h-4 w-4" />
-                </Button>
-              </div>
-            </div>
-          )}
+          <ListPagination
+            page={currentPage}
+            pageSize={ITEMS_PER_PAGE}
+            total={totalRecords}
+            onPageChange={setCurrentPage}
+            itemLabel="records"
+          />
         </CardContent>
       </Card>
     </div>
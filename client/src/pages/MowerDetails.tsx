@@ -10,26 +10,30 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import ServiceHistoryTable from "@/components/ServiceHistoryTable";
 import MaintenanceOverview from "@/components/MaintenanceOverview";
 import AttachmentGallery from "@/components/AttachmentGallery";
+import AuditHistory from "@/components/AuditHistory";
+import MeterReadings from "@/components/MeterReadings";
 import UnifiedFileUploadArea from "@/components/UnifiedFileUploadArea";
 import AttachmentMetadataDialog from "@/components/AttachmentMetadataDialog";
 import EditAttachmentDialog from "@/components/EditAttachmentDialog";
-import TaskList from "@/components/TaskList";
+import AssetTaskList from "@/components/AssetTaskList";
+import WorkOrders from "@/components/WorkOrders";
 import EngineFormModal from "@/components/EngineFormModal";
 import AllocateEngineModal from "@/components/AllocateEngineModal";
 import AllocatePartModal from "@/components/AllocatePartModal";
 import PartFormModal from "@/components/PartFormModal";
-import { ArrowLeft, Edit, Plus, Calendar, MapPin, DollarSign, FileText, Loader2, Trash2, Wrench, Camera, FolderOpen, Unlink, ImageOff } from "lucide-react";
+import { ArrowLeft, Edit, Plus, Calendar, MapPin, DollarSign, FileText, Loader2, Trash2, Wrench, Camera, FolderOpen, Unlink, ImageOff, History, Gauge, ClipboardList, ShieldCheck } from "lucide-react";
 import { useLocation } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useMowerThumbnail, useEngineThumbnail } from "@/hooks/useThumbnails";
 import { useCameraCapture } from "@/hooks/useCameraCapture";
 import { useAssetEventsRefresh } from "@/hooks/useAssetEventsRefresh";
-import type { Mower, Task, InsertTask, ServiceRecord, Attachment, Engine, Part, AssetPart, AssetPartWithDetails } from "@shared/schema";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Mower, TaskWithActivity, ServiceRecordWithCosts, Attachment, Engine, Part, AssetPart, AssetPartWithDetails, MaintenanceSchedule } from "@shared/schema";
 
 import { useToast } from "@/hooks/use-toast";
 import { LoadingSpinner, ButtonLoading, CardLoadingSkeleton } from "@/components/ui/loading-components";
 import { motion } from "framer-motion";
-import { safeFormatDateForDisplay, safeFormatDateForAPI } from "@/lib/utils";
+import { safeFormatDateForDisplay } from "@/lib/utils";
 
 // Helper component for rendering engine thumbnail with fallback in MowerDetails
 function EngineThumbnailSmall({ engineId, engineName, onClick }: { engineId: number; engineName: string; onClick: () => void }) {
@@ -84,6 +88,7 @@ export default function MowerDetails() {
   const [, setLocation] = useLocation();
   const mowerId = params?.id;
   const { toast } = useToast();
+  const { can } = useAuth();
   
   // Check for tab parameter in URL
   const urlParams = new URLSearchParams(window.location.search);
@@ -166,20 +171,25 @@ export default function MowerDetails() {
     enabled: !!mowerId,
   });
 
-  // Fetch tasks data  
-  const { data: tasks = [], isLoading: isTasksLoading, error: tasksError } = useQuery<Task[]>({
+  // Fetch tasks data (for the tab count; the tab itself shares this query)
+  const { data: tasks = [] } = useQuery<TaskWithActivity[]>({
     queryKey: ['/api/mowers', mowerId, 'tasks'],
     enabled: !!mowerId,
   });
 
   // Fetch service records data
-  const { data: serviceRecords = [], isLoading: isServiceRecordsLoading, error: serviceRecordsError } = useQuery<ServiceRecord[]>({
+  const { data: serviceRecords = [], isLoading: isServiceRecordsLoading, error: serviceRecordsError } = useQuery<ServiceRecordWithCosts[]>({
     queryKey: ['/api/mowers', mowerId, 'service'],
     enabled: !!mowerId,
   });
 
+  const { data: maintenanceSchedule } = useQuery<MaintenanceSchedule>({
+    queryKey: ['/api/mowers', mowerId, 'maintenance-schedule'],
+    enabled: !!mowerId,
+  });
+
   // Fetch attachments data
-  const { data: attachments = [], isLoading: isAttachmentsLoading, error: attachmentsError } = useQuery<Omit<Attachment, 'fileData'>[]>({
+  const { data: attachments = [], isLoading: isAttachmentsLoading, error: attachmentsError } = useQuery<Omit<Attachment, 'legacyFileData' | 'textContent'>[]>({
     queryKey: ['/api/mowers', mowerId, 'attachments'],
     enabled: !!mowerId,
   });
@@ -247,74 +257,6 @@ export default function MowerDetails() {
     },
   });
 
-  // Task mutations
-  const addTaskMutation = useMutation({
-    mutationFn: async (taskData: Omit<InsertTask, 'mowerId'>) => {
-      // Convert date and sanitize cost
-      const processedData = {
-        ...taskData,
-        dueDate: taskData.dueDate ? new Date(taskData.dueDate) : undefined,
-        estimatedCost: taskData.estimatedCost ? taskData.estimatedCost.replace(/[$,]/g, '') : undefined,
-      };
-      const response = await apiRequest('POST', `/api/mowers/${mowerId}/tasks`, processedData);
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId, 'tasks'] });
-      toast({ title: "Success", description: "Task added successfully" });
-    },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to add task", variant: "destructive" });
-    },
-  });
-
-  const updateTaskMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: string, data: Partial<InsertTask> }) => {
-      // Convert date and sanitize cost
-      const processedData = {
-        ...data,
-        dueDate: data.dueDate ? new Date(data.dueDate) : undefined,
-        estimatedCost: data.estimatedCost ? data.estimatedCost.replace(/[$,]/g, '') : undefined,
-      };
-      const response = await apiRequest('PUT', `/api/tasks/${id}`, processedData);
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId, 'tasks'] });
-      toast({ title: "Success", description: "Task updated successfully" });
-    },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to update task", variant: "destructive" });
-    },
-  });
-
-  const deleteTaskMutation = useMutation({
-    mutationFn: async (taskId: string) => {
-      await apiRequest('DELETE', `/api/tasks/${taskId}`);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId, 'tasks'] });
-      toast({ title: "Success", description: "Task deleted successfully" });
-    },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to delete task", variant: "destructive" });
-    },
-  });
-
-  const completeTaskMutation = useMutation({
-    mutationFn: async (taskId: string) => {
-      const response = await apiRequest('POST', `/api/tasks/${taskId}/complete`);
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId, 'tasks'] });
-      toast({ title: "Success", description: "Task completed successfully" });
-    },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to complete task", variant: "destructive" });
-    },
-  });
-
   // Attachment mutations
   const uploadAttachmentMutation = useMutation({
     mutationFn: async ({ file, metadata }: { file: File; metadata: { title: string; description: string } }) => {
@@ -644,8 +586,8 @@ export default function MowerDetails() {
   const handleEditAttachment = (attachmentId: string) => {
     const attachment = attachments.find(a => a.id === attachmentId);
     if (attachment) {
-      // Convert to the expected type by adding fileData field (not needed for editing)
-      setEditingAttachment({ ...attachment, fileData: '' });
+      // Convert to the expected type by adding the server-only fields (not needed for editing)
+      setEditingAttachment({ ...attachment, legacyFileData: null, textContent: null });
       setShowEditAttachmentDialog(true);
     }
   };
@@ -850,56 +792,58 @@ export default function MowerDetails() {
           </div>
         </div>
 
-        <div className="flex gap-2">
-          <Button
-            onClick={() => setLocation(`/mowers/${mowerId}/edit`)}
-            className="bg-accent-teal text-white hover:bg-accent-teal/90 rounded-button"
-            data-testid="button-edit-mower"
-          >
-            <Edit className="h-4 w-4 mr-2" />
-            Edit
-          </Button>
-          
-          <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
-            <AlertDialogTrigger asChild>
-              <Button
-                variant="destructive"
-                data-testid="button-delete-mower"
-              >
-                <Trash2 className="h-4 w-4 mr-2" />
-                Delete
-              </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Delete Mower</AlertDialogTitle>
-                <AlertDialogDescription>
-                  Are you sure you want to delete {mower.make} {mower.model}? This action cannot be undone. All associated service records, tasks, and attachments will also be deleted.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
-                <AlertDialogAction
-                  onClick={() => {
-                    deleteMowerMutation.mutate();
-                    setShowDeleteDialog(false);
-                  }}
-                  disabled={deleteMowerMutation.isPending}
-                  data-testid="button-confirm-delete"
-                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+        {can("mowers:write") && (
+          <div className="flex gap-2">
+            <Button
+              onClick={() => setLocation(`/mowers/${mowerId}/edit`)}
+              className="bg-accent-teal text-white hover:bg-accent-teal/90 rounded-button"
+              data-testid="button-edit-mower"
+            >
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+            
+            <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="destructive"
+                  data-testid="button-delete-mower"
                 >
-                  <ButtonLoading 
-                    isLoading={deleteMowerMutation.isPending} 
-                    loadingText="Deleting..."
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete Mower</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Are you sure you want to delete {mower.make} {mower.model}? This action cannot be undone. All associated service records, tasks, and attachments will also be deleted.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => {
+                      deleteMowerMutation.mutate();
+                      setShowDeleteDialog(false);
+                    }}
+                    disabled={deleteMowerMutation.isPending}
+                    data-testid="button-confirm-delete"
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
                   >
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    Delete Mower
-                  </ButtonLoading>
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
-        </div>
+                    <ButtonLoading 
+                      isLoading={deleteMowerMutation.isPending} 
+                      loadingText="Deleting..."
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete Mower
+                    </ButtonLoading>
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
       </div>
 
       <motion.div 
@@ -930,6 +874,12 @@ export default function MowerDetails() {
               <span className="text-muted-foreground">Serial Number</span>
               <span className="font-medium">{mower.serialNumber}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Hour Meter</span>
+              <span className="font-medium" data-testid="text-current-hours">
+                {mower.currentHours !== null ? `${mower.currentHours} h` : 'N/A'}
+              </span>
+            </div>
             <div className="flex justify-between items-center">
               <span className="text-muted-foreground">Condition</span>
               <Badge className={conditionColors[mower.condition as keyof typeof conditionColors]}>
@@ -957,6 +907,13 @@ export default function MowerDetails() {
                 <p className="font-medium">{mower.purchasePrice ? `$${mower.purchasePrice}` : 'N/A'}</p>
               </div>
             </div>
+            <div className="flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+              <div>
+                <p className="text-sm text-muted-foreground">Warranty Expires</p>
+                <p className="font-medium">{mower.warrantyExpirationDate ? new Date(mower.warrantyExpirationDate).toLocaleDateString() : 'N/A'}</p>
+              </div>
+            </div>
           </CardContent>
         </Card>
         </motion.div>
@@ -968,6 +925,7 @@ export default function MowerDetails() {
         >
           <MaintenanceOverview 
             serviceRecords={serviceRecords}
+            schedule={maintenanceSchedule}
             onViewDetails={() => setActiveTab("service-history")}
           />
         </motion.div>
@@ -982,32 +940,36 @@ export default function MowerDetails() {
             <CardTitle>Quick Actions</CardTitle>
           </CardHeader>
           <CardContent className="space-y-2">
-            <Button 
-              className="w-full justify-start" 
-              variant="outline"
-              onClick={() => setLocation(`/mowers/${mowerId}/service/new`)}
-              data-testid="button-add-service-record"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Service Record
-            </Button>
+            {can("service:write") && (
+              <Button 
+                className="w-full justify-start" 
+                variant="outline"
+                onClick={() => setLocation(`/mowers/${mowerId}/service/new`)}
+                data-testid="button-add-service-record"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Service Record
+              </Button>
+            )}
             
             {/* Unified Upload Component */}
-            <div className="pt-2">
-              <UnifiedFileUploadArea
-                onAttachmentsChange={(attachments) => {
-                  setUnifiedAttachments(attachments);
-                  // Auto-upload when attachments are added
-                  if (attachments.length > 0) {
-                    handleUnifiedAttachmentsUpload(attachments);
-                  }
-                }}
-                onThumbnailChange={handleUnifiedThumbnailChange}
-                disabled={uploadAttachmentMutation.isPending}
-                showThumbnailSelection={true}
-                mode="details"
-              />
-            </div>
+            {can("attachments:write") && (
+              <div className="pt-2">
+                <UnifiedFileUploadArea
+                  onAttachmentsChange={(attachments) => {
+                    setUnifiedAttachments(attachments);
+                    // Auto-upload when attachments are added
+                    if (attachments.length > 0) {
+                      handleUnifiedAttachmentsUpload(attachments);
+                    }
+                  }}
+                  onThumbnailChange={handleUnifiedThumbnailChange}
+                  disabled={uploadAttachmentMutation.isPending}
+                  showThumbnailSelection={true}
+                  mode="details"
+                />
+              </div>
+            )}
           </CardContent>
         </Card>
         </motion.div>
@@ -1022,6 +984,10 @@ export default function MowerDetails() {
           <TabsTrigger value="tasks" data-testid="tab-tasks">
             Tasks ({tasks.length})
           </TabsTrigger>
+          <TabsTrigger value="work-orders" data-testid="tab-work-orders">
+            <ClipboardList className="h-4 w-4 mr-2" />
+            Work Orders
+          </TabsTrigger>
           <TabsTrigger value="parts-engines" data-testid="tab-parts-engines">
             <Wrench className="h-4 w-4 mr-2" />
             Parts/Engines ({components.length + mowerParts.length})
@@ -1032,6 +998,14 @@ export default function MowerDetails() {
           <TabsTrigger value="attachments" data-testid="tab-attachments">
             Attachments ({attachments.length})
           </TabsTrigger>
+          <TabsTrigger value="hour-meter" data-testid="tab-hour-meter">
+            <Gauge className="h-4 w-4 mr-2" />
+            Hour Meter
+          </TabsTrigger>
+          <TabsTrigger value="history" data-testid="tab-history">
+            <History className="h-4 w-4 mr-2" />
+            History
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="notes">
@@ -1042,27 +1016,29 @@ export default function MowerDetails() {
                   <FileText className="h-5 w-5" />
                   Notes
                 </CardTitle>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => {
-                    if (isEditingNotes) {
-                      updateNotesMutation.mutate(notes);
-                    } else {
-                      setIsEditingNotes(true);
-                    }
-                  }}
-                  disabled={updateNotesMutation.isPending}
-                  data-testid="button-edit-notes"
-                >
-                  <ButtonLoading 
-                    isLoading={updateNotesMutation.isPending} 
-                    loadingText="Saving..."
+                {can("mowers:write") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      if (isEditingNotes) {
+                        updateNotesMutation.mutate(notes);
+                      } else {
+                        setIsEditingNotes(true);
+                      }
+                    }}
+                    disabled={updateNotesMutation.isPending}
+                    data-testid="button-edit-notes"
                   >
-                    <Edit className="h-4 w-4 mr-2" />
-                    {isEditingNotes ? "Save" : "Edit"}
-                  </ButtonLoading>
-                </Button>
+                    <ButtonLoading 
+                      isLoading={updateNotesMutation.isPending} 
+                      loadingText="Saving..."
+                    >
+                      <Edit className="h-4 w-4 mr-2" />
+                      {isEditingNotes ? "Save" : "Edit"}
+                    </ButtonLoading>
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent>
@@ -1092,58 +1068,11 @@ export default function MowerDetails() {
         </TabsContent>
 
         <TabsContent value="tasks">
-          {tasksError ? (
-            <Card>
-              <CardContent className="pt-6">
-                <div className="text-center py-8">
-                  <p className="text-destructive">Failed to load tasks data</p>
-                  <Button 
-                    variant="outline" 
-                    size="sm" 
-                    className="mt-2"
-                    onClick={() => queryClient.invalidateQueries({ queryKey: ['/api/mowers', mowerId, 'tasks'] })}
-                  >
-                    Retry
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          ) : isTasksLoading ? (
-            <div className="flex items-center justify-center py-8">
-              <Loader2 className="h-6 w-6 animate-spin mr-2" />
-              <span>Loading tasks...</span>
-            </div>
-          ) : (
-            <TaskList
-              tasks={tasks.map(task => ({
-                ...task,
-                description: task.description || undefined,
-                priority: task.priority as "low" | "medium" | "high" | "urgent",
-                status: task.status as "pending" | "in_progress" | "completed" | "cancelled",
-                category: task.category as "maintenance" | "repair" | "parts" | "inspection" | "other",
-                dueDate: task.dueDate ? safeFormatDateForAPI(task.dueDate) || undefined : undefined,
-                estimatedCost: task.estimatedCost ? `$${task.estimatedCost}` : undefined,
-                partNumber: task.partNumber || undefined,
-                createdAt: safeFormatDateForAPI(task.createdAt) || new Date().toISOString(),
-                completedAt: task.completedAt ? safeFormatDateForAPI(task.completedAt) || undefined : undefined,
-              }))}
-              onAddTask={(task) => addTaskMutation.mutate({
-                ...task,
-                dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
-                estimatedCost: task.estimatedCost ? task.estimatedCost.replace(/[$,]/g, '') : undefined,
-              })}
-              onEditTask={(id, task) => updateTaskMutation.mutate({ 
-                id, 
-                data: {
-                  ...task,
-                  dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
-                  estimatedCost: task.estimatedCost ? task.estimatedCost.replace(/[$,]/g, '') : undefined,
-                }
-              })}
-              onDeleteTask={(id) => deleteTaskMutation.mutate(id)}
-              onCompleteTask={(id) => completeTaskMutation.mutate(id)}
-            />
-          )}
+          <AssetTaskList assetType="mower" assetId={mowerId!} />
+        </TabsContent>
+
+        <TabsContent value="work-orders">
+          <WorkOrders mowerId={mowerId!} />
         </TabsContent>
         
         <TabsContent value="parts-engines">
@@ -1181,30 +1110,32 @@ export default function MowerDetails() {
                       <Wrench className="h-5 w-5" />
                       Engines ({components.length})
                     </CardTitle>
-                    <div className="flex gap-2">
-                      <Button 
-                        variant="outline" 
-                        size="sm" 
-                        onClick={handleAllocateComponent} 
-                        data-testid="button-allocate-component"
-                        title="Allocate engine from catalog"
-                        disabled={components.length > 0}
-                      >
-                        <Wrench className="h-4 w-4 mr-2" />
-                        Allocate Engine
-                      </Button>
-                      <Button 
-                        variant="outline" 
-                        size="sm" 
-                        onClick={handleAddEngine} 
-                        disabled={components.length > 0}
-                        data-testid="button-add-engine"
-                        title={components.length > 0 ? "This mower already has an engine allocated" : "Create new engine for this mower"}
-                      >
-                        <Plus className="h-4 w-4 mr-2" />
-                        Create Engine
-                      </Button>
-                    </div>
+                    {can("engines:write") && (
+                      <div className="flex gap-2">
+                        <Button 
+                          variant="outline" 
+                          size="sm" 
+                          onClick={handleAllocateComponent} 
+                          data-testid="button-allocate-component"
+                          title="Allocate engine from catalog"
+                          disabled={components.length > 0}
+                        >
+                          <Wrench className="h-4 w-4 mr-2" />
+                          Allocate Engine
+                        </Button>
+                        <Button 
+                          variant="outline" 
+                          size="sm" 
+                          onClick={handleAddEngine} 
+                          disabled={components.length > 0}
+                          data-testid="button-add-engine"
+                          title={components.length > 0 ? "This mower already has an engine allocated" : "Create new engine for this mower"}
+                        >
+                          <Plus className="h-4 w-4 mr-2" />
+                          Create Engine
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -1257,30 +1188,36 @@ export default function MowerDetails() {
                                 )}
                               </div>
                               <div className="flex items-center gap-2">
-                                <Button 
-                                  variant="ghost" 
-                                  size="sm"
-                                  onClick={() => handleAllocatePartToEngine(component.id.toString())}
-                                  title="Allocate parts to this component"
-                                >
-                                  <Plus className="h-4 w-4" />
-                                </Button>
-                                <Button 
-                                  variant="ghost" 
-                                  size="sm"
-                                  onClick={() => handleEditComponent(component)}
-                                >
-                                  <Edit className="h-4 w-4" />
-                                </Button>
-                                <Button 
-                                  variant="ghost" 
-                                  size="sm"
-                                  onClick={() => handleDeleteComponent(component)}
-                                  title="Unallocate this engine and return it to catalog"
-                                  className="text-orange-600 hover:text-orange-700 hover:bg-orange-50"
-                                >
-                                  <Unlink className="h-4 w-4" />
-                                </Button>
+                                {can("parts:allocate") && (
+                                  <Button 
+                                    variant="ghost" 
+                                    size="sm"
+                                    onClick={() => handleAllocatePartToEngine(component.id.toString())}
+                                    title="Allocate parts to this component"
+                                  >
+                                    <Plus className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                {can("engines:write") && (
+                                  <>
+                                    <Button 
+                                      variant="ghost" 
+                                      size="sm"
+                                      onClick={() => handleEditComponent(component)}
+                                    >
+                                      <Edit className="h-4 w-4" />
+                                    </Button>
+                                    <Button 
+                                      variant="ghost" 
+                                      size="sm"
+                                      onClick={() => handleDeleteComponent(component)}
+                                      title="Unallocate this engine and return it to catalog"
+                                      className="text-orange-600 hover:text-orange-700 hover:bg-orange-50"
+                                    >
+                                      <Unlink className="h-4 w-4" />
+                                    </Button>
+                                  </>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -1300,14 +1237,18 @@ export default function MowerDetails() {
                       Allocated Parts ({mowerParts.length})
                     </CardTitle>
                     <div className="flex gap-2">
-                      <Button variant="outline" size="sm" onClick={handleAllocatePart} data-testid="button-add-part">
-                        <Plus className="h-4 w-4 mr-2" />
-                        Allocate Part
-                      </Button>
-                      <Button variant="outline" size="sm" onClick={handleCreatePart} data-testid="button-create-part">
-                        <Plus className="h-4 w-4 mr-2" />
-                        Create Part
-                      </Button>
+                      {can("parts:allocate") && (
+                        <Button variant="outline" size="sm" onClick={handleAllocatePart} data-testid="button-add-part">
+                          <Plus className="h-4 w-4 mr-2" />
+                          Allocate Part
+                        </Button>
+                      )}
+                      {can("parts:write") && (
+                        <Button variant="outline" size="sm" onClick={handleCreatePart} data-testid="button-create-part">
+                          <Plus className="h-4 w-4 mr-2" />
+                          Create Part
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -1391,22 +1332,24 @@ export default function MowerDetails() {
                                   <p className="text-sm text-muted-foreground mt-2 italic">{assetPart.notes}</p>
                                 )}
                               </div>
-                              <div className="flex items-center gap-2">
-                                <Button 
-                                  variant="ghost" 
-                                  size="sm"
-                                  onClick={() => handleEditAssetPart(assetPart)}
-                                >
-                                  <Edit className="h-4 w-4" />
-                                </Button>
-                                <Button 
-                                  variant="ghost" 
-                                  size="sm"
-                                  onClick={() => handleDeleteAssetPart(assetPart)}
-                                >
-                                  <Trash2 className="h-4 w-4" />
-                                </Button>
-                              </div>
+                              {can("parts:allocate") && (
+                                <div className="flex items-center gap-2">
+                                  <Button 
+                                    variant="ghost" 
+                                    size="sm"
+                                    onClick={() => handleEditAssetPart(assetPart)}
+                                  >
+                                    <Edit className="h-4 w-4" />
+                                  </Button>
+                                  <Button 
+                                    variant="ghost" 
+                                    size="sm"
+                                    onClick={() => handleDeleteAssetPart(assetPart)}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -1432,6 +1375,7 @@ export default function MowerDetails() {
             }))}
             onAddService={() => setLocation(`/mowers/${mowerId}/service/new`)}
             onEditService={(id) => setLocation(`/mowers/${mowerId}/service/${id}/edit`)}
+            readOnly={!can("service:write")}
           />
         </TabsContent>
         
@@ -1469,9 +1413,18 @@ export default function MowerDetails() {
               thumbnailAttachmentId={mower?.thumbnailAttachmentId ?? null}
               isUploading={uploadAttachmentMutation.isPending}
               isDeleting={deleteAttachmentMutation.isPending}
+              readOnly={!can("attachments:write")}
             />
           )}
         </TabsContent>
+
+        <TabsContent value="hour-meter">
+          <MeterReadings assetType="mower" assetId={mowerId!} />
+        </TabsContent>
+
+        <TabsContent value="history">
+          <AuditHistory assetType="mower" assetId={mowerId!} />
+        </TabsContent>
       </Tabs>
       
       {/* Attachment Metadata Dialog */}
@@ -1,21 +1,52 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRoute, useLocation } from "wouter";
 import AssetCard from "@/components/AssetCard";
+import ListPagination from "@/components/ListPagination";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Search, Plus, ArrowLeft } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
 import { useMowerThumbnails } from "@/hooks/useThumbnails";
 import { useAssetEventsRefresh } from "@/hooks/useAssetEventsRefresh";
+import { usePaginatedList, useDebouncedValue, type ListParams } from "@/hooks/usePaginatedList";
 import type { Mower } from "@shared/schema";
 
 interface MowerListProps {}
 
+const PAGE_SIZE = 24;
+
+// Local calendar date offset from today, as YYYY-MM-DD
+function dateFromToday(days: number) {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+// Server-side filters for each ?filter= value
+function filterParams(filter: string): ListParams {
+  switch (filter) {
+    case 'active':
+    case 'maintenance':
+    case 'retired':
+      return { status: filter };
+    case 'upcoming-services':
+      // Next service date within 30 days
+      return { nextServiceFrom: dateFromToday(0), nextServiceTo: dateFromToday(30), sort: 'nextServiceDate' };
+    case 'overdue-services':
+      // Next service date in the past
+      return { nextServiceTo: dateFromToday(-1), sort: 'nextServiceDate' };
+    case 'all':
+    default:
+      return {};
+  }
+}
+
 export default function MowerList() {
   const [, params] = useRoute("/mowers");
   const [, setLocation] = useLocation();
   const [searchQuery, setSearchQuery] = useState("");
+  const [page, setPage] = useState(1);
+  const debouncedSearch = useDebouncedValue(searchQuery.trim());
   
   // Initialize WebSocket for auto-refresh
   const { isConnected: wsConnected, error: wsError } = useAssetEventsRefresh();
@@ -23,61 +54,21 @@ export default function MowerList() {
   // Get filter from URL search params
   const urlParams = new URLSearchParams(window.location.search);
   const filter = urlParams.get('filter') || 'all';
+
+  // A different filter starts again from the first page
+  useEffect(() => setPage(1), [filter]);
   
-  const { data: mowers, isLoading, error } = useQuery<Mower[]>({
-    queryKey: ['/api/mowers'],
+  const { data: mowerPage, isLoading, error } = usePaginatedList<Mower>('/api/mowers', {
+    ...filterParams(filter),
+    q: debouncedSearch,
+    page,
+    pageSize: PAGE_SIZE,
   });
+  const filteredMowers = mowerPage?.items ?? [];
+  const total = mowerPage?.total ?? 0;
 
-  // Fetch thumbnails for all mowers
-  const { data: thumbnails } = useMowerThumbnails(mowers || []);
-
-  // Filter mowers based on the filter parameter
-  const getFilteredMowers = () => {
-    let filtered = mowers || [];
-    
-    switch (filter) {
-      case 'active':
-        filtered = (mowers || []).filter(m => m.status === 'active');
-        break;
-      case 'maintenance':
-        filtered = (mowers || []).filter(m => m.status === 'maintenance');
-        break;
-      case 'retired':
-        filtered = (mowers || []).filter(m => m.status === 'retired');
-        break;
-      case 'upcoming-services':
-        // Filter mowers with next service date within 30 days
-        filtered = (mowers || []).filter(m => {
-          if (!m.nextServiceDate) return false;
-          const nextServiceDate = new Date(m.nextServiceDate);
-          const today = new Date();
-          const thirtyDaysFromNow = new Date(today.getTime() + (30 * 24 * 60 * 60 * 1000));
-          return nextServiceDate >= today && nextServiceDate <= thirtyDaysFromNow;
-        });
-        break;
-      case 'overdue-services':
-        // Filter mowers with next service date in the past
-        filtered = (mowers || []).filter(m => {
-          if (!m.nextServiceDate) return false;
-          const nextServiceDate = new Date(m.nextServiceDate);
-          const today = new Date();
-          return nextServiceDate < today;
-        });
-        break;
-      case 'all':
-      default:
-        filtered = mowers || [];
-        break;
-    }
-    
-    // Apply search filter
-    return filtered.filter(mower =>
-      `${mower.make} ${mower.model}`.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      mower.serialNumber?.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  };
-
-  const filteredMowers = getFilteredMowers();
+  // Fetch thumbnails for the mowers on this page
+  const { data: thumbnails } = useMowerThumbnails(filteredMowers);
 
   const handleViewDetails = (id: string) => {
     setLocation(`/mowers/${id}`);
@@ -95,31 +86,18 @@ export default function MowerList() {
   const getFilterInfo = () => {
     switch (filter) {
       case 'active':
-        return { title: "Active Mowers", description: "Mowers currently in active service", count: (mowers || []).filter(m => m.status === 'active').length };
+        return { title: "Active Mowers", description: "Mowers currently in active service" };
       case 'maintenance':
-        return { title: "Mowers in Maintenance", description: "Mowers currently undergoing maintenance", count: (mowers || []).filter(m => m.status === 'maintenance').length };
+        return { title: "Mowers in Maintenance", description: "Mowers currently undergoing maintenance" };
       case 'retired':
-        return { title: "Retired Mowers", description: "Mowers that are no longer in service", count: (mowers || []).filter(m => m.status === 'retired').length };
+        return { title: "Retired Mowers", description: "Mowers that are no longer in service" };
       case 'upcoming-services':
-        const upcomingCount = (mowers || []).filter(m => {
-          if (!m.nextServiceDate) return false;
-          const nextServiceDate = new Date(m.nextServiceDate);
-          const today = new Date();
-          const thirtyDaysFromNow = new Date(today.getTime() + (30 * 24 * 60 * 60 * 1000));
-          return nextServiceDate >= today && nextServiceDate <= thirtyDaysFromNow;
-        }).length;
-        return { title: "Upcoming Services", description: "Mowers with services scheduled within 30 days", count: upcomingCount };
+        return { title: "Upcoming Services", description: "Mowers with services scheduled within 30 days" };
       case 'overdue-services':
-        const overdueCount = (mowers || []).filter(m => {
-          if (!m.nextServiceDate) return false;
-          const nextServiceDate = new Date(m.nextServiceDate);
-          const today = new Date();
-          return nextServiceDate < today;
-        }).length;
-        return { title: "Overdue Services", description: "Mowers with overdue maintenance", count: overdueCount };
+        return { title: "Overdue Services", description: "Mowers with overdue maintenance" };
       case 'all':
       default:
-        return { title: "All Mowers", description: "Complete list of your mower fleet", count: mowers?.length || 0 };
+        return { title: "All Mowers", description: "Complete list of your mower fleet" };
     }
   };
 
@@ -144,7 +122,7 @@ export default function MowerList() {
                 {filterInfo.title}
               </h1>
               <Badge variant="secondary" data-testid="badge-mower-count">
-                {filterInfo.count}
+                {total}
               </Badge>
             </div>
             <p className="text-text-muted" data-testid="text-page-description">
@@ -166,7 +144,10 @@ export default function MowerList() {
             <Input
               placeholder="Search mowers..."
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                setPage(1);
+              }}
               className="pl-10"
               data-testid="input-search-mowers"
             />
@@ -196,6 +177,8 @@ export default function MowerList() {
           ))}
         </div>
 
+        <ListPagination page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} itemLabel="mowers" />
+
         {filteredMowers.length === 0 && searchQuery && (
           <div className="text-center py-8 text-text-muted" data-testid="text-no-search-results">
             <p>No mowers found matching "{searchQuery}"</p>
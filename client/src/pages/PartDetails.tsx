@@ -6,16 +6,19 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { ArrowLeft, Package, DollarSign, Hash, Building, FileText, AlertTriangle, Paperclip, Edit, Trash2, Plus, ImageOff } from "lucide-react";
+import { ArrowLeft, Package, DollarSign, Hash, Building, FileText, AlertTriangle, Paperclip, Edit, Trash2, Plus, ImageOff, History, ListTodo } from "lucide-react";
 import { useLocation } from "wouter";
 import { useAssetEventsRefresh } from "@/hooks/useAssetEventsRefresh";
+import { useAuth } from "@/contexts/AuthContext";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import PartFormModal from "@/components/PartFormModal";
 import AllocatePartModal from "@/components/AllocatePartModal";
-import type { Part, Attachment, AssetPartWithDetails } from "@shared/schema";
+import type { Part, Attachment, AssetPartWithDetails, TaskWithActivity } from "@shared/schema";
 import { CardLoadingSkeleton } from "@/components/ui/loading-components";
 import GenericAttachmentGallery from "@/components/GenericAttachmentGallery";
+import AuditHistory from "@/components/AuditHistory";
+import AssetTaskList from "@/components/AssetTaskList";
 import { safeFormatDateForDisplay } from "@/lib/utils";
 import { usePartThumbnail } from "@/hooks/useThumbnails";
 
@@ -24,6 +27,7 @@ export default function PartDetails() {
   const [, setLocation] = useLocation();
   const partId = params?.partId;
   const { toast } = useToast();
+  const { can } = useAuth();
 
   // Modal states
   const [showEditModal, setShowEditModal] = useState(false);
@@ -43,7 +47,7 @@ export default function PartDetails() {
   const { data: thumbnail } = usePartThumbnail(partId || '');
 
   // Fetch part attachments
-  const { data: attachments = [], isLoading: isAttachmentsLoading } = useQuery<Omit<Attachment, 'fileData'>[]>({
+  const { data: attachments = [], isLoading: isAttachmentsLoading } = useQuery<Omit<Attachment, 'legacyFileData' | 'textContent'>[]>({
     queryKey: ['/api/parts', partId, 'attachments'],
     enabled: !!partId,
   });
@@ -54,6 +58,12 @@ export default function PartDetails() {
     enabled: !!partId,
   });
 
+  // Fetch part tasks (for the tab count; the tab itself shares this query)
+  const { data: tasks = [] } = useQuery<TaskWithActivity[]>({
+    queryKey: ['/api/parts', partId, 'tasks'],
+    enabled: !!partId,
+  });
+
   // Delete mutation
   const deleteMutation = useMutation({
     mutationFn: async (partId: number) => {
@@ -182,22 +192,28 @@ export default function PartDetails() {
           <h1 className="text-3xl font-bold tracking-tight text-text-dark">{part.name}</h1>
         </div>
         <div className="flex items-center gap-2">
-          <Button variant="outline" size="sm" onClick={handleEdit}>
-            <Edit className="h-4 w-4 mr-2" />
-            Edit
-          </Button>
-          <Button variant="outline" size="sm" onClick={handleAllocate}>
-            <Plus className="h-4 w-4 mr-2" />
-            Allocate
-          </Button>
-          <Button variant="outline" size="sm" onClick={handleDelete}>
-            <Trash2 className="h-4 w-4 mr-2" />
-            Delete
-          </Button>
+          {can("parts:write") && (
+            <Button variant="outline" size="sm" onClick={handleEdit}>
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+          {can("parts:allocate") && (
+            <Button variant="outline" size="sm" onClick={handleAllocate}>
+              <Plus className="h-4 w-4 mr-2" />
+              Allocate
+            </Button>
+          )}
+          {can("parts:write") && (
+            <Button variant="outline" size="sm" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          )}
         </div>
       </div>
 
-      <Tabs defaultValue="details" className="space-y-4">
+      <Tabs defaultValue={new URLSearchParams(window.location.search).get('tab') || "details"} className="space-y-4">
         <TabsList>
           <TabsTrigger value="details">
             <Package className="h-4 w-4 mr-2" />
@@ -207,6 +223,14 @@ export default function PartDetails() {
             <Paperclip className="h-4 w-4 mr-2" />
             Attachments ({attachments.length})
           </TabsTrigger>
+          <TabsTrigger value="tasks" data-testid="tab-tasks">
+            <ListTodo className="h-4 w-4 mr-2" />
+            Tasks ({tasks.length})
+          </TabsTrigger>
+          <TabsTrigger value="history" data-testid="tab-history">
+            <History className="h-4 w-4 mr-2" />
+            History
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="details">
@@ -276,6 +300,13 @@ export default function PartDetails() {
                   </div>
                 )}
 
+                {part.binLocation && (
+                  <div>
+                    <label className="text-sm font-medium text-gray-600">Bin Location</label>
+                    <p className="text-sm text-gray-800 mt-1" data-testid="text-part-bin-location">{part.binLocation}</p>
+                  </div>
+                )}
+
                 {/* Pricing Information */}
                 {part.unitCost && (
                   <div>
@@ -406,6 +437,14 @@ export default function PartDetails() {
             isLoading={isAttachmentsLoading}
           />
         </TabsContent>
+
+        <TabsContent value="tasks">
+          <AssetTaskList assetType="part" assetId={partId!} />
+        </TabsContent>
+
+        <TabsContent value="history">
+          <AuditHistory assetType="part" assetId={partId!} />
+        </TabsContent>
       </Tabs>
 
       {/* Edit Part Modal */}
@@ -11,11 +11,16 @@ import { useLocation } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAssetEventsRefresh } from "@/hooks/useAssetEventsRefresh";
+import { useAuth } from "@/contexts/AuthContext";
 import { usePartThumbnail, useEngineThumbnail } from "@/hooks/useThumbnails";
+import { usePaginatedList, useDebouncedValue } from "@/hooks/usePaginatedList";
+import ListPagination from "@/components/ListPagination";
 import EngineFormModal from "@/components/EngineFormModal";
 import PartFormModal from "@/components/PartFormModal";
 import type { Part, Engine } from "@shared/schema";
 
+const PAGE_SIZE = 24;
+
 // Helper component for rendering part thumbnail with fallback
 function PartThumbnailImage({ partId, partName, onClick }: { partId: number; partName: string; onClick: () => void }) {
   const { data: thumbnail, isLoading } = usePartThumbnail(partId);
@@ -94,7 +99,15 @@ export default function PartsCatalog() {
   const [, setLocation] = useLocation();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
+  const [partsPage, setPartsPage] = useState(1);
+  const [engineSearchQuery, setEngineSearchQuery] = useState("");
+  const [enginesPage, setEnginesPage] = useState(1);
+  const debouncedPartSearch = useDebouncedValue(searchQuery.trim());
+  const debouncedEngineSearch = useDebouncedValue(engineSearchQuery.trim());
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canEditParts = can("parts:write");
+  const canEditEngines = can("engines:write");
 
   // Initialize WebSocket for auto-refresh
   const { isConnected: wsConnected, error: wsError } = useAssetEventsRefresh();
@@ -109,14 +122,33 @@ export default function PartsCatalog() {
   const [partToDelete, setPartToDelete] = useState<Part | null>(null);
   const [componentToDelete, setEngineToDelete] = useState<Engine | null>(null);
 
-  // Fetch all parts for inventory management
-  const { data: parts = [], isLoading: isPartsLoading } = useQuery<Part[]>({
-    queryKey: ['/api/parts'],
+  // Parts and engines are searched, filtered and paged on the server
+  const { data: partList, isLoading: isPartsLoading } = usePaginatedList<Part>('/api/parts', {
+    q: debouncedPartSearch,
+    category: selectedCategory === "all" ? undefined : selectedCategory,
+    page: partsPage,
+    pageSize: PAGE_SIZE,
+  });
+  const filteredParts = partList?.items ?? [];
+
+  const { data: engineList, isLoading: isEnginesLoading } = usePaginatedList<Engine>('/api/engines', {
+    q: debouncedEngineSearch,
+    page: enginesPage,
+    pageSize: PAGE_SIZE,
   });
+  const allEngines = engineList?.items ?? [];
 
-  // Fetch all components for management
-  const { data: allEngines = [], isLoading: isEnginesLoading } = useQuery<Engine[]>({
-    queryKey: ['/api/engines'],
+  // Keyed under '/api/parts' so part changes refresh the category list too
+  const { data: categories = [] } = useQuery<string[]>({
+    queryKey: ['/api/parts', 'categories'],
+  });
+
+  const { data: lowStockParts = [] } = useQuery<Part[]>({
+    queryKey: ['/api/parts', 'low-stock'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/parts?lowStock=true');
+      return response.json();
+    },
   });
 
   // Delete mutations
@@ -158,23 +190,6 @@ export default function PartsCatalog() {
     },
   });
 
-  // Filter parts based on search and category
-  const filteredParts = parts.filter(part => {
-    const matchesSearch = part.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         part.partNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         (part.manufacturer || "").toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesCategory = selectedCategory === "all" || part.category === selectedCategory;
-    return matchesSearch && matchesCategory;
-  });
-
-  // Get unique categories from parts
-  const categories = Array.from(new Set(parts.map(part => part.category)));
-
-  // Calculate low stock parts
-  const lowStockParts = parts.filter(part => 
-    part.minStockLevel && part.stockQuantity <= part.minStockLevel
-  );
-
   // Handlers
   const handleAddPart = () => {
     setEditingPart(null);
@@ -224,14 +239,18 @@ export default function PartsCatalog() {
           </p>
         </div>
         <div className="flex gap-2">
-          <Button variant="outline" onClick={handleAddEngine} className="border-panel-border rounded-button">
-            <Wrench className="h-4 w-4 mr-2" />
-            Add Engine Type
-          </Button>
-          <Button onClick={handleAddPart} className="bg-accent-teal text-white hover:bg-accent-teal/90 rounded-button">
-            <Plus className="h-4 w-4 mr-2" />
-            Add Part
-          </Button>
+          {canEditEngines && (
+            <Button variant="outline" onClick={handleAddEngine} className="border-panel-border rounded-button">
+              <Wrench className="h-4 w-4 mr-2" />
+              Add Engine Type
+            </Button>
+          )}
+          {canEditParts && (
+            <Button onClick={handleAddPart} className="bg-accent-teal text-white hover:bg-accent-teal/90 rounded-button">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Part
+            </Button>
+          )}
         </div>
       </div>
 
@@ -263,11 +282,11 @@ export default function PartsCatalog() {
         <TabsList>
           <TabsTrigger value="parts">
             <Package className="h-4 w-4 mr-2" />
-            Parts Inventory ({parts.length})
+            Parts Inventory ({partList?.total ?? 0})
           </TabsTrigger>
           <TabsTrigger value="engines">
             <Wrench className="h-4 w-4 mr-2" />
-            Engine Types ({allEngines.length})
+            Engine Types ({engineList?.total ?? 0})
           </TabsTrigger>
         </TabsList>
 
@@ -279,13 +298,19 @@ export default function PartsCatalog() {
               <Input
                 placeholder="Search parts..."
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setPartsPage(1);
+                }}
                 className="pl-10"
               />
             </div>
             <select
               value={selectedCategory}
-              onChange={(e) => setSelectedCategory(e.target.value)}
+              onChange={(e) => {
+                setSelectedCategory(e.target.value);
+                setPartsPage(1);
+              }}
               className="px-3 py-2 border rounded-md"
             >
               <option value="all">All Categories</option>
@@ -322,28 +347,30 @@ export default function PartsCatalog() {
                       <CardHeader className="p-0 pb-3" onClick={() => handleViewPartDetails(part.id)}>
                         <div className="flex items-start justify-between gap-2">
                           <CardTitle className="text-lg leading-tight">{part.name}</CardTitle>
-                          <div className="flex items-center gap-1 flex-shrink-0">
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleEditPart(part);
-                              }}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleDeletePart(part);
-                              }}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
+                          {canEditParts && (
+                            <div className="flex items-center gap-1 flex-shrink-0">
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleEditPart(part);
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleDeletePart(part);
+                                }}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
                         </div>
                       </CardHeader>
                       <CardContent className="p-0" onClick={() => handleViewPartDetails(part.id)}>
@@ -390,6 +417,8 @@ export default function PartsCatalog() {
             </div>
           )}
 
+          <ListPagination page={partsPage} pageSize={PAGE_SIZE} total={partList?.total ?? 0} onPageChange={setPartsPage} itemLabel="parts" />
+
           {filteredParts.length === 0 && !isPartsLoading && (
             <div className="text-center py-8 text-muted-foreground">
               <Package className="h-12 w-12 mx-auto mb-4 opacity-50" />
@@ -400,6 +429,20 @@ export default function PartsCatalog() {
         </TabsContent>
 
         <TabsContent value="engines" className="space-y-4">
+          <div className="relative max-w-sm">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-text-muted h-4 w-4" />
+            <Input
+              placeholder="Search engines..."
+              value={engineSearchQuery}
+              onChange={(e) => {
+                setEngineSearchQuery(e.target.value);
+                setEnginesPage(1);
+              }}
+              className="pl-10"
+              data-testid="input-search-engines"
+            />
+          </div>
+
           {/* Engines Grid */}
           {isEnginesLoading ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -427,28 +470,30 @@ export default function PartsCatalog() {
                       <CardHeader className="p-0 pb-3" onClick={() => handleViewEngineDetails(component.id)}>
                         <div className="flex items-start justify-between gap-2">
                           <CardTitle className="text-lg leading-tight">{component.name}</CardTitle>
-                          <div className="flex items-center gap-1 flex-shrink-0">
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleEditEngine(component);
-                              }}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            <Button 
-                              variant="ghost" 
-                              size="sm"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleDeleteEngine(component);
-                              }}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
+                          {canEditEngines && (
+                            <div className="flex items-center gap-1 flex-shrink-0">
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleEditEngine(component);
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleDeleteEngine(component);
+                                }}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
                         </div>
                       </CardHeader>
                       <CardContent className="p-0" onClick={() => handleViewEngineDetails(component.id)}>
@@ -499,11 +544,19 @@ export default function PartsCatalog() {
             </div>
           )}
 
+          <ListPagination page={enginesPage} pageSize={PAGE_SIZE} total={engineList?.total ?? 0} onPageChange={setEnginesPage} itemLabel="engines" />
+
           {allEngines.length === 0 && !isEnginesLoading && (
             <div className="text-center py-8 text-muted-foreground">
               <Wrench className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>No engine types defined yet</p>
-              <p className="text-sm">Add engine types to organize your mower engines</p>
+              {engineSearchQuery ? (
+                <p>No engines found matching "{engineSearchQuery}"</p>
+              ) : (
+                <>
+                  <p>No engine types defined yet</p>
+                  <p className="text-sm">Add engine types to organize your mower engines</p>
+                </>
+              )}
             </div>
           )}
         </TabsContent>
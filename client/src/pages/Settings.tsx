@@ -5,9 +5,16 @@ import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Download, Upload, Database, Settings as SettingsIcon, AlertCircle, CheckCircle, BarChart3, HardDrive, Activity, Clock, FileArchive } from "lucide-react";
+import { Download, Upload, Database, Settings as SettingsIcon, AlertCircle, CheckCircle, BarChart3, HardDrive, Activity, Clock, FileArchive, Users, CalendarClock, HardHat, Bell, Webhook, RadioTower } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import UserManagement from "@/components/UserManagement";
+import MaintenancePlanManagement from "@/components/MaintenancePlanManagement";
+import TechnicianManagement from "@/components/TechnicianManagement";
+import NotificationPreferences from "@/components/NotificationPreferences";
+import WebhookManagement from "@/components/WebhookManagement";
+import MqttSettings from "@/components/MqttSettings";
 
 export default function Settings() {
   const [isBackingUp, setIsBackingUp] = useState(false);
@@ -16,6 +23,15 @@ export default function Settings() {
   const [restoreProgress, setRestoreProgress] = useState(0);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canManageBackups = can("backup:manage");
+  const canManageUsers = can("users:manage");
+  const canManageWebhooks = can("webhooks:manage");
+  const canManageMqtt = can("mqtt:manage");
+  const tabCount = 5 + (canManageBackups ? 1 : 0) + (canManageUsers ? 1 : 0) + (canManageWebhooks ? 1 : 0) + (canManageMqtt ? 1 : 0);
+  const tabGridCols: Record<number, string> = { 5: "grid-cols-5", 6: "grid-cols-6", 7: "grid-cols-7", 8: "grid-cols-8", 9: "grid-cols-9" };
+  // Links such as the one in notification emails open a tab with ?tab=
+  const tabParam = new URLSearchParams(window.location.search).get("tab");
 
   // Fetch database stats
   const { data: stats, isLoading: isLoadingStats } = useQuery<{
@@ -47,6 +63,7 @@ export default function Settings() {
     totalRecords: number;
   }>({
     queryKey: ['/api/backup/metadata'],
+    enabled: canManageBackups,
   });
 
   const formatBytes = (bytes: number) => {
@@ -218,12 +235,14 @@ export default function Settings() {
       </div>
 
       {/* Tabs Container */}
-      <Tabs defaultValue="backup" className="w-full">
-        <TabsList className="grid w-full max-w-2xl grid-cols-3">
-          <TabsTrigger value="backup" className="flex items-center gap-2">
-            <Database className="h-4 w-4" />
-            Backup & Restore
-          </TabsTrigger>
+      <Tabs defaultValue={tabParam ?? (canManageBackups ? "backup" : "stats")} className="w-full">
+        <TabsList className={`grid w-full max-w-6xl ${tabGridCols[tabCount]}`}>
+          {canManageBackups && (
+            <TabsTrigger value="backup" className="flex items-center gap-2">
+              <Database className="h-4 w-4" />
+              Backup & Restore
+            </TabsTrigger>
+          )}
           <TabsTrigger value="stats" className="flex items-center gap-2">
             <BarChart3 className="h-4 w-4" />
             Stats
@@ -232,158 +251,190 @@ export default function Settings() {
             <Activity className="h-4 w-4" />
             Performance
           </TabsTrigger>
+          <TabsTrigger value="plans" className="flex items-center gap-2" data-testid="tab-maintenance-plans">
+            <CalendarClock className="h-4 w-4" />
+            Plans
+          </TabsTrigger>
+          <TabsTrigger value="technicians" className="flex items-center gap-2" data-testid="tab-technicians">
+            <HardHat className="h-4 w-4" />
+            Technicians
+          </TabsTrigger>
+          <TabsTrigger value="notifications" className="flex items-center gap-2" data-testid="tab-notifications">
+            <Bell className="h-4 w-4" />
+            Notifications
+          </TabsTrigger>
+          {canManageWebhooks && (
+            <TabsTrigger value="webhooks" className="flex items-center gap-2" data-testid="tab-webhooks">
+              <Webhook className="h-4 w-4" />
+              Webhooks
+            </TabsTrigger>
+          )}
+          {canManageMqtt && (
+            <TabsTrigger value="mqtt" className="flex items-center gap-2" data-testid="tab-mqtt">
+              <RadioTower className="h-4 w-4" />
+              MQTT
+            </TabsTrigger>
+          )}
+          {canManageUsers && (
+            <TabsTrigger value="users" className="flex items-center gap-2" data-testid="tab-users">
+              <Users className="h-4 w-4" />
+              Users
+            </TabsTrigger>
+          )}
         </TabsList>
 
         {/* Backup & Restore Tab */}
-        <TabsContent value="backup" className="space-y-6">
-          {/* Backup & Restore Section */}
-          <Card className="bg-white border-card-border shadow-card hover:shadow-md hover:border-accent-teal transition-all duration-200">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2 text-text-primary">
-                <Database className="h-5 w-5 text-accent-teal" />
-                Backup & Restore
-              </CardTitle>
-              <CardDescription className="text-text-muted">
-                Create backups of your mower data or restore from a previous backup. 
-                Backups include all mowers, service records, attachments, and tasks.
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              {/* Backup Section */}
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <h3 className="text-lg font-semibold text-text-primary">Create Backup</h3>
-                    <p className="text-sm text-text-muted">
-                      Download a complete backup of all your data as a ZIP file
-                    </p>
-                  </div>
-                  <Button 
-                    onClick={handleBackup} 
-                    disabled={isBackingUp || isRestoring}
-                    className="bg-accent-teal text-white hover:bg-accent-teal/90 rounded-button flex items-center gap-2"
-                  >
-                    <Download className="h-4 w-4" />
-                    {isBackingUp ? 'Creating Backup...' : 'Create Backup'}
-                  </Button>
-                </div>
-                
-                {isBackingUp && (
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between text-sm text-text-muted">
-                      <span>Creating backup...</span>
-                      <span>{backupProgress}%</span>
-                    </div>
-                    <Progress value={backupProgress} className="h-2" />
-                  </div>
-                )}
-              </div>
-
-              <div className="border-t border-card-border pt-6">
-                {/* Restore Section */}
+        {canManageBackups && (
+          <TabsContent value="backup" className="space-y-6">
+            {/* Backup & Restore Section */}
+            <Card className="bg-white border-card-border shadow-card hover:shadow-md hover:border-accent-teal transition-all duration-200">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-text-primary">
+                  <Database className="h-5 w-5 text-accent-teal" />
+                  Backup & Restore
+                </CardTitle>
+                <CardDescription className="text-text-muted">
+                  Create backups of your mower data or restore from a previous backup. 
+                  Backups include all mowers, service records, attachments, and tasks.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {/* Backup Section */}
                 <div className="space-y-4">
-                  <div>
-                    <h3 className="text-lg font-semibold text-text-primary">Restore from Backup</h3>
-                    <p className="text-sm text-text-muted">
-                      Upload a backup file to restore your data. This will replace all current data.
-                    </p>
-                  </div>
-
-                  <Alert className="border-accent-orange/20 bg-accent-orange/10">
-                    <AlertCircle className="h-4 w-4 text-accent-orange" />
-                    <AlertDescription className="text-text-primary">
-                      <strong>Warning:</strong> Restoring from a backup will permanently replace all current data. 
-                      Consider creating a backup first.
-                    </AlertDescription>
-                  </Alert>
-
-                  <div className="flex items-center gap-4">
-                    <Input
-                      type="file"
-                      accept=".zip,application/zip,application/x-zip-compressed,multipart/x-zip"
-                      onChange={handleFileSelect}
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h3 className="text-lg font-semibold text-text-primary">Create Backup</h3>
+                      <p className="text-sm text-text-muted">
+                        Download a complete backup of all your data as a ZIP file
+                      </p>
+                    </div>
+                    <Button 
+                      onClick={handleBackup} 
                       disabled={isBackingUp || isRestoring}
-                      className="flex-1"
-                    />
-                    <Button
-                      onClick={handleRestore}
-                      disabled={!selectedFile || isBackingUp || isRestoring}
-                      variant="destructive"
-                      className="flex items-center gap-2 rounded-button"
+                      className="bg-accent-teal text-white hover:bg-accent-teal/90 rounded-button flex items-center gap-2"
                     >
-                      <Upload className="h-4 w-4" />
-                      {isRestoring ? 'Restoring...' : 'Restore Backup'}
+                      <Download className="h-4 w-4" />
+                      {isBackingUp ? 'Creating Backup...' : 'Create Backup'}
                     </Button>
                   </div>
-
-                  {selectedFile && (
-                    <div className="text-sm text-text-muted">
-                      Selected file: {selectedFile.name} ({(selectedFile.size / 1024 / 1024).toFixed(2)} MB)
-                    </div>
-                  )}
-
-                  {isRestoring && (
+                  
+                  {isBackingUp && (
                     <div className="space-y-2">
                       <div className="flex items-center justify-between text-sm text-text-muted">
-                        <span>Restoring backup...</span>
-                        <span>{restoreProgress}%</span>
+                        <span>Creating backup...</span>
+                        <span>{backupProgress}%</span>
                       </div>
-                      <Progress value={restoreProgress} className="h-2" />
+                      <Progress value={backupProgress} className="h-2" />
                     </div>
                   )}
                 </div>
-              </div>
-            </CardContent>
-          </Card>
 
-          {/* Backup Information */}
-          <Card className="bg-white border-card-border shadow-card hover:shadow-md hover:border-accent-teal transition-all duration-200">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2 text-text-primary">
-                <CheckCircle className="h-5 w-5 text-accent-teal" />
-                Backup Information
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {/* Last Backup Info */}
-                {backupMetadata && (
-                  <div className="p-4 bg-accent-teal/5 rounded-lg border border-accent-teal/20 space-y-2">
-                    <div className="flex items-center gap-2 text-sm">
-                      <Clock className="h-4 w-4 text-accent-teal" />
-                      <span className="font-semibold text-text-primary">Last Backup:</span>
-                      <span className="text-text-muted">{formatDate(backupMetadata.lastBackupDate)}</span>
+                <div className="border-t border-card-border pt-6">
+                  {/* Restore Section */}
+                  <div className="space-y-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-text-primary">Restore from Backup</h3>
+                      <p className="text-sm text-text-muted">
+                        Upload a backup file to restore your data. This will replace all current data.
+                      </p>
                     </div>
-                    <div className="flex items-center gap-2 text-sm">
-                      <FileArchive className="h-4 w-4 text-accent-teal" />
-                      <span className="font-semibold text-text-primary">Backup Size:</span>
-                      <span className="text-text-muted">{formatBytes(backupMetadata.lastBackupSize)}</span>
+
+                    <Alert className="border-accent-orange/20 bg-accent-orange/10">
+                      <AlertCircle className="h-4 w-4 text-accent-orange" />
+                      <AlertDescription className="text-text-primary">
+                        <strong>Warning:</strong> Restoring from a backup will permanently replace all current data. 
+                        Consider creating a backup first.
+                      </AlertDescription>
+                    </Alert>
+
+                    <div className="flex items-center gap-4">
+                      <Input
+                        type="file"
+                        accept=".zip,application/zip,application/x-zip-compressed,multipart/x-zip"
+                        onChange={handleFileSelect}
+                        disabled={isBackingUp || isRestoring}
+                        className="flex-1"
+                      />
+                      <Button
+                        onClick={handleRestore}
+                        disabled={!selectedFile || isBackingUp || isRestoring}
+                        variant="destructive"
+                        className="flex items-center gap-2 rounded-button"
+                      >
+                        <Upload className="h-4 w-4" />
+                        {isRestoring ? 'Restoring...' : 'Restore Backup'}
+                      </Button>
                     </div>
-                    <div className="flex items-center gap-2 text-sm">
-                      <Database className="h-4 w-4 text-accent-teal" />
-                      <span className="font-semibold text-text-primary">Records Backed Up:</span>
-                      <span className="text-text-muted">{backupMetadata.totalRecords}</span>
+
+                    {selectedFile && (
+                      <div className="text-sm text-text-muted">
+                        Selected file: {selectedFile.name} ({(selectedFile.size / 1024 / 1024).toFixed(2)} MB)
+                      </div>
+                    )}
+
+                    {isRestoring && (
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between text-sm text-text-muted">
+                          <span>Restoring backup...</span>
+                          <span>{restoreProgress}%</span>
+                        </div>
+                        <Progress value={restoreProgress} className="h-2" />
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Backup Information */}
+            <Card className="bg-white border-card-border shadow-card hover:shadow-md hover:border-accent-teal transition-all duration-200">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-text-primary">
+                  <CheckCircle className="h-5 w-5 text-accent-teal" />
+                  Backup Information
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {/* Last Backup Info */}
+                  {backupMetadata && (
+                    <div className="p-4 bg-accent-teal/5 rounded-lg border border-accent-teal/20 space-y-2">
+                      <div className="flex items-center gap-2 text-sm">
+                        <Clock className="h-4 w-4 text-accent-teal" />
+                        <span className="font-semibold text-text-primary">Last Backup:</span>
+                        <span className="text-text-muted">{formatDate(backupMetadata.lastBackupDate)}</span>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm">
+                        <FileArchive className="h-4 w-4 text-accent-teal" />
+                        <span className="font-semibold text-text-primary">Backup Size:</span>
+                        <span className="text-text-muted">{formatBytes(backupMetadata.lastBackupSize)}</span>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm">
+                        <Database className="h-4 w-4 text-accent-teal" />
+                        <span className="font-semibold text-text-primary">Records Backed Up:</span>
+                        <span className="text-text-muted">{backupMetadata.totalRecords}</span>
+                      </div>
                     </div>
+                  )}
+
+                  <div className="space-y-2 text-sm">
+                    <p className="text-text-primary"><strong>What's included in backups:</strong></p>
+                    <ul className="list-disc list-inside space-y-1 text-text-muted">
+                      <li>All mower records and details</li>
+                      <li>Service history and maintenance records</li>
+                      <li>File attachments (images, PDFs, documents)</li>
+                      <li>Tasks and maintenance schedules</li>
+                      <li>Parts catalog and inventory</li>
+                      <li>Engine information</li>
+                    </ul>
+                    <p className="mt-4 text-text-primary"><strong>File format:</strong> ZIP archive with JSON database dump and attachments</p>
+                    <p className="text-text-primary"><strong>Compatibility:</strong> Works with all versions of MowerM8</p>
                   </div>
-                )}
-
-                <div className="space-y-2 text-sm">
-                  <p className="text-text-primary"><strong>What's included in backups:</strong></p>
-                  <ul className="list-disc list-inside space-y-1 text-text-muted">
-                    <li>All mower records and details</li>
-                    <li>Service history and maintenance records</li>
-                    <li>File attachments (images, PDFs, documents)</li>
-                    <li>Tasks and maintenance schedules</li>
-                    <li>Parts catalog and inventory</li>
-                    <li>Engine information</li>
-                  </ul>
-                  <p className="mt-4 text-text-primary"><strong>File format:</strong> ZIP archive with JSON database dump and attachments</p>
-                  <p className="text-text-primary"><strong>Compatibility:</strong> Works with all versions of MowerM8</p>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
 
         {/* Stats Tab */}
         <TabsContent value="stats" className="space-y-6">
@@ -593,18 +644,10 @@ export default function Settings() {
             </CardHeader>
             <CardContent>
               <div className="space-y-3 text-sm">
-                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
-                  <p className="font-semibold text-text-primary mb-1">🔔 Notification Preferences</p>
-                  <p className="text-text-muted">Configure email or in-app notifications for upcoming maintenance, overdue tasks, and low stock alerts</p>
-                </div>
                 <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
                   <p className="font-semibold text-text-primary mb-1">🎨 Theme Customization</p>
                   <p className="text-text-muted">Choose between light/dark modes, or customize accent colors to match your branding</p>
                 </div>
-                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
-                  <p className="font-semibold text-text-primary mb-1">🔐 User Management</p>
-                  <p className="text-text-muted">Create multiple user accounts with role-based access control (Admin, Technician, Viewer)</p>
-                </div>
                 <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
                   <p className="font-semibold text-text-primary mb-1">📊 Export & Reporting</p>
                   <p className="text-text-muted">Generate PDF or Excel reports for service history, costs, inventory, and more</p>
@@ -633,6 +676,42 @@ export default function Settings() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Maintenance Plans Tab */}
+        <TabsContent value="plans" className="space-y-6">
+          <MaintenancePlanManagement />
+        </TabsContent>
+
+        {/* Technicians Tab */}
+        <TabsContent value="technicians" className="space-y-6">
+          <TechnicianManagement />
+        </TabsContent>
+
+        {/* Notifications Tab */}
+        <TabsContent value="notifications" className="space-y-6">
+          <NotificationPreferences />
+        </TabsContent>
+
+        {/* Webhooks Tab */}
+        {canManageWebhooks && (
+          <TabsContent value="webhooks" className="space-y-6">
+            <WebhookManagement />
+          </TabsContent>
+        )}
+
+        {/* MQTT Tab */}
+        {canManageMqtt && (
+          <TabsContent value="mqtt" className="space-y-6">
+            <MqttSettings />
+          </TabsContent>
+        )}
+
+        {/* Users Tab */}
+        {canManageUsers && (
+          <TabsContent value="users" className="space-y-6">
+            <UserManagement />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -0,0 +1,358 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { addDays, format, startOfDay } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calendar, Gauge, KanbanSquare, ListChecks, Loader2, MessageSquare, Repeat, User } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAssetEventsRefresh } from "@/hooks/useAssetEventsRefresh";
+import TaskActivityDialog from "@/components/TaskActivityDialog";
+import { cn } from "@/lib/utils";
+import type { Task, TaskAssignee, TaskBoardItem, TaskStatus } from "@shared/schema";
+
+const BOARD_QUERY_KEY = ['/api/tasks'];
+
+const columns: { status: TaskStatus; label: string }[] = [
+  { status: "pending", label: "Pending" },
+  { status: "in_progress", label: "In Progress" },
+  { status: "completed", label: "Completed" },
+  { status: "cancelled", label: "Cancelled" },
+];
+
+const priorities = ["urgent", "high", "medium", "low"] as const;
+
+const priorityColors: Record<string, string> = {
+  low: "bg-gray-light text-text-muted",
+  medium: "bg-accent-blue/10 text-accent-blue",
+  high: "bg-accent-orange/10 text-accent-orange",
+  urgent: "bg-accent-orange/20 text-accent-orange",
+};
+
+type Swimlanes = "none" | "priority" | "asset";
+type DueFilter = "all" | "overdue" | "week" | "month" | "none";
+
+interface Lane {
+  key: string;
+  label: string | null;
+  tasks: TaskBoardItem[];
+}
+
+// apiRequest errors look like "400: {"error":"..."}"
+function extractErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed.details === "string" ? parsed.details : parsed.error || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function isOpen(task: TaskBoardItem) {
+  return task.status === "pending" || task.status === "in_progress";
+}
+
+function isOverdue(task: TaskBoardItem) {
+  return isOpen(task) && !!task.dueDate && new Date(task.dueDate) < startOfDay(new Date());
+}
+
+function matchesDue(task: TaskBoardItem, filter: DueFilter) {
+  if (filter === "all") return true;
+  if (filter === "none") return !task.dueDate;
+  if (filter === "overdue") return isOverdue(task);
+  if (!task.dueDate) return false;
+  const days = filter === "week" ? 7 : 30;
+  return new Date(task.dueDate) < addDays(startOfDay(new Date()), days + 1);
+}
+
+// Soonest due first; tasks without a due date last
+function byDueDate(a: TaskBoardItem, b: TaskBoardItem) {
+  const aDue = a.dueDate ? new Date(a.dueDate).getTime() : Infinity;
+  const bDue = b.dueDate ? new Date(b.dueDate).getTime() : Infinity;
+  return aDue - bDue || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+function buildLanes(tasks: TaskBoardItem[], swimlanes: Swimlanes): Lane[] {
+  if (swimlanes === "none") return [{ key: "all", label: null, tasks }];
+  if (swimlanes === "priority") {
+    return priorities.map((priority) => ({
+      key: priority,
+      label: capitalize(priority),
+      tasks: tasks.filter((task) => task.priority === priority),
+    }));
+  }
+  const lanes = new Map<string, Lane>();
+  for (const task of tasks) {
+    const key = task.assetUrl ?? "none";
+    if (!lanes.has(key)) lanes.set(key, { key, label: task.assetName ?? "No asset", tasks: [] });
+    lanes.get(key)!.tasks.push(task);
+  }
+  return Array.from(lanes.values()).sort((a, b) => a.label!.localeCompare(b.label!));
+}
+
+function TaskCard({ task, draggable, onOpen }: { task: TaskBoardItem; draggable: boolean; onOpen: () => void }) {
+  return (
+    <div
+      draggable={draggable}
+      onDragStart={(event) => {
+        event.dataTransfer.setData("text/plain", task.id);
+        event.dataTransfer.effectAllowed = "move";
+      }}
+      className={cn(
+        "rounded-md border bg-background p-3 space-y-2 shadow-sm",
+        draggable && "cursor-grab active:cursor-grabbing",
+      )}
+      data-testid={`card-task-${task.id}`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <button type="button" className="font-medium text-left text-sm hover:underline" onClick={onOpen}>
+          {task.title}
+        </button>
+        <Badge className={priorityColors[task.priority]}>{capitalize(task.priority)}</Badge>
+      </div>
+      {task.assetUrl && (
+        <Link href={task.assetUrl} className="block text-xs text-muted-foreground hover:underline">
+          {task.assetName ?? "Unknown asset"}
+        </Link>
+      )}
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+        {task.dueDate && (
+          <span className={cn("flex items-center gap-1", isOverdue(task) && "text-destructive font-medium")}>
+            <Calendar className="h-3 w-3" />
+            {format(new Date(task.dueDate), "MMM d")}
+          </span>
+        )}
+        {task.dueHours != null && (
+          <span className="flex items-center gap-1">
+            <Gauge className="h-3 w-3" />
+            at {task.dueHours} h
+          </span>
+        )}
+        {task.recurrenceUnit && <Repeat className="h-3 w-3" />}
+        {task.checklistTotal > 0 && (
+          <span className="flex items-center gap-1">
+            <ListChecks className="h-3 w-3" />
+            {task.checklistDone}/{task.checklistTotal}
+          </span>
+        )}
+        {task.commentCount > 0 && (
+          <span className="flex items-center gap-1">
+            <MessageSquare className="h-3 w-3" />
+            {task.commentCount}
+          </span>
+        )}
+        {task.assigneeName && (
+          <span className="flex items-center gap-1">
+            <User className="h-3 w-3" />
+            {task.assigneeName}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function Tasks() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canWrite = can("tasks:write");
+  useAssetEventsRefresh(); // cards moved by other users follow along
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const [dueFilter, setDueFilter] = useState<DueFilter>("all");
+  const [assigneeFilter, setAssigneeFilter] = useState("all");
+  const [swimlanes, setSwimlanes] = useState<Swimlanes>("none");
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [activityTask, setActivityTask] = useState<TaskBoardItem | null>(null);
+
+  const { data: tasks = [], isLoading, error } = useQuery<TaskBoardItem[]>({
+    queryKey: BOARD_QUERY_KEY,
+  });
+  const { data: assignees = [] } = useQuery<TaskAssignee[]>({
+    queryKey: ['/api/users/assignees'],
+  });
+
+  // Cards move straight away and go back if the server refuses the move
+  const moveMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: TaskStatus }) => {
+      const response = await apiRequest('PUT', `/api/tasks/${id}/status`, { status });
+      return response.json();
+    },
+    onMutate: async ({ id, status }) => {
+      await queryClient.cancelQueries({ queryKey: BOARD_QUERY_KEY, exact: true });
+      const previous = queryClient.getQueryData<TaskBoardItem[]>(BOARD_QUERY_KEY);
+      queryClient.setQueryData<TaskBoardItem[]>(BOARD_QUERY_KEY, (current) =>
+        current?.map((task) => (task.id === id ? { ...task, status } : task)),
+      );
+      return { previous };
+    },
+    onSuccess: (data: Task & { nextTask: Task | null }) => {
+      if (data.nextTask) {
+        toast({ title: "Task completed", description: "The next task of its series has been added." });
+      }
+    },
+    onError: (error, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(BOARD_QUERY_KEY, context.previous);
+      toast({ title: "Could not move task", description: extractErrorMessage(error, "Failed to update task status"), variant: "destructive" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: BOARD_QUERY_KEY, exact: true });
+    },
+  });
+
+  const handleDrop = (event: React.DragEvent, status: TaskStatus) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const id = event.dataTransfer.getData("text/plain");
+    const task = tasks.find((candidate) => candidate.id === id);
+    if (task && task.status !== status) moveMutation.mutate({ id, status });
+  };
+
+  const filtered = tasks
+    .filter((task) => categoryFilter === "all" || task.category === categoryFilter)
+    .filter((task) => matchesDue(task, dueFilter))
+    .filter((task) =>
+      assigneeFilter === "all" ||
+      (assigneeFilter === "unassigned" ? task.assigneeId == null : task.assigneeId === parseInt(assigneeFilter)),
+    )
+    .sort(byDueDate);
+  const lanes = buildLanes(filtered, swimlanes);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight text-text-dark flex items-center gap-2">
+          <KanbanSquare className="h-7 w-7" />
+          Tasks
+        </h1>
+        <p className="text-text-muted">
+          All tasks across the fleet ({filtered.length} of {tasks.length} shown)
+          {canWrite && " · drag a card to another column to change its status"}
+        </p>
+      </div>
+
+      <Card className="bg-panel border-card-border shadow-card">
+        <CardContent className="pt-6">
+          <div className="flex flex-col md:flex-row gap-4">
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger className="md:w-[180px]" data-testid="select-board-category">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                <SelectItem value="maintenance">Maintenance</SelectItem>
+                <SelectItem value="repair">Repair</SelectItem>
+                <SelectItem value="parts">Parts</SelectItem>
+                <SelectItem value="inspection">Inspection</SelectItem>
+                <SelectItem value="other">Other</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={dueFilter} onValueChange={(value) => setDueFilter(value as DueFilter)}>
+              <SelectTrigger className="md:w-[180px]" data-testid="select-board-due">
+                <SelectValue placeholder="Due date" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any Due Date</SelectItem>
+                <SelectItem value="overdue">Overdue</SelectItem>
+                <SelectItem value="week">Due Within 7 Days</SelectItem>
+                <SelectItem value="month">Due Within 30 Days</SelectItem>
+                <SelectItem value="none">No Due Date</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+              <SelectTrigger className="md:w-[180px]" data-testid="select-board-assignee">
+                <SelectValue placeholder="Assignee" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Anyone</SelectItem>
+                <SelectItem value="unassigned">Unassigned</SelectItem>
+                {assignees.map((assignee) => (
+                  <SelectItem key={assignee.id} value={String(assignee.id)}>{assignee.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={swimlanes} onValueChange={(value) => setSwimlanes(value as Swimlanes)}>
+              <SelectTrigger className="md:w-[180px] md:ml-auto" data-testid="select-board-swimlanes">
+                <SelectValue placeholder="Swimlanes" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No Swimlanes</SelectItem>
+                <SelectItem value="priority">Lanes by Priority</SelectItem>
+                <SelectItem value="asset">Lanes by Asset</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <p className="text-destructive text-center py-8">Failed to load tasks</p>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          <span>Loading tasks...</span>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {lanes.map((lane) => (
+            <div key={lane.key} className="space-y-2" data-testid={`lane-${lane.key}`}>
+              {lane.label && (
+                <h2 className="text-sm font-semibold text-text-dark">
+                  {lane.label} <span className="text-text-muted font-normal">({lane.tasks.length})</span>
+                </h2>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+                {columns.map((column) => {
+                  const columnTasks = lane.tasks.filter((task) => task.status === column.status);
+                  const targetKey = `${lane.key}:${column.status}`;
+                  return (
+                    <div
+                      key={column.status}
+                      onDragOver={(event) => {
+                        if (!canWrite) return;
+                        event.preventDefault();
+                        setDropTarget(targetKey);
+                      }}
+                      onDragLeave={() => setDropTarget((current) => (current === targetKey ? null : current))}
+                      onDrop={(event) => canWrite && handleDrop(event, column.status)}
+                      className={cn(
+                        "rounded-lg border bg-muted/40 p-3 space-y-2 min-h-[120px] transition-colors",
+                        dropTarget === targetKey && "border-primary bg-primary/5",
+                      )}
+                      data-testid={`column-${lane.key}-${column.status}`}
+                    >
+                      <div className="flex items-center justify-between text-sm font-medium">
+                        <span>{column.label}</span>
+                        <Badge variant="outline">{columnTasks.length}</Badge>
+                      </div>
+                      {columnTasks.map((task) => (
+                        <TaskCard key={task.id} task={task} draggable={canWrite} onOpen={() => setActivityTask(task)} />
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <TaskActivityDialog
+        task={activityTask}
+        onOpenChange={(open) => !open && setActivityTask(null)}
+        readOnly={!canWrite}
+      />
+    </div>
+  );
+}
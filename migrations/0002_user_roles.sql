@@ -0,0 +1,3 @@
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'viewer' NOT NULL;--> statement-breakpoint
+-- Accounts created before roles existed had full access; keep it that way.
+UPDATE "users" SET "role" = 'admin';
@@ -0,0 +1,3 @@
+ALTER TABLE "attachments" ALTER COLUMN "file_path" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "attachments" ADD COLUMN "content_hash" text;--> statement-breakpoint
+CREATE INDEX "IDX_attachments_content_hash" ON "attachments" USING btree ("content_hash");
\ No newline at end of file
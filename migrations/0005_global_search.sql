@@ -0,0 +1,7 @@
+ALTER TABLE "attachments" ADD COLUMN "text_content" text;--> statement-breakpoint
+CREATE INDEX "IDX_attachments_search" ON "attachments" USING gin (to_tsvector('simple', coalesce("file_name", '') || ' ' || coalesce("title", '') || ' ' || coalesce("description", '') || ' ' || coalesce("text_content", '')));--> statement-breakpoint
+CREATE INDEX "IDX_engines_search" ON "engines" USING gin (to_tsvector('simple', coalesce("name", '') || ' ' || coalesce("description", '') || ' ' || coalesce("part_number", '') || ' ' || coalesce("manufacturer", '') || ' ' || coalesce("model", '') || ' ' || coalesce("serial_number", '') || ' ' || coalesce("notes", '')));--> statement-breakpoint
+CREATE INDEX "IDX_mowers_search" ON "mowers" USING gin (to_tsvector('simple', coalesce("make", '') || ' ' || coalesce("model", '') || ' ' || coalesce("serialnumber", '') || ' ' || coalesce("location", '') || ' ' || coalesce("notes", '')));--> statement-breakpoint
+CREATE INDEX "IDX_parts_search" ON "parts" USING gin (to_tsvector('simple', coalesce("name", '') || ' ' || coalesce("description", '') || ' ' || coalesce("part_number", '') || ' ' || coalesce("manufacturer", '') || ' ' || coalesce("category", '') || ' ' || coalesce("notes", '')));--> statement-breakpoint
+CREATE INDEX "IDX_service_records_search" ON "service_records" USING gin (to_tsvector('simple', coalesce("service_type", '') || ' ' || coalesce("description", '') || ' ' || coalesce("performed_by", '')));--> statement-breakpoint
+CREATE INDEX "IDX_tasks_search" ON "tasks" USING gin (to_tsvector('simple', coalesce("title", '') || ' ' || coalesce("description", '') || ' ' || coalesce("part_number", '')));
\ No newline at end of file
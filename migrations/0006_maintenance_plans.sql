@@ -0,0 +1,24 @@
+CREATE TABLE "maintenance_plan_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"plan_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"service_type" text DEFAULT 'maintenance' NOT NULL,
+	"match_text" text,
+	"interval_days" integer NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "maintenance_plans" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"make" text,
+	"model" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "mowers" ADD COLUMN "maintenance_plan_id" integer;--> statement-breakpoint
+ALTER TABLE "maintenance_plan_items" ADD CONSTRAINT "maintenance_plan_items_plan_id_maintenance_plans_id_fk" FOREIGN KEY ("plan_id") REFERENCES "public"."maintenance_plans"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_maintenance_plan_items_plan" ON "maintenance_plan_items" USING btree ("plan_id");--> statement-breakpoint
+ALTER TABLE "mowers" ADD CONSTRAINT "mowers_maintenance_plan_id_maintenance_plans_id_fk" FOREIGN KEY ("maintenance_plan_id") REFERENCES "public"."maintenance_plans"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "maintenance_plan_items" ALTER COLUMN "interval_days" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "maintenance_plan_items" ADD COLUMN "interval_hours" integer;--> statement-breakpoint
+ALTER TABLE "mowers" ADD COLUMN "current_hours" integer;--> statement-breakpoint
+ALTER TABLE "mowers" ADD COLUMN "current_hours_recorded_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "meter_readings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"mower_id" integer,
+	"engine_id" integer,
+	"hours" integer NOT NULL,
+	"reading_date" timestamp NOT NULL,
+	"is_meter_replacement" boolean DEFAULT false NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "meter_readings" ADD CONSTRAINT "meter_readings_mower_id_mowers_id_fk" FOREIGN KEY ("mower_id") REFERENCES "public"."mowers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meter_readings" ADD CONSTRAINT "meter_readings_engine_id_engines_id_fk" FOREIGN KEY ("engine_id") REFERENCES "public"."engines"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_meter_readings_mower" ON "meter_readings" USING btree ("mower_id");--> statement-breakpoint
+CREATE INDEX "IDX_meter_readings_engine" ON "meter_readings" USING btree ("engine_id");--> statement-breakpoint
+-- Hour meters entered before the reading log existed become its first readings
+INSERT INTO "meter_readings" ("mower_id", "hours", "reading_date", "notes")
+SELECT "id", "current_hours", COALESCE("current_hours_recorded_at", now()), 'Entered on the mower form' FROM "mowers" WHERE "current_hours" IS NOT NULL;
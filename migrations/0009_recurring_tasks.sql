@@ -0,0 +1,5 @@
+ALTER TABLE "tasks" ADD COLUMN "recurrence_unit" text;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "recurrence_interval" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "due_hours" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "series_id" varchar;--> statement-breakpoint
+CREATE INDEX "IDX_tasks_series" ON "tasks" USING btree ("series_id");
\ No newline at end of file
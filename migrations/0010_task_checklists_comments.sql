@@ -0,0 +1,29 @@
+CREATE TABLE "task_checklist_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"task_id" varchar NOT NULL,
+	"text" text NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"is_done" boolean DEFAULT false NOT NULL,
+	"completed_by_id" integer,
+	"completed_by_name" text,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "task_comments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"task_id" varchar NOT NULL,
+	"author_id" integer,
+	"author_name" text,
+	"body" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "attachments" ADD COLUMN "task_comment_id" integer;--> statement-breakpoint
+ALTER TABLE "task_checklist_items" ADD CONSTRAINT "task_checklist_items_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "task_checklist_items" ADD CONSTRAINT "task_checklist_items_completed_by_id_users_id_fk" FOREIGN KEY ("completed_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "task_comments" ADD CONSTRAINT "task_comments_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "task_comments" ADD CONSTRAINT "task_comments_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_task_checklist_items_task" ON "task_checklist_items" USING btree ("task_id");--> statement-breakpoint
+CREATE INDEX "IDX_task_comments_task" ON "task_comments" USING btree ("task_id");--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_task_comment_id_task_comments_id_fk" FOREIGN KEY ("task_comment_id") REFERENCES "public"."task_comments"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
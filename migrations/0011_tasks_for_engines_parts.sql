@@ -0,0 +1,7 @@
+ALTER TABLE "tasks" ALTER COLUMN "mower_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "engine_id" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "part_id" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_engine_id_engines_id_fk" FOREIGN KEY ("engine_id") REFERENCES "public"."engines"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_part_id_parts_id_fk" FOREIGN KEY ("part_id") REFERENCES "public"."parts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_tasks_engine" ON "tasks" USING btree ("engine_id");--> statement-breakpoint
+CREATE INDEX "IDX_tasks_part" ON "tasks" USING btree ("part_id");
\ No newline at end of file
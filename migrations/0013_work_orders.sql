@@ -0,0 +1,40 @@
+CREATE TABLE "work_order_labor" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"work_order_id" integer NOT NULL,
+	"technician_id" integer,
+	"technician_name" text NOT NULL,
+	"work_date" date NOT NULL,
+	"hours" numeric(6, 2) NOT NULL,
+	"hourly_rate" numeric(10, 2),
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "work_orders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"mower_id" integer NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"service_type" text DEFAULT 'repair' NOT NULL,
+	"status" text DEFAULT 'open' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"closed_at" timestamp,
+	"signed_off_by_id" integer,
+	"signed_off_by_name" text,
+	"sign_off_notes" text,
+	"service_record_id" varchar
+);
+--> statement-breakpoint
+ALTER TABLE "asset_parts" ADD COLUMN "work_order_id" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "work_order_id" integer;--> statement-breakpoint
+ALTER TABLE "work_order_labor" ADD CONSTRAINT "work_order_labor_work_order_id_work_orders_id_fk" FOREIGN KEY ("work_order_id") REFERENCES "public"."work_orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "work_order_labor" ADD CONSTRAINT "work_order_labor_technician_id_users_id_fk" FOREIGN KEY ("technician_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "work_orders" ADD CONSTRAINT "work_orders_mower_id_mowers_id_fk" FOREIGN KEY ("mower_id") REFERENCES "public"."mowers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "work_orders" ADD CONSTRAINT "work_orders_signed_off_by_id_users_id_fk" FOREIGN KEY ("signed_off_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "work_orders" ADD CONSTRAINT "work_orders_service_record_id_service_records_id_fk" FOREIGN KEY ("service_record_id") REFERENCES "public"."service_records"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_work_order_labor_work_order" ON "work_order_labor" USING btree ("work_order_id");--> statement-breakpoint
+CREATE INDEX "IDX_work_orders_mower" ON "work_orders" USING btree ("mower_id");--> statement-breakpoint
+ALTER TABLE "asset_parts" ADD CONSTRAINT "asset_parts_work_order_id_work_orders_id_fk" FOREIGN KEY ("work_order_id") REFERENCES "public"."work_orders"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_work_order_id_work_orders_id_fk" FOREIGN KEY ("work_order_id") REFERENCES "public"."work_orders"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_tasks_work_order" ON "tasks" USING btree ("work_order_id");
\ No newline at end of file
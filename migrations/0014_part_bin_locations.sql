@@ -0,0 +1 @@
+ALTER TABLE "parts" ADD COLUMN "bin_location" text;
\ No newline at end of file
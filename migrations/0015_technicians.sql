@@ -0,0 +1,63 @@
+CREATE TABLE "service_record_labor" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"service_record_id" varchar NOT NULL,
+	"technician_id" integer NOT NULL,
+	"hours" numeric(6, 2),
+	"hourly_rate" numeric(10, 2)
+);
+--> statement-breakpoint
+CREATE TABLE "technicians" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"kind" text DEFAULT 'staff' NOT NULL,
+	"hourly_rate" numeric(10, 2),
+	"phone" text,
+	"email" text,
+	"notes" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "work_order_labor" DROP CONSTRAINT "work_order_labor_technician_id_users_id_fk";
+--> statement-breakpoint
+-- Every name in performed_by and in work order labor becomes a technician. Names that differ
+-- only in case, punctuation or spacing are one technician; Settings > Technicians offers to merge
+-- the near-duplicates. Records written by closing a work order take their names from its labor.
+INSERT INTO "technicians" ("name")
+SELECT min(btrim("name")) FROM (
+	SELECT "performed_by" AS "name" FROM "service_records"
+	WHERE "id" NOT IN (SELECT "work_orders"."service_record_id" FROM "work_orders" JOIN "work_order_labor" ON "work_order_labor"."work_order_id" = "work_orders"."id" WHERE "work_orders"."service_record_id" IS NOT NULL)
+	UNION ALL
+	SELECT "technician_name" FROM "work_order_labor"
+) AS "names"
+WHERE lower(btrim(regexp_replace("name", '[^[:alnum:]]+', ' ', 'g'))) <> ''
+GROUP BY lower(btrim(regexp_replace("name", '[^[:alnum:]]+', ' ', 'g')));
+--> statement-breakpoint
+UPDATE "work_order_labor" SET "technician_id" = "technicians"."id" FROM "technicians"
+WHERE lower(btrim(regexp_replace("work_order_labor"."technician_name", '[^[:alnum:]]+', ' ', 'g'))) = lower(btrim(regexp_replace("technicians"."name", '[^[:alnum:]]+', ' ', 'g')));
+--> statement-breakpoint
+INSERT INTO "service_record_labor" ("service_record_id", "technician_id", "hours", "hourly_rate")
+SELECT "work_orders"."service_record_id", "work_order_labor"."technician_id", sum("work_order_labor"."hours"), "work_order_labor"."hourly_rate"
+FROM "work_orders" JOIN "work_order_labor" ON "work_order_labor"."work_order_id" = "work_orders"."id"
+WHERE "work_orders"."service_record_id" IS NOT NULL AND "work_order_labor"."technician_id" IS NOT NULL
+GROUP BY "work_orders"."service_record_id", "work_order_labor"."technician_id", "work_order_labor"."hourly_rate";
+--> statement-breakpoint
+-- Hours were never captured for the free-text names, so they stay unknown
+INSERT INTO "service_record_labor" ("service_record_id", "technician_id")
+SELECT "service_records"."id", "technicians"."id" FROM "service_records" JOIN "technicians"
+	ON lower(btrim(regexp_replace("service_records"."performed_by", '[^[:alnum:]]+', ' ', 'g'))) = lower(btrim(regexp_replace("technicians"."name", '[^[:alnum:]]+', ' ', 'g')))
+WHERE "service_records"."id" NOT IN (SELECT "service_record_id" FROM "service_record_labor");
+--> statement-breakpoint
+UPDATE "service_records" SET "performed_by" = "names"."performed_by" FROM (
+	SELECT "service_record_labor"."service_record_id", string_agg(DISTINCT "technicians"."name", ', ') AS "performed_by"
+	FROM "service_record_labor" JOIN "technicians" ON "technicians"."id" = "service_record_labor"."technician_id"
+	GROUP BY "service_record_labor"."service_record_id"
+) AS "names"
+WHERE "service_records"."id" = "names"."service_record_id";
+--> statement-breakpoint
+ALTER TABLE "service_record_labor" ADD CONSTRAINT "service_record_labor_service_record_id_service_records_id_fk" FOREIGN KEY ("service_record_id") REFERENCES "public"."service_records"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "service_record_labor" ADD CONSTRAINT "service_record_labor_technician_id_technicians_id_fk" FOREIGN KEY ("technician_id") REFERENCES "public"."technicians"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_service_record_labor_service_record" ON "service_record_labor" USING btree ("service_record_id");--> statement-breakpoint
+CREATE INDEX "IDX_service_record_labor_technician" ON "service_record_labor" USING btree ("technician_id");--> statement-breakpoint
+ALTER TABLE "work_order_labor" ADD CONSTRAINT "work_order_labor_technician_id_technicians_id_fk" FOREIGN KEY ("technician_id") REFERENCES "public"."technicians"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
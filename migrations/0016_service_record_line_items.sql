@@ -0,0 +1,32 @@
+CREATE TABLE "service_record_fees" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"service_record_id" varchar NOT NULL,
+	"kind" text DEFAULT 'fee' NOT NULL,
+	"description" text NOT NULL,
+	"amount" numeric(10, 2) NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "service_records" ADD COLUMN "cost_override" numeric(10, 2);--> statement-breakpoint
+-- A typed cost that the parts and labor do not add up to is kept as the record's override
+UPDATE "service_records" SET "cost_override" = "service_records"."cost" FROM (
+	SELECT "service_records"."id",
+		round(coalesce((SELECT sum(coalesce("parts"."unit_cost", 0) * "asset_parts"."quantity") FROM "asset_parts" JOIN "parts" ON "parts"."id" = "asset_parts"."part_id"
+			WHERE "asset_parts"."service_record_id" = "service_records"."id"), 0)
+		+ coalesce((SELECT sum(coalesce("hours", 0) * coalesce("hourly_rate", 0)) FROM "service_record_labor"
+			WHERE "service_record_labor"."service_record_id" = "service_records"."id"), 0), 2) AS "cost"
+	FROM "service_records"
+) AS "computed"
+WHERE "service_records"."id" = "computed"."id" AND "service_records"."cost" IS NOT NULL AND "service_records"."cost" <> "computed"."cost";
+--> statement-breakpoint
+UPDATE "service_records" SET "cost" = nullif("computed"."cost", 0) FROM (
+	SELECT "service_records"."id",
+		round(coalesce((SELECT sum(coalesce("parts"."unit_cost", 0) * "asset_parts"."quantity") FROM "asset_parts" JOIN "parts" ON "parts"."id" = "asset_parts"."part_id"
+			WHERE "asset_parts"."service_record_id" = "service_records"."id"), 0)
+		+ coalesce((SELECT sum(coalesce("hours", 0) * coalesce("hourly_rate", 0)) FROM "service_record_labor"
+			WHERE "service_record_labor"."service_record_id" = "service_records"."id"), 0), 2) AS "cost"
+	FROM "service_records"
+) AS "computed"
+WHERE "service_records"."id" = "computed"."id" AND "service_records"."cost_override" IS NULL;
+--> statement-breakpoint
+ALTER TABLE "service_record_fees" ADD CONSTRAINT "service_record_fees_service_record_id_service_records_id_fk" FOREIGN KEY ("service_record_id") REFERENCES "public"."service_records"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_service_record_fees_service_record" ON "service_record_fees" USING btree ("service_record_id");
\ No newline at end of file
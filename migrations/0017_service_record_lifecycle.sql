@@ -0,0 +1,6 @@
+ALTER TABLE "service_records" ADD COLUMN "scheduled_date" timestamp;--> statement-breakpoint
+ALTER TABLE "service_records" ADD COLUMN "status" text DEFAULT 'completed' NOT NULL;--> statement-breakpoint
+-- Future-dated records were shown as pending; they become booked appointments
+UPDATE "service_records" SET "status" = 'scheduled', "scheduled_date" = "service_date" WHERE "service_date" > now();
+--> statement-breakpoint
+CREATE INDEX "IDX_service_records_status" ON "service_records" USING btree ("status");
\ No newline at end of file
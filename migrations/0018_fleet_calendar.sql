@@ -0,0 +1,3 @@
+ALTER TABLE "mowers" ADD COLUMN "warranty_expiration_date" date;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "calendar_token" text;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_calendar_token_unique" UNIQUE("calendar_token");
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "notification_rule_hits" (
+	"key" text PRIMARY KEY NOT NULL,
+	"notification_id" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notification_rule_hits" ADD CONSTRAINT "notification_rule_hits_notification_id_notifications_id_fk" FOREIGN KEY ("notification_id") REFERENCES "public"."notifications"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "mqtt_settings" (
+	"id" integer PRIMARY KEY NOT NULL,
+	"enabled" boolean DEFAULT false NOT NULL,
+	"broker_url" text NOT NULL,
+	"username" text,
+	"password" text,
+	"topic_prefix" text DEFAULT 'mowerm8' NOT NULL,
+	"discovery_enabled" boolean DEFAULT true NOT NULL,
+	"discovery_prefix" text DEFAULT 'homeassistant' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE "tasks" ADD COLUMN "next_task_id" varchar;
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { Readable } from "stream";
+import type { Attachment } from "@shared/schema";
+import { storage } from "./storage";
+import { blobStore, hashContent } from "./blobStore";
+import { extractSearchText } from "./pdfUtils";
+
+// Store and release of the same content run one at a time, so a release never
+// deletes a blob that an upload of identical bytes is about to reference
+const hashLocks = new Map<string, Promise<unknown>>();
+
+function withHashLock<T>(hash: string, task: () => Promise<T>): Promise<T> {
+  const run = (hashLocks.get(hash) ?? Promise.resolve()).catch(() => undefined).then(task);
+  const tail = run.catch(() => undefined);
+  hashLocks.set(hash, tail);
+  tail.then(() => {
+    if (hashLocks.get(hash) === tail) hashLocks.delete(hash);
+  });
+  return run;
+}
+
+async function deleteIfUnreferenced(contentHash: string): Promise<boolean> {
+  if ((await storage.countAttachmentsByContentHash(contentHash)) > 0) return false;
+  await blobStore.delete(contentHash);
+  return true;
+}
+
+/**
+ * Stores uploaded bytes in the blob store and runs save with their hash to
+ * write the attachment row. If save fails (validation, database) the blob is
+ * removed again unless another row already uses the same content.
+ */
+export async function storeAttachmentContent<T>(data: Buffer, save: (contentHash: string) => Promise<T>): Promise<T> {
+  const hash = hashContent(data);
+  return withHashLock(hash, async () => {
+    await blobStore.put(data);
+    try {
+      return await save(hash);
+    } catch (error) {
+      await deleteIfUnreferenced(hash).catch((releaseError) => console.error(`Failed to release blob ${hash}:`, releaseError));
+      throw error;
+    }
+  });
+}
+
+/**
+ * Reads an attachment's full content. Rows that have not been migrated yet
+ * still carry their base64 content and are served from it.
+ */
+export async function readAttachmentContent(attachment: Attachment): Promise<Buffer> {
+  if (attachment.contentHash) return blobStore.get(attachment.contentHash);
+  if (attachment.legacyFileData) return Buffer.from(attachment.legacyFileData, "base64");
+  throw new Error(`Attachment ${attachment.id} has no stored content`);
+}
+
+/**
+ * Streams an attachment's content, optionally limited to an inclusive byte range.
+ */
+export async function openAttachmentStream(
+  attachment: Attachment,
+  range?: { start: number; end: number },
+): Promise<Readable> {
+  if (attachment.contentHash) return blobStore.createReadStream(attachment.contentHash, range);
+  const content = await readAttachmentContent(attachment);
+  return Readable.from([range ? content.subarray(range.start, range.end + 1) : content]);
+}
+
+/**
+ * Deletes a blob once no attachment row references it any more. Call after deleting a row.
+ */
+export async function releaseAttachmentContent(contentHash: string | null): Promise<void> {
+  if (!contentHash) return;
+  try {
+    await withHashLock(contentHash, () => deleteIfUnreferenced(contentHash));
+  } catch (error) {
+    console.error(`Failed to release blob ${contentHash}:`, error);
+  }
+}
+
+/**
+ * One-time move of base64 content from attachment rows into the blob store.
+ * Safe to run on every start: only rows that still hold content are touched,
+ * one at a time so large files are never all in memory together.
+ */
+export async function migrateLegacyAttachments(): Promise<number> {
+  const ids = await storage.getLegacyAttachmentIds();
+  if (ids.length === 0) return 0;
+
+  console.log(`Moving ${ids.length} attachment(s) into the blob store...`);
+  let migrated = 0;
+  for (const id of ids) {
+    try {
+      const attachment = await storage.getAttachment(id);
+      if (!attachment?.legacyFileData) continue;
+      await storeAttachmentContent(Buffer.from(attachment.legacyFileData, "base64"), (hash) => storage.setAttachmentContentHash(id, hash));
+      migrated++;
+    } catch (error) {
+      console.error(`Failed to migrate attachment ${id} to the blob store:`, error);
+    }
+  }
+  console.log(`Moved ${migrated} of ${ids.length} attachment(s) into the blob store`);
+  return migrated;
+}
+
+/**
+ * Removes blobs no attachment references, e.g. left behind when a mower,
+ * engine or part delete cascaded to its attachments.
+ */
+export async function removeOrphanedBlobs(): Promise<number> {
+  const referenced = new Set(await storage.getAttachmentContentHashes());
+  let removed = 0;
+  for await (const hash of blobStore.list()) {
+    if (referenced.has(hash)) continue;
+    // Re-checked under the lock in case an upload referenced it since the query
+    if (await withHashLock(hash, () => deleteIfUnreferenced(hash))) removed++;
+  }
+  if (removed > 0) console.log(`Removed ${removed} orphaned blob(s)`);
+  return removed;
+}
+
+/**
+ * Extracts search text for PDF/TXT attachments uploaded before search existed.
+ * Rows with no readable text are stored as "" so they are not retried.
+ */
+export async function indexAttachmentText(): Promise<number> {
+  const ids = await storage.getAttachmentIdsMissingText();
+  if (ids.length === 0) return 0;
+
+  console.log(`Extracting search text from ${ids.length} attachment(s)...`);
+  let indexed = 0;
+  for (const id of ids) {
+    try {
+      const attachment = await storage.getAttachment(id);
+      if (!attachment) continue;
+      const text = await extractSearchText(await readAttachmentContent(attachment), attachment.fileType);
+      await storage.setAttachmentTextContent(id, text);
+      indexed++;
+    } catch (error) {
+      console.error(`Failed to extract search text from attachment ${id}:`, error);
+    }
+  }
+  return indexed;
+}
+
+/**
+ * Startup hook: migrate legacy rows, then sweep orphans. The sweep only runs
+ * against the database, since in-memory storage starts empty on every boot.
+ * Search text backfill continues in the background so startup is not held up.
+ */
+export async function prepareAttachmentStorage(): Promise<void> {
+  await migrateLegacyAttachments();
+  if (process.env.DATABASE_URL) {
+    await removeOrphanedBlobs();
+  }
+  indexAttachmentText().catch((error) => console.error("Attachment text indexing failed:", error));
+}
@@ -0,0 +1,89 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+import type { AuditAction, AuditChanges, AuditEntityType, InsertAuditEvent } from "@shared/schema";
+
+interface AuditActor {
+  id: number;
+  name: string;
+}
+
+// Fields that are never written to the audit log (too large or meaningless to diff)
+const IGNORED_FIELDS = new Set(["legacyFileData", "textContent", "updatedAt", "createdAt", "uploadedAt"]);
+
+const actorContext = new AsyncLocalStorage<AuditActor | null>();
+
+/**
+ * Makes the signed-in user available to the storage layer for the rest of the request.
+ * Must run after passport.session().
+ */
+export function auditContextMiddleware(req: Request, _res: Response, next: NextFunction) {
+  const actor = req.user ? { id: req.user.id, name: req.user.username } : null;
+  actorContext.run(actor, next);
+}
+
+/**
+ * Runs a callback with an explicit actor, e.g. for background jobs. Pass null for system changes.
+ */
+export function runAsActor<T>(actor: AuditActor | null, fn: () => T): T {
+  return actorContext.run(actor, fn);
+}
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value ?? null;
+}
+
+/**
+ * Field-level diff between two versions of a record. Either side may be null
+ * (create/delete), in which case every non-empty field of the other side is reported.
+ */
+export function diffRecords(before: object | null | undefined, after: object | null | undefined): AuditChanges {
+  const changes: AuditChanges = {};
+  const prev = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+
+  for (const key of Array.from(keys)) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const oldValue = normalize(prev[key]);
+    const newValue = normalize(next[key]);
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+    changes[key] = { before: before ? oldValue : null, after: after ? newValue : null };
+  }
+  return changes;
+}
+
+function toId(value: unknown): number | null {
+  return typeof value === "number" ? value : null;
+}
+
+/**
+ * Builds an audit event for a change to a single record, or null when nothing changed.
+ * The related mower/engine/part ids are derived from the record so asset History tabs
+ * can include changes to child records (tasks, service records, attachments, allocations).
+ */
+export function buildAuditEvent(
+  entityType: AuditEntityType,
+  before: object | null | undefined,
+  after: object | null | undefined,
+): InsertAuditEvent | null {
+  const record = (after ?? before) as Record<string, unknown> | null | undefined;
+  if (!record) return null;
+
+  const action: AuditAction = !before ? "create" : !after ? "delete" : "update";
+  const changes = diffRecords(before, after);
+  if (action === "update" && Object.keys(changes).length === 0) return null;
+
+  const actor = actorContext.getStore() ?? null;
+  return {
+    entityType,
+    entityId: String(record.id),
+    action,
+    actorId: actor?.id ?? null,
+    actorName: actor?.name ?? null,
+    changes,
+    mowerId: entityType === "mower" ? toId(record.id) : toId(record.mowerId),
+    engineId: entityType === "engine" ? toId(record.id) : toId(record.engineId),
+    partId: entityType === "part" ? toId(record.id) : toId(record.partId),
+  };
+}
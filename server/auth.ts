@@ -0,0 +1,239 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { auditContextMiddleware } from "./audit";
+import { loginSchema, registerUserSchema, type User as SelectUser, type SafeUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Hash a password with a random salt. Stored as "<hash>.<salt>".
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Compare a plain-text password against a stored "<hash>.<salt>" value.
+ */
+export async function verifyPassword(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+/**
+ * Strip the password hash and calendar feed token before a user leaves the server.
+ */
+export function toSafeUser(user: SelectUser): SafeUser {
+  const { passwordHash: _ph, calendarToken: _ct, ...safe } = user;
+  return safe;
+}
+
+/**
+ * Rejects unauthenticated requests with 401.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ error: "Authentication required" });
+}
+
+/**
+ * Rejects requests whose user role lacks the given permission with 403.
+ */
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ error: "Authentication required" });
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ error: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+let sessionMiddleware: RequestHandler | null = null;
+
+/**
+ * Resolves whether a raw HTTP request (e.g. a WebSocket upgrade) carries a
+ * valid login session. Runs the same session middleware as the API. Called
+ * again with the same request, it reloads the session from the store, so an
+ * open WebSocket can be rechecked after a logout or a deactivated account.
+ */
+export function authenticateUpgrade(req: IncomingMessage): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (!sessionMiddleware) return resolve(false);
+    const checkUser = async () => {
+      try {
+        const userId = (req as Request).session?.passport?.user;
+        if (!userId) return resolve(false);
+        const user = await storage.getUser(userId);
+        resolve(!!user && user.isActive);
+      } catch {
+        resolve(false);
+      }
+    };
+    // The session middleware skips requests that already have a session; reloading fails once it is destroyed
+    const existing = (req as Request).session;
+    if (existing) return existing.reload((error) => (error ? resolve(false) : checkUser()));
+    sessionMiddleware(req as Request, {} as Response, checkUser);
+  });
+}
+
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+  }
+}
+
+/**
+ * Configures sessions, passport-local and the /api/auth/* routes.
+ * Must run before any route that relies on req.user.
+ */
+export function setupAuth(app: Express) {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    secret = randomBytes(32).toString("hex");
+    console.warn("SESSION_SECRET is not set; using a random secret. Sessions will not survive a restart.");
+  }
+
+  sessionMiddleware = session({
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.SESSION_COOKIE_SECURE === "true",
+      maxAge: SESSION_MAX_AGE,
+    },
+  });
+
+  app.set("trust proxy", 1);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(auditContextMiddleware);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !user.isActive || !(await verifyPassword(password, user.passwordHash))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user && user.isActive ? user : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Auth Routes
+  // ---------------------------------------------------------------------------
+  app.get("/api/auth/setup", async (_req, res) => {
+    try { res.json({ needsSetup: (await storage.countUsers()) === 0 }); }
+    catch { res.status(500).json({ error: "Failed to check setup status" }); }
+  });
+
+  // First-run only: creates the initial account and signs it in
+  app.post("/api/auth/setup", async (req, res, next) => {
+    try {
+      if ((await storage.countUsers()) > 0) {
+        return res.status(409).json({ error: "Setup has already been completed" });
+      }
+      const data = registerUserSchema.parse(req.body);
+      const user = await storage.createFirstUser({
+        username: data.username,
+        displayName: data.displayName || null,
+        role: "admin", // the first account always administers the system
+        passwordHash: await hashPassword(data.password),
+      });
+      // Another setup request created the first account in the meantime
+      if (!user) return res.status(409).json({ error: "Setup has already been completed" });
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toSafeUser(user));
+      });
+    } catch (error) {
+      res.status(400).json({ error: "Invalid account data", details: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Username and password are required" });
+
+    passport.authenticate("local", (err: unknown, user: SelectUser | false, info?: { message?: string }) => {
+      if (err) return next(err);
+      if (!user) return res.status(401).json({ error: info?.message || "Invalid username or password" });
+      req.login(user, async (loginErr) => {
+        if (loginErr) return next(loginErr);
+        try {
+          const updated = await storage.updateUser(user.id, { lastLoginAt: new Date() });
+          res.json(toSafeUser(updated ?? user));
+        } catch (error) {
+          next(error);
+        }
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).send();
+      });
+    });
+  });
+
+  app.get("/api/auth/user", (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ error: "Authentication required" });
+    res.json(toSafeUser(req.user));
+  });
+
+  app.put("/api/auth/password", requireAuth, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = req.body ?? {};
+      if (!currentPassword || !(await verifyPassword(currentPassword, req.user!.passwordHash))) {
+        return res.status(400).json({ error: "Current password is incorrect" });
+      }
+      const { password } = registerUserSchema.pick({ password: true }).parse({ password: newPassword });
+      await storage.updateUser(req.user!.id, { passwordHash: await hashPassword(password) });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ error: "Invalid password", details: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
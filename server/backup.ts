@@ -2,6 +2,8 @@ import archiver from 'archiver';
 import yauzl from 'yauzl';
 import { Readable } from 'stream';
 import { storage } from './storage';
+import { storeAttachmentContent, readAttachmentContent } from './attachmentFiles';
+import { findTechnicianByName } from './technicians';
 import type { Response } from 'express';
 import fs from 'fs/promises';
 import path from 'path';
@@ -19,6 +21,15 @@ export interface BackupManifest {
     engines: number;
     parts: number;
     assetParts: number;
+    maintenancePlans: number;
+    meterReadings: number;
+    taskChecklistItems: number;
+    taskComments: number;
+    technicians: number;
+    serviceRecordLabor: number;
+    serviceRecordFees: number;
+    workOrders: number;
+    workOrderLabor: number;
   };
 }
 
@@ -36,10 +47,28 @@ export interface BackupData {
   engines: any[];
   parts: any[];
   assetParts: any[];
+  maintenancePlans?: any[]; // with their items; missing in backups made before maintenance plans
+  meterReadings?: any[]; // missing in backups made before the hour-meter reading log
+  taskChecklistItems?: any[]; // missing in backups made before task checklists
+  taskComments?: any[]; // missing in backups made before task comments
+  technicians?: any[]; // missing in backups made before the technician directory
+  serviceRecordLabor?: any[];
+  serviceRecordFees?: any[];
+  workOrders?: any[]; // missing in backups made before work orders
+  workOrderLabor?: any[];
 }
 
 const METADATA_FILE = path.join(process.cwd(), '.backup-metadata.json');
 
+// JSON turns dates into strings; storage expects Date objects back
+function withDates<T extends Record<string, any>>(row: T, fields: string[]): T {
+  const revived: Record<string, any> = { ...row };
+  for (const field of fields) {
+    if (typeof revived[field] === 'string') revived[field] = new Date(revived[field]);
+  }
+  return revived as T;
+}
+
 async function saveBackupMetadata(metadata: BackupMetadata): Promise<void> {
   try {
     await fs.writeFile(METADATA_FILE, JSON.stringify(metadata, null, 2));
@@ -99,7 +128,12 @@ export async function createBackup(res: Response): Promise<void> {
       tasks,
       engines,
       parts,
-      assetParts
+      assetParts,
+      maintenancePlans,
+      meterReadings,
+      technicians,
+      serviceRecordLabor,
+      workOrders
     ] = await Promise.all([
       storage.getAllMowers(),
       storage.getAllServiceRecords(), 
@@ -107,8 +141,20 @@ export async function createBackup(res: Response): Promise<void> {
       storage.getAllTasks(),
       storage.getAllEngines(),
       storage.getAllParts(),
-      storage.getAllAssetParts()
+      storage.getAllAssetParts(),
+      storage.getMaintenancePlans(),
+      storage.getAllMeterReadings(),
+      storage.getTechnicians(),
+      storage.getAllServiceRecordLabor(),
+      storage.getWorkOrders()
     ]);
+    const taskIds = tasks.map(task => task.id);
+    const [taskChecklistItems, taskComments, serviceRecordFees] = await Promise.all([
+      storage.getTaskChecklistItems(taskIds),
+      storage.getTaskComments(taskIds),
+      storage.getServiceRecordFees(serviceRecords.map(record => record.id))
+    ]);
+    const workOrderLabor = (await Promise.all(workOrders.map(workOrder => storage.getWorkOrderLabor(workOrder.id.toString())))).flat();
 
     console.log('Data fetched:', {
       mowers: mowers.length,
@@ -117,21 +163,39 @@ export async function createBackup(res: Response): Promise<void> {
       tasks: tasks.length,
       engines: engines.length,
       parts: parts.length,
-      assetParts: assetParts.length
+      assetParts: assetParts.length,
+      maintenancePlans: maintenancePlans.length,
+      meterReadings: meterReadings.length,
+      taskChecklistItems: taskChecklistItems.length,
+      taskComments: taskComments.length,
+      technicians: technicians.length,
+      serviceRecordLabor: serviceRecordLabor.length,
+      serviceRecordFees: serviceRecordFees.length,
+      workOrders: workOrders.length,
+      workOrderLabor: workOrderLabor.length
     });
 
     // Create backup data object
     const backupData: BackupData = {
       mowers,
       serviceRecords,
-      attachments: attachments.map(att => ({ ...att, fileData: undefined })), // Exclude file data from JSON
+      attachments: attachments.map(att => ({ ...att, legacyFileData: undefined })), // File contents go in attachments/
       tasks,
       engines,
       parts,
-      assetParts
+      assetParts,
+      maintenancePlans,
+      meterReadings,
+      taskChecklistItems,
+      taskComments,
+      technicians,
+      serviceRecordLabor,
+      serviceRecordFees,
+      workOrders,
+      workOrderLabor
     };
 
-    const totalRecords = mowers.length + serviceRecords.length + attachments.length + tasks.length + engines.length + parts.length + assetParts.length;
+    const totalRecords = mowers.length + serviceRecords.length + attachments.length + tasks.length + engines.length + parts.length + assetParts.length + maintenancePlans.length + meterReadings.length + taskChecklistItems.length + taskComments.length + technicians.length + serviceRecordLabor.length + serviceRecordFees.length + workOrders.length + workOrderLabor.length;
 
     // Create manifest
     const manifest: BackupManifest = {
@@ -146,7 +210,16 @@ export async function createBackup(res: Response): Promise<void> {
         tasks: tasks.length,
         engines: engines.length,
         parts: parts.length,
-        assetParts: assetParts.length
+        assetParts: assetParts.length,
+        maintenancePlans: maintenancePlans.length,
+        meterReadings: meterReadings.length,
+        taskChecklistItems: taskChecklistItems.length,
+        taskComments: taskComments.length,
+        technicians: technicians.length,
+        serviceRecordLabor: serviceRecordLabor.length,
+        serviceRecordFees: serviceRecordFees.length,
+        workOrders: workOrders.length,
+        workOrderLabor: workOrderLabor.length
       }
     };
 
@@ -159,10 +232,9 @@ export async function createBackup(res: Response): Promise<void> {
     // Add attachment files to archive
     console.log('Adding attachment files to archive...');
     for (const attachment of attachments) {
-      if (attachment.fileData) {
+      if (attachment.contentHash || attachment.legacyFileData) {
         try {
-          // Convert base64 to buffer
-          const fileBuffer = Buffer.from(attachment.fileData, 'base64');
+          const fileBuffer = await readAttachmentContent(attachment);
           
           // Determine folder based on what the attachment belongs to
           let folderPath = 'attachments/orphaned';
@@ -308,9 +380,32 @@ export async function restoreFromBackup(buffer: Buffer): Promise<{success: boole
             // In a production environment, you would want transactions and better error handling
             
             let totalRestored = 0;
+
+            // Restored rows get new ids; references to them are translated through these
+            const taskIds = new Map<string, string>();
+            const taskCommentIds = new Map<number, number>();
+            const technicianIds = new Map<number, number>();
+            const serviceRecordIds = new Map<string, string>();
+            const workOrderIds = new Map<number, number>();
+            // Users are not part of the backup, so only ids that exist here can be kept
+            const userIds = new Set((await storage.getAllUsers()).map(user => user.id));
+            const existingUserId = (id: number | null) => (id !== null && userIds.has(id) ? id : null);
             
             // Restore data in order of dependencies
             
+            // 0. Restore maintenance plans (mowers may be assigned one)
+            if (backupData.maintenancePlans && backupData.maintenancePlans.length > 0) {
+              console.log(`Restoring ${backupData.maintenancePlans.length} maintenance plans...`);
+              for (const planData of backupData.maintenancePlans) {
+                try {
+                  await storage.createMaintenancePlan(planData);
+                  totalRestored++;
+                } catch (error) {
+                  console.warn('Failed to restore maintenance plan:', error);
+                }
+              }
+            }
+
             // 1. Restore mowers first (no dependencies)
             if (backupData.mowers && backupData.mowers.length > 0) {
               console.log(`Restoring ${backupData.mowers.length} mowers...`);
@@ -337,6 +432,21 @@ export async function restoreFromBackup(buffer: Buffer): Promise<{success: boole
               }
             }
 
+            // 2b. Restore technicians (no dependencies); one already in the directory under the same name is reused
+            if (backupData.technicians && backupData.technicians.length > 0) {
+              console.log(`Restoring ${backupData.technicians.length} technicians...`);
+              for (const technicianData of backupData.technicians) {
+                try {
+                  const { id, createdAt, updatedAt, ...fields } = technicianData;
+                  const technician = (await findTechnicianByName(fields.name)) ?? await storage.createTechnician(fields);
+                  technicianIds.set(id, technician.id);
+                  totalRestored++;
+                } catch (error) {
+                  console.warn('Failed to restore technician:', error);
+                }
+              }
+            }
+
             // 3. Restore engines (depends on mowers)
             if (backupData.engines && backupData.engines.length > 0) {
               console.log(`Restoring ${backupData.engines.length} engines...`);
@@ -350,41 +460,217 @@ export async function restoreFromBackup(buffer: Buffer): Promise<{success: boole
               }
             }
 
-            // 4. Restore tasks (depends on mowers)
+            // 3b. Restore hour-meter readings (depends on mowers and engines)
+            if (backupData.meterReadings && backupData.meterReadings.length > 0) {
+              console.log(`Restoring ${backupData.meterReadings.length} meter readings...`);
+              for (const readingData of backupData.meterReadings) {
+                try {
+                  await storage.createMeterReading({ ...readingData, readingDate: new Date(readingData.readingDate) });
+                  totalRestored++;
+                } catch (error) {
+                  console.warn('Failed to restore meter reading:', error);
+                }
+              }
+            }
+
+            // 3c. Restore work orders and their labor (depend on mowers and technicians)
+            if (backupData.workOrders && backupData.workOrders.length > 0) {
+              console.log(`Restoring ${backupData.workOrders.length} work orders...`);
+              for (const workOrderData of backupData.workOrders) {
+                try {
+                  const workOrder = await storage.createWorkOrder({
+                    mowerId: workOrderData.mowerId,
+                    title: workOrderData.title,
+                    description: workOrderData.description,
+                    serviceType: workOrderData.serviceType
+                  });
+                  // New work orders start open; the service record written on close is linked once records are restored
+                  await storage.updateWorkOrder(workOrder.id.toString(), {
+                    status: workOrderData.status,
+                    closedAt: workOrderData.closedAt ? new Date(workOrderData.closedAt) : null,
+                    signedOffById: existingUserId(workOrderData.signedOffById),
+                    signedOffByName: workOrderData.signedOffByName,
+                    signOffNotes: workOrderData.signOffNotes
+                  });
+                  workOrderIds.set(workOrderData.id, workOrder.id);
+                  totalRestored++;
+                } catch (error) {
+                  console.warn('Failed to restore work order:', error);
+                }
+              }
+            }
+
+            if (backupData.workOrderLabor && backupData.workOrderLabor.length > 0) {
+              console.log(`Restoring ${backupData.workOrderLabor.length} work order labor entries...`);
+              for (const laborData of backupData.workOrderLabor) {
+                const workOrderId = workOrderIds.get(laborData.workOrderId);
+                if (!workOrderId) continue;
+                try {
+                  await storage.createWorkOrderLabor({
+                    workOrderId,
+                    technicianId: laborData.technicianId ? technicianIds.get(laborData.technicianId) ?? null : null,
+                    technicianName: laborData.technicianName,
+                    workDate: laborData.workDate,
+                    hours: laborData.hours,
+                    hourlyRate: laborData.hourlyRate,
+                    notes: laborData.notes
+                  });
+                  totalRestored++;
+                } catch (error) {
+                  console.warn('Failed to restore work order labor:', error);
+                }
+              }
+            }
+
+            // 4. Restore tasks (depends on mowers, engines, parts and work orders), oldest first so a series starts with its first task
             if (backupData.tasks && backupData.tasks.length > 0) {
               console.log(`Restoring ${backupData.tasks.length} tasks...`);
-              for (const taskData of backupData.tasks) {
+              const sortedTasks = [...backupData.tasks].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+              for (const taskData of sortedTasks) {
                 try {
-                  await storage.createTask(taskData);
+                  const task = await storage.createTask(withDates({
+                    ...taskData,
+                    seriesId: taskData.seriesId ? taskIds.get(taskData.seriesId) ?? null : null,
+                    nextTaskId: null,
+                    workOrderId: null
+                  }, ['dueDate', 'completedAt']));
+                  taskIds.set(taskData.id, task.id);
                   totalRestored++;
                 } catch (error) {
                   console.warn('Failed to restore task:', error);
                 }
               }
+              // The next instance and the work order are linked once all tasks exist
+              for (const taskData of sortedTasks) {
+                const id = taskIds.get(taskData.id);
+                const nextTaskId = taskData.nextTaskId && taskIds.get(taskData.nextTaskId);
+                const workOrderId = taskData.workOrderId && workOrderIds.get(taskData.workOrderId);
+                if (id && (nextTaskId || workOrderId)) {
+                  await storage.updateTask(id, { nextTaskId: nextTaskId || null, workOrderId: workOrderId || null });
+                }
+              }
+            }
+
+            // 4b. Restore task checklist steps and comments (depend on tasks)
+            if (backupData.taskChecklistItems && backupData.taskChecklistItems.length > 0) {
+              console.log(`Restoring ${backupData.taskChecklistItems.length} task checklist items...`);
+              // Steps are appended, so adding them in their order keeps it
+              const sortedItems = [...backupData.taskChecklistItems].sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
+              for (const itemData of sortedItems) {
+                const taskId = taskIds.get(itemData.taskId);
+                if (!taskId) continue;
+                try {
+                  const item = await storage.createTaskChecklistItem(taskId, { text: itemData.text });
+                  if (itemData.isDone) {
+                    await storage.updateTaskChecklistItem(String(item.id), {
+                      isDone: true,
+                      completedById: existingUserId(itemData.completedById),
+                      completedByName: itemData.completedByName,
+                      completedAt: itemData.completedAt ? new Date(itemData.completedAt) : null
+                    });
+                  }
+                  totalRestored++;
+                } catch (error) {
+                  console.warn('Failed to restore task checklist item:', error);
+                }
+              }
+            }
+
+            if (backupData.taskComments && backupData.taskComments.length > 0) {
+              console.log(`Restoring ${backupData.taskComments.length} task comments...`);
+              for (const commentData of backupData.taskComments) {
+                const taskId = taskIds.get(commentData.taskId);
+                if (!taskId) continue;
+                try {
+                  const comment = await storage.createTaskComment({
+                    taskId,
+                    authorId: existingUserId(commentData.authorId),
+                    authorName: commentData.authorName,
+                    body: commentData.body
+                  });
+                  taskCommentIds.set(commentData.id, comment.id);
+                  totalRestored++;
+                } catch (error) {
+                  console.warn('Failed to restore task comment:', error);
+                }
+              }
+            }
+
+            // 5. Restore service records (depends on mowers), oldest first so the mower ends up with its latest service
+            if (backupData.serviceRecords && backupData.serviceRecords.length > 0) {
+              console.log(`Restoring ${backupData.serviceRecords.length} service records...`);
+              const sortedRecords = [...backupData.serviceRecords].sort((a, b) => new Date(a.serviceDate).getTime() - new Date(b.serviceDate).getTime());
+              for (const recordData of sortedRecords) {
+                try {
+                  const { id, createdAt, ...fields } = recordData;
+                  const record = await storage.createServiceRecordWithMowerUpdate(withDates(fields, ['serviceDate', 'scheduledDate', 'nextServiceDue']));
+                  serviceRecordIds.set(id, record.id);
+                  totalRestored++;
+                } catch (error) {
+                  console.warn('Failed to restore service record:', error);
+                }
+              }
+            }
+
+            // 5b. Restore service record labor and fees (depend on service records and technicians)
+            if (backupData.serviceRecordLabor && backupData.serviceRecordLabor.length > 0) {
+              console.log(`Restoring ${backupData.serviceRecordLabor.length} service record labor entries...`);
+              for (const [oldRecordId, recordId] of Array.from(serviceRecordIds)) {
+                const labor = backupData.serviceRecordLabor
+                  .filter(entry => entry.serviceRecordId === oldRecordId && technicianIds.has(entry.technicianId))
+                  .map(entry => ({ technicianId: technicianIds.get(entry.technicianId)!, hours: entry.hours, hourlyRate: entry.hourlyRate }));
+                if (labor.length === 0) continue;
+                try {
+                  totalRestored += (await storage.setServiceRecordLabor(recordId, labor)).length;
+                } catch (error) {
+                  console.warn('Failed to restore service record labor:', error);
+                }
+              }
+            }
+
+            if (backupData.serviceRecordFees && backupData.serviceRecordFees.length > 0) {
+              console.log(`Restoring ${backupData.serviceRecordFees.length} service record fees...`);
+              for (const [oldRecordId, recordId] of Array.from(serviceRecordIds)) {
+                const fees = backupData.serviceRecordFees
+                  .filter(fee => fee.serviceRecordId === oldRecordId)
+                  .map(fee => ({ kind: fee.kind, description: fee.description, amount: fee.amount }));
+                if (fees.length === 0) continue;
+                try {
+                  totalRestored += (await storage.setServiceRecordFees(recordId, fees)).length;
+                } catch (error) {
+                  console.warn('Failed to restore service record fees:', error);
+                }
+              }
+            }
+
+            // 5c. Link closed work orders to the service records written on close
+            for (const workOrderData of backupData.workOrders ?? []) {
+              const workOrderId = workOrderIds.get(workOrderData.id);
+              const serviceRecordId = workOrderData.serviceRecordId && serviceRecordIds.get(workOrderData.serviceRecordId);
+              if (workOrderId && serviceRecordId) await storage.updateWorkOrder(workOrderId.toString(), { serviceRecordId });
             }
 
-            // 5. Restore service records (depends on mowers)
-            // Note: This is simplified - in production you'd need to handle the special creation method
-            
             // 6. Restore attachments with file data
             if (backupData.attachments && backupData.attachments.length > 0) {
               console.log(`Restoring ${backupData.attachments.length} attachments...`);
               for (const attachmentData of backupData.attachments) {
                 try {
                   // Find the corresponding file data
-                  let fileData = '';
+                  let fileContent: Buffer | undefined;
                   for (const [fileName, fileBuffer] of Array.from(attachmentFiles.entries())) {
                     if (fileName.includes(attachmentData.id)) {
-                      fileData = fileBuffer.toString('base64');
+                      fileContent = fileBuffer;
                       break;
                     }
                   }
                   
-                  if (fileData) {
-                    await storage.createAttachment({
+                  if (fileContent) {
+                    await storeAttachmentContent(fileContent, (contentHash) => storage.createAttachment({
                       ...attachmentData,
-                      fileData
-                    });
+                      taskCommentId: attachmentData.taskCommentId ? taskCommentIds.get(attachmentData.taskCommentId) ?? null : null,
+                      contentHash,
+                      legacyFileData: null
+                    }));
                     totalRestored++;
                   } else {
                     console.warn(`No file data found for attachment ${attachmentData.id}`);
@@ -395,12 +681,16 @@ export async function restoreFromBackup(buffer: Buffer): Promise<{success: boole
               }
             }
 
-            // 7. Restore asset parts (depends on parts, mowers, engines)
+            // 7. Restore asset parts (depends on parts, mowers, engines, service records and work orders)
             if (backupData.assetParts && backupData.assetParts.length > 0) {
               console.log(`Restoring ${backupData.assetParts.length} asset parts...`);
               for (const assetPartData of backupData.assetParts) {
                 try {
-                  await storage.createAssetPart(assetPartData);
+                  await storage.createAssetPart({
+                    ...assetPartData,
+                    serviceRecordId: assetPartData.serviceRecordId ? serviceRecordIds.get(assetPartData.serviceRecordId) ?? null : null,
+                    workOrderId: assetPartData.workOrderId ? workOrderIds.get(assetPartData.workOrderId) ?? null : null
+                  });
                   totalRestored++;
                 } catch (error) {
                   console.warn('Failed to restore asset part:', error);
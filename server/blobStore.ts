@@ -0,0 +1,93 @@
+import { createHash, randomUUID } from "crypto";
+import { createReadStream, promises as fs } from "fs";
+import path from "path";
+import type { Readable } from "stream";
+
+/**
+ * Content-addressed storage for attachment bytes. Blobs are keyed by the
+ * SHA-256 of their content, so storing the same file twice is a no-op.
+ */
+export interface BlobStore {
+  put(data: Buffer): Promise<{ hash: string; size: number }>;
+  get(hash: string): Promise<Buffer>;
+  createReadStream(hash: string, range?: { start: number; end: number }): Promise<Readable>;
+  exists(hash: string): Promise<boolean>;
+  delete(hash: string): Promise<void>;
+  list(): AsyncIterable<string>;
+}
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+export function hashContent(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Stores blobs as files under a root directory, sharded by the first two
+ * bytes of the hash (ab/cd/abcd...) to keep directories small.
+ */
+export class LocalBlobStore implements BlobStore {
+  constructor(private readonly rootDir: string) {}
+
+  private pathFor(hash: string): string {
+    if (!HASH_PATTERN.test(hash)) throw new Error(`Invalid blob hash: ${hash}`);
+    return path.join(this.rootDir, hash.slice(0, 2), hash.slice(2, 4), hash);
+  }
+
+  async put(data: Buffer): Promise<{ hash: string; size: number }> {
+    const hash = hashContent(data);
+    const target = this.pathFor(hash);
+    if (!(await this.exists(hash))) {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      // Write to a temp file first so a crash never leaves a truncated blob under its hash
+      const temp = `${target}.${randomUUID()}.tmp`;
+      await fs.writeFile(temp, data);
+      await fs.rename(temp, target);
+    }
+    return { hash, size: data.length };
+  }
+
+  async get(hash: string): Promise<Buffer> {
+    return fs.readFile(this.pathFor(hash));
+  }
+
+  async createReadStream(hash: string, range?: { start: number; end: number }): Promise<Readable> {
+    const file = this.pathFor(hash);
+    await fs.access(file); // surface a missing blob as a rejected promise, not a stream error
+    return createReadStream(file, range);
+  }
+
+  async exists(hash: string): Promise<boolean> {
+    try {
+      await fs.access(this.pathFor(hash));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(hash: string): Promise<void> {
+    await fs.rm(this.pathFor(hash), { force: true });
+  }
+
+  async *list(): AsyncIterable<string> {
+    const readDir = async (dir: string) => {
+      try {
+        return await fs.readdir(dir);
+      } catch {
+        return [];
+      }
+    };
+    for (const first of await readDir(this.rootDir)) {
+      for (const second of await readDir(path.join(this.rootDir, first))) {
+        for (const name of await readDir(path.join(this.rootDir, first, second))) {
+          if (HASH_PATTERN.test(name)) yield name;
+        }
+      }
+    }
+  }
+}
+
+export const BLOB_STORAGE_DIR = path.resolve(process.env.BLOB_STORAGE_DIR || path.join("data", "blobs"));
+
+export const blobStore: BlobStore = new LocalBlobStore(BLOB_STORAGE_DIR);
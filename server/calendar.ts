@@ -0,0 +1,186 @@
+import { randomBytes } from "crypto";
+import type { CalendarEvent, CalendarQuery, Mower } from "@shared/schema";
+import { storage } from "./storage";
+import { taskAsset, taskAssetUrl } from "./tasks";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far back the subscription feed reaches; calendar apps keep their own history
+const FEED_DAYS_BACK = 90;
+
+const day = (date: Date | string) => (typeof date === "string" ? date.slice(0, 10) : date.toISOString().slice(0, 10));
+
+const mowerName = (mower: Mower) => `${mower.make} ${mower.model}${mower.serialNumber ? ` (${mower.serialNumber})` : ""}`;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Every dated item in the fleet between from and to (inclusive, YYYY-MM-DD),
+ * soonest first: booked service appointments, each mower's next service date
+ * and the follow-up date on its latest service record, open task due dates,
+ * and mower warranty expirations. Retired mowers are left out.
+ */
+export async function getCalendarEvents(query: CalendarQuery = {}): Promise<CalendarEvent[]> {
+  const [mowers, records, tasks, engines, parts] = await Promise.all([
+    storage.getAllMowers(),
+    storage.getAllServiceRecords(),
+    storage.getAllTasks(),
+    storage.getAllEngines(),
+    storage.getAllParts(),
+  ]);
+  const inService = new Map(mowers.filter((mower) => mower.status !== "retired").map((mower) => [mower.id, mower]));
+  const events: CalendarEvent[] = [];
+
+  for (const record of records) {
+    const mower = inService.get(record.mowerId);
+    if (!mower || (record.status !== "scheduled" && record.status !== "in_progress")) continue;
+    events.push({
+      id: `appointment-${record.id}`,
+      kind: "appointment",
+      date: day(record.scheduledDate ?? record.serviceDate),
+      title: `${capitalize(record.serviceType)} booked: ${mowerName(mower)}`,
+      description: record.description,
+      mowerId: mower.id,
+      serviceRecordId: record.id,
+      taskId: null,
+      path: `/mowers/${mower.id}`,
+    });
+  }
+
+  for (const mower of Array.from(inService.values())) {
+    if (mower.nextServiceDate) {
+      events.push({
+        id: `next-service-${mower.id}`,
+        kind: "next_service",
+        date: day(mower.nextServiceDate),
+        title: `Service due: ${mowerName(mower)}`,
+        description: mower.location ? `Location: ${mower.location}` : null,
+        mowerId: mower.id,
+        serviceRecordId: null,
+        taskId: null,
+        path: `/mowers/${mower.id}`,
+      });
+    }
+    if (mower.warrantyExpirationDate) {
+      events.push({
+        id: `warranty-${mower.id}`,
+        kind: "warranty",
+        date: day(mower.warrantyExpirationDate),
+        title: `Warranty expires: ${mowerName(mower)}`,
+        description: null,
+        mowerId: mower.id,
+        serviceRecordId: null,
+        taskId: null,
+        path: `/mowers/${mower.id}`,
+      });
+    }
+
+    // The follow-up noted on the mower's latest completed service, unless the next service date already covers it
+    const latest = records
+      .filter((record) => record.mowerId === mower.id && record.status === "completed")
+      .sort((a, b) => new Date(b.serviceDate).getTime() - new Date(a.serviceDate).getTime())[0];
+    if (latest?.nextServiceDue && day(latest.nextServiceDue) !== (mower.nextServiceDate && day(mower.nextServiceDate))) {
+      events.push({
+        id: `service-due-${latest.id}`,
+        kind: "service_due",
+        date: day(latest.nextServiceDue),
+        title: `Follow-up ${latest.serviceType} due: ${mowerName(mower)}`,
+        description: latest.description,
+        mowerId: mower.id,
+        serviceRecordId: latest.id,
+        taskId: null,
+        path: `/mowers/${mower.id}`,
+      });
+    }
+  }
+
+  for (const task of tasks) {
+    if (!task.dueDate || task.status === "completed" || task.status === "cancelled") continue;
+    const asset = taskAsset(task);
+    if (asset?.type === "mower" && !inService.has(parseInt(asset.id))) continue;
+    const assetName = !asset ? null
+      : asset.type === "mower" ? mowerName(inService.get(parseInt(asset.id))!)
+      : asset.type === "engine" ? engines.find((engine) => String(engine.id) === asset.id)?.name
+      : parts.find((part) => String(part.id) === asset.id)?.name;
+    events.push({
+      id: `task-${task.id}`,
+      kind: "task",
+      date: day(task.dueDate),
+      title: assetName ? `${task.title} (${assetName})` : task.title,
+      description: task.description,
+      mowerId: task.mowerId,
+      serviceRecordId: null,
+      taskId: task.id,
+      path: taskAssetUrl(task) ?? "/tasks",
+    });
+  }
+
+  return events
+    .filter((event) => (!query.from || event.date >= query.from) && (!query.to || event.date <= query.to))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.title.localeCompare(b.title));
+}
+
+// Secret that stands in for a login in a user's feed URL
+export function newCalendarToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+// RFC 5545 text: backslash-escape separators and fold lines at 75 octets
+function escapeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > (chunks.length ? 74 : 75)) {
+      chunks.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+const icsDate = (date: string) => date.replace(/-/g, "");
+
+/**
+ * The fleet calendar as an iCalendar feed for Outlook, Google Calendar and
+ * the like, from FEED_DAYS_BACK days ago onwards. baseUrl (e.g.
+ * "https://mowers.example.com") makes each event link back to the app.
+ */
+export async function renderCalendarFeed(baseUrl: string, now: Date = new Date()): Promise<string> {
+  const events = await getCalendarEvents({ from: day(new Date(now.getTime() - FEED_DAYS_BACK * DAY_MS)) });
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const host = new URL(baseUrl).host;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//MowerM8//Fleet calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:MowerM8 fleet",
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+  for (const event of events) {
+    const next = day(new Date(Date.parse(event.date) + DAY_MS));
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.id}@${host}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(event.date)}`,
+      `DTEND;VALUE=DATE:${icsDate(next)}`,
+      `SUMMARY:${escapeText(event.title)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      `CATEGORIES:${event.kind.toUpperCase()}`,
+      `URL:${baseUrl}${event.path}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import pkg from 'pg';
 const { Pool } = pkg;
 import { drizzle } from 'drizzle-orm/node-postgres';
@@ -5,6 +6,10 @@ import * as schema from "@shared/schema";
 
 let pool: any = null;
 let db: any = null;
+let database: any = null;
+
+// The transaction opened by runInTransaction for the code it runs
+const activeTransaction = new AsyncLocalStorage<any>();
 
 if (process.env.DATABASE_URL) {
   // Configuration for local PostgreSQL
@@ -20,8 +25,16 @@ if (process.env.DATABASE_URL) {
     console.error('Unexpected database pool error:', err);
   });
 
-  // Database instance for PostgreSQL
-  db = drizzle(pool, { schema });
+  // Database instance for PostgreSQL. Queries go through the active
+  // runInTransaction transaction when there is one.
+  database = drizzle(pool, { schema });
+  db = new Proxy(database, {
+    get(target, property) {
+      const current = activeTransaction.getStore() ?? target;
+      const value = current[property];
+      return typeof value === 'function' ? value.bind(current) : value;
+    },
+  });
 } else {
   console.log('No DATABASE_URL provided, database connections will not be available');
 }
@@ -29,6 +42,16 @@ if (process.env.DATABASE_URL) {
 // Export pool and db (may be null if no DATABASE_URL)
 export { pool, db };
 
+/**
+ * Runs work in one database transaction: every query it makes through db,
+ * including those of storage methods, commits or rolls back together. Inside
+ * another runInTransaction it simply joins the outer transaction.
+ */
+export async function runInTransaction<T>(work: () => Promise<T>): Promise<T> {
+  if (!database || activeTransaction.getStore()) return work();
+  return database.transaction((tx: any) => activeTransaction.run(tx, work));
+}
+
 // Database health check function
 export async function testDatabaseConnection() {
   try {
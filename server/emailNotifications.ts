@@ -0,0 +1,279 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import {
+  NOTIFICATION_PRIORITIES,
+  NOTIFICATION_TYPES,
+  type EmailDeliveryMode,
+  type Notification,
+  type NotificationDelivery,
+  type NotificationPreference,
+  type NotificationPreferencesView,
+  type User,
+} from "@shared/schema";
+import { storage, type NotificationDeliveryCreate } from "./storage";
+
+// SMTP server; without SMTP_HOST no email is sent. For local testing point it at MailHog (SMTP_PORT=1025).
+const SMTP_HOST = process.env.SMTP_HOST;
+const SMTP_PORT = Number(process.env.SMTP_PORT ?? 587);
+const SMTP_SECURE = process.env.SMTP_SECURE === "true";
+const SMTP_USER = process.env.SMTP_USER;
+const SMTP_PASSWORD = process.env.SMTP_PASSWORD;
+const SMTP_FROM = process.env.SMTP_FROM ?? "MowerM8 <mowerm8@localhost>";
+
+// Links in emails point here, since there is no request to take the host from
+const APP_URL = (process.env.APP_URL ?? `http://localhost:${process.env.PORT || "5000"}`).replace(/\/+$/, "");
+
+// Hour of the day (server time) the daily digest goes out
+const DIGEST_HOUR = Number(process.env.NOTIFICATION_DIGEST_HOUR ?? 7);
+
+// Minutes to wait before each retry of a failed email; it gives up after the last one
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+// How often failed emails and due digests are checked for
+const SCHEDULER_INTERVAL_MS = 5 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PRIORITY_COLORS: Record<string, string> = { high: "#dc2626", medium: "#d97706", low: "#6b7280" };
+
+let transporter: Transporter | null = null;
+
+export function isEmailConfigured(): boolean {
+  return Boolean(SMTP_HOST);
+}
+
+function getTransporter(): Transporter {
+  transporter ??= nodemailer.createTransport({
+    host: SMTP_HOST,
+    port: SMTP_PORT,
+    secure: SMTP_SECURE,
+    auth: SMTP_USER ? { user: SMTP_USER, pass: SMTP_PASSWORD } : undefined,
+  });
+  return transporter;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const detailLink = (notification: Notification) => (notification.detailUrl ? `${APP_URL}${notification.detailUrl}` : null);
+
+function deliveryFor(preferences: NotificationPreference[], notification: Notification): EmailDeliveryMode {
+  const preference = preferences.find((candidate) => candidate.type === notification.type && candidate.priority === notification.priority);
+  return (preference?.delivery as EmailDeliveryMode | undefined) ?? "off";
+}
+
+/**
+ * An email of one or more notifications: a card per notification with a
+ * button to its page in the app, and a footer linking to the preferences.
+ */
+export function renderNotificationEmail(notifications: Notification[], heading: string): { html: string; text: string } {
+  const settingsUrl = `${APP_URL}/settings?tab=notifications`;
+  const cards = notifications.map((notification) => {
+    const link = detailLink(notification);
+    const color = PRIORITY_COLORS[notification.priority] ?? PRIORITY_COLORS.low;
+    return `
+      <div style="border:1px solid #e5e7eb;border-left:4px solid ${color};border-radius:6px;padding:12px 16px;margin:0 0 12px;">
+        <div style="font-size:12px;color:${color};text-transform:uppercase;letter-spacing:0.05em;">${escapeHtml(notification.priority)} priority</div>
+        <div style="font-size:16px;font-weight:600;color:#111827;margin:4px 0;">${escapeHtml(notification.title)}</div>
+        <div style="font-size:14px;color:#374151;">${escapeHtml(notification.message)}</div>
+        ${link ? `<a href="${escapeHtml(link)}" style="display:inline-block;margin-top:10px;padding:6px 12px;background:#0d9488;color:#ffffff;border-radius:4px;text-decoration:none;font-size:13px;">View details</a>` : ""}
+      </div>`;
+  }).join("");
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;">
+    <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <h1 style="font-size:20px;color:#0f766e;margin:0 0 16px;">${escapeHtml(heading)}</h1>
+      ${cards}
+      <p style="font-size:12px;color:#6b7280;margin:16px 0 0;">
+        You get these emails because of your notification preferences in MowerM8.
+        <a href="${escapeHtml(settingsUrl)}" style="color:#0d9488;">Change them</a>.
+      </p>
+    </div>
+  </body>
+</html>`;
+  const text = [
+    heading,
+    "",
+    ...notifications.flatMap((notification) => {
+      const link = detailLink(notification);
+      return [`[${notification.priority}] ${notification.title}`, notification.message, ...(link ? [link] : []), ""];
+    }),
+    `Change your notification preferences: ${settingsUrl}`,
+  ].join("\n");
+  return { html, text };
+}
+
+/**
+ * Sends a logged email once. On failure it is scheduled for another try after
+ * the next retry delay, until MAX_ATTEMPTS is reached.
+ */
+export async function attemptDelivery(delivery: NotificationDelivery, now: Date = new Date()): Promise<NotificationDelivery> {
+  const attempts = delivery.attempts + 1;
+  try {
+    await getTransporter().sendMail({
+      from: SMTP_FROM,
+      to: delivery.toAddress,
+      subject: delivery.subject,
+      html: delivery.html,
+      text: delivery.text,
+    });
+    const sent = { status: "sent" as const, attempts, lastError: null, nextAttemptAt: null, sentAt: now };
+    return (await storage.updateNotificationDelivery(delivery.id, sent)) ?? { ...delivery, ...sent };
+  } catch (error) {
+    const delay = RETRY_DELAYS_MINUTES[attempts - 1];
+    const failed = {
+      status: "failed" as const,
+      attempts,
+      lastError: error instanceof Error ? error.message : String(error),
+      nextAttemptAt: attempts < MAX_ATTEMPTS && delay !== undefined ? new Date(now.getTime() + delay * 60 * 1000) : null,
+    };
+    console.error(`Failed to send notification email ${delivery.id} to ${delivery.toAddress}:`, failed.lastError);
+    return (await storage.updateNotificationDelivery(delivery.id, failed)) ?? { ...delivery, ...failed };
+  }
+}
+
+async function deliver(delivery: NotificationDeliveryCreate): Promise<NotificationDelivery> {
+  return attemptDelivery(await storage.createNotificationDelivery(delivery));
+}
+
+async function emailRecipients(): Promise<User[]> {
+  return (await storage.getAllUsers()).filter((user) => user.isActive && user.email);
+}
+
+// Emails a new notification straight away to every user who asked for instant email of its type and priority
+export async function queueNotificationEmails(notification: Notification): Promise<void> {
+  if (!isEmailConfigured()) return;
+  const [users, preferences] = await Promise.all([emailRecipients(), storage.getNotificationPreferences()]);
+  for (const user of users) {
+    const own = preferences.filter((preference) => preference.userId === user.id);
+    if (deliveryFor(own, notification) !== "instant") continue;
+    const { html, text } = renderNotificationEmail([notification], notification.title);
+    await deliver({
+      userId: user.id,
+      kind: "instant",
+      notificationIds: [notification.id],
+      toAddress: user.email!,
+      subject: `[MowerM8] ${notification.title}`,
+      html,
+      text,
+    });
+  }
+}
+
+/**
+ * Sends each user who gets a digest one email of the notifications they asked
+ * to have digested since their last digest (or the last day), once a day from
+ * DIGEST_HOUR on. Returns how many digests went out.
+ */
+export async function sendDailyDigests(now: Date = new Date()): Promise<number> {
+  if (!isEmailConfigured()) return 0;
+  const digestTime = new Date(now);
+  digestTime.setHours(DIGEST_HOUR, 0, 0, 0);
+  if (now < digestTime) return 0;
+
+  const [users, preferences, notifications] = await Promise.all([
+    emailRecipients(),
+    storage.getNotificationPreferences(),
+    storage.getNotifications(),
+  ]);
+  let sent = 0;
+  for (const user of users) {
+    const own = preferences.filter((preference) => preference.userId === user.id);
+    if (!own.some((preference) => preference.delivery === "digest")) continue;
+    const [last] = await storage.getNotificationDeliveries({ userId: user.id, kind: "digest", limit: 1 });
+    if (last && last.createdAt >= digestTime) continue;
+
+    const since = last?.createdAt ?? new Date(now.getTime() - DAY_MS);
+    const due = notifications
+      .filter((notification) => notification.createdAt > since && notification.createdAt <= now)
+      .filter((notification) => deliveryFor(own, notification) === "digest")
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    if (due.length === 0) continue;
+
+    const heading = `Your daily MowerM8 digest: ${due.length} notification${due.length === 1 ? "" : "s"}`;
+    const { html, text } = renderNotificationEmail(due, heading);
+    await deliver({
+      userId: user.id,
+      kind: "digest",
+      notificationIds: due.map((notification) => notification.id),
+      toAddress: user.email!,
+      subject: `[MowerM8] Daily digest (${due.length})`,
+      html,
+      text,
+    });
+    sent++;
+  }
+  return sent;
+}
+
+// Tries again every failed email whose retry is due
+export async function retryFailedDeliveries(now: Date = new Date()): Promise<number> {
+  if (!isEmailConfigured()) return 0;
+  const due = await storage.getNotificationDeliveries({ retryDueBy: now });
+  for (const delivery of due) {
+    await attemptDelivery(delivery, now);
+  }
+  return due.length;
+}
+
+// A sample email to the user's own address, to check the SMTP settings
+export async function sendTestEmail(user: User): Promise<NotificationDelivery> {
+  const sample = {
+    id: "test",
+    type: "info",
+    title: "Test email",
+    message: "Email notifications from MowerM8 reach this address.",
+    isRead: false,
+    priority: "low",
+    entityType: null,
+    entityId: null,
+    entityName: null,
+    detailUrl: "/",
+    createdAt: new Date(),
+  } satisfies Notification;
+  const { html, text } = renderNotificationEmail([sample], "MowerM8 test email");
+  return deliver({
+    userId: user.id,
+    kind: "test",
+    notificationIds: [],
+    toAddress: user.email!,
+    subject: "[MowerM8] Test email",
+    html,
+    text,
+  });
+}
+
+// The user's email address and a delivery mode for every type × priority combination
+export async function getNotificationPreferencesView(user: User): Promise<NotificationPreferencesView> {
+  const own = await storage.getNotificationPreferences(user.id);
+  return {
+    email: user.email,
+    emailConfigured: isEmailConfigured(),
+    preferences: NOTIFICATION_TYPES.flatMap((type) => NOTIFICATION_PRIORITIES.map((priority) => ({
+      type,
+      priority,
+      delivery: (own.find((preference) => preference.type === type && preference.priority === priority)?.delivery ?? "off") as EmailDeliveryMode,
+    }))),
+  };
+}
+
+// Checks for failed emails to retry and digests to send every few minutes
+export function startEmailScheduler(): void {
+  if (!isEmailConfigured()) {
+    console.log("Email notifications are turned off (no SMTP_HOST)");
+    return;
+  }
+  // Skip a tick while the previous run is still sending, so no email goes out twice
+  let running = false;
+  const run = () => {
+    if (running) return;
+    running = true;
+    retryFailedDeliveries()
+      .then(() => sendDailyDigests())
+      .catch((error) => console.error("Failed to process notification emails:", error))
+      .finally(() => { running = false; });
+  };
+  setInterval(run, SCHEDULER_INTERVAL_MS).unref();
+}
@@ -0,0 +1,122 @@
+import type { MeterReading, MeterReadingPoint, Mower, ServiceRecord } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The usage rate is taken from readings in this window before the latest one
+const USAGE_WINDOW_DAYS = 90;
+
+export type HourMeterReading = {
+  date: Date;
+  hours: number; // as shown on the meter
+  totalHours: number; // hours of use, counting on across meter replacements
+  isMeterReplacement: boolean;
+  source: "reading" | "service_record";
+  serviceRecordId?: string;
+};
+
+/**
+ * Hour-meter history of one asset, oldest first: its logged readings plus the
+ * hours entered on its completed service records. Pass only the asset's own rows.
+ */
+export function hourMeterReadings(meterReadings: MeterReading[], records: ServiceRecord[] = []): HourMeterReading[] {
+  const readings = [
+    ...meterReadings.map((reading) => ({
+      date: new Date(reading.readingDate),
+      hours: reading.hours,
+      isMeterReplacement: reading.isMeterReplacement,
+      source: "reading" as const,
+    })),
+    ...records
+      .filter((record) => record.mileage !== null && record.status === "completed")
+      .map((record) => ({
+        date: new Date(record.serviceDate),
+        hours: record.mileage!,
+        isMeterReplacement: false,
+        source: "service_record" as const,
+        serviceRecordId: record.id,
+      })),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  let offset = 0;
+  let previous: HourMeterReading | undefined;
+  return readings.map((reading) => {
+    // A new meter carries on from the last reading of the old one
+    if (reading.isMeterReplacement && previous) offset = previous.totalHours - reading.hours;
+    previous = { ...reading, totalHours: reading.hours + offset };
+    return previous;
+  });
+}
+
+export function toMeterReadingPoints(readings: HourMeterReading[]): MeterReadingPoint[] {
+  return readings.map((reading) => ({
+    date: reading.date.toISOString(),
+    hours: reading.hours,
+    totalHours: reading.totalHours,
+    source: reading.source,
+    isMeterReplacement: reading.isMeterReplacement,
+  }));
+}
+
+/**
+ * Average hours of use per day over the readings from the last USAGE_WINDOW_DAYS
+ * (or the last two readings when the window holds fewer). Null when the readings
+ * span less than a day or run backwards.
+ */
+export function estimateHoursPerDay(readings: HourMeterReading[]): number | null {
+  if (readings.length < 2) return null;
+  const latest = readings[readings.length - 1];
+  const windowStart = latest.date.getTime() - USAGE_WINDOW_DAYS * DAY_MS;
+  const inWindow = readings.filter((reading) => reading.date.getTime() >= windowStart);
+  const first = inWindow.length >= 2 ? inWindow[0] : readings[readings.length - 2];
+
+  const days = (latest.date.getTime() - first.date.getTime()) / DAY_MS;
+  const hours = latest.totalHours - first.totalHours;
+  if (days < 1 || hours < 0) return null;
+  return hours / days;
+}
+
+// Total hours at the newest reading taken on or before the date; 0 before the first reading
+export function totalHoursAt(readings: HourMeterReading[], date: Date): number {
+  let hours = 0;
+  for (const reading of readings) {
+    if (reading.date.getTime() > date.getTime()) break;
+    hours = reading.totalHours;
+  }
+  return hours;
+}
+
+/**
+ * Why a new reading does not fit the asset's history, or null when it does.
+ * Readings may not go backwards unless they start a replacement meter.
+ */
+export function checkMeterReading(
+  readings: HourMeterReading[],
+  reading: Pick<MeterReading, "hours" | "readingDate" | "isMeterReplacement">,
+): string | null {
+  const time = new Date(reading.readingDate).getTime();
+  const previous = readings.filter((other) => other.date.getTime() <= time).pop();
+  const next = readings.find((other) => other.date.getTime() > time);
+
+  if (previous && !reading.isMeterReplacement && reading.hours < previous.hours) {
+    return `${reading.hours} h is lower than the previous reading of ${previous.hours} h on ` +
+      `${previous.date.toISOString().split("T")[0]}. Mark it as a meter replacement if the meter was changed.`;
+  }
+  if (next && !next.isMeterReplacement && reading.hours > next.hours) {
+    return `${reading.hours} h is higher than the later reading of ${next.hours} h on ${next.date.toISOString().split("T")[0]}.`;
+  }
+  return null;
+}
+
+/**
+ * Hour meter after a service record is saved: the record's reading becomes the
+ * mower's current one unless the mower already has a newer reading.
+ */
+export function hourMeterAfterService(
+  mower: Mower,
+  record: Pick<ServiceRecord, "serviceDate" | "mileage">,
+): Partial<Pick<Mower, "currentHours" | "currentHoursRecordedAt">> {
+  if (record.mileage === null || record.mileage === undefined) return {};
+  const serviceDate = new Date(record.serviceDate);
+  if (mower.currentHoursRecordedAt && new Date(mower.currentHoursRecordedAt) > serviceDate) return {};
+  return { currentHours: record.mileage, currentHoursRecordedAt: serviceDate };
+}
@@ -2,6 +2,11 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { testDatabaseConnection } from "./db";
+import { prepareAttachmentStorage } from "./attachmentFiles";
+import { startNotificationScheduler } from "./notificationRules";
+import { startEmailScheduler } from "./emailNotifications";
+import { startWebhookDispatcher } from "./webhooks";
+import { startMqttPublisher } from "./mqttPublisher";
 
 const app = express();
 app.use(express.json());
@@ -50,7 +55,17 @@ app.use((req, res, next) => {
     console.log('Using memory storage (no database connection required)');
   }
 
+  try {
+    await prepareAttachmentStorage();
+  } catch (error) {
+    console.error('Failed to prepare attachment blob storage:', error);
+  }
+
   const server = await registerRoutes(app);
+  startNotificationScheduler();
+  startEmailScheduler();
+  startWebhookDispatcher();
+  startMqttPublisher().catch((error) => console.error("Failed to start the MQTT publisher:", error));
 
   // Global error handler for API routes - must be after routes
   app.use((err: any, req: Request, res: Response, next: NextFunction) => {
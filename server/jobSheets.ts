@@ -0,0 +1,151 @@
+import type { Engine, Mower, Part, Task } from "@shared/schema";
+import { storage } from "./storage";
+import { readAttachmentContent } from "./attachmentFiles";
+import { getWorkOrderDetails } from "./workOrders";
+import { taskAsset } from "./tasks";
+import type { JobSheet } from "./pdfUtils";
+
+// How many of the mower's latest service records a job sheet lists
+const SERVICE_NOTES_ON_SHEET = 3;
+
+const day = (date: Date) => date.toISOString().slice(0, 10);
+
+function mowerFields(mower: Mower): JobSheet["asset"] {
+  return [
+    ["Mower", `${mower.make} ${mower.model}${mower.year ? ` (${mower.year})` : ""}`],
+    ["Serial number", mower.serialNumber || "—"],
+    ["Hour meter", mower.currentHours != null ? `${mower.currentHours} h` : "—"],
+    ["Location", mower.location || "—"],
+  ];
+}
+
+function engineFields(engine: Engine, mower: Mower | undefined): JobSheet["asset"] {
+  return [
+    ["Engine", engine.name],
+    ["Make / model", [engine.manufacturer, engine.model].filter(Boolean).join(" ") || "—"],
+    ["Serial number", engine.serialNumber || "—"],
+    ["Installed on", mower ? `${mower.make} ${mower.model}${mower.serialNumber ? ` (${mower.serialNumber})` : ""}` : "Not installed"],
+  ];
+}
+
+function partFields(part: Part): JobSheet["asset"] {
+  return [
+    ["Part", part.name],
+    ["Part number", part.partNumber],
+    ["Manufacturer", part.manufacturer || "—"],
+    ["Bin", part.binLocation || "—"],
+  ];
+}
+
+// The asset's thumbnail, when it is a photo
+async function thumbnailPhoto(thumbnailAttachmentId: string | null): Promise<Buffer | null> {
+  if (!thumbnailAttachmentId) return null;
+  const attachment = await storage.getAttachment(thumbnailAttachmentId);
+  if (!attachment || attachment.fileType !== "image") return null;
+  try {
+    return await readAttachmentContent(attachment);
+  } catch {
+    return null;
+  }
+}
+
+async function serviceNotes(mowerId: number | null | undefined): Promise<JobSheet["serviceNotes"]> {
+  if (mowerId == null) return [];
+  const records = await storage.getServiceRecordsByMowerId(String(mowerId));
+  return records
+    .filter((record) => record.status === "completed")
+    .sort((a, b) => new Date(b.serviceDate).getTime() - new Date(a.serviceDate).getTime())
+    .slice(0, SERVICE_NOTES_ON_SHEET)
+    .map((record) => ({
+      date: new Date(record.serviceDate),
+      serviceType: record.serviceType,
+      description: record.description,
+      performedBy: record.performedBy,
+    }));
+}
+
+// Each task with its checklist, under the task's title
+async function taskChecklists(tasks: Task[]): Promise<JobSheet["checklists"]> {
+  const items = await storage.getTaskChecklistItems(tasks.map((task) => task.id));
+  return tasks.map((task) => ({
+    heading: task.title,
+    items: items.filter((item) => item.taskId === task.id).map((item) => ({ text: item.text, isDone: item.isDone })),
+  }));
+}
+
+export async function getWorkOrderJobSheet(id: string): Promise<JobSheet | undefined> {
+  const workOrder = await getWorkOrderDetails(id);
+  if (!workOrder) return undefined;
+  const mower = await storage.getMower(String(workOrder.mowerId));
+  if (!mower) return undefined;
+
+  return {
+    title: `Work order #${workOrder.id}: ${workOrder.title}`,
+    subtitle: `${workOrder.serviceType} · ${workOrder.status.replace("_", " ")} · opened ${day(workOrder.createdAt)} · printed ${day(new Date())}`,
+    asset: mowerFields(mower),
+    photo: await thumbnailPhoto(mower.thumbnailAttachmentId),
+    description: workOrder.description,
+    checklists: await taskChecklists(workOrder.tasks),
+    parts: workOrder.parts.map((assetPart) => ({
+      name: assetPart.part.name,
+      partNumber: assetPart.part.partNumber,
+      binLocation: assetPart.part.binLocation,
+      quantity: assetPart.quantity,
+    })),
+    serviceNotes: await serviceNotes(mower.id),
+  };
+}
+
+/**
+ * Job sheet of a single task. The parts to pull are the catalog part matching
+ * the task's part number, if it names one.
+ */
+export async function getTaskJobSheet(id: string): Promise<JobSheet | undefined> {
+  const task = await storage.getTask(id);
+  const asset = task && taskAsset(task);
+  if (!task || !asset) return undefined;
+
+  let fields: JobSheet["asset"];
+  let thumbnailAttachmentId: string | null;
+  let mowerId: number | null;
+  if (asset.type === "engine") {
+    const engine = await storage.getEngine(asset.id);
+    if (!engine) return undefined;
+    const mower = engine.mowerId != null ? await storage.getMower(String(engine.mowerId)) : undefined;
+    fields = engineFields(engine, mower);
+    thumbnailAttachmentId = engine.thumbnailAttachmentId;
+    mowerId = engine.mowerId;
+  } else if (asset.type === "part") {
+    const part = await storage.getPart(asset.id);
+    if (!part) return undefined;
+    fields = partFields(part);
+    thumbnailAttachmentId = part.thumbnailAttachmentId;
+    mowerId = null;
+  } else {
+    const mower = await storage.getMower(asset.id);
+    if (!mower) return undefined;
+    fields = mowerFields(mower);
+    thumbnailAttachmentId = mower.thumbnailAttachmentId;
+    mowerId = mower.id;
+  }
+
+  const part = task.partNumber
+    ? (await storage.getAllParts()).find((candidate) => candidate.partNumber === task.partNumber)
+    : undefined;
+  const due = [task.dueDate ? `due ${day(new Date(task.dueDate))}` : null, task.dueHours != null ? `due at ${task.dueHours} h` : null];
+
+  return {
+    title: task.title,
+    subtitle: [task.category, `${task.priority} priority`, ...due, `printed ${day(new Date())}`].filter(Boolean).join(" · "),
+    asset: fields,
+    photo: await thumbnailPhoto(thumbnailAttachmentId),
+    description: task.description,
+    checklists: (await taskChecklists([task])).map((checklist) => ({ ...checklist, heading: "Checklist" })),
+    parts: part
+      ? [{ name: part.name, partNumber: part.partNumber, binLocation: part.binLocation, quantity: 1 }]
+      : task.partNumber
+        ? [{ name: "Not in the catalog", partNumber: task.partNumber, binLocation: null, quantity: 1 }]
+        : [],
+    serviceNotes: await serviceNotes(mowerId),
+  };
+}
@@ -0,0 +1,59 @@
+import type { MaintenanceSchedule } from "@shared/schema";
+import { storage } from "./storage";
+import { computeMaintenanceSchedule } from "./maintenanceSchedule";
+
+/**
+ * Maintenance schedule of one mower, or undefined when the mower does not exist.
+ */
+export async function getMowerMaintenanceSchedule(mowerId: string): Promise<MaintenanceSchedule | undefined> {
+  const mower = await storage.getMower(mowerId);
+  if (!mower) return undefined;
+  const [plans, records, readings] = await Promise.all([
+    storage.getMaintenancePlans(),
+    storage.getServiceRecordsByMowerId(mowerId),
+    storage.getMeterReadingsByMowerId(mowerId),
+  ]);
+  return computeMaintenanceSchedule(mower, plans, records, readings);
+}
+
+/**
+ * Schedules of every mower still in service (not retired), including mowers without a plan.
+ */
+export async function getFleetMaintenanceSchedules(): Promise<MaintenanceSchedule[]> {
+  const [mowers, plans, records, readings] = await Promise.all([
+    storage.getAllMowers(),
+    storage.getMaintenancePlans(),
+    storage.getAllServiceRecords(),
+    storage.getAllMeterReadings(),
+  ]);
+  return mowers
+    .filter((mower) => mower.status !== "retired")
+    .map((mower) => computeMaintenanceSchedule(mower, plans, records, readings));
+}
+
+/**
+ * Re-derives mowers.nextServiceDate from the maintenance plans after a plan,
+ * a plan assignment or a service record changed. Mowers without a plan keep
+ * their current date. Returns the number of mowers updated.
+ */
+export async function refreshNextServiceDates(mowerIds?: string[]): Promise<number> {
+  const [allMowers, plans] = await Promise.all([storage.getAllMowers(), storage.getMaintenancePlans()]);
+  const mowers = mowerIds ? allMowers.filter((mower) => mowerIds.includes(String(mower.id))) : allMowers;
+
+  let updated = 0;
+  for (const mower of mowers) {
+    try {
+      const [records, readings] = await Promise.all([
+        storage.getServiceRecordsByMowerId(String(mower.id)),
+        storage.getMeterReadingsByMowerId(String(mower.id)),
+      ]);
+      const { nextDueDate } = computeMaintenanceSchedule(mower, plans, records, readings);
+      if (!nextDueDate || nextDueDate === mower.nextServiceDate) continue;
+      await storage.updateMower(String(mower.id), { nextServiceDate: nextDueDate });
+      updated++;
+    } catch (error) {
+      console.error(`Failed to refresh next service date for mower ${mower.id}:`, error);
+    }
+  }
+  return updated;
+}
@@ -0,0 +1,228 @@
+import type {
+  MaintenanceDueStatus,
+  MaintenancePlanItem,
+  MaintenancePlanWithItems,
+  MaintenanceSchedule,
+  MaintenanceScheduleItem,
+  MeterReading,
+  Mower,
+  ServiceRecord,
+} from "@shared/schema";
+import { estimateHoursPerDay, hourMeterReadings, totalHoursAt } from "./hourMeter";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Items due within this many days, or this many hours of use, are "due soon"
+export const DUE_SOON_DAYS = 30;
+export const DUE_SOON_HOURS = 10;
+
+const STATUS_RANK: Record<MaintenanceDueStatus, number> = { overdue: 0, due_soon: 1, upcoming: 2 };
+
+export type UpcomingServiceReminder = {
+  mower: Mower;
+  itemId: number | null; // null for mowers without a plan
+  serviceType: string;
+  daysUntilDue: number | null;
+  dueDate: Date | null;
+  hoursUntilDue: number | null;
+};
+
+// Dates are compared as UTC calendar days, matching how mower date columns are stored
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function addDays(dateString: string, days: number): string {
+  return toDateString(new Date(Date.parse(dateString) + days * DAY_MS));
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function sameText(a: string | null, b: string | null): boolean {
+  return (a ?? "").trim().toLowerCase() === (b ?? "").trim().toLowerCase();
+}
+
+function dueStatus(daysUntilDue: number | null, hoursUntilDue: number | null): MaintenanceDueStatus {
+  if ((daysUntilDue !== null && daysUntilDue < 0) || (hoursUntilDue !== null && hoursUntilDue < 0)) return "overdue";
+  if ((daysUntilDue !== null && daysUntilDue <= DUE_SOON_DAYS) ||
+      (hoursUntilDue !== null && hoursUntilDue <= DUE_SOON_HOURS)) return "due_soon";
+  return "upcoming";
+}
+
+function earliest(a: string | null, b: string | null): string | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return a < b ? a : b;
+}
+
+/**
+ * The plan that applies to a mower: the one assigned to it directly, otherwise
+ * the most specific make/model match (make + model beats make only; lowest id breaks ties).
+ */
+export function selectMaintenancePlan(
+  mower: Mower,
+  plans: MaintenancePlanWithItems[],
+): { plan: MaintenancePlanWithItems; assigned: boolean } | null {
+  if (mower.maintenancePlanId !== null) {
+    const assigned = plans.find((plan) => plan.id === mower.maintenancePlanId);
+    if (assigned) return { plan: assigned, assigned: true };
+  }
+  const matches = plans
+    .filter((plan) => plan.make && sameText(plan.make, mower.make) && (!plan.model || sameText(plan.model, mower.model)))
+    .sort((a, b) => Number(!!b.model) - Number(!!a.model) || a.id - b.id);
+  return matches.length > 0 ? { plan: matches[0], assigned: false } : null;
+}
+
+export function recordMatchesItem(record: ServiceRecord, item: MaintenancePlanItem): boolean {
+  return record.serviceType === item.serviceType &&
+    (!item.matchText || record.description.toLowerCase().includes(item.matchText.toLowerCase()));
+}
+
+/**
+ * Next due date of every item in the mower's plan, counted from the last matching
+ * service record. Items never done are counted from the purchase date (or are due
+ * today) and from 0 hours. Hour-based items are turned into a date using the usage
+ * rate, and each item is due by whichever of its triggers comes first.
+ */
+export function computeMaintenanceSchedule(
+  mower: Mower,
+  plans: MaintenancePlanWithItems[],
+  records: ServiceRecord[],
+  meterReadings: MeterReading[] = [],
+  today: Date = new Date(),
+): MaintenanceSchedule {
+  const readings = hourMeterReadings(
+    meterReadings.filter((reading) => reading.mowerId === mower.id),
+    records.filter((record) => record.mowerId === mower.id),
+  );
+  const latestReading = readings.length > 0 ? readings[readings.length - 1] : null;
+  const currentHours = latestReading?.hours ?? null;
+  const hoursPerDay = estimateHoursPerDay(readings);
+
+  const selected = selectMaintenancePlan(mower, plans);
+  if (!selected) return { mowerId: mower.id, plan: null, items: [], nextDueDate: null, currentHours, hoursPerDay };
+
+  const todayString = toDateString(today);
+  // Booked appointments do not count until they are completed
+  const newestFirst = records
+    .filter((record) => record.mowerId === mower.id && record.status === "completed")
+    .sort((a, b) => new Date(b.serviceDate).getTime() - new Date(a.serviceDate).getTime());
+
+  const items: MaintenanceScheduleItem[] = selected.plan.items.map((item) => {
+    const lastRecord = newestFirst.find((record) => recordMatchesItem(record, item));
+    const lastServiceDate = lastRecord ? toDateString(new Date(lastRecord.serviceDate)) : null;
+
+    let dateDue: string | null = null;
+    if (item.intervalDays) {
+      const baseline = lastServiceDate ?? mower.purchaseDate;
+      dateDue = baseline ? addDays(baseline, item.intervalDays) : todayString;
+    }
+
+    let nextDueHours: number | null = null;
+    let hoursUntilDue: number | null = null;
+    let hoursDue: string | null = null;
+    if (item.intervalHours) {
+      // Counted in total hours so a meter replacement since the last service does not reset the item
+      const baselineHours = !lastRecord ? 0 :
+        readings.find((reading) => reading.serviceRecordId === lastRecord.id)?.totalHours ??
+        totalHoursAt(readings, new Date(lastRecord.serviceDate));
+      const dueAtTotalHours = baselineHours + item.intervalHours;
+      nextDueHours = dueAtTotalHours;
+      if (latestReading) {
+        hoursUntilDue = dueAtTotalHours - latestReading.totalHours;
+        nextDueHours = latestReading.hours + hoursUntilDue; // as it will show on the current meter
+        if (hoursPerDay) hoursDue = addDays(todayString, Math.ceil(hoursUntilDue / hoursPerDay));
+      }
+    }
+
+    const nextDueDate = earliest(dateDue, hoursDue);
+    const daysUntilDue = nextDueDate ? daysBetween(todayString, nextDueDate) : null;
+    return {
+      itemId: item.id,
+      name: item.name,
+      serviceType: item.serviceType,
+      intervalDays: item.intervalDays,
+      intervalHours: item.intervalHours,
+      lastServiceDate,
+      lastServiceRecordId: lastRecord?.id ?? null,
+      nextDueDate,
+      daysUntilDue,
+      nextDueHours,
+      hoursUntilDue,
+      dueBy: dateDue === null || (hoursDue !== null && hoursDue < dateDue) ? "hours" : "days",
+      status: dueStatus(daysUntilDue, hoursUntilDue),
+    };
+  });
+  items.sort((a, b) =>
+    STATUS_RANK[a.status] - STATUS_RANK[b.status] ||
+    (a.daysUntilDue ?? Infinity) - (b.daysUntilDue ?? Infinity) ||
+    (a.hoursUntilDue ?? Infinity) - (b.hoursUntilDue ?? Infinity));
+
+  return {
+    mowerId: mower.id,
+    plan: { id: selected.plan.id, name: selected.plan.name, assigned: selected.assigned },
+    items,
+    nextDueDate: items.reduce<string | null>((soonest, item) => earliest(soonest, item.nextDueDate), null),
+    currentHours,
+    hoursPerDay,
+  };
+}
+
+/**
+ * Value for mowers.nextServiceDate: the soonest plan item, or for mowers
+ * without a plan one year after the last service.
+ */
+export function nextServiceDateFor(schedule: MaintenanceSchedule, lastServiceDate: Date): string {
+  if (schedule.nextDueDate) return schedule.nextDueDate;
+  const nextServiceDate = new Date(lastServiceDate);
+  nextServiceDate.setFullYear(nextServiceDate.getFullYear() + 1);
+  return toDateString(nextServiceDate);
+}
+
+/**
+ * Service reminders for the fleet: every plan item that is overdue or due soon
+ * (by date or by hours), and for mowers without a plan their next service date
+ * when it falls within DUE_SOON_DAYS. Retired mowers are skipped.
+ */
+export function upcomingServiceReminders(
+  mowers: Mower[],
+  plans: MaintenancePlanWithItems[],
+  records: ServiceRecord[],
+  meterReadings: MeterReading[],
+  today: Date = new Date(),
+): UpcomingServiceReminder[] {
+  const todayString = toDateString(today);
+  const reminders: UpcomingServiceReminder[] = [];
+  for (const mower of mowers) {
+    if (mower.status === "retired") continue;
+    const schedule = computeMaintenanceSchedule(mower, plans, records, meterReadings, today);
+
+    if (schedule.plan) {
+      for (const item of schedule.items) {
+        if (item.status === "upcoming") continue;
+        reminders.push({
+          mower,
+          itemId: item.itemId,
+          serviceType: item.name,
+          daysUntilDue: item.daysUntilDue,
+          dueDate: item.nextDueDate ? new Date(item.nextDueDate) : null,
+          hoursUntilDue: item.hoursUntilDue,
+        });
+      }
+    } else if (mower.nextServiceDate) {
+      const daysUntilDue = daysBetween(todayString, mower.nextServiceDate);
+      if (daysUntilDue > DUE_SOON_DAYS) continue;
+      reminders.push({
+        mower,
+        itemId: null,
+        serviceType: "Scheduled Maintenance",
+        daysUntilDue,
+        dueDate: new Date(mower.nextServiceDate),
+        hoursUntilDue: null,
+      });
+    }
+  }
+  return reminders;
+}
@@ -0,0 +1,85 @@
+import type { InsertMeterReading, MeterReading, MeterReadingHistory, Mower } from "@shared/schema";
+import { storage } from "./storage";
+import { checkMeterReading, estimateHoursPerDay, hourMeterReadings, toMeterReadingPoints, type HourMeterReading } from "./hourMeter";
+import { refreshNextServiceDates } from "./maintenancePlans";
+import type { HourMeterState } from "./taskRecurrence";
+
+export type MeterAsset = { type: "mower" | "engine"; id: string };
+
+// A mower's history also includes the hours entered on its service records
+async function loadReadings(asset: MeterAsset): Promise<{ logged: MeterReading[]; readings: HourMeterReading[] }> {
+  if (asset.type === "engine") {
+    const logged = await storage.getMeterReadingsByEngineId(asset.id);
+    return { logged, readings: hourMeterReadings(logged) };
+  }
+  const [logged, records] = await Promise.all([
+    storage.getMeterReadingsByMowerId(asset.id),
+    storage.getServiceRecordsByMowerId(asset.id),
+  ]);
+  return { logged, readings: hourMeterReadings(logged, records) };
+}
+
+export async function getMeterReadingHistory(asset: MeterAsset): Promise<MeterReadingHistory> {
+  const { logged, readings } = await loadReadings(asset);
+  const hoursPerDay = estimateHoursPerDay(readings);
+  return {
+    readings: logged.sort((a, b) => new Date(b.readingDate).getTime() - new Date(a.readingDate).getTime()),
+    points: toMeterReadingPoints(readings),
+    currentHours: readings.length > 0 ? readings[readings.length - 1].hours : null,
+    hoursPerWeek: hoursPerDay === null ? null : Math.round(hoursPerDay * 7 * 10) / 10,
+  };
+}
+
+// Latest hours on the asset's meter and its recent usage rate
+export async function getHourMeterState(asset: MeterAsset): Promise<HourMeterState> {
+  const { readings } = await loadReadings(asset);
+  return {
+    currentHours: readings.length > 0 ? readings[readings.length - 1].hours : null,
+    hoursPerDay: estimateHoursPerDay(readings),
+  };
+}
+
+/**
+ * Why the reading cannot be saved for the asset, or null when it fits the
+ * asset's existing readings.
+ */
+export async function validateMeterReading(asset: MeterAsset, reading: InsertMeterReading): Promise<string | null> {
+  const { readings } = await loadReadings(asset);
+  return checkMeterReading(readings, {
+    hours: reading.hours,
+    readingDate: reading.readingDate,
+    isMeterReplacement: reading.isMeterReplacement ?? false,
+  });
+}
+
+/**
+ * Saves a reading that passed validateMeterReading. For mowers the current hour
+ * meter and the plan-based next service date follow the new reading.
+ */
+export async function recordMeterReading(asset: MeterAsset, reading: InsertMeterReading): Promise<MeterReading> {
+  const created = await storage.createMeterReading({
+    ...reading,
+    mowerId: asset.type === "mower" ? parseInt(asset.id) : null,
+    engineId: asset.type === "engine" ? parseInt(asset.id) : null,
+  });
+  if (asset.type === "mower") {
+    await syncMowerHourMeter(asset.id);
+    await refreshNextServiceDates([asset.id]);
+  }
+  return created;
+}
+
+/**
+ * Points mowers.currentHours at the mower's latest reading after readings or
+ * service record hours changed. Returns the mower when it was updated.
+ */
+export async function syncMowerHourMeter(mowerId: string): Promise<Mower | undefined> {
+  const mower = await storage.getMower(mowerId);
+  if (!mower) return undefined;
+  const { readings } = await loadReadings({ type: "mower", id: mowerId });
+  const latest = readings.length > 0 ? readings[readings.length - 1] : null;
+
+  const recordedAt = mower.currentHoursRecordedAt ? new Date(mower.currentHoursRecordedAt).getTime() : null;
+  if (mower.currentHours === (latest?.hours ?? null) && recordedAt === (latest?.date.getTime() ?? null)) return undefined;
+  return storage.setMowerHourMeter(mowerId, latest?.hours ?? null, latest?.date ?? null);
+}
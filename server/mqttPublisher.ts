@@ -0,0 +1,338 @@
+import { connect, connectAsync, type IClientOptions, type MqttClient } from "mqtt";
+import type { Mower, MqttSettings, MqttSettingsInput, MqttSettingsView } from "@shared/schema";
+import { storage, type MqttSettingsSave } from "./storage";
+import { webSocketService, type WebSocketMessage } from "./websocketService";
+
+// Settings shown before any are saved; the publisher stays off until enabled
+const DEFAULT_SETTINGS: MqttSettingsSave = {
+  enabled: false,
+  brokerUrl: "mqtt://localhost:1883",
+  username: null,
+  password: null,
+  topicPrefix: "mowerm8",
+  discoveryEnabled: true,
+  discoveryPrefix: "homeassistant",
+};
+
+// Events that can change a mower's state topic; they trigger a resync after SYNC_DELAY_MS
+const STATE_EVENT_PREFIXES = ["asset-", "service-", "task-"];
+const SYNC_DELAY_MS = 2 * 1000;
+
+// Hours estimates and due dates move without any event, so everything is republished this often too
+const RESYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+const RECONNECT_PERIOD_MS = 10 * 1000;
+const CONNECT_TIMEOUT_MS = 10 * 1000;
+
+interface MowerState {
+  id: number;
+  name: string;
+  make: string;
+  model: string;
+  serialNumber: string | null;
+  location: string | null;
+  status: string;
+  condition: string;
+  hours: number | null;
+  lastServiceDate: string | null;
+  nextServiceDate: string | null;
+  openTasks: number;
+  updatedAt: string;
+}
+
+// Home Assistant sensors created for every mower, read from its state topic
+const DISCOVERY_SENSORS = [
+  { key: "status", name: "Status", icon: "mdi:robot-mower", extra: {} },
+  { key: "hours", name: "Hours", icon: "mdi:timer-outline", extra: { unit_of_measurement: "h", device_class: "duration", state_class: "total_increasing" } },
+  { key: "nextServiceDate", name: "Next Service", icon: "mdi:wrench-clock", extra: { device_class: "date" } },
+  { key: "openTasks", name: "Open Tasks", icon: "mdi:clipboard-list-outline", extra: { state_class: "measurement" } },
+] as const;
+
+let client: MqttClient | null = null;
+let active: MqttSettings | null = null;
+let lastError: string | null = null;
+let lastPublishedAt: Date | null = null;
+let syncTimer: NodeJS.Timeout | null = null;
+
+// Mowers with retained topics on the broker, so deleted ones can be cleared. Besides what
+// this process published, it holds the retained state topics the broker sends back on
+// connect, so topics of mowers deleted before a restart are found too.
+const publishedMowerIds = new Set<number>();
+
+const availabilityTopic = (settings: MqttSettingsSave) => `${settings.topicPrefix}/status`;
+const stateTopic = (settings: MqttSettingsSave, mowerId: number) => `${settings.topicPrefix}/mower/${mowerId}/state`;
+const stateTopicFilter = (settings: MqttSettingsSave) => `${settings.topicPrefix}/mower/+/state`;
+const eventTopic = (settings: MqttSettingsSave, type: string) => `${settings.topicPrefix}/events/${type}`;
+
+// Discovery object ids may only use letters, digits, _ and -
+const deviceId = (settings: MqttSettingsSave, mowerId: number) =>
+  `${settings.topicPrefix.replace(/[^a-zA-Z0-9_-]+/g, "_")}_mower_${mowerId}`;
+
+const discoveryTopic = (settings: MqttSettingsSave, mowerId: number, key: string) =>
+  `${settings.discoveryPrefix}/sensor/${deviceId(settings, mowerId)}/${key}/config`;
+
+const mowerName = (mower: Pick<Mower, "make" | "model" | "serialNumber">) =>
+  `${mower.make} ${mower.model}${mower.serialNumber ? ` (${mower.serialNumber})` : ""}`;
+
+function clientOptions(settings: MqttSettingsSave, extra: IClientOptions = {}): IClientOptions {
+  return {
+    username: settings.username ?? undefined,
+    password: settings.password ?? undefined,
+    clientId: `mowerm8_${Math.random().toString(16).slice(2, 10)}`,
+    connectTimeout: CONNECT_TIMEOUT_MS,
+    ...extra,
+  };
+}
+
+function publish(topic: string, payload: string, retain: boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!client?.connected) return resolve();
+    client.publish(topic, payload, { qos: 1, retain }, (error) => {
+      if (error) return reject(error);
+      lastPublishedAt = new Date();
+      resolve();
+    });
+  });
+}
+
+async function mowerStates(): Promise<MowerState[]> {
+  const [mowers, tasks] = await Promise.all([storage.getAllMowers(), storage.getAllTasks()]);
+  const openTasks = new Map<number, number>();
+  for (const task of tasks) {
+    if (task.mowerId === null || task.status === "completed" || task.status === "cancelled") continue;
+    openTasks.set(task.mowerId, (openTasks.get(task.mowerId) ?? 0) + 1);
+  }
+  const now = new Date().toISOString();
+  return mowers.map((mower) => ({
+    id: mower.id,
+    name: mowerName(mower),
+    make: mower.make,
+    model: mower.model,
+    serialNumber: mower.serialNumber,
+    location: mower.location,
+    status: mower.status,
+    condition: mower.condition,
+    hours: mower.currentHours,
+    lastServiceDate: mower.lastServiceDate,
+    nextServiceDate: mower.nextServiceDate,
+    openTasks: openTasks.get(mower.id) ?? 0,
+    updatedAt: now,
+  }));
+}
+
+/**
+ * Home Assistant MQTT discovery configs for one mower: a device per mower with
+ * a sensor per DISCOVERY_SENSORS entry, all reading the mower's state topic
+ * and going unavailable when the publisher's availability topic says offline.
+ */
+function discoveryConfigs(settings: MqttSettingsSave, state: MowerState): { topic: string; payload: object }[] {
+  const device = deviceId(settings, state.id);
+  return DISCOVERY_SENSORS.map((sensor) => ({
+    topic: discoveryTopic(settings, state.id, sensor.key),
+    payload: {
+      name: sensor.name,
+      unique_id: `${device}_${sensor.key}`,
+      state_topic: stateTopic(settings, state.id),
+      // "None" leaves the sensor unknown rather than failing to parse a missing date or reading
+      value_template: `{{ value_json.${sensor.key} if value_json.${sensor.key} is not none else 'None' }}`,
+      ...(sensor.key === "status" ? { json_attributes_topic: stateTopic(settings, state.id) } : {}),
+      availability_topic: availabilityTopic(settings),
+      payload_available: "online",
+      payload_not_available: "offline",
+      icon: sensor.icon,
+      ...sensor.extra,
+      device: {
+        identifiers: [device],
+        name: state.name,
+        manufacturer: state.make,
+        model: state.model,
+        ...(state.serialNumber ? { serial_number: state.serialNumber } : {}),
+      },
+      origin: { name: "MowerM8" },
+    },
+  }));
+}
+
+/**
+ * Publishes every mower's retained state topic (and discovery configs when
+ * enabled), and clears the retained topics of mowers that no longer exist so
+ * they drop out of Home Assistant.
+ */
+export async function syncMowerTopics(): Promise<number> {
+  const settings = active;
+  if (!settings || !client?.connected) return 0;
+  const states = await mowerStates();
+  for (const state of states) {
+    await publish(stateTopic(settings, state.id), JSON.stringify(state), true);
+    if (settings.discoveryEnabled) {
+      for (const config of discoveryConfigs(settings, state)) {
+        await publish(config.topic, JSON.stringify(config.payload), true);
+      }
+    }
+  }
+
+  const current = new Set(states.map((state) => state.id));
+  for (const mowerId of Array.from(publishedMowerIds)) {
+    if (current.has(mowerId)) continue;
+    await publish(stateTopic(settings, mowerId), "", true);
+    if (settings.discoveryEnabled) {
+      for (const sensor of DISCOVERY_SENSORS) await publish(discoveryTopic(settings, mowerId, sensor.key), "", true);
+    }
+    publishedMowerIds.delete(mowerId);
+  }
+  states.forEach((state) => publishedMowerIds.add(state.id));
+  return states.length;
+}
+
+// Retained messages are flagged as such only when the broker replays them on subscribe
+function trackRetainedStateTopic(settings: MqttSettingsSave, topic: string, payload: Buffer, retained: boolean) {
+  const match = retained && payload.length > 0 && topic.match(/\/mower\/(\d+)\/state$/);
+  if (match && topic === stateTopic(settings, Number(match[1]))) publishedMowerIds.add(Number(match[1]));
+}
+
+function scheduleSync() {
+  if (syncTimer) return;
+  syncTimer = setTimeout(() => {
+    syncTimer = null;
+    syncMowerTopics().catch((error) => console.error("Failed to publish mower topics to MQTT:", error));
+  }, SYNC_DELAY_MS);
+  syncTimer.unref();
+}
+
+// Mirrors a WebSocket event to <prefix>/events/<type> (not retained) and refreshes the mower topics it may affect
+function publishEvent(message: WebSocketMessage) {
+  if (!active || !client?.connected) return;
+  publish(eventTopic(active, message.type), JSON.stringify(message), false)
+    .catch((error) => console.error(`Failed to publish ${message.type} to MQTT:`, error));
+  if (STATE_EVENT_PREFIXES.some((prefix) => message.type.startsWith(prefix))) scheduleSync();
+}
+
+// Which retained topics of the previous settings the next ones no longer publish to
+function staleTopics(previous: MqttSettings, next: MqttSettings | undefined): { state: boolean; discovery: boolean } {
+  const state = !next?.enabled || next.brokerUrl !== previous.brokerUrl || next.topicPrefix !== previous.topicPrefix;
+  const discovery = previous.discoveryEnabled && (state || !next?.discoveryEnabled || next.discoveryPrefix !== previous.discoveryPrefix);
+  return { state, discovery };
+}
+
+// Empty retained payloads delete the topics, so Home Assistant drops the old devices instead of keeping duplicates
+async function clearRetainedTopics(settings: MqttSettings, stale: { state: boolean; discovery: boolean }): Promise<void> {
+  const mowerIds = new Set([...Array.from(publishedMowerIds), ...(await storage.getAllMowers()).map((mower) => mower.id)]);
+  for (const mowerId of Array.from(mowerIds)) {
+    if (stale.state) await publish(stateTopic(settings, mowerId), "", true);
+    if (stale.discovery) {
+      for (const sensor of DISCOVERY_SENSORS) await publish(discoveryTopic(settings, mowerId, sensor.key), "", true);
+    }
+  }
+}
+
+// Leaves the availability topic saying offline, or removes it when the publisher is done with that prefix
+async function disconnect(clearAvailability: boolean): Promise<void> {
+  const previous = client;
+  const previousSettings = active;
+  client = null;
+  active = null;
+  publishedMowerIds.clear();
+  if (!previous) return;
+  if (previous.connected && previousSettings) {
+    await new Promise<void>((resolve) => {
+      previous.publish(availabilityTopic(previousSettings), clearAvailability ? "" : "offline", { qos: 1, retain: true }, () => resolve());
+    });
+  }
+  await previous.endAsync();
+}
+
+/**
+ * (Re)connects the publisher with the given settings, or stops it when they
+ * are missing or disabled. The broker is told the publisher is offline both
+ * on a clean stop and, through the last will, when the connection drops.
+ * Retained topics the new settings no longer use (another prefix or broker,
+ * discovery off, publisher off) are cleared first with the old settings.
+ */
+export async function applyMqttSettings(settings: MqttSettings | undefined): Promise<void> {
+  const stale = active && staleTopics(active, settings);
+  if (active && stale && client?.connected) {
+    await clearRetainedTopics(active, stale).catch((error) => console.error("Failed to clear old MQTT topics:", error));
+  }
+  await disconnect(stale?.state ?? false);
+  lastError = null;
+  if (!settings?.enabled) return;
+
+  active = settings;
+  const connection = connect(settings.brokerUrl, clientOptions(settings, {
+    reconnectPeriod: RECONNECT_PERIOD_MS,
+    will: { topic: availabilityTopic(settings), payload: Buffer.from("offline"), qos: 1, retain: true },
+  }));
+  client = connection;
+  connection.on("connect", () => {
+    if (client !== connection) return;
+    lastError = null;
+    connection.subscribeAsync(stateTopicFilter(settings), { qos: 1 })
+      .then(() => publish(availabilityTopic(settings), "online", true))
+      .then(() => syncMowerTopics())
+      .catch((error) => console.error("Failed to publish mower topics to MQTT:", error));
+  });
+  connection.on("message", (topic, payload, packet) => {
+    if (client === connection) trackRetainedStateTopic(settings, topic, payload, packet.retain);
+  });
+  connection.on("error", (error) => {
+    if (client !== connection) return;
+    lastError = error.message;
+    console.error(`MQTT connection to ${settings.brokerUrl} failed:`, error.message);
+  });
+}
+
+// Connects once with settings that may not be saved yet and publishes to <prefix>/test
+export async function testMqttConnection(settings: MqttSettingsSave): Promise<void> {
+  const testClient = await connectAsync(settings.brokerUrl, clientOptions(settings, { reconnectPeriod: 0 }));
+  try {
+    await testClient.publishAsync(`${settings.topicPrefix}/test`, JSON.stringify({
+      message: "MowerM8 can publish to this broker",
+      timestamp: new Date().toISOString(),
+    }), { qos: 1 });
+  } finally {
+    await testClient.endAsync();
+  }
+}
+
+// Fills in the saved password when the form leaves it out
+export async function resolveMqttSettings(input: MqttSettingsInput): Promise<MqttSettingsSave> {
+  const saved = await storage.getMqttSettings();
+  return {
+    enabled: input.enabled,
+    brokerUrl: input.brokerUrl,
+    username: input.username,
+    password: input.password === undefined ? saved?.password ?? null : input.password || null,
+    topicPrefix: input.topicPrefix,
+    discoveryEnabled: input.discoveryEnabled,
+    discoveryPrefix: input.discoveryPrefix,
+  };
+}
+
+export async function getMqttSettingsView(): Promise<MqttSettingsView> {
+  const { password, ...settings } = (await storage.getMqttSettings()) ?? DEFAULT_SETTINGS;
+  return {
+    settings: {
+      enabled: settings.enabled,
+      brokerUrl: settings.brokerUrl,
+      username: settings.username,
+      topicPrefix: settings.topicPrefix,
+      discoveryEnabled: settings.discoveryEnabled,
+      discoveryPrefix: settings.discoveryPrefix,
+      hasPassword: Boolean(password),
+    },
+    status: {
+      connected: Boolean(client?.connected),
+      lastError,
+      lastPublishedAt: lastPublishedAt?.toISOString() ?? null,
+    },
+  };
+}
+
+// Connects with the saved settings and mirrors the WebSocket events from then on
+export async function startMqttPublisher(): Promise<void> {
+  webSocketService.onBroadcast(publishEvent);
+  setInterval(() => {
+    syncMowerTopics().catch((error) => console.error("Failed to publish mower topics to MQTT:", error));
+  }, RESYNC_INTERVAL_MS).unref();
+  await applyMqttSettings(await storage.getMqttSettings());
+}
@@ -0,0 +1,192 @@
+import type { InsertNotification, Mower } from "@shared/schema";
+import { storage } from "./storage";
+import { NotificationService } from "./notificationService";
+import { taskAssetUrl } from "./tasks";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How often the rules run and how far ahead they look; NOTIFICATION_RULES_INTERVAL_MINUTES=0 turns them off
+const INTERVAL_MINUTES = Number(process.env.NOTIFICATION_RULES_INTERVAL_MINUTES ?? 60);
+const UPCOMING_SERVICE_DAYS = Number(process.env.NOTIFICATION_UPCOMING_SERVICE_DAYS ?? 7);
+const WARRANTY_DAYS = Number(process.env.NOTIFICATION_WARRANTY_DAYS ?? 30);
+
+// Give the server a moment to finish starting before the first run
+const FIRST_RUN_DELAY_MS = 30 * 1000;
+
+// A condition a rule found, with the notification to send the first time it is seen
+interface RuleHit {
+  key: string;
+  notification: InsertNotification;
+}
+
+export interface NotificationRulesResult {
+  created: number;
+  resolved: number;
+}
+
+const day = (date: Date | string) => (typeof date === "string" ? date.slice(0, 10) : date.toISOString().slice(0, 10));
+
+const mowerName = (mower: Pick<Mower, "make" | "model">) => `${mower.make} ${mower.model}`;
+
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? "" : "s"}`;
+
+// Overdue and upcoming services from the maintenance plans, or each mower's next service date
+async function serviceHits(): Promise<RuleHit[]> {
+  const reminders = await storage.getUpcomingServiceReminders();
+  return reminders.flatMap((reminder): RuleHit[] => {
+    const { mower, daysUntilDue, hoursUntilDue } = reminder;
+    // Plan items drop out of the reminders once serviced; a plain next service date is keyed by the date, which moves instead
+    const item = reminder.itemId !== null ? `${mower.id}:${reminder.itemId}` : `${mower.id}:next:${reminder.dueDate ? day(reminder.dueDate) : ""}`;
+    const base = {
+      entityType: "mower",
+      entityId: String(mower.id),
+      entityName: mowerName(mower),
+      detailUrl: `/mowers/${mower.id}`,
+    };
+
+    if ((daysUntilDue !== null && daysUntilDue < 0) || (hoursUntilDue !== null && hoursUntilDue <= 0)) {
+      const late = daysUntilDue !== null && daysUntilDue < 0
+        ? plural(-daysUntilDue, "day")
+        : plural(Math.abs(hoursUntilDue ?? 0), "hour");
+      return [{
+        key: `overdue-service:${item}`,
+        notification: {
+          ...base,
+          type: "error",
+          priority: "high",
+          title: "Service Overdue",
+          message: `${reminder.serviceType} for ${mowerName(mower)} is ${late} overdue`,
+        },
+      }];
+    }
+
+    // Hour-based items only show up here once they are within DUE_SOON_HOURS
+    if ((daysUntilDue !== null && daysUntilDue <= UPCOMING_SERVICE_DAYS) || (daysUntilDue === null && hoursUntilDue !== null)) {
+      const when = daysUntilDue === null ? `in ${plural(hoursUntilDue!, "hour")} of use`
+        : daysUntilDue === 0 ? "today"
+        : `in ${plural(daysUntilDue, "day")}`;
+      return [{
+        key: `upcoming-service:${item}`,
+        notification: {
+          ...base,
+          type: "warning",
+          priority: "medium",
+          title: "Service Due Soon",
+          message: `${reminder.serviceType} for ${mowerName(mower)} is due ${when}`,
+        },
+      }];
+    }
+    return [];
+  });
+}
+
+// Open tasks whose due date has passed
+async function overdueTaskHits(today: string): Promise<RuleHit[]> {
+  const tasks = await storage.getAllTasks();
+  return tasks
+    .filter((task) => task.dueDate && task.status !== "completed" && task.status !== "cancelled" && day(task.dueDate) < today)
+    .map((task) => ({
+      key: `overdue-task:${task.id}:${day(task.dueDate!)}`,
+      notification: {
+        type: "warning",
+        priority: task.priority === "high" || task.priority === "urgent" ? "high" : "medium",
+        title: "Task Overdue",
+        message: `Task "${task.title}" was due on ${day(task.dueDate!)}`,
+        entityType: "task",
+        entityId: task.id,
+        entityName: task.title,
+        detailUrl: taskAssetUrl(task) ?? "/tasks",
+      },
+    }));
+}
+
+// Parts at or below their minimum stock level, the same ones the reminders list
+async function lowStockHits(): Promise<RuleHit[]> {
+  const parts = await storage.getLowStockParts();
+  return parts.map((part) => ({
+    key: `low-stock:${part.id}`,
+    notification: {
+      type: "warning",
+      priority: part.stockQuantity === 0 ? "high" : "medium",
+      title: part.stockQuantity === 0 ? "Part Out of Stock" : "Part Low on Stock",
+      message: `Part "${part.name}" is down to ${part.stockQuantity} (minimum ${part.minStockLevel})`,
+      entityType: "part",
+      entityId: String(part.id),
+      entityName: part.name,
+      detailUrl: `/catalog/parts/${part.id}`,
+    },
+  }));
+}
+
+// Mowers in service whose warranty runs out within WARRANTY_DAYS
+async function warrantyHits(today: string): Promise<RuleHit[]> {
+  const mowers = await storage.getAllMowers();
+  const horizon = day(new Date(Date.parse(today) + WARRANTY_DAYS * DAY_MS));
+  return mowers
+    .filter((mower) => mower.status !== "retired" && mower.warrantyExpirationDate)
+    .filter((mower) => day(mower.warrantyExpirationDate!) >= today && day(mower.warrantyExpirationDate!) <= horizon)
+    .map((mower) => {
+      const expires = day(mower.warrantyExpirationDate!);
+      return {
+        key: `warranty:${mower.id}:${expires}`,
+        notification: {
+          type: "info",
+          priority: "medium",
+          title: "Warranty Expiring",
+          message: `The warranty on ${mowerName(mower)} expires on ${expires}`,
+          entityType: "mower",
+          entityId: String(mower.id),
+          entityName: mowerName(mower),
+          detailUrl: `/mowers/${mower.id}`,
+        },
+      };
+    });
+}
+
+let running = false;
+
+/**
+ * Checks every rule once. A condition is notified the first time a run finds
+ * it; later runs leave it alone for as long as it holds, and once it clears
+ * it is forgotten so it can be notified again if it comes back. Due dates are
+ * part of most keys, so a rescheduled service or task counts as a new condition.
+ */
+export async function runNotificationRules(now: Date = new Date()): Promise<NotificationRulesResult> {
+  if (running) return { created: 0, resolved: 0 };
+  running = true;
+  try {
+    const today = day(now);
+    const hits = (await Promise.all([serviceHits(), overdueTaskHits(today), lowStockHits(), warrantyHits(today)])).flat();
+    const known = new Set((await storage.getNotificationRuleHits()).map((hit) => hit.key));
+    const current = new Set(hits.map((hit) => hit.key));
+
+    let created = 0;
+    for (const hit of hits) {
+      if (known.has(hit.key)) continue;
+      const notification = await NotificationService.notify(hit.notification);
+      await storage.addNotificationRuleHit(hit.key, notification.id);
+      created++;
+    }
+    const resolved = await storage.removeNotificationRuleHits(Array.from(known).filter((key) => !current.has(key)));
+    return { created, resolved };
+  } finally {
+    running = false;
+  }
+}
+
+// Runs the rules shortly after start-up and then every INTERVAL_MINUTES
+export function startNotificationScheduler(): void {
+  if (!(INTERVAL_MINUTES > 0)) {
+    console.log("Notification rules are turned off (NOTIFICATION_RULES_INTERVAL_MINUTES=0)");
+    return;
+  }
+  const run = () => {
+    runNotificationRules()
+      .then(({ created, resolved }) => {
+        if (created || resolved) console.log(`Notification rules: ${created} new, ${resolved} resolved`);
+      })
+      .catch((error) => console.error("Failed to run notification rules:", error));
+  };
+  setTimeout(run, FIRST_RUN_DELAY_MS).unref();
+  setInterval(run, INTERVAL_MINUTES * 60 * 1000).unref();
+}
@@ -1,7 +1,18 @@
-import { type InsertNotification } from "@shared/schema";
+import { type InsertNotification, type Notification } from "@shared/schema";
 import { storage } from "./storage";
+import { webSocketService } from "./websocketService";
+import { queueNotificationEmails } from "./emailNotifications";
 
 export class NotificationService {
+  // Stores a notification, pushes it to connected clients so the bell updates without waiting for a poll,
+  // and emails it to users who want it straight away (in the background, so a slow mail server never holds up the caller)
+  static async notify(notification: InsertNotification): Promise<Notification> {
+    const created = await storage.createNotification(notification);
+    webSocketService.broadcastAssetEvent('notification-created', 'notification', created.id, { notification: created });
+    queueNotificationEmails(created).catch((error) => console.error('Failed to queue notification emails:', error));
+    return created;
+  }
+
   static async createPartNotification(action: 'created' | 'allocated' | 'deleted', partName: string, partId: string, mowerName?: string, mowerId?: string) {
     let title: string;
     let message: string;
@@ -43,7 +54,7 @@ export class NotificationService {
     };
 
     try {
-      await storage.createNotification(notification);
+      await NotificationService.notify(notification);
     } catch (error) {
       console.error('Failed to create part notification:', error);
     }
@@ -90,7 +101,7 @@ export class NotificationService {
     };
 
     try {
-      await storage.createNotification(notification);
+      await NotificationService.notify(notification);
     } catch (error) {
       console.error('Failed to create engine notification:', error);
     }
@@ -138,7 +149,7 @@ export class NotificationService {
     };
 
     try {
-      await storage.createNotification(notification);
+      await NotificationService.notify(notification);
     } catch (error) {
       console.error('Failed to create mower notification:', error);
     }
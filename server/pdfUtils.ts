@@ -214,4 +214,212 @@ export function getDocumentPageCount(fileBuffer: Buffer, fileName: string): numb
     default:
       return 1;
   }
-}
\ No newline at end of file
+}
+// tsvector values are limited to 1MB; keep well under it
+const MAX_SEARCH_TEXT_LENGTH = 500_000;
+
+/**
+ * Extract plain text from PDF and TXT attachments for full-text search.
+ * Returns an empty string for other file types or when nothing can be read.
+ */
+export async function extractSearchText(fileBuffer: Buffer, fileType: string): Promise<string> {
+  let text = '';
+  try {
+    if (fileType === 'pdf') {
+      const pdf = await import('pdf-parse');
+      const pdfData = await pdf.default(fileBuffer);
+      text = pdfData.text;
+    } else if (fileType === 'txt') {
+      text = fileBuffer.toString('utf-8');
+    }
+  } catch (error) {
+    console.warn('⚠ Text extraction failed:', error instanceof Error ? error.message : String(error));
+  }
+  // Postgres text columns cannot hold NUL characters
+  return text.replace(/\u0000/g, '').replace(/\s+/g, ' ').trim().slice(0, MAX_SEARCH_TEXT_LENGTH);
+}
+
+export interface JobSheet {
+  title: string;
+  subtitle: string;
+  asset: [label: string, value: string][]; // make, model, serial number...
+  photo: Buffer | null;
+  description: string | null;
+  checklists: { heading: string; items: { text: string; isDone: boolean }[] }[];
+  parts: { name: string; partNumber: string; binLocation: string | null; quantity: number }[];
+  serviceNotes: { date: Date; serviceType: string; description: string; performedBy: string | null }[];
+}
+
+// A4 in PDF points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+
+/**
+ * Render a printable job sheet: the asset with its photo, checklists with tick
+ * boxes, the parts to pull with their bin locations, previous service notes and
+ * a signature line. Long sheets continue on further pages.
+ */
+export async function renderJobSheetPdf(sheet: JobSheet): Promise<Buffer> {
+  // Dynamically import canvas to avoid initialization issues
+  const { createCanvas, loadImage } = await import('canvas');
+  const canvas = createCanvas(PAGE_WIDTH, PAGE_HEIGHT, 'pdf');
+  const ctx = canvas.getContext('2d');
+  const contentWidth = PAGE_WIDTH - 2 * MARGIN;
+  let y = MARGIN;
+
+  const setFont = (size: number, bold = false) => {
+    ctx.font = `${bold ? 'bold ' : ''}${size}px sans-serif`;
+    ctx.fillStyle = '#111111';
+  };
+  const ensureSpace = (height: number) => {
+    if (y + height <= PAGE_HEIGHT - MARGIN) return;
+    ctx.addPage(PAGE_WIDTH, PAGE_HEIGHT);
+    y = MARGIN;
+  };
+  const wrap = (text: string, width: number) => {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && ctx.measureText(candidate).width > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  };
+  const paragraph = (text: string, size = 10, indent = 0) => {
+    setFont(size);
+    for (const line of wrap(text, contentWidth - indent)) {
+      ensureSpace(size + 4);
+      ctx.fillText(line, MARGIN + indent, y + size);
+      y += size + 4;
+    }
+  };
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y += 12;
+    setFont(13, true);
+    ctx.fillText(text, MARGIN, y + 13);
+    y += 18;
+    ctx.strokeStyle = '#999999';
+    ctx.lineWidth = 0.5;
+    ctx.beginPath();
+    ctx.moveTo(MARGIN, y);
+    ctx.lineTo(PAGE_WIDTH - MARGIN, y);
+    ctx.stroke();
+    y += 6;
+  };
+
+  // Header: title, subtitle and the asset, with its photo on the right
+  setFont(18, true);
+  ctx.fillText(sheet.title, MARGIN, y + 18);
+  y += 26;
+  paragraph(sheet.subtitle, 10);
+  const headerTop = y + 6;
+  y = headerTop;
+  for (const [label, value] of sheet.asset) {
+    setFont(10, true);
+    ctx.fillText(`${label}:`, MARGIN, y + 10);
+    setFont(10);
+    ctx.fillText(value, MARGIN + 90, y + 10);
+    y += 15;
+  }
+  if (sheet.photo) {
+    try {
+      const image = await loadImage(sheet.photo);
+      const scale = Math.min(150 / image.width, 110 / image.height);
+      ctx.drawImage(image, PAGE_WIDTH - MARGIN - image.width * scale, headerTop, image.width * scale, image.height * scale);
+      y = Math.max(y, headerTop + image.height * scale);
+    } catch {
+      // Formats canvas cannot decode are left off the sheet
+    }
+  }
+
+  if (sheet.description) {
+    heading('Job');
+    paragraph(sheet.description);
+  }
+
+  for (const checklist of sheet.checklists) {
+    heading(checklist.heading);
+    if (checklist.items.length === 0) {
+      paragraph('[ ]  Done');
+      continue;
+    }
+    for (const item of checklist.items) {
+      setFont(10);
+      const lines = wrap(item.text, contentWidth - 20);
+      ensureSpace(lines.length * 14 + 4);
+      ctx.strokeStyle = '#111111';
+      ctx.lineWidth = 0.8;
+      ctx.strokeRect(MARGIN, y + 1, 10, 10);
+      if (item.isDone) {
+        ctx.beginPath();
+        ctx.moveTo(MARGIN + 2, y + 6);
+        ctx.lineTo(MARGIN + 4.5, y + 9);
+        ctx.lineTo(MARGIN + 8.5, y + 3);
+        ctx.stroke();
+      }
+      for (const line of lines) {
+        ctx.fillText(line, MARGIN + 20, y + 10);
+        y += 14;
+      }
+      y += 4;
+    }
+  }
+
+  heading('Parts to pull');
+  if (sheet.parts.length === 0) {
+    paragraph('No parts.');
+  } else {
+    const columns = [MARGIN, MARGIN + 230, MARGIN + 350, MARGIN + 450];
+    setFont(10, true);
+    ['Part', 'Part number', 'Bin', 'Qty'].forEach((label, i) => ctx.fillText(label, columns[i], y + 10));
+    y += 16;
+    setFont(10);
+    for (const part of sheet.parts) {
+      ensureSpace(14);
+      ctx.fillText(part.name, columns[0], y + 10, 220);
+      ctx.fillText(part.partNumber, columns[1], y + 10, 110);
+      ctx.fillText(part.binLocation || '—', columns[2], y + 10, 90);
+      ctx.fillText(String(part.quantity), columns[3], y + 10);
+      y += 14;
+    }
+  }
+
+  heading('Previous service');
+  if (sheet.serviceNotes.length === 0) {
+    paragraph('No service recorded yet.');
+  } else {
+    for (const note of sheet.serviceNotes) {
+      const by = note.performedBy ? ` by ${note.performedBy}` : '';
+      paragraph(`${note.date.toISOString().slice(0, 10)}  ${note.serviceType}${by}`, 10);
+      paragraph(note.description, 9, 12);
+      y += 4;
+    }
+  }
+
+  // Sign-off
+  ensureSpace(80);
+  y += 40;
+  ctx.strokeStyle = '#111111';
+  ctx.lineWidth = 0.8;
+  ctx.beginPath();
+  ctx.moveTo(MARGIN, y);
+  ctx.lineTo(MARGIN + 260, y);
+  ctx.moveTo(MARGIN + 320, y);
+  ctx.lineTo(PAGE_WIDTH - MARGIN, y);
+  ctx.stroke();
+  setFont(9);
+  ctx.fillText('Technician signature', MARGIN, y + 12);
+  ctx.fillText('Date', MARGIN + 320, y + 12);
+
+  return canvas.toBuffer('application/pdf');
+}
@@ -1,27 +1,102 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
-import { storage } from "./storage";
+import { storage, type ListResult } from "./storage";
 import {
   insertMowerSchema,
   insertTaskSchema,
+  updateTaskStatusSchema,
   insertServiceRecordSchema,
+  updateServiceRecordStatusSchema,
+  insertTechnicianSchema,
+  updateTechnicianSchema,
+  mergeTechniciansSchema,
   insertAttachmentSchema,
   insertEngineSchema,
   insertPartSchema,
   insertAssetPartSchema,
-  insertNotificationSchema
+  insertNotificationSchema,
+  registerUserSchema,
+  updateUserSchema,
+  auditQuerySchema,
+  searchQuerySchema,
+  mowerListQuerySchema,
+  serviceRecordListQuerySchema,
+  engineListQuerySchema,
+  partListQuerySchema,
+  notificationListQuerySchema,
+  calendarQuerySchema,
+  notificationPreferencesUpdateSchema,
+  notificationDeliveryQuerySchema,
+  insertWebhookSchema,
+  mqttSettingsSchema,
+  webhookDeliveryQuerySchema,
+  insertMaintenancePlanSchema,
+  insertMeterReadingSchema,
+  insertTaskChecklistItemSchema,
+  updateTaskChecklistItemSchema,
+  reorderTaskChecklistSchema,
+  insertTaskCommentSchema,
+  insertWorkOrderSchema,
+  updateWorkOrderSchema,
+  reserveWorkOrderPartSchema,
+  insertWorkOrderLaborSchema,
+  closeWorkOrderSchema,
+  type Attachment,
+  type Task,
+  type WorkOrder,
+  type PaginatedResponse
 } from "@shared/schema";
-import { processPDF, getDocumentPageCount, generateTxtThumbnail } from "./pdfUtils";
+import { processPDF, getDocumentPageCount, generateTxtThumbnail, extractSearchText, renderJobSheetPdf, type JobSheet } from "./pdfUtils";
+import { runSearch } from "./search";
+import { getMowerMaintenanceSchedule, getFleetMaintenanceSchedules, refreshNextServiceDates } from "./maintenancePlans";
+import { DUE_SOON_DAYS } from "./maintenanceSchedule";
+import { getMeterReadingHistory, validateMeterReading, recordMeterReading, syncMowerHourMeter, type MeterAsset } from "./meterReadings";
+import { completeTask, moveTask, getTaskBoard, getTaskAssignees, checkTaskAssignee, withInitialDueHours, withTaskActivity, getTaskCommentThread, getTasksForAsset, taskAsset, taskOwnerFields, type TaskAsset } from "./tasks";
+import { checkTaskRecurrence } from "./taskRecurrence";
+import { getMowerWorkOrders, getWorkOrderDetails, checkWorkOrderTasks, setWorkOrderTasks, reserveWorkOrderPart, addWorkOrderLabor, cancelWorkOrder, closeWorkOrder, deleteWorkOrder, isWorkOrderOpen } from "./workOrders";
+import { getWorkOrderJobSheet, getTaskJobSheet } from "./jobSheets";
+import { getTechniciansWithUsage, getDuplicateTechnicians, checkTechnicianName, createTechnician, updateTechnician, mergeTechnicians, laborFromRequest, performedByNames, saveServiceRecordLabor } from "./technicians";
+import { getMowerServiceRecords, getServiceRecordWithCosts, refreshServiceRecordCost, feesFromRequest, costOverrideFromRequest, changeServiceRecordStatus, getServiceAppointments } from "./serviceRecords";
+import { getCalendarEvents, renderCalendarFeed, newCalendarToken } from "./calendar";
 import { createBackup, validateBackupFile, restoreFromBackup, getBackupMetadata } from "./backup";
+import { storeAttachmentContent, readAttachmentContent, openAttachmentStream, releaseAttachmentContent } from "./attachmentFiles";
 import { NotificationService } from "./notificationService";
+import { runNotificationRules } from "./notificationRules";
+import { getNotificationPreferencesView, sendTestEmail, attemptDelivery, isEmailConfigured } from "./emailNotifications";
+import { newWebhookSecret, sendWebhookPing, attemptWebhookDelivery } from "./webhooks";
+import { applyMqttSettings, getMqttSettingsView, resolveMqttSettings, testMqttConnection } from "./mqttPublisher";
 import { webSocketService } from "./websocketService";
+import { hasPermission } from "@shared/permissions";
+import { setupAuth, requireAuth, requirePermission, authenticateUpgrade, hashPassword, toSafeUser } from "./auth";
 
 /**
  * Registers all API routes and returns the underlying HTTP server.
  */
 export async function registerRoutes(app: Express): Promise<Server> {
 
+  // ---------------------------------------------------------------------------
+  // Authentication (everything under /api below this point requires a session, except the calendar feed)
+  // ---------------------------------------------------------------------------
+  setupAuth(app);
+
+  // Calendar apps cannot log in, so the feed is read with the token in its URL instead of a session
+  app.get("/api/calendar.ics", async (req, res) => {
+    try {
+      const token = typeof req.query.token === "string" ? req.query.token : "";
+      const user = token ? await storage.getUserByCalendarToken(token) : undefined;
+      if (!user || !user.isActive) return res.status(401).json({ error: "Invalid calendar feed token" });
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", 'inline; filename="mowerm8.ics"');
+      res.setHeader("Cache-Control", "private, max-age=900");
+      res.send(await renderCalendarFeed(`${req.protocol}://${req.get("host")}`));
+    } catch {
+      res.status(500).json({ error: "Failed to build calendar feed" });
+    }
+  });
+
+  app.use("/api", requireAuth);
+
   // ---------------------------------------------------------------------------
   // File Upload Configuration
   // ---------------------------------------------------------------------------
@@ -109,12 +184,205 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return s ? s.split("T")[0] : null;
   }
 
+  /**
+   * Sets ETag/Last-Modified and answers 304 when the client's cached copy is
+   * still current (If-None-Match / If-Modified-Since). Returns true if it responded.
+   */
+  function respondIfNotModified(req: Request, res: Response, etag: string, lastModified: Date) {
+    res.setHeader("ETag", etag);
+    res.setHeader("Last-Modified", lastModified.toUTCString());
+    if (!req.fresh) return false;
+    res.status(304).end();
+    return true;
+  }
+
+  // Attachments as returned by the API: without legacy base64 content or extracted search text
+  function toAttachmentResponse({ legacyFileData: _data, textContent: _text, ...attachment }: Attachment) {
+    return attachment;
+  }
+
+  // Attachment content never changes once uploaded, so the blob hash is a strong validator
+  function attachmentETag(attachment: Attachment, variant?: string) {
+    return `"${attachment.contentHash ?? attachment.id}${variant ? `-${variant}` : ""}"`;
+  }
+
+  // Same-content check for If-Range: a partial response is only valid against the copy the client already has
+  function ifRangeMatches(req: Request, etag: string, lastModified: Date) {
+    const ifRange = req.get("If-Range");
+    if (!ifRange) return true;
+    if (ifRange.startsWith('"') || ifRange.startsWith("W/")) return ifRange === etag;
+    return Date.parse(ifRange) >= Math.floor(lastModified.getTime() / 1000) * 1000;
+  }
+
+  // Job sheets open in the browser's PDF viewer, ready to print
+  async function sendJobSheet(res: Response, sheet: JobSheet, name: string) {
+    const pdf = await renderJobSheetPdf(sheet);
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `inline; filename="${name}.pdf"`);
+    res.send(pdf);
+  }
+
+  // List endpoints return a plain array unless the client asked for a page
+  function sendList<T>(res: Response, query: { page?: number; pageSize: number }, result: ListResult<T>) {
+    if (query.page === undefined) return res.json(result.items);
+    const body: PaginatedResponse<T> = { ...result, page: query.page, pageSize: query.pageSize };
+    res.json(body);
+  }
+
+  // ---------------------------------------------------------------------------
+  // User Routes
+  // ---------------------------------------------------------------------------
+  app.get("/api/users", requirePermission("users:manage"), async (_req, res) => {
+    try { res.json((await storage.getAllUsers()).map(toSafeUser)); }
+    catch { res.status(500).json({ error: "Failed to fetch users" }); }
+  });
+
+  // Names of the users tasks can be assigned to; open to everyone who can see tasks
+  app.get("/api/users/assignees", async (_req, res) => {
+    try { res.json(await getTaskAssignees()); }
+    catch { res.status(500).json({ error: "Failed to fetch assignees" }); }
+  });
+
+  app.post("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const data = registerUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(data.username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+      const user = await storage.createUser({
+        username: data.username,
+        displayName: data.displayName || null,
+        role: data.role,
+        passwordHash: await hashPassword(data.password),
+      });
+      res.status(201).json(toSafeUser(user));
+    } catch (error) {
+      res.status(400).json({ error: "Invalid user data", details: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.put("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getUser(id);
+      if (!existing) return res.status(404).json({ error: "User not found" });
+
+      const data = updateUserSchema.parse(req.body);
+      const losesAdmin = existing.role === "admin" && existing.isActive &&
+        ((data.role !== undefined && data.role !== "admin") || data.isActive === false);
+      if (losesAdmin) {
+        const activeAdmins = (await storage.getAllUsers()).filter(u => u.role === "admin" && u.isActive);
+        if (activeAdmins.length <= 1) {
+          return res.status(400).json({ error: "At least one active admin account is required" });
+        }
+      }
+
+      const { password, ...rest } = data;
+      const updated = await storage.updateUser(id, {
+        ...rest,
+        ...(password ? { passwordHash: await hashPassword(password) } : {}),
+      });
+      if (!updated) return res.status(404).json({ error: "User not found" });
+      res.json(toSafeUser(updated));
+    } catch (error) {
+      res.status(400).json({ error: "Invalid user data", details: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Technician Routes
+  // ---------------------------------------------------------------------------
+  app.get("/api/technicians", async (_req, res) => {
+    try { res.json(await getTechniciansWithUsage()); }
+    catch { res.status(500).json({ error: "Failed to fetch technicians" }); }
+  });
+
+  // Groups of technicians whose names look like the same person, to offer merging
+  app.get("/api/technicians/duplicates", async (_req, res) => {
+    try { res.json(await getDuplicateTechnicians()); }
+    catch { res.status(500).json({ error: "Failed to fetch duplicate technicians" }); }
+  });
+
+  app.post("/api/technicians", requirePermission("technicians:write"), async (req, res) => {
+    try {
+      const parsed = insertTechnicianSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid technician data", details: parsed.error.errors });
+      const nameError = await checkTechnicianName(parsed.data.name, null);
+      if (nameError) return res.status(409).json({ error: nameError });
+      res.status(201).json(await createTechnician(parsed.data));
+    } catch {
+      res.status(500).json({ error: "Failed to create technician" });
+    }
+  });
+
+  app.put("/api/technicians/:id", requirePermission("technicians:write"), async (req, res) => {
+    try {
+      const parsed = updateTechnicianSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid technician data", details: parsed.error.errors });
+      const id = parseInt(req.params.id);
+      if (!(await storage.getTechnician(id))) return res.status(404).json({ error: "Technician not found" });
+      const nameError = parsed.data.name !== undefined ? await checkTechnicianName(parsed.data.name, id) : null;
+      if (nameError) return res.status(409).json({ error: nameError });
+      const technician = await updateTechnician(id, parsed.data);
+      if (!technician) return res.status(404).json({ error: "Technician not found" });
+      res.json(technician);
+    } catch {
+      res.status(500).json({ error: "Failed to update technician" });
+    }
+  });
+
+  // Technicians with service records keep their history; they can be merged or made inactive instead
+  app.delete("/api/technicians/:id", requirePermission("technicians:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const labor = await storage.getAllServiceRecordLabor();
+      if (labor.some((entry) => entry.technicianId === id)) {
+        return res.status(400).json({ error: "Technician has service records", details: "Merge the technician into another one or mark them inactive instead" });
+      }
+      const deleted = await storage.deleteTechnician(id);
+      if (!deleted) return res.status(404).json({ error: "Technician not found" });
+      res.status(204).send();
+    } catch {
+      res.status(500).json({ error: "Failed to delete technician" });
+    }
+  });
+
+  // Folds the technicians in sourceIds into this one; their service records now name it
+  app.post("/api/technicians/:id/merge", requirePermission("technicians:manage"), async (req, res) => {
+    try {
+      const parsed = mergeTechniciansSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid merge", details: parsed.error.errors });
+      const target = await storage.getTechnician(parseInt(req.params.id));
+      if (!target) return res.status(404).json({ error: "Technician not found" });
+      const sourceIds = Array.from(new Set(parsed.data.sourceIds));
+      if (sourceIds.includes(target.id)) return res.status(400).json({ error: "Invalid merge", details: "A technician cannot be merged into itself" });
+      for (const sourceId of sourceIds) {
+        if (!(await storage.getTechnician(sourceId))) return res.status(404).json({ error: "Technician not found" });
+      }
+      const serviceRecords = await mergeTechnicians(target, sourceIds);
+      for (const serviceRecord of serviceRecords) {
+        webSocketService.broadcastAssetEvent("service-updated", "service-record", serviceRecord.id, { serviceRecord, mowerId: serviceRecord.mowerId });
+      }
+      res.json({ technician: target, serviceRecordCount: serviceRecords.length });
+    } catch {
+      res.status(500).json({ error: "Failed to merge technicians" });
+    }
+  });
+
   // ---------------------------------------------------------------------------
   // Mower Routes
   // ---------------------------------------------------------------------------
-  app.get("/api/mowers", async (_req, res) => {
-    try { res.json(await storage.getAllMowers()); }
-    catch { res.status(500).json({ error: "Failed to fetch mowers" }); }
+  // e.g. /api/mowers?page=1&pageSize=25&sort=-nextServiceDate&status=active&q=toro
+  app.get("/api/mowers", async (req, res) => {
+    try {
+      const query = mowerListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid mower query", details: query.error.message });
+      }
+      sendList(res, query.data, await storage.listMowers(query.data));
+    } catch {
+      res.status(500).json({ error: "Failed to fetch mowers" });
+    }
   });
 
   app.get("/api/mowers/:id", async (req, res) => {
@@ -127,19 +395,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/mowers", async (req, res) => {
+  app.post("/api/mowers", requirePermission("mowers:write"), async (req, res) => {
     try {
       const transformed = {
         ...req.body,
         purchaseDate: sanitizeDateString(req.body.purchaseDate),
+        warrantyExpirationDate: sanitizeDateString(req.body.warrantyExpirationDate),
         lastServiceDate: sanitizeDateString(req.body.lastServiceDate),
         nextServiceDate: sanitizeDateString(req.body.nextServiceDate),
         purchasePrice: req.body.purchasePrice || null,
         serialNumber: req.body.serialNumber || null,
         notes: req.body.notes || null
       };
-      const validated = insertMowerSchema.parse(transformed);
-      const mower = await storage.createMower(validated);
+      const { currentHours, ...validated } = insertMowerSchema.parse(transformed);
+      let mower = await storage.createMower(validated);
+      // The hour meter starts the mower's reading log
+      if (currentHours !== null && currentHours !== undefined) {
+        await recordMeterReading({ type: "mower", id: String(mower.id) }, { hours: currentHours, readingDate: new Date(), notes: "Entered on the mower form" });
+      }
+      // A maintenance plan (assigned or matched by make/model) sets the next service date
+      await refreshNextServiceDates([String(mower.id)]);
+      mower = (await storage.getMower(String(mower.id))) ?? mower;
       await NotificationService.createMowerNotification("added", `${mower.make} ${mower.model}`, mower.id.toString());
       webSocketService.broadcastAssetEvent("asset-created", "mower", mower.id, { mower });
       res.status(201).json(mower);
@@ -148,20 +424,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/mowers/:id", async (req, res) => {
+  app.put("/api/mowers/:id", requirePermission("mowers:write"), async (req, res) => {
     try {
       const transformed = {
         ...req.body,
         purchaseDate: sanitizeDateString(req.body.purchaseDate),
+        warrantyExpirationDate: sanitizeDateString(req.body.warrantyExpirationDate),
         lastServiceDate: sanitizeDateString(req.body.lastServiceDate),
         nextServiceDate: sanitizeDateString(req.body.nextServiceDate),
         purchasePrice: req.body.purchasePrice || null,
         serialNumber: req.body.serialNumber || null,
         notes: req.body.notes || null
       };
-      const updates = insertMowerSchema.partial().parse(transformed);
-      const mower = await storage.updateMower(req.params.id, updates);
+      const { currentHours, ...updates } = insertMowerSchema.partial().parse(transformed);
+      const existing = await storage.getMower(req.params.id);
+      if (!existing) return res.status(404).json({ error: "Mower not found" });
+      // A changed hour meter is logged as a reading taken now, so it must not go backwards
+      const asset: MeterAsset = { type: "mower", id: req.params.id };
+      const reading = currentHours !== null && currentHours !== undefined && currentHours !== existing.currentHours
+        ? { hours: currentHours, readingDate: new Date(), notes: "Entered on the mower form" }
+        : null;
+      if (reading) {
+        const problem = await validateMeterReading(asset, reading);
+        if (problem) return res.status(400).json({ error: "Invalid meter reading", details: problem });
+      }
+      let mower = await storage.updateMower(req.params.id, updates);
       if (!mower) return res.status(404).json({ error: "Mower not found" });
+      if (reading) await recordMeterReading(asset, reading);
+      // Plan assignment or make/model may have changed which plan applies
+      await refreshNextServiceDates([req.params.id]);
+      mower = (await storage.getMower(req.params.id)) ?? mower;
       webSocketService.broadcastAssetEvent("asset-updated", "mower", mower.id, { mower });
       res.json(mower);
     } catch (error) {
@@ -169,7 +461,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/mowers/:id", async (req, res) => {
+  app.delete("/api/mowers/:id", requirePermission("mowers:write"), async (req, res) => {
     try {
       const mower = await storage.getMower(req.params.id);
       const deleted = await storage.deleteMower(req.params.id);
@@ -187,21 +479,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ---------------------------------------------------------------------------
   // Task Routes
   // ---------------------------------------------------------------------------
-  app.get("/api/mowers/:mowerId/tasks", async (req, res) => {
-    try { res.json(await storage.getTasksByMowerId(req.params.mowerId)); }
-    catch { res.status(500).json({ error: "Failed to fetch tasks" }); }
-  });
+  // Task events carry the owning asset so open task lists of that asset refresh
+  function taskEventData(task: Task) {
+    return { task, mowerId: task.mowerId, engineId: task.engineId, partId: task.partId };
+  }
 
-  app.post("/api/mowers/:mowerId/tasks", async (req, res) => {
-    try {
-      const data = { ...req.body, mowerId: parseInt(req.params.mowerId) };
-      const validated = insertTaskSchema.parse(data);
-      const task = await storage.createTask(validated);
-      webSocketService.broadcastAssetEvent("task-created", "task", task.id, { task, mowerId: task.mowerId });
-      res.status(201).json(task);
-    } catch {
-      res.status(400).json({ error: "Invalid task data" });
-    }
+  async function taskAssetExists(asset: TaskAsset): Promise<boolean> {
+    if (asset.type === "engine") return !!(await storage.getEngine(asset.id));
+    if (asset.type === "part") return !!(await storage.getPart(asset.id));
+    return !!(await storage.getMower(asset.id));
+  }
+
+  // Mowers, engines and parts share the same task list and create routes
+  const taskAssetRoutes = [
+    { type: "mower", path: "/api/mowers/:id/tasks", notFound: "Mower not found" },
+    { type: "engine", path: "/api/engines/:id/tasks", notFound: "Engine not found" },
+    { type: "part", path: "/api/parts/:id/tasks", notFound: "Part not found" },
+  ] as const;
+
+  for (const { type, path, notFound } of taskAssetRoutes) {
+    app.get(path, async (req, res) => {
+      try { res.json(await withTaskActivity(await getTasksForAsset({ type, id: req.params.id }))); }
+      catch { res.status(500).json({ error: "Failed to fetch tasks" }); }
+    });
+
+    app.post(path, requirePermission("tasks:write"), async (req, res) => {
+      try {
+        const asset: TaskAsset = { type, id: req.params.id };
+        if (!(await taskAssetExists(asset))) return res.status(404).json({ error: notFound });
+        const validated = insertTaskSchema.parse({ ...req.body, ...taskOwnerFields(asset) });
+        const taskError = checkTaskRecurrence(validated) ?? await checkTaskAssignee(validated.assigneeId);
+        if (taskError) return res.status(400).json({ error: "Invalid task data", details: taskError });
+        const task = await storage.createTask(await withInitialDueHours(validated, asset));
+        webSocketService.broadcastAssetEvent("task-created", "task", task.id, taskEventData(task));
+        res.status(201).json(task);
+      } catch {
+        res.status(400).json({ error: "Invalid task data" });
+      }
+    });
+  }
+
+  // Every task in the fleet, for the task board
+  app.get("/api/tasks", async (_req, res) => {
+    try { res.json(await getTaskBoard()); }
+    catch { res.status(500).json({ error: "Failed to fetch tasks" }); }
   });
 
   app.get("/api/tasks/:id", async (req, res) => {
@@ -214,25 +535,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/tasks/:id", async (req, res) => {
+  app.put("/api/tasks/:id", requirePermission("tasks:write"), async (req, res) => {
     try {
-      const updates = insertTaskSchema.partial().parse(req.body);
-      const task = await storage.updateTask(req.params.id, updates);
+      // A task stays with the asset it was created on
+      const { mowerId: _mowerId, engineId: _engineId, partId: _partId, ...updates } = insertTaskSchema.partial().parse(req.body);
+      const existing = await storage.getTask(req.params.id);
+      if (!existing) return res.status(404).json({ error: "Task not found" });
+      const taskError = checkTaskRecurrence({ ...existing, ...updates })
+        ?? (updates.assigneeId !== existing.assigneeId ? await checkTaskAssignee(updates.assigneeId) : null);
+      if (taskError) return res.status(400).json({ error: "Invalid task data", details: taskError });
+      const task = await storage.updateTask(req.params.id, await withInitialDueHours(updates, taskAsset(existing)));
       if (!task) return res.status(404).json({ error: "Task not found" });
-      webSocketService.broadcastAssetEvent("task-updated", "task", task.id, { task, mowerId: task.mowerId });
+      webSocketService.broadcastAssetEvent("task-updated", "task", task.id, taskEventData(task));
       res.json(task);
     } catch {
       res.status(400).json({ error: "Invalid task data" });
     }
   });
 
-  app.delete("/api/tasks/:id", async (req, res) => {
+  app.delete("/api/tasks/:id", requirePermission("tasks:write"), async (req, res) => {
     try {
       const task = await storage.getTask(req.params.id);
       const deleted = await storage.deleteTask(req.params.id);
       if (!deleted) return res.status(404).json({ error: "Task not found" });
       if (task) {
-        webSocketService.broadcastAssetEvent("task-deleted", "task", task.id, { task, mowerId: task.mowerId });
+        webSocketService.broadcastAssetEvent("task-deleted", "task", task.id, taskEventData(task));
       }
       res.status(204).send();
     } catch {
@@ -240,42 +567,290 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/tasks/:id/complete", async (req, res) => {
+  // Dragging a card to another column of the task board
+  app.put("/api/tasks/:id/status", requirePermission("tasks:write"), async (req, res) => {
     try {
-      const task = await storage.markTaskComplete(req.params.id);
-      if (!task) return res.status(404).json({ error: "Task not found" });
-      res.json(task);
+      const parsed = updateTaskStatusSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid task status", details: parsed.error.errors });
+      const result = await moveTask(req.params.id, parsed.data.status);
+      if (!result) return res.status(404).json({ error: "Task not found" });
+      const { task, nextTask } = result;
+      webSocketService.broadcastAssetEvent("task-updated", "task", task.id, taskEventData(task));
+      if (nextTask) {
+        webSocketService.broadcastAssetEvent("task-created", "task", nextTask.id, taskEventData(nextTask));
+      }
+      res.json({ ...task, nextTask });
+    } catch {
+      res.status(500).json({ error: "Failed to update task status" });
+    }
+  });
+
+  app.post("/api/tasks/:id/complete", requirePermission("tasks:write"), async (req, res) => {
+    try {
+      const result = await completeTask(req.params.id);
+      if (!result) return res.status(404).json({ error: "Task not found" });
+      const { task, nextTask } = result;
+      webSocketService.broadcastAssetEvent("task-updated", "task", task.id, taskEventData(task));
+      if (nextTask) {
+        webSocketService.broadcastAssetEvent("task-created", "task", nextTask.id, taskEventData(nextTask));
+      }
+      res.json({ ...task, nextTask });
     } catch {
       res.status(500).json({ error: "Failed to complete task" });
     }
   });
 
+  // Printable job sheet of the task
+  app.get("/api/tasks/:id/pdf", async (req, res) => {
+    try {
+      const sheet = await getTaskJobSheet(req.params.id);
+      if (!sheet) return res.status(404).json({ error: "Task not found" });
+      await sendJobSheet(res, sheet, `task-${req.params.id}`);
+    } catch {
+      res.status(500).json({ error: "Failed to generate job sheet" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Task Checklists and Comments
+  // ---------------------------------------------------------------------------
+  // Checklist and comment changes are broadcast as task updates so open task lists follow along
+  function broadcastTaskActivity(task: Task) {
+    webSocketService.broadcastAssetEvent("task-updated", "task", task.id, taskEventData(task));
+  }
+
+  app.get("/api/tasks/:id/checklist", async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      if (!task) return res.status(404).json({ error: "Task not found" });
+      res.json(await storage.getTaskChecklistItems([task.id]));
+    } catch {
+      res.status(500).json({ error: "Failed to fetch checklist" });
+    }
+  });
+
+  app.post("/api/tasks/:id/checklist", requirePermission("tasks:write"), async (req, res) => {
+    try {
+      const parsed = insertTaskChecklistItemSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid checklist item", details: parsed.error.errors });
+      const task = await storage.getTask(req.params.id);
+      if (!task) return res.status(404).json({ error: "Task not found" });
+      const item = await storage.createTaskChecklistItem(task.id, parsed.data);
+      broadcastTaskActivity(task);
+      res.status(201).json(item);
+    } catch {
+      res.status(500).json({ error: "Failed to add checklist item" });
+    }
+  });
+
+  // Registered before /:itemId so "order" is not taken for an item id
+  app.put("/api/tasks/:id/checklist/order", requirePermission("tasks:write"), async (req, res) => {
+    try {
+      const parsed = reorderTaskChecklistSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid checklist order", details: parsed.error.errors });
+      const task = await storage.getTask(req.params.id);
+      if (!task) return res.status(404).json({ error: "Task not found" });
+      const items = await storage.getTaskChecklistItems([task.id]);
+      const { itemIds } = parsed.data;
+      if (itemIds.length !== items.length || !items.every((item) => itemIds.includes(item.id))) {
+        return res.status(400).json({ error: "Invalid checklist order", details: "List every step of the task exactly once" });
+      }
+      for (let sortOrder = 0; sortOrder < itemIds.length; sortOrder++) {
+        await storage.updateTaskChecklistItem(String(itemIds[sortOrder]), { sortOrder });
+      }
+      broadcastTaskActivity(task);
+      res.json(await storage.getTaskChecklistItems([task.id]));
+    } catch {
+      res.status(500).json({ error: "Failed to reorder checklist" });
+    }
+  });
+
+  app.put("/api/tasks/:id/checklist/:itemId", requirePermission("tasks:write"), async (req, res) => {
+    try {
+      const parsed = updateTaskChecklistItemSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid checklist item", details: parsed.error.errors });
+      const item = await storage.getTaskChecklistItem(req.params.itemId);
+      if (!item || item.taskId !== req.params.id) return res.status(404).json({ error: "Checklist item not found" });
+
+      const { text, isDone } = parsed.data;
+      // Ticking a step off records who did it; unticking clears that again
+      const completion = isDone === undefined || isDone === item.isDone
+        ? {}
+        : isDone
+          ? { isDone, completedById: req.user!.id, completedByName: req.user!.username, completedAt: new Date() }
+          : { isDone, completedById: null, completedByName: null, completedAt: null };
+      const updated = await storage.updateTaskChecklistItem(req.params.itemId, { ...(text !== undefined && { text }), ...completion });
+      if (!updated) return res.status(404).json({ error: "Checklist item not found" });
+
+      const task = await storage.getTask(req.params.id);
+      if (task) broadcastTaskActivity(task);
+      res.json(updated);
+    } catch {
+      res.status(500).json({ error: "Failed to update checklist item" });
+    }
+  });
+
+  app.delete("/api/tasks/:id/checklist/:itemId", requirePermission("tasks:write"), async (req, res) => {
+    try {
+      const item = await storage.getTaskChecklistItem(req.params.itemId);
+      if (!item || item.taskId !== req.params.id) return res.status(404).json({ error: "Checklist item not found" });
+      await storage.deleteTaskChecklistItem(req.params.itemId);
+      const task = await storage.getTask(req.params.id);
+      if (task) broadcastTaskActivity(task);
+      res.status(204).send();
+    } catch {
+      res.status(500).json({ error: "Failed to delete checklist item" });
+    }
+  });
+
+  app.get("/api/tasks/:id/comments", async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      if (!task) return res.status(404).json({ error: "Task not found" });
+      res.json(await getTaskCommentThread(task.id));
+    } catch {
+      res.status(500).json({ error: "Failed to fetch comments" });
+    }
+  });
+
+  // multipart/form-data: "body" plus up to 5 image files in "photos"
+  app.post("/api/tasks/:id/comments", requirePermission("tasks:write"), upload.array("photos", 5), async (req, res) => {
+    try {
+      const parsed = insertTaskCommentSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid comment", details: parsed.error.errors });
+      const photos = (req.files as Express.Multer.File[] | undefined) ?? [];
+      if (!parsed.data.body && photos.length === 0) {
+        return res.status(400).json({ error: "Invalid comment", details: "Write a comment or add a photo" });
+      }
+      if (photos.some((photo) => !photo.mimetype.startsWith("image/"))) {
+        return res.status(400).json({ error: "Invalid comment", details: "Only images can be attached to comments" });
+      }
+      const task = await storage.getTask(req.params.id);
+      if (!task) return res.status(404).json({ error: "Task not found" });
+
+      const comment = await storage.createTaskComment({
+        ...parsed.data,
+        taskId: task.id,
+        authorId: req.user!.id,
+        authorName: req.user!.username,
+      });
+      for (const photo of photos) {
+        await storeAttachmentContent(photo.buffer, (contentHash) => storage.createAttachment(insertAttachmentSchema.parse({
+          taskCommentId: comment.id,
+          fileName: photo.originalname,
+          fileType: "image",
+          contentHash,
+          textContent: "",
+          fileSize: photo.size,
+        })));
+      }
+      broadcastTaskActivity(task);
+      const thread = await getTaskCommentThread(task.id);
+      res.status(201).json(thread.find((entry) => entry.id === comment.id));
+    } catch {
+      res.status(500).json({ error: "Failed to add comment" });
+    }
+  });
+
+  app.delete("/api/tasks/:id/comments/:commentId", requirePermission("tasks:write"), async (req, res) => {
+    try {
+      const comment = await storage.getTaskComment(req.params.commentId);
+      if (!comment || comment.taskId !== req.params.id) return res.status(404).json({ error: "Comment not found" });
+      if (comment.authorId !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ error: "Only the author or an admin can delete a comment" });
+      }
+      const photos = await storage.getAttachmentsByTaskCommentIds([comment.id]);
+      for (const photo of photos) {
+        await storage.deleteAttachment(photo.id);
+        await releaseAttachmentContent(photo.contentHash);
+      }
+      await storage.deleteTaskComment(req.params.commentId);
+      const task = await storage.getTask(req.params.id);
+      if (task) broadcastTaskActivity(task);
+      res.status(204).send();
+    } catch {
+      res.status(500).json({ error: "Failed to delete comment" });
+    }
+  });
+
+  app.get("/api/mowers/:id/maintenance-schedule", async (req, res) => {
+    try {
+      const schedule = await getMowerMaintenanceSchedule(req.params.id);
+      if (!schedule) return res.status(404).json({ error: "Mower not found" });
+      res.json(schedule);
+    } catch {
+      res.status(500).json({ error: "Failed to fetch maintenance schedule" });
+    }
+  });
+
   // ---------------------------------------------------------------------------
   // Service Record Routes
   // ---------------------------------------------------------------------------
   app.get("/api/mowers/:id/service", async (req, res) => {
-    try { res.json(await storage.getServiceRecordsByMowerId(req.params.id)); }
+    try { res.json(await getMowerServiceRecords(req.params.id)); }
     catch { res.status(500).json({ error: "Failed to fetch service records" }); }
   });
 
-  app.get("/api/service-records", async (_req, res) => {
-    try { res.json(await storage.getAllServiceRecords()); }
-    catch { res.status(500).json({ error: "Failed to fetch service records" }); }
+  // e.g. /api/service-records?page=2&pageSize=10&serviceType=repair&from=2025-01-01 (newest first by default)
+  app.get("/api/service-records", async (req, res) => {
+    try {
+      const query = serviceRecordListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid service record query", details: query.error.message });
+      }
+      sendList(res, query.data, await storage.listServiceRecords(query.data));
+    } catch {
+      res.status(500).json({ error: "Failed to fetch service records" });
+    }
+  });
+
+  // Booked appointments (scheduled or in progress), soonest first
+  app.get("/api/service-records/appointments", async (_req, res) => {
+    try { res.json(await getServiceAppointments()); }
+    catch { res.status(500).json({ error: "Failed to fetch appointments" }); }
   });
 
-  app.post("/api/mowers/:id/service", async (req, res) => {
+  // One record with its itemized parts, labor and fees
+  app.get("/api/service-records/:id", async (req, res) => {
     try {
+      const record = await getServiceRecordWithCosts(req.params.id);
+      if (!record) return res.status(404).json({ error: "Service record not found" });
+      res.json(record);
+    } catch {
+      res.status(500).json({ error: "Failed to fetch service record" });
+    }
+  });
+
+  // Who performed the work is sent as labor (technicians and hours); performedBy is written from it.
+  // cost is not sent: it adds up the parts, labor and fees, unless costOverride replaces it.
+  // Records are completed unless booked as an appointment (status "scheduled", with a scheduledDate).
+  app.post("/api/mowers/:id/service", requirePermission("service:write"), async (req, res) => {
+    try {
+      const labor = (await laborFromRequest(req.body, null)) ?? { labor: [] };
+      if ("error" in labor) return res.status(400).json({ error: "Invalid service record data", details: labor.error });
+      const fees = feesFromRequest(req.body) ?? { fees: [] };
+      if ("error" in fees) return res.status(400).json({ error: "Invalid service record data", details: fees.error });
+      // An appointment is listed under its planned date until it is completed
+      const isAppointment = req.body.status !== undefined && req.body.status !== "completed";
+      const scheduledDate = req.body.scheduledDate ? new Date(req.body.scheduledDate) : isAppointment ? new Date(req.body.serviceDate) : null;
       const data = {
         ...req.body,
         mowerId: parseInt(req.params.id),
-        serviceDate: new Date(req.body.serviceDate),
-        cost: req.body.cost ? String(req.body.cost) : null,
-        performedBy: req.body.performedBy || null,
+        serviceDate: isAppointment ? scheduledDate : new Date(req.body.serviceDate),
+        scheduledDate,
+        cost: null,
+        costOverride: costOverrideFromRequest(req.body) ?? null,
+        performedBy: await performedByNames(labor.labor),
         mileage: req.body.mileage ? parseInt(req.body.mileage) : null,
         nextServiceDue: req.body.nextServiceDue ? new Date(req.body.nextServiceDue) : null
       };
       const validated = insertServiceRecordSchema.parse(data);
-      const serviceRecord = await storage.createServiceRecordWithMowerUpdate(validated);
+      // Technicians new to the directory are only added together with the record
+      const serviceRecord = await storage.runInTransaction(async () => {
+        const created = await saveServiceRecordLabor(await storage.createServiceRecordWithMowerUpdate(validated), labor.labor);
+        await storage.setServiceRecordFees(created.id, fees.fees);
+        return refreshServiceRecordCost(created);
+      });
       webSocketService.broadcastAssetEvent("service-created", "service-record", serviceRecord.id, { serviceRecord, mowerId: serviceRecord.mowerId });
       res.status(201).json(serviceRecord);
     } catch {
@@ -283,20 +858,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/service/:id", async (req, res) => {
+  app.put("/api/service/:id", requirePermission("service:write"), async (req, res) => {
     try {
+      const existing = await storage.getServiceRecord(req.params.id);
+      if (!existing) return res.status(404).json({ error: "Service record not found" });
+      const labor = await laborFromRequest(req.body, req.params.id);
+      if (labor && "error" in labor) return res.status(400).json({ error: "Invalid service record data", details: labor.error });
+      const fees = feesFromRequest(req.body);
+      if (fees && "error" in fees) return res.status(400).json({ error: "Invalid service record data", details: fees.error });
+      const scheduledDate = "scheduledDate" in req.body ? (req.body.scheduledDate ? new Date(req.body.scheduledDate) : null) : undefined;
       const update = {
         ...req.body,
-        serviceDate: req.body.serviceDate ? new Date(req.body.serviceDate) : undefined,
-        cost: "cost" in req.body ? (req.body.cost !== null && req.body.cost !== "" ? String(req.body.cost) : null) : undefined,
-        performedBy: "performedBy" in req.body ? (req.body.performedBy || null) : undefined,
+        // Until it is completed, an appointment's service date is its planned date
+        serviceDate: existing.status !== "completed" && scheduledDate ? scheduledDate : req.body.serviceDate ? new Date(req.body.serviceDate) : undefined,
+        scheduledDate,
+        status: undefined, // changed with PUT /api/service/:id/status
+        cost: undefined, // follows the line items
+        costOverride: costOverrideFromRequest(req.body),
+        performedBy: undefined, // follows the labor
         mileage: "mileage" in req.body ? (req.body.mileage !== null && req.body.mileage !== "" ? parseInt(req.body.mileage) : null) : undefined,
         nextServiceDue: req.body.nextServiceDue ? new Date(req.body.nextServiceDue) : undefined
       };
       const cleaned = Object.fromEntries(Object.entries(update).filter(([_, v]) => v !== undefined));
       const validated = insertServiceRecordSchema.partial().parse(cleaned);
-      const updated = await storage.updateServiceRecord(req.params.id, validated);
+      const updated = await storage.runInTransaction(async () => {
+        const record = await storage.updateServiceRecord(req.params.id, validated);
+        if (!record) return undefined;
+        const withLabor = labor ? await saveServiceRecordLabor(record, labor.labor) : record;
+        if (fees) await storage.setServiceRecordFees(record.id, fees.fees);
+        return refreshServiceRecordCost(withLabor);
+      });
       if (!updated) return res.status(404).json({ error: "Service record not found" });
+      await syncMowerHourMeter(String(updated.mowerId));
+      await refreshNextServiceDates([String(updated.mowerId)]);
       webSocketService.broadcastAssetEvent("service-updated", "service-record", updated.id, { serviceRecord: updated, mowerId: updated.mowerId });
       res.json(updated);
     } catch {
@@ -304,12 +898,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/service/:id", async (req, res) => {
+  // Completing an appointment is what moves the mower's last service date; serviceDate is when the work was done (default now)
+  app.put("/api/service/:id/status", requirePermission("service:write"), async (req, res) => {
+    try {
+      const parsed = updateServiceRecordStatusSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid service record status", details: parsed.error.errors });
+      const record = await storage.getServiceRecord(req.params.id);
+      if (!record) return res.status(404).json({ error: "Service record not found" });
+      const result = await changeServiceRecordStatus(record, parsed.data.status, parsed.data.serviceDate);
+      if ("error" in result) return res.status(400).json({ error: "Invalid service record status", details: result.error });
+      const updated = result.record;
+      if (updated !== record) {
+        webSocketService.broadcastAssetEvent("service-updated", "service-record", updated.id, { serviceRecord: updated, mowerId: updated.mowerId });
+      }
+      res.json(updated);
+    } catch {
+      res.status(500).json({ error: "Failed to update service record status" });
+    }
+  });
+
+  app.delete("/api/service/:id", requirePermission("service:write"), async (req, res) => {
     try {
       const record = await storage.getServiceRecord(req.params.id);
       const deleted = await storage.deleteServiceRecord(req.params.id);
       if (!deleted) return res.status(404).json({ error: "Service record not found" });
       if (record) {
+        await syncMowerHourMeter(String(record.mowerId));
+        await refreshNextServiceDates([String(record.mowerId)]);
         webSocketService.broadcastAssetEvent("service-deleted", "service-record", record.id, { serviceRecord: record, mowerId: record.mowerId });
       }
       res.status(204).send();
@@ -318,13 +933,276 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ---------------------------------------------------------------------------
+  // Work Order Routes
+  // ---------------------------------------------------------------------------
+  // Work order events carry the mower so its open Work Orders tab refreshes
+  function broadcastWorkOrder(type: "work-order-created" | "work-order-updated" | "work-order-deleted", workOrder: WorkOrder) {
+    webSocketService.broadcastAssetEvent(type, "work-order", workOrder.id, { workOrder, mowerId: workOrder.mowerId });
+  }
+
+  // The work order of the request, or a 404/400 response when it is missing or already closed or cancelled
+  async function openWorkOrder(req: Request, res: Response): Promise<WorkOrder | undefined> {
+    const workOrder = await storage.getWorkOrder(req.params.id);
+    if (!workOrder) {
+      res.status(404).json({ error: "Work order not found" });
+      return undefined;
+    }
+    if (!isWorkOrderOpen(workOrder)) {
+      res.status(400).json({ error: `Work order is ${workOrder.status}` });
+      return undefined;
+    }
+    return workOrder;
+  }
+
+  app.get("/api/mowers/:id/work-orders", async (req, res) => {
+    try { res.json(await getMowerWorkOrders(req.params.id)); }
+    catch { res.status(500).json({ error: "Failed to fetch work orders" }); }
+  });
+
+  app.get("/api/work-orders/:id", async (req, res) => {
+    try {
+      const workOrder = await getWorkOrderDetails(req.params.id);
+      if (!workOrder) return res.status(404).json({ error: "Work order not found" });
+      res.json(workOrder);
+    } catch {
+      res.status(500).json({ error: "Failed to fetch work order" });
+    }
+  });
+
+  // Printable job sheet of the work order
+  app.get("/api/work-orders/:id/pdf", async (req, res) => {
+    try {
+      const sheet = await getWorkOrderJobSheet(req.params.id);
+      if (!sheet) return res.status(404).json({ error: "Work order not found" });
+      await sendJobSheet(res, sheet, `work-order-${req.params.id}`);
+    } catch {
+      res.status(500).json({ error: "Failed to generate job sheet" });
+    }
+  });
+
+  app.post("/api/mowers/:id/work-orders", requirePermission("workorders:write"), async (req, res) => {
+    try {
+      const mower = await storage.getMower(req.params.id);
+      if (!mower) return res.status(404).json({ error: "Mower not found" });
+      const parsed = insertWorkOrderSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid work order data", details: parsed.error.errors });
+      const { taskIds, ...fields } = parsed.data;
+      const taskError = await checkWorkOrderTasks(mower.id, taskIds, null);
+      if (taskError) return res.status(400).json({ error: "Invalid work order data", details: taskError });
+      const workOrder = await storage.createWorkOrder({ ...fields, mowerId: mower.id });
+      await setWorkOrderTasks(workOrder, taskIds);
+      broadcastWorkOrder("work-order-created", workOrder);
+      res.status(201).json(await getWorkOrderDetails(String(workOrder.id)));
+    } catch {
+      res.status(500).json({ error: "Failed to create work order" });
+    }
+  });
+
+  // Cancelling gives the reserved parts back to stock and frees the tasks
+  app.put("/api/work-orders/:id", requirePermission("workorders:write"), async (req, res) => {
+    try {
+      const parsed = updateWorkOrderSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid work order data", details: parsed.error.errors });
+      const existing = await openWorkOrder(req, res);
+      if (!existing) return;
+      const { taskIds, status, ...fields } = parsed.data;
+      if (taskIds) {
+        const taskError = await checkWorkOrderTasks(existing.mowerId, taskIds, existing.id);
+        if (taskError) return res.status(400).json({ error: "Invalid work order data", details: taskError });
+        await setWorkOrderTasks(existing, taskIds);
+      }
+      let workOrder = await storage.updateWorkOrder(req.params.id, status === "cancelled" ? fields : { ...fields, status });
+      if (workOrder && status === "cancelled") workOrder = await cancelWorkOrder(workOrder);
+      if (!workOrder) return res.status(404).json({ error: "Work order not found" });
+      broadcastWorkOrder("work-order-updated", workOrder);
+      res.json(await getWorkOrderDetails(req.params.id));
+    } catch {
+      res.status(500).json({ error: "Failed to update work order" });
+    }
+  });
+
+  app.delete("/api/work-orders/:id", requirePermission("workorders:write"), async (req, res) => {
+    try {
+      const workOrder = await storage.getWorkOrder(req.params.id);
+      if (!workOrder) return res.status(404).json({ error: "Work order not found" });
+      await deleteWorkOrder(workOrder);
+      broadcastWorkOrder("work-order-deleted", workOrder);
+      res.status(204).send();
+    } catch {
+      res.status(500).json({ error: "Failed to delete work order" });
+    }
+  });
+
+  app.post("/api/work-orders/:id/parts", requirePermission("workorders:write"), async (req, res) => {
+    try {
+      const parsed = reserveWorkOrderPartSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid part reservation", details: parsed.error.errors });
+      const workOrder = await openWorkOrder(req, res);
+      if (!workOrder) return;
+      let assetPart;
+      try {
+        assetPart = await reserveWorkOrderPart(workOrder, parsed.data);
+      } catch (error) {
+        // Unknown part, short stock or an engine of another mower
+        return res.status(400).json({ error: "Invalid part reservation", details: error instanceof Error ? error.message : String(error) });
+      }
+      webSocketService.broadcastAssetEvent("asset-part-created", "asset-part", assetPart.id, {
+        assetPart,
+        mowerId: assetPart.mowerId,
+        engineId: assetPart.engineId
+      });
+      broadcastWorkOrder("work-order-updated", workOrder);
+      res.status(201).json(assetPart);
+    } catch {
+      res.status(500).json({ error: "Failed to reserve part" });
+    }
+  });
+
+  app.delete("/api/work-orders/:id/parts/:assetPartId", requirePermission("workorders:write"), async (req, res) => {
+    try {
+      const workOrder = await openWorkOrder(req, res);
+      if (!workOrder) return;
+      const assetPart = await storage.getAssetPart(req.params.assetPartId);
+      if (!assetPart || assetPart.workOrderId !== workOrder.id) return res.status(404).json({ error: "Reserved part not found" });
+      await storage.deleteAssetPart(req.params.assetPartId);
+      webSocketService.broadcastAssetEvent("asset-part-deleted", "asset-part", assetPart.id, {
+        assetPart,
+        mowerId: assetPart.mowerId,
+        engineId: assetPart.engineId
+      });
+      broadcastWorkOrder("work-order-updated", workOrder);
+      res.status(204).send();
+    } catch {
+      res.status(500).json({ error: "Failed to release part" });
+    }
+  });
+
+  app.post("/api/work-orders/:id/labor", requirePermission("workorders:write"), async (req, res) => {
+    try {
+      const parsed = insertWorkOrderLaborSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid labor entry", details: parsed.error.errors });
+      const workOrder = await openWorkOrder(req, res);
+      if (!workOrder) return;
+      const labor = await addWorkOrderLabor(workOrder, parsed.data);
+      if (!labor) return res.status(400).json({ error: "Invalid labor entry", details: "Labor can only be booked for active technicians in the directory" });
+      broadcastWorkOrder("work-order-updated", workOrder);
+      res.status(201).json(labor);
+    } catch {
+      res.status(500).json({ error: "Failed to add labor" });
+    }
+  });
+
+  app.delete("/api/work-orders/:id/labor/:laborId", requirePermission("workorders:write"), async (req, res) => {
+    try {
+      const workOrder = await openWorkOrder(req, res);
+      if (!workOrder) return;
+      const labor = await storage.getWorkOrderLaborEntry(req.params.laborId);
+      if (!labor || labor.workOrderId !== workOrder.id) return res.status(404).json({ error: "Labor entry not found" });
+      await storage.deleteWorkOrderLabor(req.params.laborId);
+      broadcastWorkOrder("work-order-updated", workOrder);
+      res.status(204).send();
+    } catch {
+      res.status(500).json({ error: "Failed to delete labor" });
+    }
+  });
+
+  // Sign-off: writes the service record, installs the reserved parts and completes the tasks
+  app.post("/api/work-orders/:id/close", requirePermission("workorders:write"), async (req, res) => {
+    try {
+      const parsed = closeWorkOrderSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid sign-off", details: parsed.error.errors });
+      const existing = await openWorkOrder(req, res);
+      if (!existing) return;
+      const closed = await closeWorkOrder(existing, parsed.data, { id: req.user!.id, name: req.user!.displayName || req.user!.username });
+      if (!closed) return res.status(409).json({ error: "Work order is already closed" });
+      const { workOrder, serviceRecord, assetParts, completedTasks, nextTasks } = closed;
+      webSocketService.broadcastAssetEvent("service-created", "service-record", serviceRecord.id, { serviceRecord, mowerId: serviceRecord.mowerId });
+      for (const assetPart of assetParts) {
+        webSocketService.broadcastAssetEvent("asset-part-updated", "asset-part", assetPart.id, {
+          assetPart,
+          mowerId: assetPart.mowerId,
+          engineId: assetPart.engineId
+        });
+      }
+      for (const task of completedTasks) {
+        webSocketService.broadcastAssetEvent("task-updated", "task", task.id, taskEventData(task));
+      }
+      for (const task of nextTasks) {
+        webSocketService.broadcastAssetEvent("task-created", "task", task.id, taskEventData(task));
+      }
+      broadcastWorkOrder("work-order-updated", workOrder);
+      res.json({ ...(await getWorkOrderDetails(req.params.id)), serviceRecord });
+    } catch {
+      res.status(500).json({ error: "Failed to close work order" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Hour Meter Readings
+  // ---------------------------------------------------------------------------
+  const assetExists = async (asset: MeterAsset) =>
+    asset.type === "mower" ? !!(await storage.getMower(asset.id)) : !!(await storage.getEngine(asset.id));
+
+  const sendMeterReadingHistory = async (asset: MeterAsset, res: Response) => {
+    try {
+      if (!(await assetExists(asset))) return res.status(404).json({ error: `${asset.type === "mower" ? "Mower" : "Engine"} not found` });
+      res.json(await getMeterReadingHistory(asset));
+    } catch {
+      res.status(500).json({ error: "Failed to fetch meter readings" });
+    }
+  };
+
+  const createMeterReading = async (asset: MeterAsset, req: Request, res: Response) => {
+    try {
+      if (!(await assetExists(asset))) return res.status(404).json({ error: `${asset.type === "mower" ? "Mower" : "Engine"} not found` });
+      const parsed = insertMeterReadingSchema.omit({ mowerId: true, engineId: true }).safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid meter reading", details: parsed.error.message });
+      const problem = await validateMeterReading(asset, parsed.data);
+      if (problem) return res.status(400).json({ error: "Invalid meter reading", details: problem });
+      const reading = await recordMeterReading(asset, parsed.data);
+      if (asset.type === "mower") {
+        const mower = await storage.getMower(asset.id);
+        if (mower) webSocketService.broadcastAssetEvent("asset-updated", "mower", mower.id, { mower });
+      }
+      res.status(201).json(reading);
+    } catch {
+      res.status(500).json({ error: "Failed to save meter reading" });
+    }
+  };
+
+  app.get("/api/mowers/:id/meter-readings", (req, res) => sendMeterReadingHistory({ type: "mower", id: req.params.id }, res));
+  app.get("/api/engines/:id/meter-readings", (req, res) => sendMeterReadingHistory({ type: "engine", id: req.params.id }, res));
+
+  app.post("/api/mowers/:id/meter-readings", requirePermission("readings:write"), (req, res) =>
+    createMeterReading({ type: "mower", id: req.params.id }, req, res));
+  app.post("/api/engines/:id/meter-readings", requirePermission("readings:write"), (req, res) =>
+    createMeterReading({ type: "engine", id: req.params.id }, req, res));
+
+  app.delete("/api/meter-readings/:id", requirePermission("readings:write"), async (req, res) => {
+    try {
+      const reading = await storage.getMeterReading(req.params.id);
+      const deleted = await storage.deleteMeterReading(req.params.id);
+      if (!deleted) return res.status(404).json({ error: "Meter reading not found" });
+      if (reading?.mowerId) {
+        const mowerId = String(reading.mowerId);
+        await syncMowerHourMeter(mowerId);
+        await refreshNextServiceDates([mowerId]);
+        const mower = await storage.getMower(mowerId);
+        if (mower) webSocketService.broadcastAssetEvent("asset-updated", "mower", mower.id, { mower });
+      }
+      res.status(204).send();
+    } catch {
+      res.status(500).json({ error: "Failed to delete meter reading" });
+    }
+  });
+
   // ---------------------------------------------------------------------------
   // Mower Attachments (and generic attachments endpoints)
   // ---------------------------------------------------------------------------
-  app.post("/api/mowers/:id/attachments", upload.single("file"), async (req, res) => {
+  app.post("/api/mowers/:id/attachments", requirePermission("attachments:write"), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) return res.status(400).json({ error: "No file uploaded" });
-      const fileData = req.file.buffer.toString("base64");
       let fileType: string = "document";
       if (req.file.mimetype.startsWith("image/")) fileType = "image";
       else if (req.file.mimetype === "application/pdf") fileType = "pdf";
@@ -353,15 +1231,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fileName: req.file.originalname,
         title: req.body.title || null,
         fileType,
-        fileData,
+        textContent: await extractSearchText(req.file.buffer, fileType),
         fileSize: req.file.size,
         pageCount,
         description: req.body.description || null
       };
-      const validated = insertAttachmentSchema.parse(attachmentData);
-      const attachment = await storage.createAttachment(validated);
-      const { fileData: _fd, ...safe } = attachment;
-      res.status(201).json(safe);
+      const attachment = await storeAttachmentContent(req.file.buffer, (contentHash) =>
+        storage.createAttachment(insertAttachmentSchema.parse({ ...attachmentData, contentHash })));
+      res.status(201).json(toAttachmentResponse(attachment));
     } catch (error) {
       if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
         return res.status(400).json({ error: "File too large. Maximum size is 30MB." });
@@ -373,7 +1250,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/mowers/:id/attachments", async (req, res) => {
     try {
       const attachments = await storage.getAttachmentsByMowerId(req.params.id);
-      res.json(attachments.map(({ fileData, ...a }) => a));
+      res.json(attachments.map(toAttachmentResponse));
     } catch {
       res.status(500).json({ error: "Failed to fetch attachments" });
     }
@@ -383,7 +1260,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const attachment = await storage.getAttachment(req.params.id);
       if (!attachment) return res.status(404).json({ error: "Attachment not found" });
-      const fileBuffer = Buffer.from(attachment.fileData, "base64");
       let contentType = "application/octet-stream";
       if (attachment.fileType === "image") {
         const ext = attachment.fileName.split(".").pop()?.toLowerCase();
@@ -398,10 +1274,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const inline = req.query.inline === "1";
       const viewable = ["image", "pdf"].includes(attachment.fileType) || attachment.fileName.endsWith(".txt");
       const disposition = inline && viewable ? "inline" : "attachment";
+      const etag = attachmentETag(attachment);
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.setHeader("Accept-Ranges", "bytes");
+      if (respondIfNotModified(req, res, etag, attachment.uploadedAt)) return;
+
+      // Single byte ranges only; malformed or multi-range requests get the whole file
+      const size = attachment.fileSize;
+      let range: { start: number; end: number } | undefined;
+      const ranges = req.headers.range && ifRangeMatches(req, etag, attachment.uploadedAt) ? req.range(size) : undefined;
+      if (ranges === -1) {
+        res.setHeader("Content-Range", `bytes */${size}`);
+        return res.status(416).json({ error: "Requested range not satisfiable" });
+      }
+      if (Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1) {
+        range = { start: ranges[0].start, end: ranges[0].end };
+      }
+
+      const stream = await openAttachmentStream(attachment, range);
       res.setHeader("Content-Type", contentType);
       res.setHeader("Content-Disposition", `${disposition}; filename="${attachment.fileName}"`);
-      res.setHeader("Content-Length", fileBuffer.length);
-      res.send(fileBuffer);
+      if (range) {
+        res.status(206);
+        res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+        res.setHeader("Content-Length", range.end - range.start + 1);
+      } else {
+        res.setHeader("Content-Length", size);
+      }
+      stream.on("error", (error) => {
+        console.error(`Failed to stream attachment ${attachment.id}:`, error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
     } catch {
       res.status(500).json({ error: "Failed to download attachment" });
     }
@@ -412,11 +1316,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const attachment = await storage.getAttachment(req.params.id);
       if (!attachment) return res.status(404).json({ error: "Attachment not found" });
       if (attachment.fileType !== "pdf") return res.status(400).json({ error: "Thumbnail generation only supported for PDFs" });
-      const pdfInfo = await processPDF(Buffer.from(attachment.fileData, "base64"));
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      if (respondIfNotModified(req, res, attachmentETag(attachment, "thumb"), attachment.uploadedAt)) return;
+      const pdfInfo = await processPDF(await readAttachmentContent(attachment));
       if (!pdfInfo.thumbnailBuffer) return res.status(500).json({ error: "Failed to generate PDF thumbnail" });
       res.setHeader("Content-Type", "image/png");
       res.setHeader("Content-Length", pdfInfo.thumbnailBuffer.length);
-      res.setHeader("Cache-Control", "public, max-age=3600");
       res.send(pdfInfo.thumbnailBuffer);
     } catch {
       res.status(500).json({ error: "Failed to generate PDF thumbnail" });
@@ -428,11 +1333,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const attachment = await storage.getAttachment(req.params.id);
       if (!attachment) return res.status(404).json({ error: "Attachment not found" });
       if (!attachment.fileName.toLowerCase().endsWith(".txt")) return res.status(400).json({ error: "Thumbnail generation only supported for TXT files" });
-      const info = await generateTxtThumbnail(Buffer.from(attachment.fileData, "base64"));
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      if (respondIfNotModified(req, res, attachmentETag(attachment, "txt-thumb"), attachment.uploadedAt)) return;
+      const info = await generateTxtThumbnail(await readAttachmentContent(attachment));
       if (!info.thumbnailBuffer) return res.status(500).json({ error: "Failed to generate TXT thumbnail" });
       res.setHeader("Content-Type", "image/png");
       res.setHeader("Content-Length", info.thumbnailBuffer.length);
-      res.setHeader("Cache-Control", "public, max-age=3600");
       res.send(info.thumbnailBuffer);
     } catch {
       res.status(500).json({ error: "Failed to generate TXT thumbnail" });
@@ -457,6 +1363,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         thumb = attachments.find(a => a.fileType.startsWith("image")) || null;
       }
       if (!thumb) return res.status(404).json({ error: "No image attachments found" });
+      // Revalidate every time: the chosen thumbnail changes when attachments do
+      res.setHeader("Cache-Control", "private, no-cache");
+      if (respondIfNotModified(req, res, `"${thumb.id}"`, thumb.uploadedAt)) return;
       res.json({
         id: thumb.id,
         fileName: thumb.fileName,
@@ -468,7 +1377,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/mowers/:id/thumbnail", async (req, res) => {
+  app.put("/api/mowers/:id/thumbnail", requirePermission("attachments:write"), async (req, res) => {
     try {
       const { attachmentId } = req.body;
       if (attachmentId) {
@@ -485,24 +1394,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/attachments/:id", async (req, res) => {
+  app.delete("/api/attachments/:id", requirePermission("attachments:write"), async (req, res) => {
     try {
-      const deleted = await storage.deleteAttachment(req.params.id);
-      if (!deleted) return res.status(404).json({ error: "Attachment not found" });
+      const attachment = await storage.getAttachment(req.params.id);
+      if (!attachment || !(await storage.deleteAttachment(attachment.id))) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+      await releaseAttachmentContent(attachment.contentHash);
       res.status(204).send();
     } catch {
       res.status(500).json({ error: "Failed to delete attachment" });
     }
   });
 
-  app.put("/api/attachments/:id", async (req, res) => {
+  app.put("/api/attachments/:id", requirePermission("attachments:write"), async (req, res) => {
     try {
       const updated = await storage.updateAttachmentMetadata(req.params.id, {
         title: req.body.title,
         description: req.body.description
       });
       if (!updated) return res.status(404).json({ error: "Attachment not found" });
-      res.json(updated);
+      res.json(toAttachmentResponse(updated));
     } catch {
       res.status(500).json({ error: "Failed to update attachment metadata" });
     }
@@ -511,13 +1423,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ---------------------------------------------------------------------------
   // Engine (Canonical) Routes
   // ---------------------------------------------------------------------------
-  app.get("/api/engines", async (_req, res) => {
-    try { 
-      const allEngines = await storage.getAllEngines();
-      // Return all engines (including allocated ones) so users can see them in the catalog
-      res.json(allEngines);
+  // e.g. /api/engines?page=1&q=kohler&status=available
+  app.get("/api/engines", async (req, res) => {
+    try {
+      const query = engineListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid engine query", details: query.error.message });
+      }
+      // Includes allocated engines so users can see them in the catalog
+      sendList(res, query.data, await storage.listEngines(query.data));
+    } catch {
+      res.status(500).json({ error: "Failed to fetch engines" });
     }
-    catch { res.status(500).json({ error: "Failed to fetch engines" }); }
   });
 
   app.get("/api/engines/:id", async (req, res) => {
@@ -530,7 +1447,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/engines", async (req, res) => {
+  app.post("/api/engines", requirePermission("engines:write"), async (req, res) => {
     try {
       // Global engines should NEVER have a mowerId - this ensures they are not auto-allocated
       const engineData = { ...req.body };
@@ -554,7 +1471,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     catch { res.status(500).json({ error: "Failed to fetch mower engines" }); }
   });
 
-  app.post("/api/mowers/:mowerId/engines", async (req, res) => {
+  app.post("/api/mowers/:mowerId/engines", requirePermission("engines:write"), async (req, res) => {
     try {
       const payload = { ...req.body, mowerId: parseInt(req.params.mowerId) };
       const validated = insertEngineSchema.parse(payload);
@@ -573,7 +1490,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/engines/:id", async (req, res) => {
+  app.put("/api/engines/:id", requirePermission("engines:write"), async (req, res) => {
     try {
       const engine = await storage.updateEngine(req.params.id, req.body);
       if (!engine) return res.status(404).json({ error: "Engine not found" });
@@ -584,7 +1501,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/engines/:id", async (req, res) => {
+  app.delete("/api/engines/:id", requirePermission("engines:write"), async (req, res) => {
     try {
       const engine = await storage.getEngine(req.params.id);
       const deleted = await storage.deleteEngine(req.params.id);
@@ -600,13 +1517,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Engine attachments (canonical)
-  app.post("/api/engines/:id/attachments", upload.single("file"), async (req, res) => {
+  app.post("/api/engines/:id/attachments", requirePermission("attachments:write"), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) return res.status(400).json({ error: "No file uploaded" });
       const engine = await storage.getEngine(req.params.id);
       if (!engine) return res.status(404).json({ error: "Engine not found" });
 
-      const fileData = req.file.buffer.toString("base64");
       let fileType: string = "document";
       if (req.file.mimetype.startsWith("image/")) fileType = "image";
       else if (req.file.mimetype === "application/pdf") fileType = "pdf";
@@ -632,20 +1548,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       } catch { /* ignore */ }
 
-      const attachment = await storage.createAttachment({
+      const textContent = await extractSearchText(req.file.buffer, fileType);
+      const attachment = await storeAttachmentContent(req.file.buffer, (contentHash) => storage.createAttachment({
         engineId: parseInt(req.params.id),
         mowerId: null,
         partId: null,
-        fileName: req.file.originalname,
-        title: req.body.title || req.file.originalname,
+        fileName: req.file!.originalname,
+        title: req.body.title || req.file!.originalname,
         fileType,
-        fileData,
-        fileSize: req.file.size,
+        contentHash,
+        textContent,
+        fileSize: req.file!.size,
         pageCount,
         description: req.body.description || null
-      });
-      const { fileData: _fd, ...safe } = attachment;
-      res.status(201).json(safe);
+      }));
+      res.status(201).json(toAttachmentResponse(attachment));
     } catch (error) {
       if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
         return res.status(400).json({ error: "File too large. Maximum size is 30MB." });
@@ -655,7 +1572,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.get("/api/engines/:id/attachments", async (req, res) => {
-    try { res.json((await storage.getAttachmentsByEngineId(req.params.id)).map(({ fileData, ...a }) => a)); }
+    try { res.json((await storage.getAttachmentsByEngineId(req.params.id)).map(toAttachmentResponse)); }
     catch { res.status(500).json({ error: "Failed to fetch engine attachments" }); }
   });
 
@@ -677,6 +1594,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         thumb = attachments.find(a => a.fileType.startsWith("image")) || null;
       }
       if (!thumb) return res.status(404).json({ error: "No image attachments found" });
+      // Revalidate every time: the chosen thumbnail changes when attachments do
+      res.setHeader("Cache-Control", "private, no-cache");
+      if (respondIfNotModified(req, res, `"${thumb.id}"`, thumb.uploadedAt)) return;
       res.json({
         id: thumb.id,
         fileName: thumb.fileName,
@@ -688,7 +1608,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/engines/:id/thumbnail", async (req, res) => {
+  app.put("/api/engines/:id/thumbnail", requirePermission("attachments:write"), async (req, res) => {
     try {
       const { attachmentId } = req.body;
       if (attachmentId) {
@@ -725,7 +1645,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/components", async (req, res) => {
+  app.post("/api/components", requirePermission("engines:write"), async (req, res) => {
     setComponentDeprecationHeaders(res);
     try {
       const validated = insertEngineSchema.parse(req.body);
@@ -744,7 +1664,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     catch { res.status(500).json({ error: "Failed to fetch mower components", deprecated: true }); }
   });
 
-  app.post("/api/mowers/:mowerId/components", async (req, res) => {
+  app.post("/api/mowers/:mowerId/components", requirePermission("engines:write"), async (req, res) => {
     setComponentDeprecationHeaders(res);
     try {
       const payload = { ...req.body, mowerId: parseInt(req.params.mowerId) };
@@ -764,7 +1684,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/components/:id", async (req, res) => {
+  app.put("/api/components/:id", requirePermission("engines:write"), async (req, res) => {
     setComponentDeprecationHeaders(res);
     try {
       const engine = await storage.updateEngine(req.params.id, req.body);
@@ -776,7 +1696,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/components/:id", async (req, res) => {
+  app.delete("/api/components/:id", requirePermission("engines:write"), async (req, res) => {
     setComponentDeprecationHeaders(res);
     try {
       const engine = await storage.getEngine(req.params.id);
@@ -796,7 +1716,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     setComponentDeprecationHeaders(res);
     try {
       const attachments = await storage.getAttachmentsByEngineId(req.params.id);
-      res.json(attachments.map(({ fileData, ...a }) => a));
+      res.json(attachments.map(toAttachmentResponse));
     } catch {
       res.status(500).json({ error: "Failed to fetch component attachments", deprecated: true });
     }
@@ -811,9 +1731,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ---------------------------------------------------------------------------
   // Part Routes
   // ---------------------------------------------------------------------------
-  app.get("/api/parts", async (_req, res) => {
-    try { res.json(await storage.getAllParts()); }
-    catch { res.status(500).json({ error: "Failed to fetch parts" }); }
+  // e.g. /api/parts?page=1&category=filters&lowStock=true&sort=-stockQuantity
+  app.get("/api/parts", async (req, res) => {
+    try {
+      const query = partListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid part query", details: query.error.message });
+      }
+      sendList(res, query.data, await storage.listParts(query.data));
+    } catch {
+      res.status(500).json({ error: "Failed to fetch parts" });
+    }
+  });
+
+  // Distinct categories in use, for the catalog's category filter
+  app.get("/api/parts/categories", async (_req, res) => {
+    try { res.json(await storage.getPartCategories()); }
+    catch { res.status(500).json({ error: "Failed to fetch part categories" }); }
   });
 
   app.get("/api/parts/:id", async (req, res) => {
@@ -826,7 +1760,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/parts", async (req, res) => {
+  app.post("/api/parts", requirePermission("parts:write"), async (req, res) => {
     try {
       const validated = insertPartSchema.parse(req.body);
       const part = await storage.createPart(validated);
@@ -838,7 +1772,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/parts/:id", async (req, res) => {
+  app.put("/api/parts/:id", requirePermission("parts:write"), async (req, res) => {
     try {
       const part = await storage.updatePart(req.params.id, req.body);
       if (!part) return res.status(404).json({ error: "Part not found" });
@@ -849,7 +1783,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/parts/:id", async (req, res) => {
+  app.delete("/api/parts/:id", requirePermission("parts:write"), async (req, res) => {
     try {
       const part = await storage.getPart(req.params.id);
       const deleted = await storage.deletePart(req.params.id);
@@ -865,12 +1799,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Part attachments
-  app.post("/api/parts/:id/attachments", upload.single("file"), async (req, res) => {
+  app.post("/api/parts/:id/attachments", requirePermission("attachments:write"), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) return res.status(400).json({ error: "No file uploaded" });
       const part = await storage.getPart(req.params.id);
       if (!part) return res.status(404).json({ error: "Part not found" });
-      const fileData = req.file.buffer.toString("base64");
       let fileType = "document";
       if (req.file.mimetype.startsWith("image/")) fileType = "image";
       else if (req.file.mimetype === "application/pdf") fileType = "pdf";
@@ -897,20 +1830,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       } catch { /* ignore */ }
 
-      const attachment = await storage.createAttachment({
+      const textContent = await extractSearchText(req.file.buffer, fileType);
+      const attachment = await storeAttachmentContent(req.file.buffer, (contentHash) => storage.createAttachment({
         partId: parseInt(req.params.id),
         mowerId: null,
         engineId: null,
-        fileName: req.file.originalname,
-        title: req.body.title || req.file.originalname,
+        fileName: req.file!.originalname,
+        title: req.body.title || req.file!.originalname,
         fileType,
-        fileData,
-        fileSize: req.file.size,
+        contentHash,
+        textContent,
+        fileSize: req.file!.size,
         pageCount,
         description: req.body.description || null
-      });
-      const { fileData: _fd, ...safe } = attachment;
-      res.status(201).json(safe);
+      }));
+      res.status(201).json(toAttachmentResponse(attachment));
     } catch (error) {
       if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
         return res.status(400).json({ error: "File too large. Maximum size is 30MB." });
@@ -920,7 +1854,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.get("/api/parts/:id/attachments", async (req, res) => {
-    try { res.json((await storage.getAttachmentsByPartId(req.params.id)).map(({ fileData, ...a }) => a)); }
+    try { res.json((await storage.getAttachmentsByPartId(req.params.id)).map(toAttachmentResponse)); }
     catch { res.status(500).json({ error: "Failed to fetch part attachments" }); }
   });
 
@@ -942,6 +1876,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         thumb = attachments.find(a => a.fileType.startsWith("image")) || null;
       }
       if (!thumb) return res.status(404).json({ error: "No image attachments found" });
+      // Revalidate every time: the chosen thumbnail changes when attachments do
+      res.setHeader("Cache-Control", "private, no-cache");
+      if (respondIfNotModified(req, res, `"${thumb.id}"`, thumb.uploadedAt)) return;
       res.json({
         id: thumb.id,
         fileName: thumb.fileName,
@@ -953,7 +1890,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/parts/:id/thumbnail", async (req, res) => {
+  app.put("/api/parts/:id/thumbnail", requirePermission("attachments:write"), async (req, res) => {
     try {
       const { attachmentId } = req.body;
       if (attachmentId) {
@@ -988,10 +1925,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     catch { res.status(500).json({ error: "Failed to fetch engine parts" }); }
   });
 
-  app.post("/api/asset-parts", async (req, res) => {
+  // Parts installed under a service record are among its line items, so its cost follows them
+  async function refreshPartsCost(serviceRecordIds: (string | null | undefined)[]) {
+    for (const id of Array.from(new Set(serviceRecordIds))) {
+      const record = id ? await storage.getServiceRecord(id) : undefined;
+      if (!record) continue;
+      const updated = await refreshServiceRecordCost(record);
+      if (updated !== record) {
+        webSocketService.broadcastAssetEvent("service-updated", "service-record", updated.id, { serviceRecord: updated, mowerId: updated.mowerId });
+      }
+    }
+  }
+
+  app.post("/api/asset-parts", requirePermission("parts:allocate"), async (req, res) => {
     try {
       const validated = insertAssetPartSchema.parse(req.body);
       const assetPart = await storage.createAssetPart(validated);
+      await refreshPartsCost([assetPart.serviceRecordId]);
       const part = await storage.getPart(assetPart.partId.toString());
       let mowerName: string | undefined;
       let mowerId: string | undefined;
@@ -1016,10 +1966,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/asset-parts/:id", async (req, res) => {
+  app.put("/api/asset-parts/:id", requirePermission("parts:allocate"), async (req, res) => {
     try {
+      const before = await storage.getAssetPart(req.params.id);
       const assetPart = await storage.updateAssetPart(req.params.id, req.body);
       if (!assetPart) return res.status(404).json({ error: "Asset part allocation not found" });
+      await refreshPartsCost([before?.serviceRecordId, assetPart.serviceRecordId]);
       webSocketService.broadcastAssetEvent("asset-part-updated", "asset-part", assetPart.id, {
         assetPart,
         mowerId: assetPart.mowerId,
@@ -1031,12 +1983,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/asset-parts/:id", async (req, res) => {
+  app.delete("/api/asset-parts/:id", requirePermission("parts:allocate"), async (req, res) => {
     try {
       const assetPart = await storage.getAssetPart(req.params.id);
       const deleted = await storage.deleteAssetPart(req.params.id);
       if (!deleted) return res.status(404).json({ error: "Asset part allocation not found" });
       if (assetPart) {
+        await refreshPartsCost([assetPart.serviceRecordId]);
         webSocketService.broadcastAssetEvent("asset-part-deleted", "asset-part", assetPart.id, {
           assetPart,
           mowerId: assetPart.mowerId,
@@ -1050,14 +2003,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // ---------------------------------------------------------------------------
-  // Backup & Restore (Auth placeholder)
+  // Backup & Restore
   // ---------------------------------------------------------------------------
-  const requireAuth = (req: Request, _res: Response, next: Function) => {
-    console.log(`Sensitive operation: ${req.method} ${req.path} from ${req.ip}`);
-    next();
-  };
-
-  app.post("/api/backup", requireAuth, async (_req, res) => {
+  app.post("/api/backup", requirePermission("backup:manage"), async (_req, res) => {
     try {
       await createBackup(res);
     } catch (error) {
@@ -1067,7 +2015,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/backup/metadata", async (_req, res) => {
+  app.get("/api/backup/metadata", requirePermission("backup:manage"), async (_req, res) => {
     try {
       const metadata = await getBackupMetadata();
       res.json(metadata || { lastBackupDate: null, lastBackupSize: 0, totalRecords: 0 });
@@ -1076,7 +2024,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/restore", requireAuth, backupUpload.single("backup"), async (req, res) => {
+  app.post("/api/restore", requirePermission("backup:manage"), backupUpload.single("backup"), async (req, res) => {
     try {
       if (!req.file) return res.status(400).json({ error: "No backup file uploaded" });
       const allowedTypes = ["application/zip", "application/x-zip-compressed", "multipart/x-zip"];
@@ -1096,12 +2044,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ---------------------------------------------------------------------------
+  // Maintenance Plans
+  // ---------------------------------------------------------------------------
+  app.get("/api/maintenance-plans", async (_req, res) => {
+    try { res.json(await storage.getMaintenancePlans()); }
+    catch { res.status(500).json({ error: "Failed to fetch maintenance plans" }); }
+  });
+
+  app.get("/api/maintenance-plans/:id", async (req, res) => {
+    try {
+      const plan = await storage.getMaintenancePlan(req.params.id);
+      if (!plan) return res.status(404).json({ error: "Maintenance plan not found" });
+      res.json(plan);
+    } catch {
+      res.status(500).json({ error: "Failed to fetch maintenance plan" });
+    }
+  });
+
+  app.post("/api/maintenance-plans", requirePermission("plans:write"), async (req, res) => {
+    try {
+      const validated = insertMaintenancePlanSchema.parse(req.body);
+      const plan = await storage.createMaintenancePlan(validated);
+      await refreshNextServiceDates();
+      res.status(201).json(plan);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid maintenance plan data", details: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  // Replaces the plan and its full list of items
+  app.put("/api/maintenance-plans/:id", requirePermission("plans:write"), async (req, res) => {
+    try {
+      const validated = insertMaintenancePlanSchema.parse(req.body);
+      const plan = await storage.updateMaintenancePlan(req.params.id, validated);
+      if (!plan) return res.status(404).json({ error: "Maintenance plan not found" });
+      await refreshNextServiceDates();
+      res.json(plan);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid maintenance plan data", details: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.delete("/api/maintenance-plans/:id", requirePermission("plans:write"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteMaintenancePlan(req.params.id);
+      if (!deleted) return res.status(404).json({ error: "Maintenance plan not found" });
+      await refreshNextServiceDates();
+      res.status(204).send();
+    } catch {
+      res.status(500).json({ error: "Failed to delete maintenance plan" });
+    }
+  });
+
+  // Schedules of all mowers in service, for the Maintenance page
+  app.get("/api/maintenance-schedule", async (_req, res) => {
+    try { res.json(await getFleetMaintenanceSchedules()); }
+    catch { res.status(500).json({ error: "Failed to fetch maintenance schedules" }); }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Calendar
+  // ---------------------------------------------------------------------------
+  // e.g. /api/calendar?from=2025-06-01&to=2025-06-30
+  app.get("/api/calendar", async (req, res) => {
+    try {
+      const query = calendarQuerySchema.safeParse(req.query);
+      if (!query.success) return res.status(400).json({ error: "Invalid calendar query", details: query.error.errors });
+      res.json(await getCalendarEvents(query.data));
+    } catch {
+      res.status(500).json({ error: "Failed to fetch calendar" });
+    }
+  });
+
+  // The signed-in user's feed URL, or null until they create one
+  const calendarFeedUrl = (req: Request, token: string | null) =>
+    token ? `${req.protocol}://${req.get("host")}/api/calendar.ics?token=${token}` : null;
+
+  app.get("/api/calendar/subscription", (req, res) => {
+    res.json({ url: calendarFeedUrl(req, req.user!.calendarToken) });
+  });
+
+  // Creates the feed URL, or replaces it so the old one stops working
+  app.post("/api/calendar/subscription", async (req, res) => {
+    try {
+      const user = await storage.updateUser(req.user!.id, { calendarToken: newCalendarToken() });
+      res.json({ url: calendarFeedUrl(req, user?.calendarToken ?? null) });
+    } catch {
+      res.status(500).json({ error: "Failed to create calendar feed" });
+    }
+  });
+
+  app.delete("/api/calendar/subscription", async (req, res) => {
+    try {
+      await storage.updateUser(req.user!.id, { calendarToken: null });
+      res.status(204).send();
+    } catch {
+      res.status(500).json({ error: "Failed to revoke calendar feed" });
+    }
+  });
+
   // ---------------------------------------------------------------------------
   // Notifications
   // ---------------------------------------------------------------------------
-  app.get("/api/notifications", async (_req, res) => {
-    try { res.json(await storage.getNotifications()); }
-    catch { res.status(500).json({ error: "Failed to fetch notifications" }); }
+  // e.g. /api/notifications?page=1&isRead=false&priority=high (newest first by default)
+  app.get("/api/notifications", async (req, res) => {
+    try {
+      const query = notificationListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid notification query", details: query.error.message });
+      }
+      sendList(res, query.data, await storage.listNotifications(query.data));
+    } catch {
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
   });
 
   app.get("/api/notifications/unread", async (_req, res) => {
@@ -1109,17 +2165,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     catch { res.status(500).json({ error: "Failed to fetch unread notifications" }); }
   });
 
-  app.post("/api/notifications", async (req, res) => {
+  app.post("/api/notifications", requirePermission("notifications:write"), async (req, res) => {
     try {
       const validated = insertNotificationSchema.parse(req.body);
-      const notification = await storage.createNotification(validated);
+      const notification = await NotificationService.notify(validated);
       res.status(201).json(notification);
     } catch (error) {
       res.status(400).json({ error: "Invalid notification data", details: error instanceof Error ? error.message : String(error) });
     }
   });
 
-  app.patch("/api/notifications/:id/read", async (req, res) => {
+  // Checks the overdue service, overdue task, low stock and warranty rules now instead of waiting for the scheduler
+  app.post("/api/notifications/rules/run", requirePermission("notifications:write"), async (_req, res) => {
+    try {
+      res.json(await runNotificationRules());
+    } catch {
+      res.status(500).json({ error: "Failed to run notification rules" });
+    }
+  });
+
+  app.patch("/api/notifications/:id/read", requirePermission("notifications:dismiss"), async (req, res) => {
     try {
       const success = await storage.markNotificationAsRead(req.params.id);
       if (!success) return res.status(404).json({ error: "Notification not found" });
@@ -1129,7 +2194,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/notifications/read-all", async (_req, res) => {
+  app.patch("/api/notifications/read-all", requirePermission("notifications:dismiss"), async (_req, res) => {
     try {
       const success = await storage.markAllNotificationsAsRead();
       res.json({ success });
@@ -1138,7 +2203,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/notifications/:id", async (req, res) => {
+  app.delete("/api/notifications/:id", requirePermission("notifications:dismiss"), async (req, res) => {
     try {
       const success = await storage.deleteNotification(req.params.id);
       if (!success) return res.status(404).json({ error: "Notification not found" });
@@ -1148,7 +2213,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/notifications", async (_req, res) => {
+  app.delete("/api/notifications", requirePermission("notifications:dismiss"), async (_req, res) => {
     try {
       const success = await storage.deleteAllNotifications();
       res.json({ success });
@@ -1157,6 +2222,200 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ---------------------------------------------------------------------------
+  // Notification Emails
+  // ---------------------------------------------------------------------------
+  // The signed-in user's email address and how each notification type and priority is emailed to them
+  app.get("/api/notification-preferences", async (req, res) => {
+    try {
+      res.json(await getNotificationPreferencesView(req.user!));
+    } catch {
+      res.status(500).json({ error: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.put("/api/notification-preferences", async (req, res) => {
+    try {
+      const parsed = notificationPreferencesUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid notification preferences", details: parsed.error.errors[0]?.message ?? parsed.error.message });
+      }
+      const user = await storage.updateUser(req.user!.id, { email: parsed.data.email });
+      // Only the combinations that are emailed are stored; the rest are off
+      await storage.setNotificationPreferences(req.user!.id, parsed.data.preferences.filter((preference) => preference.delivery !== "off"));
+      res.json(await getNotificationPreferencesView(user ?? req.user!));
+    } catch {
+      res.status(500).json({ error: "Failed to save notification preferences" });
+    }
+  });
+
+  app.post("/api/notification-preferences/test", async (req, res) => {
+    try {
+      if (!isEmailConfigured()) return res.status(400).json({ error: "Email is not set up on the server (SMTP_HOST)" });
+      if (!req.user!.email) return res.status(400).json({ error: "Save an email address first" });
+      res.json(await sendTestEmail(req.user!));
+    } catch {
+      res.status(500).json({ error: "Failed to send test email" });
+    }
+  });
+
+  // Delivery log, newest first: the user's own emails, or everyone's for user admins
+  app.get("/api/notification-deliveries", async (req, res) => {
+    try {
+      const query = notificationDeliveryQuerySchema.safeParse(req.query);
+      if (!query.success) return res.status(400).json({ error: "Invalid delivery query", details: query.error.errors });
+      const everyone = hasPermission(req.user!.role, "users:manage");
+      res.json(await storage.getNotificationDeliveries({
+        userId: everyone ? undefined : req.user!.id,
+        status: query.data.status,
+        limit: query.data.limit,
+      }));
+    } catch {
+      res.status(500).json({ error: "Failed to fetch notification deliveries" });
+    }
+  });
+
+  // Sends a failed email again now, including one that has run out of automatic retries
+  app.post("/api/notification-deliveries/:id/retry", async (req, res) => {
+    try {
+      const delivery = await storage.getNotificationDelivery(parseInt(req.params.id));
+      if (!delivery || (delivery.userId !== req.user!.id && !hasPermission(req.user!.role, "users:manage"))) {
+        return res.status(404).json({ error: "Delivery not found" });
+      }
+      if (delivery.status === "sent") return res.status(400).json({ error: "This email was already sent" });
+      if (!isEmailConfigured()) return res.status(400).json({ error: "Email is not set up on the server (SMTP_HOST)" });
+      res.json(await attemptDelivery(delivery));
+    } catch {
+      res.status(500).json({ error: "Failed to retry delivery" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Webhooks
+  // ---------------------------------------------------------------------------
+  app.get("/api/webhooks", requirePermission("webhooks:manage"), async (_req, res) => {
+    try { res.json(await storage.getWebhooks()); }
+    catch { res.status(500).json({ error: "Failed to fetch webhooks" }); }
+  });
+
+  // The secret is generated here and returned with the webhook, for the receiver to check signatures with
+  app.post("/api/webhooks", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const parsed = insertWebhookSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid webhook data", details: parsed.error.errors[0]?.message ?? parsed.error.message });
+      }
+      res.status(201).json(await storage.createWebhook({ ...parsed.data, secret: newWebhookSecret() }));
+    } catch {
+      res.status(500).json({ error: "Failed to create webhook" });
+    }
+  });
+
+  app.put("/api/webhooks/:id", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const parsed = insertWebhookSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid webhook data", details: parsed.error.errors[0]?.message ?? parsed.error.message });
+      }
+      const webhook = await storage.updateWebhook(parseInt(req.params.id), parsed.data);
+      if (!webhook) return res.status(404).json({ error: "Webhook not found" });
+      res.json(webhook);
+    } catch {
+      res.status(500).json({ error: "Failed to update webhook" });
+    }
+  });
+
+  // A new secret; the receiver has to be given it before signatures check out again
+  app.post("/api/webhooks/:id/secret", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const webhook = await storage.updateWebhook(parseInt(req.params.id), { secret: newWebhookSecret() });
+      if (!webhook) return res.status(404).json({ error: "Webhook not found" });
+      res.json(webhook);
+    } catch {
+      res.status(500).json({ error: "Failed to rotate webhook secret" });
+    }
+  });
+
+  app.delete("/api/webhooks/:id", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteWebhook(parseInt(req.params.id));
+      if (!deleted) return res.status(404).json({ error: "Webhook not found" });
+      res.status(204).send();
+    } catch {
+      res.status(500).json({ error: "Failed to delete webhook" });
+    }
+  });
+
+  app.post("/api/webhooks/:id/test", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const webhook = await storage.getWebhook(parseInt(req.params.id));
+      if (!webhook) return res.status(404).json({ error: "Webhook not found" });
+      res.json(await sendWebhookPing(webhook));
+    } catch {
+      res.status(500).json({ error: "Failed to send test event" });
+    }
+  });
+
+  // e.g. /api/webhooks/3/deliveries?status=failed (newest first)
+  app.get("/api/webhooks/:id/deliveries", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const query = webhookDeliveryQuerySchema.safeParse(req.query);
+      if (!query.success) return res.status(400).json({ error: "Invalid delivery query", details: query.error.errors });
+      res.json(await storage.getWebhookDeliveries({ webhookId: parseInt(req.params.id), ...query.data }));
+    } catch {
+      res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  // Sends a delivery again now, including one that has run out of automatic retries
+  app.post("/api/webhook-deliveries/:id/retry", requirePermission("webhooks:manage"), async (req, res) => {
+    try {
+      const delivery = await storage.getWebhookDelivery(parseInt(req.params.id));
+      if (!delivery) return res.status(404).json({ error: "Delivery not found" });
+      if (delivery.status === "success") return res.status(400).json({ error: "This event was already delivered" });
+      res.json(await attemptWebhookDelivery(delivery));
+    } catch {
+      res.status(500).json({ error: "Failed to retry delivery" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // MQTT
+  // ---------------------------------------------------------------------------
+  app.get("/api/mqtt/settings", requirePermission("mqtt:manage"), async (_req, res) => {
+    try { res.json(await getMqttSettingsView()); }
+    catch { res.status(500).json({ error: "Failed to fetch MQTT settings" }); }
+  });
+
+  // Saving reconnects the publisher straight away (or stops it when disabled)
+  app.put("/api/mqtt/settings", requirePermission("mqtt:manage"), async (req, res) => {
+    try {
+      const parsed = mqttSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid MQTT settings", details: parsed.error.errors[0]?.message ?? parsed.error.message });
+      }
+      const saved = await storage.saveMqttSettings(await resolveMqttSettings(parsed.data));
+      await applyMqttSettings(saved);
+      res.json(await getMqttSettingsView());
+    } catch {
+      res.status(500).json({ error: "Failed to save MQTT settings" });
+    }
+  });
+
+  // Tries the settings in the form, saved or not, by connecting and publishing a test message
+  app.post("/api/mqtt/test", requirePermission("mqtt:manage"), async (req, res) => {
+    const parsed = mqttSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid MQTT settings", details: parsed.error.errors[0]?.message ?? parsed.error.message });
+    }
+    try {
+      await testMqttConnection(await resolveMqttSettings(parsed.data));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ error: "Could not publish to the broker", details: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
   // ---------------------------------------------------------------------------
   // Reminders
   // ---------------------------------------------------------------------------
@@ -1172,9 +2431,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/reminders", async (_req, res) => {
     try {
-      const [lowStockParts, upcomingServices] = await Promise.all([
+      const [lowStockParts, upcomingServices, appointments] = await Promise.all([
         storage.getLowStockParts(),
-        storage.getUpcomingServiceReminders()
+        storage.getUpcomingServiceReminders(),
+        getServiceAppointments()
       ]);
 
       const stockReminders = lowStockParts.map(part => ({
@@ -1189,22 +2449,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }));
 
       const serviceReminders = upcomingServices.map(s => ({
-        id: `service-${s.mower.id}-${s.dueDate.getTime()}`,
+        id: `service-${s.mower.id}-${s.itemId ?? "next"}`,
         type: "service" as const,
         title: s.serviceType,
         subtitle: `${s.mower.make} ${s.mower.model}`,
         daysUntilDue: s.daysUntilDue,
-        priority: s.daysUntilDue <= 7 ? "high" as const :
-                  s.daysUntilDue <= 14 ? "medium" as const : "low" as const,
+        hoursUntilDue: s.hoursUntilDue,
+        // Hour-based items without a date estimate are urgent once the hours run out
+        priority: (s.daysUntilDue !== null && s.daysUntilDue <= 7) || (s.hoursUntilDue !== null && s.hoursUntilDue <= 0) ? "high" as const :
+                  s.daysUntilDue === null || s.daysUntilDue <= 14 ? "medium" as const : "low" as const,
         mowerId: s.mower.id,
         dueDate: s.dueDate
       }));
 
-      const all = [...stockReminders, ...serviceReminders].sort((a, b) => {
+      // Booked appointments due within the reminder window, or past their planned date
+      const appointmentReminders = appointments
+        .filter(a => a.daysUntilDue <= DUE_SOON_DAYS)
+        .map(a => ({
+          id: `appointment-${a.id}`,
+          type: "appointment" as const,
+          title: a.serviceType,
+          subtitle: `${a.mower.make} ${a.mower.model} - ${a.description}`,
+          daysUntilDue: a.daysUntilDue,
+          hoursUntilDue: null,
+          priority: a.daysUntilDue <= 1 ? "high" as const : a.daysUntilDue <= 7 ? "medium" as const : "low" as const,
+          mowerId: a.mowerId,
+          serviceRecordId: a.id,
+          status: a.status,
+          dueDate: a.scheduledDate ?? a.serviceDate
+        }));
+
+      const all = [...stockReminders, ...serviceReminders, ...appointmentReminders].sort((a, b) => {
         const order = { high: 0, medium: 1, low: 2 };
         const diff = order[a.priority] - order[b.priority];
         if (diff !== 0) return diff;
-        if (a.type === "service" && b.type === "service") return a.daysUntilDue - b.daysUntilDue;
+        if (a.type !== "stock" && b.type !== "stock") {
+          return (a.daysUntilDue ?? Infinity) - (b.daysUntilDue ?? Infinity) ||
+                 (a.hoursUntilDue ?? Infinity) - (b.hoursUntilDue ?? Infinity);
+        }
         return 0;
       });
 
@@ -1214,6 +2496,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ---------------------------------------------------------------------------
+  // Global Search
+  // ---------------------------------------------------------------------------
+  // e.g. /api/search?q=kohler%20filter (results grouped by entity type)
+  app.get("/api/search", async (req, res) => {
+    try {
+      const params = searchQuerySchema.safeParse(req.query);
+      if (!params.success) {
+        return res.status(400).json({ error: "Invalid search query", details: params.error.message });
+      }
+      res.json(await runSearch(params.data.q, params.data.limit));
+    } catch {
+      res.status(500).json({ error: "Search failed" });
+    }
+  });
+
+  // ---------------------------------------------------------------------------
+  // Audit Log
+  // ---------------------------------------------------------------------------
+  // e.g. /api/audit?mowerId=3 (mower plus its tasks, service records, attachments, allocations)
+  app.get("/api/audit", async (req, res) => {
+    try {
+      const filters = auditQuerySchema.safeParse(req.query);
+      if (!filters.success) {
+        return res.status(400).json({ error: "Invalid audit filters", details: filters.error.message });
+      }
+      res.json(await storage.getAuditEvents(filters.data));
+    } catch {
+      res.status(500).json({ error: "Failed to fetch audit events" });
+    }
+  });
+
   // ---------------------------------------------------------------------------
   // Database Stats
   // ---------------------------------------------------------------------------
@@ -1267,6 +2581,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
-  webSocketService.initialize(httpServer);
+  webSocketService.initialize(httpServer, authenticateUpgrade);
   return httpServer;
 }
@@ -0,0 +1,146 @@
+import { storage } from "./storage";
+import { taskAssetUrl } from "./tasks";
+import {
+  tokenizeSearchText,
+  SEARCH_ENTITY_TYPES,
+  type Attachment,
+  type Task,
+  type SearchResponse,
+  type SearchResult,
+  type SearchEntityType,
+} from "@shared/schema";
+
+// Characters of context kept either side of the first match in a snippet
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Short excerpt around the first occurrence of any term, or null when the
+ * text is empty or only matched in other fields.
+ */
+function buildSnippet(text: string | null | undefined, terms: string[]): string | null {
+  if (!text) return null;
+  const lower = text.toLowerCase();
+  const positions = terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0);
+  if (positions.length === 0) return null;
+
+  const index = Math.min(...positions);
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + SNIPPET_CONTEXT * 2);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+}
+
+function joinParts(...parts: (string | null | undefined)[]) {
+  return parts.filter(Boolean).join(" · ") || null;
+}
+
+function formatDate(date: Date) {
+  return date.toISOString().split("T")[0];
+}
+
+// Photos on task comments open the task's asset, looked up through commentTaskUrls
+function attachmentUrl(attachment: Attachment, commentTaskUrls: Map<number, string>) {
+  if (attachment.mowerId) return `/mowers/${attachment.mowerId}?tab=attachments`;
+  if (attachment.engineId) return `/catalog/engines/${attachment.engineId}?tab=attachments`;
+  if (attachment.partId) return `/catalog/parts/${attachment.partId}?tab=attachments`;
+  if (attachment.taskCommentId) return commentTaskUrls.get(attachment.taskCommentId) ?? "/tasks";
+  return "/";
+}
+
+/**
+ * Runs a global search and shapes the matches into display-ready results,
+ * grouped by entity type. Returns no groups when the query has no searchable words.
+ */
+export async function runSearch(query: string, limit: number): Promise<SearchResponse> {
+  const terms = tokenizeSearchText(query);
+  if (terms.length === 0) return { query, total: 0, groups: [] };
+
+  const matches = await storage.search(terms, limit);
+
+  // Service records and tasks are shown with the asset they belong to
+  const mowerIds = new Set(
+    [...matches.serviceRecords, ...matches.tasks].filter((record) => record.mowerId).map((record) => String(record.mowerId)),
+  );
+  const mowerNames = new Map<string, string>();
+  for (const mowerId of Array.from(mowerIds)) {
+    const mower = await storage.getMower(mowerId);
+    if (mower) mowerNames.set(mowerId, `${mower.make} ${mower.model}`);
+  }
+  const catalogNames = new Map<string, string>();
+  for (const task of matches.tasks) {
+    if (task.engineId && !catalogNames.has(`engine:${task.engineId}`)) {
+      const engine = await storage.getEngine(String(task.engineId));
+      if (engine) catalogNames.set(`engine:${task.engineId}`, engine.name);
+    }
+    if (task.partId && !catalogNames.has(`part:${task.partId}`)) {
+      const part = await storage.getPart(String(task.partId));
+      if (part) catalogNames.set(`part:${task.partId}`, part.name);
+    }
+  }
+  const commentTaskUrls = new Map<number, string>();
+  for (const attachment of matches.attachments) {
+    if (!attachment.taskCommentId || commentTaskUrls.has(attachment.taskCommentId)) continue;
+    const comment = await storage.getTaskComment(String(attachment.taskCommentId));
+    const task = comment && await storage.getTask(comment.taskId);
+    if (task) commentTaskUrls.set(attachment.taskCommentId, taskAssetUrl(task) ?? "/tasks");
+  }
+  const taskOwnerName = (task: Task) =>
+    task.engineId ? catalogNames.get(`engine:${task.engineId}`)
+      : task.partId ? catalogNames.get(`part:${task.partId}`)
+      : mowerNames.get(String(task.mowerId));
+
+  const results: Record<SearchEntityType, SearchResult[]> = {
+    mower: matches.mowers.map((mower) => ({
+      entityType: "mower",
+      id: String(mower.id),
+      title: `${mower.make} ${mower.model}`,
+      subtitle: joinParts(mower.serialNumber && `S/N ${mower.serialNumber}`, mower.location),
+      snippet: buildSnippet(mower.notes, terms),
+      url: `/mowers/${mower.id}`,
+    })),
+    engine: matches.engines.map((engine) => ({
+      entityType: "engine",
+      id: String(engine.id),
+      title: engine.name,
+      subtitle: joinParts(engine.manufacturer, engine.model, engine.serialNumber && `S/N ${engine.serialNumber}`),
+      snippet: buildSnippet(engine.notes ?? engine.description, terms),
+      url: `/catalog/engines/${engine.id}`,
+    })),
+    part: matches.parts.map((part) => ({
+      entityType: "part",
+      id: String(part.id),
+      title: part.name,
+      subtitle: joinParts(part.partNumber, part.manufacturer),
+      snippet: buildSnippet(part.notes ?? part.description, terms),
+      url: `/catalog/parts/${part.id}`,
+    })),
+    service_record: matches.serviceRecords.map((record) => ({
+      entityType: "service_record",
+      id: record.id,
+      title: `${record.serviceType.charAt(0).toUpperCase()}${record.serviceType.slice(1)} on ${formatDate(record.serviceDate)}`,
+      subtitle: joinParts(mowerNames.get(String(record.mowerId)), record.performedBy),
+      snippet: buildSnippet(record.description, terms),
+      url: `/mowers/${record.mowerId}?tab=service-history`,
+    })),
+    task: matches.tasks.map((task) => ({
+      entityType: "task",
+      id: task.id,
+      title: task.title,
+      subtitle: joinParts(taskOwnerName(task), task.status.replace("_", " ")),
+      snippet: buildSnippet(task.description, terms),
+      url: taskAssetUrl(task) ?? "/tasks",
+    })),
+    attachment: matches.attachments.map((attachment) => ({
+      entityType: "attachment",
+      id: attachment.id,
+      title: attachment.title || attachment.fileName,
+      subtitle: attachment.title ? attachment.fileName : null,
+      snippet: buildSnippet(attachment.textContent, terms) ?? buildSnippet(attachment.description, terms),
+      url: attachmentUrl(attachment, commentTaskUrls),
+    })),
+  };
+
+  const groups = SEARCH_ENTITY_TYPES
+    .map((entityType) => ({ entityType, results: results[entityType] }))
+    .filter((group) => group.results.length > 0);
+  return { query, total: groups.reduce((sum, group) => sum + group.results.length, 0), groups };
+}
@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { serviceRecordFeeSchema, type ServiceAppointment, type ServiceRecord, type ServiceRecordStatus, type ServiceRecordWithCosts } from "@shared/schema";
+import { storage, type ServiceRecordFeeCreate } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Where a service record can move from each status. Completed records are final;
+// a cancelled appointment can be booked again.
+const STATUS_TRANSITIONS: Record<ServiceRecordStatus, ServiceRecordStatus[]> = {
+  scheduled: ["in_progress", "completed", "cancelled"],
+  in_progress: ["scheduled", "completed", "cancelled"],
+  completed: [],
+  cancelled: ["scheduled"],
+};
+
+const money = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Each record's line items with what they add up to: the parts installed under
+ * it priced from the catalog, its labor with the technicians' names, and its fees.
+ */
+export async function withCosts(records: ServiceRecord[]): Promise<ServiceRecordWithCosts[]> {
+  const ids = records.map((record) => record.id);
+  const [labor, fees, technicians, assetParts, parts] = await Promise.all([
+    storage.getServiceRecordLabor(ids),
+    storage.getServiceRecordFees(ids),
+    storage.getTechnicians(),
+    storage.getAllAssetParts(),
+    storage.getAllParts(),
+  ]);
+  return records.map((record) => {
+    const partLines = assetParts
+      .filter((assetPart) => assetPart.serviceRecordId === record.id)
+      .map((assetPart) => {
+        const part = parts.find((candidate) => candidate.id === assetPart.partId);
+        const unitCost = Number(part?.unitCost ?? 0);
+        return {
+          assetPartId: assetPart.id,
+          partId: assetPart.partId,
+          name: part?.name ?? "Unknown part",
+          partNumber: part?.partNumber ?? "",
+          quantity: assetPart.quantity,
+          unitCost,
+          total: money(unitCost * assetPart.quantity),
+        };
+      });
+    const entries = labor
+      .filter((entry) => entry.serviceRecordId === record.id)
+      .map((entry) => {
+        const technician = technicians.find((candidate) => candidate.id === entry.technicianId);
+        return { ...entry, technicianName: technician?.name ?? "Unknown", technicianKind: technician?.kind ?? "staff" };
+      });
+    const recordFees = fees.filter((fee) => fee.serviceRecordId === record.id);
+    const partsCost = money(partLines.reduce((sum, line) => sum + line.total, 0));
+    const laborCost = money(entries.reduce((sum, entry) => sum + Number(entry.hours ?? 0) * Number(entry.hourlyRate ?? 0), 0));
+    const feesCost = money(recordFees.reduce((sum, fee) => sum + Number(fee.amount), 0));
+    return {
+      ...record,
+      parts: partLines,
+      labor: entries,
+      fees: recordFees,
+      partsCost,
+      laborCost,
+      feesCost,
+      computedCost: money(partsCost + laborCost + feesCost),
+    };
+  });
+}
+
+export async function getServiceRecordWithCosts(id: string): Promise<ServiceRecordWithCosts | undefined> {
+  const record = await storage.getServiceRecord(id);
+  return record ? (await withCosts([record]))[0] : undefined;
+}
+
+export async function getMowerServiceRecords(mowerId: string): Promise<ServiceRecordWithCosts[]> {
+  return withCosts(await storage.getServiceRecordsByMowerId(mowerId));
+}
+
+/**
+ * Brings a record's stored cost in line with its line items, or with its
+ * override when it has one. Returns the record as updated, or the same record
+ * when the cost was already right.
+ */
+export async function refreshServiceRecordCost(record: ServiceRecord): Promise<ServiceRecord> {
+  const [{ computedCost }] = await withCosts([record]);
+  const cost = record.costOverride ?? (computedCost > 0 ? computedCost.toFixed(2) : null);
+  if (cost === record.cost) return record;
+  return (await storage.updateServiceRecord(record.id, { cost })) ?? record;
+}
+
+/**
+ * The fees a service record request sets, or undefined when the request leaves
+ * them alone.
+ */
+export function feesFromRequest(body: { fees?: unknown }): { fees: ServiceRecordFeeCreate[] } | { error: string } | undefined {
+  if (body.fees === undefined) return undefined;
+  const parsed = z.array(serviceRecordFeeSchema).safeParse(body.fees);
+  if (!parsed.success) return { error: parsed.error.errors[0]?.message ?? "Invalid fees" };
+  return { fees: parsed.data.map((fee) => ({ kind: fee.kind, description: fee.description, amount: fee.amount.toFixed(2) })) };
+}
+
+/**
+ * The manual total a service record request sets. Clients from before line
+ * items send the total they typed as cost, which counts as an override.
+ * Returns undefined when the request leaves the override alone, and throws
+ * when it is not an amount.
+ */
+export function costOverrideFromRequest(body: { costOverride?: unknown; cost?: unknown }): string | null | undefined {
+  const value = body.costOverride !== undefined ? body.costOverride : body.cost;
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) throw new Error("Invalid cost override");
+  return amount.toFixed(2);
+}
+
+/**
+ * Moves a service record to another status. Completing it sets the date the
+ * work was done (default now) and moves the mower's service dates on; nothing
+ * else does.
+ */
+export async function changeServiceRecordStatus(
+  record: ServiceRecord,
+  status: ServiceRecordStatus,
+  serviceDate: Date | undefined,
+): Promise<{ record: ServiceRecord } | { error: string }> {
+  if (status === record.status) return { record };
+  if (!STATUS_TRANSITIONS[record.status as ServiceRecordStatus]?.includes(status)) {
+    return { error: `A ${record.status.replace("_", " ")} service record cannot be moved to ${status.replace("_", " ")}` };
+  }
+  const updated = status === "completed"
+    ? await storage.completeServiceRecord(record.id, serviceDate ?? new Date())
+    : await storage.updateServiceRecord(record.id, { status });
+  return { record: updated ?? record };
+}
+
+// Scheduled and in-progress appointments of mowers that still exist, soonest planned date first
+export async function getServiceAppointments(today: Date = new Date()): Promise<ServiceAppointment[]> {
+  const [records, mowers] = await Promise.all([storage.getAllServiceRecords(), storage.getAllMowers()]);
+  const startOfToday = new Date(today.toISOString().slice(0, 10)).getTime();
+  return records
+    .filter((record) => record.status === "scheduled" || record.status === "in_progress")
+    .flatMap((record) => {
+      const mower = mowers.find((candidate) => candidate.id === record.mowerId);
+      if (!mower) return [];
+      const planned = new Date(record.scheduledDate ?? record.serviceDate);
+      return [{
+        ...record,
+        mower: { id: mower.id, make: mower.make, model: mower.model, serialNumber: mower.serialNumber },
+        daysUntilDue: Math.floor((new Date(planned.toISOString().slice(0, 10)).getTime() - startOfToday) / DAY_MS),
+      }];
+    })
+    .sort((a, b) => a.daysUntilDue - b.daysUntilDue);
+}
@@ -1,34 +1,194 @@
-import { type Mower, type InsertMower, type ServiceRecord, type InsertServiceRecord, type Attachment, type InsertAttachment, type Task, type InsertTask, type Engine, type InsertEngine, type Part, type InsertPart, type AssetPart, type InsertAssetPart, type AssetPartWithDetails, type Notification, type InsertNotification, mowers, tasks, serviceRecords, attachments, engines, parts, assetParts, notifications } from "@shared/schema";
+import { type Mower, type InsertMower, type ServiceRecord, type InsertServiceRecord, type Attachment, type InsertAttachment, type Task, type InsertTask, type Engine, type InsertEngine, type Part, type InsertPart, type AssetPart, type InsertAssetPart, type AssetPartWithDetails, type Notification, type InsertNotification, type NotificationRuleHit, type NotificationPreference, type NotificationDelivery, type NotificationDeliveryStatus, type Webhook, type WebhookDelivery, type WebhookDeliveryStatus, type MqttSettings, type User, type InsertUser, type AuditEvent, type AuditEntityType, type MaintenancePlan, type MaintenancePlanItem, type MaintenancePlanWithItems, type InsertMaintenancePlan, type MeterReading, type InsertMeterReading, type TaskChecklistItem, type InsertTaskChecklistItem, type TaskComment, type InsertTaskComment, type WorkOrder, type InsertWorkOrder, type WorkOrderLabor, type Technician, type ServiceRecordLabor, type ServiceRecordFee, type MowerListQuery, type ServiceRecordListQuery, type EngineListQuery, type PartListQuery, type NotificationListQuery, NOTIFICATION_PRIORITIES, SEARCH_FIELDS, searchDocument, tokenizeSearchText, mowers, tasks, serviceRecords, attachments, engines, parts, assetParts, notifications, notificationRuleHits, notificationPreferences, notificationDeliveries, webhooks, webhookDeliveries, mqttSettings, users, auditEvents, maintenancePlans, maintenancePlanItems, meterReadings, taskChecklistItems, taskComments, workOrders, workOrderLabor, technicians, serviceRecordLabor, serviceRecordFees } from "@shared/schema";
 import { randomUUID } from "crypto";
-import { db } from "./db";
-import { eq, desc, sql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { db, pool, runInTransaction } from "./db";
+import { eq, ne, asc, desc, sql, and, gte, lt, lte, isNotNull, isNull, inArray, getTableColumns, type SQL, type Column } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { buildAuditEvent } from "./audit";
+import {
+  computeMaintenanceSchedule,
+  nextServiceDateFor,
+  upcomingServiceReminders,
+  type UpcomingServiceReminder,
+} from "./maintenanceSchedule";
+import { hourMeterAfterService } from "./hourMeter";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 // modify the interface with any CRUD methods
 // you might need
 
+export interface AuditEventFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: string;
+  actorId?: number;
+  mowerId?: number;
+  engineId?: number;
+  partId?: number;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Records matching a global search, best matches first, keyed like SEARCH_FIELDS
+export interface SearchMatches {
+  mowers: Mower[];
+  engines: Engine[];
+  parts: Part[];
+  serviceRecords: ServiceRecord[];
+  tasks: Task[];
+  attachments: Attachment[];
+}
+
+// One page (or, without a page number, all) of the rows matching a list query
+export interface ListResult<T> {
+  items: T[];
+  total: number;
+}
+
+type ListQuery = { page?: number; pageSize: number; sort?: string };
+
+// Fields that sort by their position in a list of values instead of alphabetically
+type SortRanks = Record<string, readonly string[]>;
+
+// Lowest first, so sort=-priority lists high priority first
+const NOTIFICATION_SORT_RANKS: SortRanks = { priority: [...NOTIFICATION_PRIORITIES].reverse() };
+
+function parseSort(sort: string | undefined): { field: string; descending: boolean } | null {
+  if (!sort) return null;
+  return { field: sort.replace(/^-/, ""), descending: sort.startsWith("-") };
+}
+
+function pageWindow(query: ListQuery): { limit: number; offset: number } | null {
+  if (query.page === undefined) return null;
+  return { limit: query.pageSize, offset: (query.page - 1) * query.pageSize };
+}
+
+// Calendar-date columns (mode "string") compare as YYYY-MM-DD
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  // Decimal columns come back as strings
+  if (typeof a === "string" && typeof b === "string" && a !== "" && b !== "" && !isNaN(Number(a)) && !isNaN(Number(b))) {
+    return Number(a) - Number(b);
+  }
+  return String(a).localeCompare(String(b), undefined, { sensitivity: "base" });
+}
+
+// Case-insensitive substring match across several fields, like the ILIKE filter in DbStorage
+function matchesText(values: (string | null | undefined)[], q: string | undefined): boolean {
+  if (!q) return true;
+  return values.filter(Boolean).join(" ").toLowerCase().includes(q.toLowerCase());
+}
+
+/**
+ * Sorts (nulls last, like DbStorage) and pages already-filtered in-memory records.
+ */
+function memList<T extends object>(records: T[], query: ListQuery, defaultSort?: string, ranks: SortRanks = {}): ListResult<T> {
+  const sort = parseSort(query.sort ?? defaultSort);
+  if (sort) {
+    const rank = ranks[sort.field];
+    // Values missing from the rank list sort with the nulls
+    const sortValue = (record: T) => {
+      const value = (record as Record<string, unknown>)[sort.field];
+      if (!rank) return value;
+      const index = rank.indexOf(value as string);
+      return index === -1 ? null : index;
+    };
+    records.sort((a, b) => {
+      const av = sortValue(a);
+      const bv = sortValue(b);
+      if (av === null || av === undefined) return bv === null || bv === undefined ? 0 : 1;
+      if (bv === null || bv === undefined) return -1;
+      const result = compareValues(av, bv);
+      return sort.descending ? -result : result;
+    });
+  }
+  const window = pageWindow(query);
+  return {
+    items: window ? records.slice(window.offset, window.offset + window.limit) : records,
+    total: records.length,
+  };
+}
+
+// ILIKE '%q%' across several columns; LIKE wildcards in q are matched literally
+function textFilter(columns: Column[], q: string): SQL {
+  const pattern = `%${q.replace(/[\\%_]/g, "\\$&")}%`;
+  return sql`concat_ws(' ', ${sql.join(columns, sql`, `)}) ILIKE ${pattern}`;
+}
+
+// File types whose text is extracted for search
+const TEXT_SEARCHABLE_FILE_TYPES = ["pdf", "txt"];
+
 export interface IStorage {
+  // Session store backing express-session
+  sessionStore: session.Store;
+
+  // Runs work so that the storage calls it makes commit or roll back together
+  runInTransaction<T>(work: () => Promise<T>): Promise<T>;
+
+  // User methods
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByCalendarToken(token: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  countUsers(): Promise<number>;
+  createUser(user: InsertUser): Promise<User>;
+  // Creates the user only while there are no users yet; undefined when another account already exists
+  createFirstUser(user: InsertUser): Promise<User | undefined>;
+  updateUser(id: number, user: Partial<InsertUser> & { lastLoginAt?: Date; calendarToken?: string | null }): Promise<User | undefined>;
+
   // Mower methods
   getMower(id: string): Promise<Mower | undefined>;
   getAllMowers(): Promise<Mower[]>;
+  listMowers(query: MowerListQuery): Promise<ListResult<Mower>>;
   createMower(mower: InsertMower): Promise<Mower>;
   updateMower(id: string, mower: Partial<InsertMower>): Promise<Mower | undefined>;
   updateMowerThumbnail(mowerId: string, thumbnailAttachmentId: string | null): Promise<boolean>;
+  setMowerHourMeter(mowerId: string, hours: number | null, recordedAt: Date | null): Promise<Mower | undefined>;
   deleteMower(id: string): Promise<boolean>;
   
   // Task methods
   getTask(id: string): Promise<Task | undefined>;
   getTasksByMowerId(mowerId: string): Promise<Task[]>;
+  getTasksByEngineId(engineId: string): Promise<Task[]>;
+  getTasksByPartId(partId: string): Promise<Task[]>;
   getAllTasks(): Promise<Task[]>;
-  createTask(task: InsertTask): Promise<Task>;
-  updateTask(id: string, task: Partial<InsertTask>): Promise<Task | undefined>;
+  createTask(task: InsertTask & { seriesId?: string | null }): Promise<Task>; // seriesId links instances of a recurring task
+  updateTask(id: string, task: TaskUpdate): Promise<Task | undefined>;
   deleteTask(id: string): Promise<boolean>;
   markTaskComplete(id: string): Promise<Task | undefined>;
+  // Completes the task only if it is not completed and has not created its next instance yet; undefined otherwise
+  markTaskCompleteOnce(id: string): Promise<Task | undefined>;
+
+  // Task checklist and comment methods (lists are per task, in display order)
+  getTaskChecklistItems(taskIds: string[]): Promise<TaskChecklistItem[]>;
+  getTaskChecklistItem(id: string): Promise<TaskChecklistItem | undefined>;
+  createTaskChecklistItem(taskId: string, item: InsertTaskChecklistItem): Promise<TaskChecklistItem>; // appended at the end
+  updateTaskChecklistItem(id: string, updates: TaskChecklistItemUpdate): Promise<TaskChecklistItem | undefined>;
+  deleteTaskChecklistItem(id: string): Promise<boolean>;
+  getTaskComments(taskIds: string[]): Promise<TaskComment[]>; // oldest first
+  getTaskComment(id: string): Promise<TaskComment | undefined>;
+  createTaskComment(comment: InsertTaskComment & Pick<TaskComment, "taskId" | "authorId" | "authorName">): Promise<TaskComment>;
+  deleteTaskComment(id: string): Promise<boolean>;
+  getAttachmentsByTaskCommentIds(commentIds: number[]): Promise<Attachment[]>;
   
   // Service Record methods
   getServiceRecord(id: string): Promise<ServiceRecord | undefined>;
   getServiceRecordsByMowerId(mowerId: string): Promise<ServiceRecord[]>;
   getAllServiceRecords(): Promise<ServiceRecord[]>;
-  createServiceRecordWithMowerUpdate(serviceRecord: InsertServiceRecord): Promise<ServiceRecord>;
+  listServiceRecords(query: ServiceRecordListQuery): Promise<ListResult<ServiceRecord>>;
+  createServiceRecordWithMowerUpdate(serviceRecord: InsertServiceRecord): Promise<ServiceRecord>; // the mower's service dates only move for completed records
+  // Marks an appointment completed on the date the work was done and moves the mower's service dates
+  completeServiceRecord(id: string, serviceDate: Date): Promise<ServiceRecord | undefined>;
   updateServiceRecord(id: string, serviceRecord: Partial<InsertServiceRecord>): Promise<ServiceRecord | undefined>;
   deleteServiceRecord(id: string): Promise<boolean>;
   
@@ -41,11 +201,21 @@ export interface IStorage {
   createAttachment(attachment: InsertAttachment): Promise<Attachment>;
   updateAttachmentMetadata(id: string, metadata: { title?: string; description?: string }): Promise<Attachment | undefined>;
   deleteAttachment(id: string): Promise<boolean>;
+  countAttachmentsByContentHash(contentHash: string): Promise<number>;
+  // Distinct blob hashes still referenced by an attachment
+  getAttachmentContentHashes(): Promise<string[]>;
+  // Rows still holding base64 content from before the blob store
+  getLegacyAttachmentIds(): Promise<string[]>;
+  setAttachmentContentHash(id: string, contentHash: string): Promise<void>;
+  // PDF/TXT attachments whose text has not been extracted for search yet
+  getAttachmentIdsMissingText(): Promise<string[]>;
+  setAttachmentTextContent(id: string, textContent: string): Promise<void>;
   
   // Engine methods
   getEngine(id: string): Promise<Engine | undefined>;
   getEnginesByMowerId(mowerId: string): Promise<Engine[]>;
   getAllEngines(): Promise<Engine[]>;
+  listEngines(query: EngineListQuery): Promise<ListResult<Engine>>;
   createEngine(engine: InsertEngine): Promise<Engine>;
   updateEngine(id: string, engine: Partial<InsertEngine>): Promise<Engine | undefined>;
   updateEngineThumbnail(engineId: string, thumbnailAttachmentId: string | null): Promise<boolean>;
@@ -56,6 +226,8 @@ export interface IStorage {
   // Part methods
   getPart(id: string): Promise<Part | undefined>;
   getAllParts(): Promise<Part[]>;
+  listParts(query: PartListQuery): Promise<ListResult<Part>>;
+  getPartCategories(): Promise<string[]>;
   createPart(part: InsertPart): Promise<Part>;
   updatePart(id: string, part: Partial<InsertPart>): Promise<Part | undefined>;
   updatePartThumbnail(partId: string, thumbnailAttachmentId: string | null): Promise<boolean>;
@@ -69,25 +241,184 @@ export interface IStorage {
   getAssetPartsByPartId(partId: string): Promise<AssetPartWithDetails[]>;
   getAllAssetParts(): Promise<AssetPart[]>;
   getAssetPart(id: string): Promise<AssetPart | undefined>;
-  createAssetPart(assetPart: InsertAssetPart): Promise<AssetPart>;
+  getAssetPartsByWorkOrderId(workOrderId: string): Promise<AssetPartWithDetails[]>;
+  createAssetPart(assetPart: InsertAssetPart & { workOrderId?: number | null }): Promise<AssetPart>;
   updateAssetPart(id: string, assetPart: Partial<InsertAssetPart>): Promise<AssetPart | undefined>;
   deleteAssetPart(id: string): Promise<boolean>;
 
+  // Work order methods (lists are newest first)
+  getWorkOrders(): Promise<WorkOrder[]>;
+  getWorkOrdersByMowerId(mowerId: string): Promise<WorkOrder[]>;
+  getWorkOrder(id: string): Promise<WorkOrder | undefined>;
+  createWorkOrder(workOrder: Omit<InsertWorkOrder, "taskIds"> & { mowerId: number }): Promise<WorkOrder>;
+  updateWorkOrder(id: string, updates: WorkOrderUpdate): Promise<WorkOrder | undefined>;
+  // Applies the updates only while the work order is open or in progress; undefined otherwise
+  updateOpenWorkOrder(id: string, updates: WorkOrderUpdate): Promise<WorkOrder | undefined>;
+  deleteWorkOrder(id: string): Promise<boolean>;
+  getTasksByWorkOrderId(workOrderId: string): Promise<Task[]>;
+  getWorkOrderLabor(workOrderId: string): Promise<WorkOrderLabor[]>; // oldest first
+  getWorkOrderLaborEntry(id: string): Promise<WorkOrderLabor | undefined>;
+  createWorkOrderLabor(labor: WorkOrderLaborCreate): Promise<WorkOrderLabor>;
+  deleteWorkOrderLabor(id: string): Promise<boolean>;
+
+  // Technician methods (the directory is sorted by name)
+  getTechnicians(): Promise<Technician[]>;
+  getTechnician(id: number): Promise<Technician | undefined>;
+  createTechnician(technician: TechnicianCreate): Promise<Technician>;
+  updateTechnician(id: number, updates: Partial<TechnicianCreate>): Promise<Technician | undefined>;
+  deleteTechnician(id: number): Promise<boolean>;
+  // Moves the sources' service record and work order labor to the target, then deletes the sources
+  mergeTechnicians(targetId: number, sourceIds: number[]): Promise<void>;
+  getServiceRecordLabor(serviceRecordIds: string[]): Promise<ServiceRecordLabor[]>;
+  getAllServiceRecordLabor(): Promise<ServiceRecordLabor[]>;
+  setServiceRecordLabor(serviceRecordId: string, labor: ServiceRecordLaborCreate[]): Promise<ServiceRecordLabor[]>; // replaces the record's labor
+  getServiceRecordFees(serviceRecordIds: string[]): Promise<ServiceRecordFee[]>;
+  setServiceRecordFees(serviceRecordId: string, fees: ServiceRecordFeeCreate[]): Promise<ServiceRecordFee[]>; // replaces the record's fees
+
   // Reminders methods
   getLowStockParts(): Promise<Part[]>;
-  getUpcomingServiceReminders(): Promise<{ mower: Mower; serviceType: string; daysUntilDue: number; dueDate: Date }[]>;
+  getUpcomingServiceReminders(): Promise<UpcomingServiceReminder[]>;
+
+  // Maintenance plan methods (items are always read and written together with their plan)
+  getMaintenancePlans(): Promise<MaintenancePlanWithItems[]>;
+  getMaintenancePlan(id: string): Promise<MaintenancePlanWithItems | undefined>;
+  createMaintenancePlan(plan: InsertMaintenancePlan): Promise<MaintenancePlanWithItems>;
+  updateMaintenancePlan(id: string, plan: InsertMaintenancePlan): Promise<MaintenancePlanWithItems | undefined>;
+  deleteMaintenancePlan(id: string): Promise<boolean>;
+
+  // Meter reading methods
+  getMeterReadingsByMowerId(mowerId: string): Promise<MeterReading[]>;
+  getMeterReadingsByEngineId(engineId: string): Promise<MeterReading[]>;
+  getAllMeterReadings(): Promise<MeterReading[]>;
+  getMeterReading(id: string): Promise<MeterReading | undefined>;
+  createMeterReading(reading: InsertMeterReading): Promise<MeterReading>;
+  deleteMeterReading(id: string): Promise<boolean>;
 
   // Notification methods
   getNotifications(): Promise<Notification[]>;
+  listNotifications(query: NotificationListQuery): Promise<ListResult<Notification>>;
   getUnreadNotifications(): Promise<Notification[]>;
   createNotification(notification: InsertNotification): Promise<Notification>;
   markNotificationAsRead(id: string): Promise<boolean>;
   markAllNotificationsAsRead(): Promise<boolean>;
   deleteNotification(id: string): Promise<boolean>;
   deleteAllNotifications(): Promise<boolean>;
+
+  // Notification rule hits: the conditions the scheduled rules have already reported
+  getNotificationRuleHits(): Promise<NotificationRuleHit[]>;
+  addNotificationRuleHit(key: string, notificationId: string | null): Promise<NotificationRuleHit>;
+  removeNotificationRuleHits(keys: string[]): Promise<number>;
+
+  // Notification email preferences and the delivery log
+  getNotificationPreferences(userId?: number): Promise<NotificationPreference[]>; // every user's when userId is left out
+  setNotificationPreferences(userId: number, preferences: NotificationPreferenceCreate[]): Promise<NotificationPreference[]>; // replaces the user's preferences
+  getNotificationDelivery(id: number): Promise<NotificationDelivery | undefined>;
+  getNotificationDeliveries(filters: NotificationDeliveryFilters): Promise<NotificationDelivery[]>; // newest first
+  createNotificationDelivery(delivery: NotificationDeliveryCreate): Promise<NotificationDelivery>;
+  updateNotificationDelivery(id: number, delivery: NotificationDeliveryUpdate): Promise<NotificationDelivery | undefined>;
+
+  // Outbound webhooks and their delivery history
+  getWebhooks(): Promise<Webhook[]>;
+  getWebhook(id: number): Promise<Webhook | undefined>;
+  createWebhook(webhook: WebhookCreate): Promise<Webhook>;
+  updateWebhook(id: number, webhook: Partial<WebhookCreate>): Promise<Webhook | undefined>;
+  deleteWebhook(id: number): Promise<boolean>;
+  getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(filters: WebhookDeliveryFilters): Promise<WebhookDelivery[]>; // newest first
+  createWebhookDelivery(delivery: WebhookDeliveryCreate): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: number, delivery: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined>;
+  deleteWebhookDeliveriesBefore(date: Date): Promise<number>;
+
+  // MQTT broker settings (a single row)
+  getMqttSettings(): Promise<MqttSettings | undefined>;
+  saveMqttSettings(settings: MqttSettingsSave): Promise<MqttSettings>;
+
+  // Audit log methods (events are written by the mutation methods above)
+  getAuditEvents(filters: AuditEventFilters): Promise<AuditEvent[]>;
+
+  // Global search: every term must prefix-match a word in the record; limit applies per table
+  search(terms: string[], limit: number): Promise<SearchMatches>;
+}
+
+/**
+ * In-memory stand-in for the Postgres prefix full-text match: every term must
+ * start a word somewhere in the searched fields. Returns the number of matching
+ * words as a rough rank, or 0 when the record does not match.
+ */
+function rankSearchMatch(record: object, fields: readonly string[], terms: string[]): number {
+  const values = record as Record<string, unknown>;
+  const words = tokenizeSearchText(fields
+    .map(field => values[field])
+    .filter(value => typeof value === "string")
+    .join(" "));
+  let rank = 0;
+  for (const term of terms) {
+    const hits = words.filter(word => word.startsWith(term)).length;
+    if (hits === 0) return 0;
+    rank += hits;
+  }
+  return rank;
+}
+
+function memSearch<T extends object>(records: Iterable<T>, fields: readonly string[], terms: string[], limit: number): T[] {
+  return Array.from(records)
+    .map(record => ({ record, rank: rankSearchMatch(record, fields, terms) }))
+    .filter(match => match.rank > 0)
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, limit)
+    .map(match => match.record);
+}
+
+export type TaskUpdate = Partial<InsertTask> & { completedAt?: Date | null; workOrderId?: number | null; nextTaskId?: string | null };
+
+export type WorkOrderUpdate = Partial<Pick<WorkOrder, "title" | "description" | "serviceType" | "status" | "closedAt" | "signedOffById" | "signedOffByName" | "signOffNotes" | "serviceRecordId">>;
+
+export type WorkOrderLaborCreate = Omit<WorkOrderLabor, "id" | "createdAt">;
+
+export type TechnicianCreate = Omit<Technician, "id" | "createdAt" | "updatedAt">;
+
+export type ServiceRecordLaborCreate = Omit<ServiceRecordLabor, "id" | "serviceRecordId">;
+
+export type ServiceRecordFeeCreate = Omit<ServiceRecordFee, "id" | "serviceRecordId">;
+
+export type NotificationPreferenceCreate = Pick<NotificationPreference, "type" | "priority" | "delivery">;
+
+export type NotificationDeliveryCreate = Pick<NotificationDelivery, "userId" | "kind" | "notificationIds" | "toAddress" | "subject" | "html" | "text">;
+
+export type NotificationDeliveryUpdate = Partial<Pick<NotificationDelivery, "status" | "attempts" | "lastError" | "nextAttemptAt" | "sentAt">>;
+
+export interface NotificationDeliveryFilters {
+  userId?: number;
+  kind?: string;
+  status?: NotificationDeliveryStatus;
+  retryDueBy?: Date; // failed deliveries whose next attempt is at or before this time
+  limit?: number;
+}
+
+export type WebhookCreate = Pick<Webhook, "name" | "url" | "secret" | "eventTypes" | "isActive">;
+
+export type WebhookDeliveryCreate = Pick<WebhookDelivery, "webhookId" | "eventType" | "payload">;
+
+export type WebhookDeliveryUpdate = Partial<Pick<WebhookDelivery, "status" | "attempts" | "responseStatus" | "lastError" | "nextAttemptAt" | "deliveredAt">>;
+
+export interface WebhookDeliveryFilters {
+  webhookId?: number;
+  status?: WebhookDeliveryStatus;
+  retryDueBy?: Date; // failed deliveries whose next attempt is at or before this time
+  limit?: number;
+}
+
+export type MqttSettingsSave = Omit<MqttSettings, "id" | "updatedAt">;
+
+export type TaskChecklistItemUpdate = Partial<Pick<TaskChecklistItem, "text" | "sortOrder" | "isDone" | "completedById" | "completedByName" | "completedAt">>;
+
+function byTaskThen<T extends { taskId: string }>(taskIds: string[], compare: (a: T, b: T) => number) {
+  return (a: T, b: T) => taskIds.indexOf(a.taskId) - taskIds.indexOf(b.taskId) || compare(a, b);
 }
 
 export class MemStorage implements IStorage {
+  public sessionStore: session.Store;
+  private users: Map<number, User>;
   private mowers: Map<string, Mower>;
   private tasks: Map<string, Task>;
   private serviceRecords: Map<string, ServiceRecord>;
@@ -96,8 +427,42 @@ export class MemStorage implements IStorage {
   private parts: Map<string, Part>;
   private assetParts: Map<string, AssetPart>;
   private notifications: Map<string, Notification>;
+  private notificationRuleHits: Map<string, NotificationRuleHit>;
+  private maintenancePlans: Map<string, MaintenancePlanWithItems>;
+  private nextMaintenancePlanId: number;
+  private nextMaintenancePlanItemId: number;
+  private meterReadings: Map<string, MeterReading>;
+  private nextMeterReadingId: number;
+  private taskChecklistItems: Map<string, TaskChecklistItem>;
+  private nextTaskChecklistItemId: number;
+  private taskComments: Map<string, TaskComment>;
+  private nextTaskCommentId: number;
+  private workOrders: Map<string, WorkOrder>;
+  private nextWorkOrderId: number;
+  private workOrderLabor: Map<string, WorkOrderLabor>;
+  private nextWorkOrderLaborId: number;
+  private technicians: Map<string, Technician>;
+  private nextTechnicianId: number;
+  private serviceRecordLabor: Map<string, ServiceRecordLabor>;
+  private nextServiceRecordLaborId: number;
+  private serviceRecordFees: Map<string, ServiceRecordFee>;
+  private nextServiceRecordFeeId: number;
+  private notificationPreferences: Map<number, NotificationPreference>;
+  private nextNotificationPreferenceId: number;
+  private notificationDeliveries: Map<number, NotificationDelivery>;
+  private nextNotificationDeliveryId: number;
+  private webhooks: Map<number, Webhook>;
+  private nextWebhookId: number;
+  private webhookDeliveries: Map<number, WebhookDelivery>;
+  private nextWebhookDeliveryId: number;
+  private mqttSettings: MqttSettings | undefined;
+  private auditEvents: AuditEvent[];
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // prune expired sessions daily
+    });
+    this.users = new Map();
     this.mowers = new Map();
     this.tasks = new Map();
     this.serviceRecords = new Map();
@@ -106,6 +471,112 @@ export class MemStorage implements IStorage {
     this.parts = new Map();
     this.assetParts = new Map();
     this.notifications = new Map();
+    this.notificationRuleHits = new Map();
+    this.maintenancePlans = new Map();
+    this.nextMaintenancePlanId = 1;
+    this.nextMaintenancePlanItemId = 1;
+    this.meterReadings = new Map();
+    this.nextMeterReadingId = 1;
+    this.taskChecklistItems = new Map();
+    this.nextTaskChecklistItemId = 1;
+    this.taskComments = new Map();
+    this.nextTaskCommentId = 1;
+    this.workOrders = new Map();
+    this.nextWorkOrderId = 1;
+    this.workOrderLabor = new Map();
+    this.nextWorkOrderLaborId = 1;
+    this.technicians = new Map();
+    this.nextTechnicianId = 1;
+    this.serviceRecordLabor = new Map();
+    this.nextServiceRecordLaborId = 1;
+    this.serviceRecordFees = new Map();
+    this.nextServiceRecordFeeId = 1;
+    this.notificationPreferences = new Map();
+    this.nextNotificationPreferenceId = 1;
+    this.notificationDeliveries = new Map();
+    this.nextNotificationDeliveryId = 1;
+    this.webhooks = new Map();
+    this.nextWebhookId = 1;
+    this.webhookDeliveries = new Map();
+    this.nextWebhookDeliveryId = 1;
+    this.mqttSettings = undefined;
+    this.auditEvents = [];
+  }
+
+  // Nothing to roll back in memory
+  async runInTransaction<T>(work: () => Promise<T>): Promise<T> {
+    return work();
+  }
+
+  private async audit(entityType: AuditEntityType, before: object | null, after: object | null): Promise<void> {
+    const event = buildAuditEvent(entityType, before, after);
+    if (!event) return;
+    this.auditEvents.push({
+      ...event,
+      id: this.auditEvents.length + 1,
+      actorId: event.actorId ?? null,
+      actorName: event.actorName ?? null,
+      mowerId: event.mowerId ?? null,
+      engineId: event.engineId ?? null,
+      partId: event.partId ?? null,
+      createdAt: new Date(),
+    });
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const needle = username.toLowerCase();
+    return Array.from(this.users.values()).find(user => user.username.toLowerCase() === needle);
+  }
+
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.calendarToken === token);
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async countUsers(): Promise<number> {
+    return this.users.size;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.users.size + 1;
+    const user: User = {
+      ...insertUser,
+      id,
+      displayName: insertUser.displayName || null,
+      role: insertUser.role || "viewer",
+      isActive: insertUser.isActive ?? true,
+      lastLoginAt: null,
+      calendarToken: null,
+      email: insertUser.email ?? null,
+      createdAt: new Date(),
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async createFirstUser(insertUser: InsertUser): Promise<User | undefined> {
+    if (this.users.size > 0) return undefined;
+    return this.createUser(insertUser);
+  }
+
+  async updateUser(id: number, updateData: Partial<InsertUser> & { lastLoginAt?: Date; calendarToken?: string | null }): Promise<User | undefined> {
+    const existingUser = this.users.get(id);
+    if (!existingUser) return undefined;
+
+    const updatedUser: User = {
+      ...existingUser,
+      ...updateData,
+    };
+    this.users.set(id, updatedUser);
+    return updatedUser;
   }
 
   async getMower(id: string): Promise<Mower | undefined> {
@@ -116,6 +587,19 @@ export class MemStorage implements IStorage {
     return Array.from(this.mowers.values());
   }
 
+  async listMowers(query: MowerListQuery): Promise<ListResult<Mower>> {
+    const from = query.nextServiceFrom && toDateString(query.nextServiceFrom);
+    const to = query.nextServiceTo && toDateString(query.nextServiceTo);
+    const filtered = Array.from(this.mowers.values()).filter(mower =>
+      matchesText([mower.make, mower.model, mower.serialNumber, mower.location], query.q) &&
+      (!query.status || mower.status === query.status) &&
+      (!query.condition || mower.condition === query.condition) &&
+      (!from || (!!mower.nextServiceDate && mower.nextServiceDate >= from)) &&
+      (!to || (!!mower.nextServiceDate && mower.nextServiceDate <= to))
+    );
+    return memList(filtered, query);
+  }
+
   async createMower(insertMower: InsertMower): Promise<Mower> {
     const id = Math.floor(Math.random() * 1000000); // Mock serial ID for MemStorage
     const mower: Mower = { 
@@ -125,15 +609,20 @@ export class MemStorage implements IStorage {
       serialNumber: insertMower.serialNumber || null,
       purchaseDate: insertMower.purchaseDate || null,
       purchasePrice: insertMower.purchasePrice || null,
+      warrantyExpirationDate: insertMower.warrantyExpirationDate || null,
       location: insertMower.location || null,
       condition: insertMower.condition || "good",
       status: insertMower.status || "active",
       notes: insertMower.notes || null,
       lastServiceDate: insertMower.lastServiceDate || null,
       nextServiceDate: insertMower.nextServiceDate || null,
+      currentHours: insertMower.currentHours ?? null,
+      currentHoursRecordedAt: null,
+      maintenancePlanId: insertMower.maintenancePlanId ?? null,
       thumbnailAttachmentId: insertMower.thumbnailAttachmentId || null
     };
     this.mowers.set(id.toString(), mower);
+    await this.audit("mower", null, mower);
     return mower;
   }
 
@@ -146,6 +635,7 @@ export class MemStorage implements IStorage {
       ...updateData
     };
     this.mowers.set(id, updatedMower);
+    await this.audit("mower", existingMower, updatedMower);
     return updatedMower;
   }
 
@@ -158,11 +648,30 @@ export class MemStorage implements IStorage {
       thumbnailAttachmentId
     };
     this.mowers.set(mowerId, updatedMower);
+    await this.audit("mower", existingMower, updatedMower);
     return true;
   }
 
+  async setMowerHourMeter(mowerId: string, hours: number | null, recordedAt: Date | null): Promise<Mower | undefined> {
+    const existingMower = this.mowers.get(mowerId);
+    if (!existingMower) return undefined;
+
+    const updatedMower: Mower = {
+      ...existingMower,
+      currentHours: hours,
+      currentHoursRecordedAt: recordedAt
+    };
+    this.mowers.set(mowerId, updatedMower);
+    await this.audit("mower", existingMower, updatedMower);
+    return updatedMower;
+  }
+
   async deleteMower(id: string): Promise<boolean> {
-    return this.mowers.delete(id);
+    const mower = this.mowers.get(id);
+    if (!mower) return false;
+    this.mowers.delete(id);
+    await this.audit("mower", mower, null);
+    return true;
   }
 
   // Task methods
@@ -174,16 +683,27 @@ export class MemStorage implements IStorage {
     return Array.from(this.tasks.values()).filter(task => task.mowerId === parseInt(mowerId));
   }
 
+  async getTasksByEngineId(engineId: string): Promise<Task[]> {
+    return Array.from(this.tasks.values()).filter(task => task.engineId === parseInt(engineId));
+  }
+
+  async getTasksByPartId(partId: string): Promise<Task[]> {
+    return Array.from(this.tasks.values()).filter(task => task.partId === parseInt(partId));
+  }
+
   async getAllTasks(): Promise<Task[]> {
     return Array.from(this.tasks.values());
   }
 
-  async createTask(insertTask: InsertTask): Promise<Task> {
+  async createTask(insertTask: InsertTask & { seriesId?: string | null }): Promise<Task> {
     const id = randomUUID();
     const now = new Date();
     const task: Task = {
       ...insertTask,
       id,
+      mowerId: insertTask.mowerId ?? null,
+      engineId: insertTask.engineId ?? null,
+      partId: insertTask.partId ?? null,
       priority: insertTask.priority || "medium",
       status: insertTask.status || "pending",
       category: insertTask.category || "maintenance",
@@ -191,14 +711,22 @@ export class MemStorage implements IStorage {
       estimatedCost: insertTask.estimatedCost || null,
       partNumber: insertTask.partNumber || null,
       description: insertTask.description || null,
+      recurrenceUnit: insertTask.recurrenceUnit || null,
+      recurrenceInterval: insertTask.recurrenceInterval || null,
+      dueHours: insertTask.dueHours ?? null,
+      seriesId: insertTask.seriesId || null,
+      nextTaskId: null,
+      assigneeId: insertTask.assigneeId ?? null,
+      workOrderId: null,
       createdAt: now,
       completedAt: null
     };
     this.tasks.set(id, task);
+    await this.audit("task", null, task);
     return task;
   }
 
-  async updateTask(id: string, updateData: Partial<InsertTask>): Promise<Task | undefined> {
+  async updateTask(id: string, updateData: TaskUpdate): Promise<Task | undefined> {
     const existingTask = this.tasks.get(id);
     if (!existingTask) return undefined;
     
@@ -211,11 +739,16 @@ export class MemStorage implements IStorage {
       description: updateData.description !== undefined ? updateData.description || null : existingTask.description,
     };
     this.tasks.set(id, updatedTask);
+    await this.audit("task", existingTask, updatedTask);
     return updatedTask;
   }
 
   async deleteTask(id: string): Promise<boolean> {
-    return this.tasks.delete(id);
+    const task = this.tasks.get(id);
+    if (!task) return false;
+    this.tasks.delete(id);
+    await this.audit("task", task, null);
+    return true;
   }
 
   async markTaskComplete(id: string): Promise<Task | undefined> {
@@ -228,9 +761,91 @@ export class MemStorage implements IStorage {
       completedAt: new Date()
     };
     this.tasks.set(id, completedTask);
+    await this.audit("task", task, completedTask);
     return completedTask;
   }
 
+  async markTaskCompleteOnce(id: string): Promise<Task | undefined> {
+    const task = this.tasks.get(id);
+    if (!task || task.status === "completed" || task.nextTaskId) return undefined;
+    return this.markTaskComplete(id);
+  }
+
+  // Task checklist and comment methods
+  async getTaskChecklistItems(taskIds: string[]): Promise<TaskChecklistItem[]> {
+    return Array.from(this.taskChecklistItems.values())
+      .filter(item => taskIds.includes(item.taskId))
+      .sort(byTaskThen(taskIds, (a, b) => a.sortOrder - b.sortOrder || a.id - b.id));
+  }
+
+  async getTaskChecklistItem(id: string): Promise<TaskChecklistItem | undefined> {
+    return this.taskChecklistItems.get(id);
+  }
+
+  async createTaskChecklistItem(taskId: string, insertItem: InsertTaskChecklistItem): Promise<TaskChecklistItem> {
+    const siblings = await this.getTaskChecklistItems([taskId]);
+    const id = this.nextTaskChecklistItemId++;
+    const item: TaskChecklistItem = {
+      id,
+      taskId,
+      text: insertItem.text,
+      sortOrder: siblings.length > 0 ? siblings[siblings.length - 1].sortOrder + 1 : 0,
+      isDone: false,
+      completedById: null,
+      completedByName: null,
+      completedAt: null,
+      createdAt: new Date(),
+    };
+    this.taskChecklistItems.set(id.toString(), item);
+    return item;
+  }
+
+  async updateTaskChecklistItem(id: string, updates: TaskChecklistItemUpdate): Promise<TaskChecklistItem | undefined> {
+    const item = this.taskChecklistItems.get(id);
+    if (!item) return undefined;
+    const updated: TaskChecklistItem = { ...item, ...updates };
+    this.taskChecklistItems.set(id, updated);
+    return updated;
+  }
+
+  async deleteTaskChecklistItem(id: string): Promise<boolean> {
+    return this.taskChecklistItems.delete(id);
+  }
+
+  async getTaskComments(taskIds: string[]): Promise<TaskComment[]> {
+    return Array.from(this.taskComments.values())
+      .filter(comment => taskIds.includes(comment.taskId))
+      .sort(byTaskThen(taskIds, (a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id));
+  }
+
+  async getTaskComment(id: string): Promise<TaskComment | undefined> {
+    return this.taskComments.get(id);
+  }
+
+  async createTaskComment(insertComment: InsertTaskComment & Pick<TaskComment, "taskId" | "authorId" | "authorName">): Promise<TaskComment> {
+    const id = this.nextTaskCommentId++;
+    const comment: TaskComment = {
+      id,
+      taskId: insertComment.taskId,
+      authorId: insertComment.authorId,
+      authorName: insertComment.authorName,
+      body: insertComment.body ?? "",
+      createdAt: new Date(),
+    };
+    this.taskComments.set(id.toString(), comment);
+    return comment;
+  }
+
+  async deleteTaskComment(id: string): Promise<boolean> {
+    return this.taskComments.delete(id);
+  }
+
+  async getAttachmentsByTaskCommentIds(commentIds: number[]): Promise<Attachment[]> {
+    return Array.from(this.attachments.values()).filter(attachment =>
+      attachment.taskCommentId !== null && commentIds.includes(attachment.taskCommentId)
+    );
+  }
+
   // Service Record methods
   async getServiceRecord(id: string): Promise<ServiceRecord | undefined> {
     return this.serviceRecords.get(id);
@@ -244,6 +859,18 @@ export class MemStorage implements IStorage {
     return Array.from(this.serviceRecords.values());
   }
 
+  async listServiceRecords(query: ServiceRecordListQuery): Promise<ListResult<ServiceRecord>> {
+    const filtered = Array.from(this.serviceRecords.values()).filter(record =>
+      matchesText([record.description, record.serviceType, record.performedBy], query.q) &&
+      (query.mowerId === undefined || record.mowerId === query.mowerId) &&
+      (!query.serviceType || record.serviceType === query.serviceType) &&
+      (!query.status || record.status === query.status) &&
+      (!query.from || record.serviceDate >= query.from) &&
+      (!query.to || record.serviceDate <= query.to)
+    );
+    return memList(filtered, query, "-serviceDate");
+  }
+
   async createServiceRecordWithMowerUpdate(insertServiceRecord: InsertServiceRecord): Promise<ServiceRecord> {
     // Create service record
     const id = randomUUID();
@@ -251,7 +878,10 @@ export class MemStorage implements IStorage {
     const serviceRecord: ServiceRecord = {
       ...insertServiceRecord,
       id,
+      scheduledDate: insertServiceRecord.scheduledDate || null,
+      status: insertServiceRecord.status ?? "completed",
       cost: insertServiceRecord.cost || null,
+      costOverride: insertServiceRecord.costOverride || null,
       performedBy: insertServiceRecord.performedBy || null,
       nextServiceDue: insertServiceRecord.nextServiceDue || null,
       mileage: insertServiceRecord.mileage || null,
@@ -260,24 +890,41 @@ export class MemStorage implements IStorage {
 
     // Store the service record
     this.serviceRecords.set(id, serviceRecord);
+    await this.audit("service_record", null, serviceRecord);
+    if (serviceRecord.status === "completed") await this.applyServiceToMower(serviceRecord);
+    return serviceRecord;
+  }
 
-    // Update mower's service dates
-    const mowerId = insertServiceRecord.mowerId.toString();
+  async completeServiceRecord(id: string, serviceDate: Date): Promise<ServiceRecord | undefined> {
+    const completed = await this.updateServiceRecord(id, { status: "completed", serviceDate });
+    if (completed) await this.applyServiceToMower(completed);
+    return completed;
+  }
+
+  // Moves the mower's service dates and hour meter on to a completed service record
+  private async applyServiceToMower(serviceRecord: ServiceRecord): Promise<void> {
+    const mowerId = serviceRecord.mowerId.toString();
     const mower = this.mowers.get(mowerId);
     if (mower) {
-      const serviceDate = insertServiceRecord.serviceDate;
-      const nextServiceDate = new Date(serviceDate);
-      nextServiceDate.setFullYear(nextServiceDate.getFullYear() + 1); // Add 12 months
+      const serviceDate = serviceRecord.serviceDate;
+      const hourMeter = hourMeterAfterService(mower, serviceRecord);
+      // Soonest item of the mower's maintenance plan, now that this record counts
+      const schedule = computeMaintenanceSchedule(
+        { ...mower, ...hourMeter },
+        await this.getMaintenancePlans(),
+        await this.getServiceRecordsByMowerId(mowerId),
+        await this.getMeterReadingsByMowerId(mowerId),
+      );
 
       const updatedMower: Mower = {
         ...mower,
+        ...hourMeter,
         lastServiceDate: serviceDate.toISOString().split('T')[0], // Convert to date string
-        nextServiceDate: nextServiceDate.toISOString().split('T')[0], // Convert to date string
+        nextServiceDate: nextServiceDateFor(schedule, serviceDate),
       };
       this.mowers.set(mowerId, updatedMower);
+      await this.audit("mower", mower, updatedMower);
     }
-
-    return serviceRecord;
   }
 
   async updateServiceRecord(id: string, updateData: Partial<InsertServiceRecord>): Promise<ServiceRecord | undefined> {
@@ -288,16 +935,28 @@ export class MemStorage implements IStorage {
       ...existingRecord,
       ...updateData,
       cost: updateData.cost !== undefined ? updateData.cost || null : existingRecord.cost,
+      costOverride: updateData.costOverride !== undefined ? updateData.costOverride || null : existingRecord.costOverride,
       performedBy: updateData.performedBy !== undefined ? updateData.performedBy || null : existingRecord.performedBy,
       nextServiceDue: updateData.nextServiceDue !== undefined ? updateData.nextServiceDue || null : existingRecord.nextServiceDue,
       mileage: updateData.mileage !== undefined ? updateData.mileage || null : existingRecord.mileage,
     };
     this.serviceRecords.set(id, updatedRecord);
+    await this.audit("service_record", existingRecord, updatedRecord);
     return updatedRecord;
   }
 
   async deleteServiceRecord(id: string): Promise<boolean> {
-    return this.serviceRecords.delete(id);
+    const record = this.serviceRecords.get(id);
+    if (!record) return false;
+    this.serviceRecords.delete(id);
+    for (const [laborId, labor] of Array.from(this.serviceRecordLabor.entries())) {
+      if (labor.serviceRecordId === id) this.serviceRecordLabor.delete(laborId);
+    }
+    for (const [feeId, fee] of Array.from(this.serviceRecordFees.entries())) {
+      if (fee.serviceRecordId === id) this.serviceRecordFees.delete(feeId);
+    }
+    await this.audit("service_record", record, null);
+    return true;
   }
 
   // Attachment methods
@@ -330,17 +989,62 @@ export class MemStorage implements IStorage {
       title: insertAttachment.title || null,
       description: insertAttachment.description || null,
       pageCount: insertAttachment.pageCount ?? null,
+      contentHash: insertAttachment.contentHash ?? null,
+      legacyFileData: insertAttachment.legacyFileData ?? null,
+      textContent: insertAttachment.textContent ?? null,
       uploadedAt: now,
       mowerId: insertAttachment.mowerId ?? null,
       engineId: insertAttachment.engineId ?? null,
       partId: insertAttachment.partId ?? null,
+      taskCommentId: insertAttachment.taskCommentId ?? null,
     };
     this.attachments.set(id, attachment);
+    await this.audit("attachment", null, attachment);
     return attachment;
   }
 
   async deleteAttachment(id: string): Promise<boolean> {
-    return this.attachments.delete(id);
+    const attachment = this.attachments.get(id);
+    if (!attachment) return false;
+    this.attachments.delete(id);
+    await this.audit("attachment", attachment, null);
+    return true;
+  }
+
+  async countAttachmentsByContentHash(contentHash: string): Promise<number> {
+    return Array.from(this.attachments.values()).filter(attachment => attachment.contentHash === contentHash).length;
+  }
+
+  async getAttachmentContentHashes(): Promise<string[]> {
+    const hashes = new Set<string>();
+    this.attachments.forEach(attachment => {
+      if (attachment.contentHash) hashes.add(attachment.contentHash);
+    });
+    return Array.from(hashes);
+  }
+
+  async getLegacyAttachmentIds(): Promise<string[]> {
+    return Array.from(this.attachments.values())
+      .filter(attachment => attachment.legacyFileData)
+      .map(attachment => attachment.id);
+  }
+
+  async setAttachmentContentHash(id: string, contentHash: string): Promise<void> {
+    const attachment = this.attachments.get(id);
+    if (!attachment) return;
+    this.attachments.set(id, { ...attachment, contentHash, legacyFileData: null });
+  }
+
+  async getAttachmentIdsMissingText(): Promise<string[]> {
+    return Array.from(this.attachments.values())
+      .filter(attachment => attachment.textContent === null && TEXT_SEARCHABLE_FILE_TYPES.includes(attachment.fileType))
+      .map(attachment => attachment.id);
+  }
+
+  async setAttachmentTextContent(id: string, textContent: string): Promise<void> {
+    const attachment = this.attachments.get(id);
+    if (!attachment) return;
+    this.attachments.set(id, { ...attachment, textContent });
   }
 
   async updateAttachmentMetadata(id: string, metadata: { title?: string; description?: string }): Promise<Attachment | undefined> {
@@ -354,6 +1058,7 @@ export class MemStorage implements IStorage {
     };
     
     this.attachments.set(id, updated);
+    await this.audit("attachment", attachment, updated);
     return updated;
   }
 
@@ -372,6 +1077,16 @@ export class MemStorage implements IStorage {
     return Array.from(this.engines.values());
   }
 
+  async listEngines(query: EngineListQuery): Promise<ListResult<Engine>> {
+    const filtered = Array.from(this.engines.values()).filter(engine =>
+      matchesText([engine.name, engine.manufacturer, engine.model, engine.serialNumber, engine.partNumber], query.q) &&
+      (!query.status || engine.status === query.status) &&
+      (!query.condition || engine.condition === query.condition) &&
+      (query.mowerId === undefined || engine.mowerId === query.mowerId)
+    );
+    return memList(filtered, query, "name");
+  }
+
   async createEngine(insertEngine: InsertEngine): Promise<Engine> {
     // Check if the mower already has an engine
     if (insertEngine.mowerId) {
@@ -401,6 +1116,7 @@ export class MemStorage implements IStorage {
       updatedAt: now,
     };
     this.engines.set(id, engine);
+    await this.audit("engine", null, engine);
     return engine;
   }
 
@@ -431,11 +1147,16 @@ export class MemStorage implements IStorage {
       updatedAt: new Date(),
     };
     this.engines.set(id, updatedEngine);
+    await this.audit("engine", engine, updatedEngine);
     return updatedEngine;
   }
 
   async deleteEngine(id: string): Promise<boolean> {
-    return this.engines.delete(id);
+    const engine = this.engines.get(id);
+    if (!engine) return false;
+    this.engines.delete(id);
+    await this.audit("engine", engine, null);
+    return true;
   }
 
   async updateEngineThumbnail(engineId: string, thumbnailAttachmentId: string | null): Promise<boolean> {
@@ -447,6 +1168,7 @@ export class MemStorage implements IStorage {
       thumbnailAttachmentId
     };
     this.engines.set(engineId, updatedEngine);
+    await this.audit("engine", existingEngine, updatedEngine);
     return true;
   }
 
@@ -470,6 +1192,20 @@ export class MemStorage implements IStorage {
     return Array.from(this.parts.values());
   }
 
+  async listParts(query: PartListQuery): Promise<ListResult<Part>> {
+    const filtered = Array.from(this.parts.values()).filter(part => {
+      const isLowStock = part.minStockLevel !== null && part.stockQuantity <= part.minStockLevel;
+      return matchesText([part.name, part.partNumber, part.manufacturer], query.q) &&
+        (!query.category || part.category === query.category) &&
+        (query.lowStock === undefined || isLowStock === query.lowStock);
+    });
+    return memList(filtered, query, "name");
+  }
+
+  async getPartCategories(): Promise<string[]> {
+    return Array.from(new Set(Array.from(this.parts.values()).map(part => part.category))).sort();
+  }
+
   async createPart(insertPart: InsertPart): Promise<Part> {
     const id = (this.parts.size + 1).toString();
     const now = new Date();
@@ -481,11 +1217,13 @@ export class MemStorage implements IStorage {
       unitCost: insertPart.unitCost || null,
       minStockLevel: insertPart.minStockLevel || 0,
       stockQuantity: insertPart.stockQuantity || 0,
+      binLocation: insertPart.binLocation || null,
       notes: insertPart.notes || null,
       createdAt: now,
       updatedAt: now,
     };
     this.parts.set(id, part);
+    await this.audit("part", null, part);
     return part;
   }
 
@@ -499,11 +1237,16 @@ export class MemStorage implements IStorage {
       updatedAt: new Date(),
     };
     this.parts.set(id, updatedPart);
+    await this.audit("part", part, updatedPart);
     return updatedPart;
   }
 
   async deletePart(id: string): Promise<boolean> {
-    return this.parts.delete(id);
+    const part = this.parts.get(id);
+    if (!part) return false;
+    this.parts.delete(id);
+    await this.audit("part", part, null);
+    return true;
   }
 
   async updatePartThumbnail(partId: string, thumbnailAttachmentId: string | null): Promise<boolean> {
@@ -515,6 +1258,7 @@ export class MemStorage implements IStorage {
       thumbnailAttachmentId
     };
     this.parts.set(partId, updatedPart);
+    await this.audit("part", existingPart, updatedPart);
     return true;
   }
 
@@ -595,7 +1339,14 @@ export class MemStorage implements IStorage {
     return this.assetParts.get(id);
   }
 
-  async createAssetPart(insertAssetPart: InsertAssetPart): Promise<AssetPart> {
+  async getAssetPartsByWorkOrderId(workOrderId: string): Promise<AssetPartWithDetails[]> {
+    return Array.from(this.assetParts.values())
+      .filter(assetPart => assetPart.workOrderId === parseInt(workOrderId))
+      .map(assetPart => ({ ...assetPart, part: this.parts.get(assetPart.partId.toString())! }))
+      .filter(item => item.part);
+  }
+
+  async createAssetPart(insertAssetPart: InsertAssetPart & { workOrderId?: number | null }): Promise<AssetPart> {
     const id = (this.assetParts.size + 1).toString();
     const now = new Date();
     
@@ -628,10 +1379,13 @@ export class MemStorage implements IStorage {
       quantity: insertAssetPart.quantity || 1,
       installDate: insertAssetPart.installDate || null,
       serviceRecordId: insertAssetPart.serviceRecordId || null,
+      workOrderId: insertAssetPart.workOrderId ?? null,
       notes: insertAssetPart.notes || null,
       createdAt: now,
     };
     this.assetParts.set(id, assetPart);
+    await this.audit("part", part, updatedPart);
+    await this.audit("asset_part", null, assetPart);
     return assetPart;
   }
 
@@ -660,6 +1414,7 @@ export class MemStorage implements IStorage {
         updatedAt: new Date()
       };
       this.parts.set(assetPart.partId.toString(), updatedPart);
+      await this.audit("part", part, updatedPart);
     }
     
     const updatedAssetPart: AssetPart = {
@@ -667,6 +1422,7 @@ export class MemStorage implements IStorage {
       ...updateData,
     };
     this.assetParts.set(id, updatedAssetPart);
+    await this.audit("asset_part", assetPart, updatedAssetPart);
     return updatedAssetPart;
   }
 
@@ -684,136 +1440,746 @@ export class MemStorage implements IStorage {
         updatedAt: new Date()
       };
       this.parts.set(assetPart.partId.toString(), updatedPart);
+      await this.audit("part", part, updatedPart);
     }
     
-    return this.assetParts.delete(id);
+    this.assetParts.delete(id);
+    await this.audit("asset_part", assetPart, null);
+    return true;
   }
 
-  // Notification methods
-  async getNotifications(): Promise<Notification[]> {
-    const notificationsList = Array.from(this.notifications.values());
-    return notificationsList.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  // Work order methods
+  async getWorkOrders(): Promise<WorkOrder[]> {
+    return Array.from(this.workOrders.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
   }
 
-  async getUnreadNotifications(): Promise<Notification[]> {
-    const notificationsList = Array.from(this.notifications.values()).filter(n => !n.isRead);
-    return notificationsList.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  async getWorkOrdersByMowerId(mowerId: string): Promise<WorkOrder[]> {
+    return (await this.getWorkOrders()).filter(workOrder => workOrder.mowerId === parseInt(mowerId));
   }
 
-  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
-    const id = randomUUID();
+  async getWorkOrder(id: string): Promise<WorkOrder | undefined> {
+    return this.workOrders.get(id);
+  }
+
+  async createWorkOrder(insertWorkOrder: Omit<InsertWorkOrder, "taskIds"> & { mowerId: number }): Promise<WorkOrder> {
+    const id = this.nextWorkOrderId++;
     const now = new Date();
-    const notification: Notification = {
-      ...insertNotification,
+    const workOrder: WorkOrder = {
+      ...insertWorkOrder,
       id,
-      isRead: insertNotification.isRead || false,
-      priority: insertNotification.priority || "medium",
-      entityType: insertNotification.entityType || null,
-      entityId: insertNotification.entityId || null,
-      entityName: insertNotification.entityName || null,
-      detailUrl: insertNotification.detailUrl || null,
+      description: insertWorkOrder.description || null,
+      serviceType: insertWorkOrder.serviceType || "repair",
+      status: "open",
       createdAt: now,
+      updatedAt: now,
+      closedAt: null,
+      signedOffById: null,
+      signedOffByName: null,
+      signOffNotes: null,
+      serviceRecordId: null,
     };
-    this.notifications.set(id, notification);
-    return notification;
-  }
-
-  async markNotificationAsRead(id: string): Promise<boolean> {
-    const notification = this.notifications.get(id);
-    if (!notification) return false;
-    
-    const updatedNotification: Notification = { ...notification, isRead: true };
-    this.notifications.set(id, updatedNotification);
-    return true;
+    this.workOrders.set(id.toString(), workOrder);
+    await this.audit("work_order", null, workOrder);
+    return workOrder;
   }
 
-  async markAllNotificationsAsRead(): Promise<boolean> {
-    this.notifications.forEach((notification, id) => {
-      if (!notification.isRead) {
-        this.notifications.set(id, { ...notification, isRead: true });
-      }
-    });
-    return true;
+  async updateWorkOrder(id: string, updates: WorkOrderUpdate): Promise<WorkOrder | undefined> {
+    const workOrder = this.workOrders.get(id);
+    if (!workOrder) return undefined;
+    const updated: WorkOrder = { ...workOrder, ...updates, updatedAt: new Date() };
+    this.workOrders.set(id, updated);
+    await this.audit("work_order", workOrder, updated);
+    return updated;
   }
 
-  async deleteNotification(id: string): Promise<boolean> {
-    return this.notifications.delete(id);
+  async updateOpenWorkOrder(id: string, updates: WorkOrderUpdate): Promise<WorkOrder | undefined> {
+    const workOrder = this.workOrders.get(id);
+    if (!workOrder || (workOrder.status !== "open" && workOrder.status !== "in_progress")) return undefined;
+    return this.updateWorkOrder(id, updates);
   }
 
-  async deleteAllNotifications(): Promise<boolean> {
-    this.notifications.clear();
+  async deleteWorkOrder(id: string): Promise<boolean> {
+    const workOrder = this.workOrders.get(id);
+    if (!workOrder) return false;
+    this.workOrders.delete(id);
+    // Mirror the database: labor goes with the order, tasks and parts are unlinked
+    for (const [laborId, labor] of Array.from(this.workOrderLabor.entries())) {
+      if (labor.workOrderId === workOrder.id) this.workOrderLabor.delete(laborId);
+    }
+    for (const task of Array.from(this.tasks.values())) {
+      if (task.workOrderId === workOrder.id) this.tasks.set(task.id, { ...task, workOrderId: null });
+    }
+    for (const [assetPartId, assetPart] of Array.from(this.assetParts.entries())) {
+      if (assetPart.workOrderId === workOrder.id) this.assetParts.set(assetPartId, { ...assetPart, workOrderId: null });
+    }
+    await this.audit("work_order", workOrder, null);
     return true;
   }
 
-  // Reminders methods
-  async getLowStockParts(): Promise<Part[]> {
-    return Array.from(this.parts.values()).filter(part => 
-      part.minStockLevel !== null && part.stockQuantity <= part.minStockLevel
-    );
+  async getTasksByWorkOrderId(workOrderId: string): Promise<Task[]> {
+    return Array.from(this.tasks.values()).filter(task => task.workOrderId === parseInt(workOrderId));
   }
 
-  async getUpcomingServiceReminders(): Promise<{ mower: Mower; serviceType: string; daysUntilDue: number; dueDate: Date }[]> {
-    const today = new Date();
-    const thirtyDaysFromNow = new Date(today.getTime() + (30 * 24 * 60 * 60 * 1000));
-    
-    return Array.from(this.mowers.values())
-      .filter(mower => {
-        if (!mower.nextServiceDate) return false;
-        const serviceDate = new Date(mower.nextServiceDate);
-        return serviceDate >= today && serviceDate <= thirtyDaysFromNow;
-      })
-      .map(mower => {
-        const serviceDate = new Date(mower.nextServiceDate!);
-        const timeDiff = serviceDate.getTime() - today.getTime();
-        const daysUntilDue = Math.ceil(timeDiff / (1000 * 60 * 60 * 24));
-        
-        return {
-          mower,
-          serviceType: 'Scheduled Maintenance',
-          daysUntilDue,
-          dueDate: serviceDate
-        };
-      });
+  async getWorkOrderLabor(workOrderId: string): Promise<WorkOrderLabor[]> {
+    return Array.from(this.workOrderLabor.values())
+      .filter(labor => labor.workOrderId === parseInt(workOrderId))
+      .sort((a, b) => a.workDate.localeCompare(b.workDate) || a.id - b.id);
   }
-}
 
-export class DbStorage implements IStorage {
-  // Mower methods
-  async getMower(id: string): Promise<Mower | undefined> {
-    const result = await db.select().from(mowers).where(eq(mowers.id, parseInt(id)));
-    return result[0];
+  async getWorkOrderLaborEntry(id: string): Promise<WorkOrderLabor | undefined> {
+    return this.workOrderLabor.get(id);
   }
 
-  async getAllMowers(): Promise<Mower[]> {
-    return await db.select().from(mowers);
+  async createWorkOrderLabor(insertLabor: WorkOrderLaborCreate): Promise<WorkOrderLabor> {
+    const id = this.nextWorkOrderLaborId++;
+    const labor: WorkOrderLabor = { ...insertLabor, id, createdAt: new Date() };
+    this.workOrderLabor.set(id.toString(), labor);
+    return labor;
   }
 
-  async createMower(insertMower: InsertMower): Promise<Mower> {
-    const result = await db.insert(mowers).values(insertMower).returning();
-    return result[0];
+  async deleteWorkOrderLabor(id: string): Promise<boolean> {
+    return this.workOrderLabor.delete(id);
   }
 
-  async updateMower(id: string, updateData: Partial<InsertMower>): Promise<Mower | undefined> {
-    const result = await db
-      .update(mowers)
-      .set(updateData)
-      .where(eq(mowers.id, parseInt(id)))
-      .returning();
-    return result[0];
+  // Technician methods
+  async getTechnicians(): Promise<Technician[]> {
+    return Array.from(this.technicians.values()).sort((a, b) => a.name.localeCompare(b.name));
   }
 
-  async updateMowerThumbnail(mowerId: string, thumbnailAttachmentId: string | null): Promise<boolean> {
-    const result = await db
-      .update(mowers)
-      .set({ thumbnailAttachmentId })
-      .where(eq(mowers.id, parseInt(mowerId)))
-      .returning();
-    return result.length > 0;
+  async getTechnician(id: number): Promise<Technician | undefined> {
+    return this.technicians.get(id.toString());
+  }
+
+  async createTechnician(insertTechnician: TechnicianCreate): Promise<Technician> {
+    const id = this.nextTechnicianId++;
+    const now = new Date();
+    const technician: Technician = { ...insertTechnician, id, createdAt: now, updatedAt: now };
+    this.technicians.set(id.toString(), technician);
+    return technician;
+  }
+
+  async updateTechnician(id: number, updates: Partial<TechnicianCreate>): Promise<Technician | undefined> {
+    const technician = this.technicians.get(id.toString());
+    if (!technician) return undefined;
+    const updated: Technician = { ...technician, ...updates, updatedAt: new Date() };
+    this.technicians.set(id.toString(), updated);
+    return updated;
+  }
+
+  async deleteTechnician(id: number): Promise<boolean> {
+    if (!this.technicians.delete(id.toString())) return false;
+    for (const labor of Array.from(this.workOrderLabor.values())) {
+      if (labor.technicianId === id) this.workOrderLabor.set(labor.id.toString(), { ...labor, technicianId: null });
+    }
+    return true;
+  }
+
+  async mergeTechnicians(targetId: number, sourceIds: number[]): Promise<void> {
+    for (const labor of Array.from(this.serviceRecordLabor.values())) {
+      if (sourceIds.includes(labor.technicianId)) this.serviceRecordLabor.set(labor.id.toString(), { ...labor, technicianId: targetId });
+    }
+    for (const labor of Array.from(this.workOrderLabor.values())) {
+      if (labor.technicianId != null && sourceIds.includes(labor.technicianId)) {
+        this.workOrderLabor.set(labor.id.toString(), { ...labor, technicianId: targetId });
+      }
+    }
+    for (const sourceId of sourceIds) this.technicians.delete(sourceId.toString());
+  }
+
+  async getServiceRecordLabor(serviceRecordIds: string[]): Promise<ServiceRecordLabor[]> {
+    return Array.from(this.serviceRecordLabor.values())
+      .filter(labor => serviceRecordIds.includes(labor.serviceRecordId))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getAllServiceRecordLabor(): Promise<ServiceRecordLabor[]> {
+    return Array.from(this.serviceRecordLabor.values());
+  }
+
+  async setServiceRecordLabor(serviceRecordId: string, labor: ServiceRecordLaborCreate[]): Promise<ServiceRecordLabor[]> {
+    for (const [laborId, existing] of Array.from(this.serviceRecordLabor.entries())) {
+      if (existing.serviceRecordId === serviceRecordId) this.serviceRecordLabor.delete(laborId);
+    }
+    return labor.map((entry) => {
+      const id = this.nextServiceRecordLaborId++;
+      const created: ServiceRecordLabor = { ...entry, id, serviceRecordId };
+      this.serviceRecordLabor.set(id.toString(), created);
+      return created;
+    });
+  }
+
+  async getServiceRecordFees(serviceRecordIds: string[]): Promise<ServiceRecordFee[]> {
+    return Array.from(this.serviceRecordFees.values())
+      .filter(fee => serviceRecordIds.includes(fee.serviceRecordId))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async setServiceRecordFees(serviceRecordId: string, fees: ServiceRecordFeeCreate[]): Promise<ServiceRecordFee[]> {
+    for (const [feeId, existing] of Array.from(this.serviceRecordFees.entries())) {
+      if (existing.serviceRecordId === serviceRecordId) this.serviceRecordFees.delete(feeId);
+    }
+    return fees.map((entry) => {
+      const id = this.nextServiceRecordFeeId++;
+      const created: ServiceRecordFee = { ...entry, id, serviceRecordId };
+      this.serviceRecordFees.set(id.toString(), created);
+      return created;
+    });
+  }
+
+  // Maintenance plan methods
+  async getMaintenancePlans(): Promise<MaintenancePlanWithItems[]> {
+    return Array.from(this.maintenancePlans.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getMaintenancePlan(id: string): Promise<MaintenancePlanWithItems | undefined> {
+    return this.maintenancePlans.get(id);
+  }
+
+  private buildMaintenancePlanItems(planId: number, items: InsertMaintenancePlan["items"]): MaintenancePlanItem[] {
+    return items.map((item, index) => ({
+      ...item,
+      id: this.nextMaintenancePlanItemId++,
+      planId,
+      serviceType: item.serviceType || "maintenance",
+      matchText: item.matchText ?? null,
+      intervalDays: item.intervalDays ?? null,
+      intervalHours: item.intervalHours ?? null,
+      sortOrder: index,
+    }));
+  }
+
+  async createMaintenancePlan({ items, ...insertPlan }: InsertMaintenancePlan): Promise<MaintenancePlanWithItems> {
+    const id = this.nextMaintenancePlanId++;
+    const now = new Date();
+    const plan: MaintenancePlanWithItems = {
+      ...insertPlan,
+      id,
+      description: insertPlan.description || null,
+      make: insertPlan.make ?? null,
+      model: insertPlan.model ?? null,
+      createdAt: now,
+      updatedAt: now,
+      items: this.buildMaintenancePlanItems(id, items),
+    };
+    this.maintenancePlans.set(id.toString(), plan);
+    return plan;
+  }
+
+  async updateMaintenancePlan(id: string, { items, ...updateData }: InsertMaintenancePlan): Promise<MaintenancePlanWithItems | undefined> {
+    const existingPlan = this.maintenancePlans.get(id);
+    if (!existingPlan) return undefined;
+
+    const updatedPlan: MaintenancePlanWithItems = {
+      ...existingPlan,
+      ...updateData,
+      description: updateData.description || null,
+      make: updateData.make ?? null,
+      model: updateData.model ?? null,
+      updatedAt: new Date(),
+      items: this.buildMaintenancePlanItems(existingPlan.id, items),
+    };
+    this.maintenancePlans.set(id, updatedPlan);
+    return updatedPlan;
+  }
+
+  async deleteMaintenancePlan(id: string): Promise<boolean> {
+    if (!this.maintenancePlans.delete(id)) return false;
+    // Mirror ON DELETE SET NULL on mowers.maintenance_plan_id
+    for (const mower of Array.from(this.mowers.values())) {
+      if (mower.maintenancePlanId === parseInt(id)) {
+        this.mowers.set(mower.id.toString(), { ...mower, maintenancePlanId: null });
+      }
+    }
+    return true;
+  }
+
+  // Meter reading methods
+  async getMeterReadingsByMowerId(mowerId: string): Promise<MeterReading[]> {
+    return Array.from(this.meterReadings.values()).filter(reading => reading.mowerId === parseInt(mowerId));
+  }
+
+  async getMeterReadingsByEngineId(engineId: string): Promise<MeterReading[]> {
+    return Array.from(this.meterReadings.values()).filter(reading => reading.engineId === parseInt(engineId));
+  }
+
+  async getAllMeterReadings(): Promise<MeterReading[]> {
+    return Array.from(this.meterReadings.values());
+  }
+
+  async getMeterReading(id: string): Promise<MeterReading | undefined> {
+    return this.meterReadings.get(id);
+  }
+
+  async createMeterReading(insertReading: InsertMeterReading): Promise<MeterReading> {
+    const id = this.nextMeterReadingId++;
+    const reading: MeterReading = {
+      ...insertReading,
+      id,
+      mowerId: insertReading.mowerId ?? null,
+      engineId: insertReading.engineId ?? null,
+      isMeterReplacement: insertReading.isMeterReplacement ?? false,
+      notes: insertReading.notes ?? null,
+      createdAt: new Date(),
+    };
+    this.meterReadings.set(id.toString(), reading);
+    await this.audit("meter_reading", null, reading);
+    return reading;
+  }
+
+  async deleteMeterReading(id: string): Promise<boolean> {
+    const reading = this.meterReadings.get(id);
+    if (!reading) return false;
+    this.meterReadings.delete(id);
+    await this.audit("meter_reading", reading, null);
+    return true;
+  }
+
+  // Notification methods
+  async getNotifications(): Promise<Notification[]> {
+    const notificationsList = Array.from(this.notifications.values());
+    return notificationsList.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async listNotifications(query: NotificationListQuery): Promise<ListResult<Notification>> {
+    const filtered = Array.from(this.notifications.values()).filter(notification =>
+      (query.isRead === undefined || notification.isRead === query.isRead) &&
+      (!query.type || notification.type === query.type) &&
+      (!query.priority || notification.priority === query.priority) &&
+      (!query.entityType || notification.entityType === query.entityType)
+    );
+    return memList(filtered, query, "-createdAt", NOTIFICATION_SORT_RANKS);
+  }
+
+  async getUnreadNotifications(): Promise<Notification[]> {
+    const notificationsList = Array.from(this.notifications.values()).filter(n => !n.isRead);
+    return notificationsList.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = randomUUID();
+    const now = new Date();
+    const notification: Notification = {
+      ...insertNotification,
+      id,
+      isRead: insertNotification.isRead || false,
+      priority: insertNotification.priority || "medium",
+      entityType: insertNotification.entityType || null,
+      entityId: insertNotification.entityId || null,
+      entityName: insertNotification.entityName || null,
+      detailUrl: insertNotification.detailUrl || null,
+      createdAt: now,
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+
+  async markNotificationAsRead(id: string): Promise<boolean> {
+    const notification = this.notifications.get(id);
+    if (!notification) return false;
+    
+    const updatedNotification: Notification = { ...notification, isRead: true };
+    this.notifications.set(id, updatedNotification);
+    return true;
+  }
+
+  async markAllNotificationsAsRead(): Promise<boolean> {
+    this.notifications.forEach((notification, id) => {
+      if (!notification.isRead) {
+        this.notifications.set(id, { ...notification, isRead: true });
+      }
+    });
+    return true;
+  }
+
+  async deleteNotification(id: string): Promise<boolean> {
+    this.notificationRuleHits.forEach((hit, key) => {
+      if (hit.notificationId === id) this.notificationRuleHits.set(key, { ...hit, notificationId: null });
+    });
+    return this.notifications.delete(id);
+  }
+
+  async deleteAllNotifications(): Promise<boolean> {
+    this.notifications.clear();
+    this.notificationRuleHits.forEach((hit, key) => this.notificationRuleHits.set(key, { ...hit, notificationId: null }));
+    return true;
+  }
+
+  async getNotificationRuleHits(): Promise<NotificationRuleHit[]> {
+    return Array.from(this.notificationRuleHits.values());
+  }
+
+  async addNotificationRuleHit(key: string, notificationId: string | null): Promise<NotificationRuleHit> {
+    const hit: NotificationRuleHit = { key, notificationId, createdAt: new Date() };
+    this.notificationRuleHits.set(key, hit);
+    return hit;
+  }
+
+  async removeNotificationRuleHits(keys: string[]): Promise<number> {
+    return keys.filter((key) => this.notificationRuleHits.delete(key)).length;
+  }
+
+  async getNotificationPreferences(userId?: number): Promise<NotificationPreference[]> {
+    return Array.from(this.notificationPreferences.values())
+      .filter(preference => userId === undefined || preference.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async setNotificationPreferences(userId: number, preferences: NotificationPreferenceCreate[]): Promise<NotificationPreference[]> {
+    for (const [id, existing] of Array.from(this.notificationPreferences.entries())) {
+      if (existing.userId === userId) this.notificationPreferences.delete(id);
+    }
+    return preferences.map((entry) => {
+      const id = this.nextNotificationPreferenceId++;
+      const created: NotificationPreference = { ...entry, id, userId };
+      this.notificationPreferences.set(id, created);
+      return created;
+    });
+  }
+
+  async getNotificationDelivery(id: number): Promise<NotificationDelivery | undefined> {
+    return this.notificationDeliveries.get(id);
+  }
+
+  async getNotificationDeliveries(filters: NotificationDeliveryFilters): Promise<NotificationDelivery[]> {
+    const deliveries = Array.from(this.notificationDeliveries.values())
+      .filter(delivery => filters.userId === undefined || delivery.userId === filters.userId)
+      .filter(delivery => !filters.kind || delivery.kind === filters.kind)
+      .filter(delivery => !filters.status || delivery.status === filters.status)
+      .filter(delivery => !filters.retryDueBy ||
+        (delivery.status === "failed" && delivery.nextAttemptAt !== null && delivery.nextAttemptAt <= filters.retryDueBy))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+    return filters.limit ? deliveries.slice(0, filters.limit) : deliveries;
+  }
+
+  async createNotificationDelivery(delivery: NotificationDeliveryCreate): Promise<NotificationDelivery> {
+    const id = this.nextNotificationDeliveryId++;
+    const created: NotificationDelivery = {
+      ...delivery,
+      id,
+      status: "pending",
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: null,
+      sentAt: null,
+      createdAt: new Date(),
+    };
+    this.notificationDeliveries.set(id, created);
+    return created;
+  }
+
+  async updateNotificationDelivery(id: number, delivery: NotificationDeliveryUpdate): Promise<NotificationDelivery | undefined> {
+    const existing = this.notificationDeliveries.get(id);
+    if (!existing) return undefined;
+    const updated: NotificationDelivery = { ...existing, ...delivery };
+    this.notificationDeliveries.set(id, updated);
+    return updated;
+  }
+
+  async getWebhooks(): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values()).sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    return this.webhooks.get(id);
+  }
+
+  async createWebhook(webhook: WebhookCreate): Promise<Webhook> {
+    const id = this.nextWebhookId++;
+    const now = new Date();
+    const created: Webhook = { ...webhook, id, createdAt: now, updatedAt: now };
+    this.webhooks.set(id, created);
+    return created;
+  }
+
+  async updateWebhook(id: number, webhook: Partial<WebhookCreate>): Promise<Webhook | undefined> {
+    const existing = this.webhooks.get(id);
+    if (!existing) return undefined;
+    const updated: Webhook = { ...existing, ...webhook, updatedAt: new Date() };
+    this.webhooks.set(id, updated);
+    return updated;
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    for (const [deliveryId, delivery] of Array.from(this.webhookDeliveries.entries())) {
+      if (delivery.webhookId === id) this.webhookDeliveries.delete(deliveryId);
+    }
+    return this.webhooks.delete(id);
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveries.get(id);
+  }
+
+  async getWebhookDeliveries(filters: WebhookDeliveryFilters): Promise<WebhookDelivery[]> {
+    const deliveries = Array.from(this.webhookDeliveries.values())
+      .filter(delivery => filters.webhookId === undefined || delivery.webhookId === filters.webhookId)
+      .filter(delivery => !filters.status || delivery.status === filters.status)
+      .filter(delivery => !filters.retryDueBy ||
+        (delivery.status === "failed" && delivery.nextAttemptAt !== null && delivery.nextAttemptAt <= filters.retryDueBy))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+    return filters.limit ? deliveries.slice(0, filters.limit) : deliveries;
+  }
+
+  async createWebhookDelivery(delivery: WebhookDeliveryCreate): Promise<WebhookDelivery> {
+    const id = this.nextWebhookDeliveryId++;
+    const created: WebhookDelivery = {
+      ...delivery,
+      id,
+      status: "pending",
+      attempts: 0,
+      responseStatus: null,
+      lastError: null,
+      nextAttemptAt: null,
+      deliveredAt: null,
+      createdAt: new Date(),
+    };
+    this.webhookDeliveries.set(id, created);
+    return created;
+  }
+
+  async updateWebhookDelivery(id: number, delivery: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined> {
+    const existing = this.webhookDeliveries.get(id);
+    if (!existing) return undefined;
+    const updated: WebhookDelivery = { ...existing, ...delivery };
+    this.webhookDeliveries.set(id, updated);
+    return updated;
+  }
+
+  async deleteWebhookDeliveriesBefore(date: Date): Promise<number> {
+    let deleted = 0;
+    for (const [id, delivery] of Array.from(this.webhookDeliveries.entries())) {
+      if (delivery.createdAt < date && delivery.status !== "pending") {
+        this.webhookDeliveries.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async getMqttSettings(): Promise<MqttSettings | undefined> {
+    return this.mqttSettings;
+  }
+
+  async saveMqttSettings(settings: MqttSettingsSave): Promise<MqttSettings> {
+    this.mqttSettings = { ...settings, id: 1, updatedAt: new Date() };
+    return this.mqttSettings;
+  }
+
+  // Audit log methods
+  async getAuditEvents(filters: AuditEventFilters): Promise<AuditEvent[]> {
+    return this.auditEvents
+      .filter(event =>
+        (!filters.entityType || event.entityType === filters.entityType) &&
+        (!filters.entityId || event.entityId === filters.entityId) &&
+        (!filters.action || event.action === filters.action) &&
+        (filters.actorId === undefined || event.actorId === filters.actorId) &&
+        (filters.mowerId === undefined || event.mowerId === filters.mowerId) &&
+        (filters.engineId === undefined || event.engineId === filters.engineId) &&
+        (filters.partId === undefined || event.partId === filters.partId) &&
+        (!filters.from || event.createdAt >= filters.from) &&
+        (!filters.to || event.createdAt <= filters.to)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, filters.limit ?? 100);
+  }
+
+  // Search methods
+  async search(terms: string[], limit: number): Promise<SearchMatches> {
+    return {
+      mowers: memSearch(this.mowers.values(), SEARCH_FIELDS.mowers, terms, limit),
+      engines: memSearch(this.engines.values(), SEARCH_FIELDS.engines, terms, limit),
+      parts: memSearch(this.parts.values(), SEARCH_FIELDS.parts, terms, limit),
+      serviceRecords: memSearch(this.serviceRecords.values(), SEARCH_FIELDS.serviceRecords, terms, limit),
+      tasks: memSearch(this.tasks.values(), SEARCH_FIELDS.tasks, terms, limit),
+      attachments: memSearch(this.attachments.values(), SEARCH_FIELDS.attachments, terms, limit),
+    };
+  }
+
+  // Reminders methods
+  async getLowStockParts(): Promise<Part[]> {
+    return Array.from(this.parts.values()).filter(part => 
+      part.minStockLevel !== null && part.stockQuantity <= part.minStockLevel
+    );
+  }
+
+  async getUpcomingServiceReminders(): Promise<UpcomingServiceReminder[]> {
+    return upcomingServiceReminders(
+      Array.from(this.mowers.values()),
+      await this.getMaintenancePlans(),
+      Array.from(this.serviceRecords.values()),
+      Array.from(this.meterReadings.values()),
+    );
+  }
+
+}
+
+export class DbStorage implements IStorage {
+  public sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      tableName: "session",
+      createTableIfMissing: true,
+    });
+  }
+
+  async runInTransaction<T>(work: () => Promise<T>): Promise<T> {
+    return runInTransaction(work);
+  }
+
+  private async audit(entityType: AuditEntityType, before: object | null | undefined, after: object | null | undefined): Promise<void> {
+    const event = buildAuditEvent(entityType, before, after);
+    if (!event) return;
+    try {
+      await db.insert(auditEvents).values(event);
+    } catch (error) {
+      // Never fail the actual change because the audit write failed
+      console.error(`Failed to write audit event for ${entityType} ${event.entityId}:`, error);
+    }
+  }
+
+  /**
+   * Shared body of the list* methods: filters, sorts (nulls last, id as tiebreaker)
+   * and, when a page is requested, pages the table while counting all matches.
+   */
+  private async listRows<T>(table: PgTable, conditions: SQL[], query: ListQuery, defaultSort?: string, ranks: SortRanks = {}): Promise<ListResult<T>> {
+    const columns: Record<string, Column> = getTableColumns(table);
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const sort = parseSort(query.sort ?? defaultSort);
+    const orderBy: SQL[] = [];
+    if (sort && columns[sort.field]) {
+      const rank = ranks[sort.field];
+      const sortValue = rank
+        ? sql`CASE ${sql.join(rank.map((value, index) => sql`WHEN ${columns[sort.field]} = ${value} THEN ${index}`), sql` `)} END`
+        : sql`${columns[sort.field]}`;
+      orderBy.push(sql`${sortValue} ${sql.raw(sort.descending ? "DESC" : "ASC")} NULLS LAST`);
+    }
+    orderBy.push(asc(columns.id));
+
+    const window = pageWindow(query);
+    let rowsQuery = db.select().from(table).where(where).orderBy(...orderBy);
+    if (window) rowsQuery = rowsQuery.limit(window.limit).offset(window.offset);
+    const items: T[] = await rowsQuery;
+    if (!window) return { items, total: items.length };
+
+    const [{ count }]: { count: number }[] = await db.select({ count: sql<number>`count(*)::int` }).from(table).where(where);
+    return { items, total: count };
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.id, id));
+    return result[0];
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(sql`lower(${users.username}) = ${username.toLowerCase()}`);
+    return result[0];
+  }
+
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.calendarToken, token));
+    return result[0];
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users);
+  }
+
+  async countUsers(): Promise<number> {
+    const result = await db.select({ count: sql<number>`count(*)::int` }).from(users);
+    return result[0]?.count ?? 0;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const result = await db.insert(users).values(insertUser).returning();
+    return result[0];
+  }
+
+  async createFirstUser(insertUser: InsertUser): Promise<User | undefined> {
+    return await db.transaction(async (tx: any) => {
+      // Concurrent first-run requests wait here, then see the account the first one created
+      await tx.execute(sql`LOCK TABLE ${users} IN SHARE ROW EXCLUSIVE MODE`);
+      const [{ count }]: { count: number }[] = await tx.select({ count: sql<number>`count(*)::int` }).from(users);
+      if (count > 0) return undefined;
+      const result = await tx.insert(users).values(insertUser).returning();
+      return result[0];
+    });
+  }
+
+  async updateUser(id: number, updateData: Partial<InsertUser> & { lastLoginAt?: Date; calendarToken?: string | null }): Promise<User | undefined> {
+    const result = await db
+      .update(users)
+      .set(updateData)
+      .where(eq(users.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Mower methods
+  async getMower(id: string): Promise<Mower | undefined> {
+    const result = await db.select().from(mowers).where(eq(mowers.id, parseInt(id)));
+    return result[0];
+  }
+
+  async getAllMowers(): Promise<Mower[]> {
+    return await db.select().from(mowers);
+  }
+
+  async listMowers(query: MowerListQuery): Promise<ListResult<Mower>> {
+    const conditions: SQL[] = [];
+    if (query.q) conditions.push(textFilter([mowers.make, mowers.model, mowers.serialNumber, mowers.location], query.q));
+    if (query.status) conditions.push(eq(mowers.status, query.status));
+    if (query.condition) conditions.push(eq(mowers.condition, query.condition));
+    if (query.nextServiceFrom) conditions.push(gte(mowers.nextServiceDate, toDateString(query.nextServiceFrom)));
+    if (query.nextServiceTo) conditions.push(lte(mowers.nextServiceDate, toDateString(query.nextServiceTo)));
+    return this.listRows(mowers, conditions, query);
+  }
+
+  async createMower(insertMower: InsertMower): Promise<Mower> {
+    const result = await db.insert(mowers).values(insertMower).returning();
+    await this.audit("mower", null, result[0]);
+    return result[0];
+  }
+
+  async updateMower(id: string, updateData: Partial<InsertMower>): Promise<Mower | undefined> {
+    const before = await this.getMower(id);
+    const result = await db
+      .update(mowers)
+      .set(updateData)
+      .where(eq(mowers.id, parseInt(id)))
+      .returning();
+    if (result[0]) await this.audit("mower", before, result[0]);
+    return result[0];
+  }
+
+  async updateMowerThumbnail(mowerId: string, thumbnailAttachmentId: string | null): Promise<boolean> {
+    const before = await this.getMower(mowerId);
+    const result = await db
+      .update(mowers)
+      .set({ thumbnailAttachmentId })
+      .where(eq(mowers.id, parseInt(mowerId)))
+      .returning();
+    if (result[0]) await this.audit("mower", before, result[0]);
+    return result.length > 0;
+  }
+
+  async setMowerHourMeter(mowerId: string, hours: number | null, recordedAt: Date | null): Promise<Mower | undefined> {
+    const before = await this.getMower(mowerId);
+    const result = await db
+      .update(mowers)
+      .set({ currentHours: hours, currentHoursRecordedAt: recordedAt })
+      .where(eq(mowers.id, parseInt(mowerId)))
+      .returning();
+    if (result[0]) await this.audit("mower", before, result[0]);
+    return result[0];
   }
 
   async deleteMower(id: string): Promise<boolean> {
-    const result = await db.delete(mowers).where(eq(mowers.id, parseInt(id)));
-    return (result.rowCount ?? 0) > 0;
+    const result = await db.delete(mowers).where(eq(mowers.id, parseInt(id))).returning();
+    if (result[0]) await this.audit("mower", result[0], null);
+    return result.length > 0;
   }
 
   // Task methods
@@ -826,11 +2192,19 @@ export class DbStorage implements IStorage {
     return await db.select().from(tasks).where(eq(tasks.mowerId, parseInt(mowerId)));
   }
 
+  async getTasksByEngineId(engineId: string): Promise<Task[]> {
+    return await db.select().from(tasks).where(eq(tasks.engineId, parseInt(engineId)));
+  }
+
+  async getTasksByPartId(partId: string): Promise<Task[]> {
+    return await db.select().from(tasks).where(eq(tasks.partId, parseInt(partId)));
+  }
+
   async getAllTasks(): Promise<Task[]> {
     return await db.select().from(tasks);
   }
 
-  async createTask(insertTask: InsertTask): Promise<Task> {
+  async createTask(insertTask: InsertTask & { seriesId?: string | null }): Promise<Task> {
     const id = randomUUID();
     const now = new Date();
     const taskData: typeof tasks.$inferInsert = {
@@ -840,24 +2214,29 @@ export class DbStorage implements IStorage {
     };
     
     const result = await db.insert(tasks).values(taskData).returning();
+    await this.audit("task", null, result[0]);
     return result[0];
   }
 
-  async updateTask(id: string, updateData: Partial<InsertTask>): Promise<Task | undefined> {
+  async updateTask(id: string, updateData: TaskUpdate): Promise<Task | undefined> {
+    const before = await this.getTask(id);
     const result = await db
       .update(tasks)
       .set(updateData)
       .where(eq(tasks.id, id))
       .returning();
+    if (result[0]) await this.audit("task", before, result[0]);
     return result[0];
   }
 
   async deleteTask(id: string): Promise<boolean> {
-    const result = await db.delete(tasks).where(eq(tasks.id, id));
-    return (result.rowCount ?? 0) > 0;
+    const result = await db.delete(tasks).where(eq(tasks.id, id)).returning();
+    if (result[0]) await this.audit("task", result[0], null);
+    return result.length > 0;
   }
 
   async markTaskComplete(id: string): Promise<Task | undefined> {
+    const before = await this.getTask(id);
     const result = await db
       .update(tasks)
       .set({ 
@@ -866,9 +2245,94 @@ export class DbStorage implements IStorage {
       })
       .where(eq(tasks.id, id))
       .returning();
+    if (result[0]) await this.audit("task", before, result[0]);
+    return result[0];
+  }
+
+  async markTaskCompleteOnce(id: string): Promise<Task | undefined> {
+    const before = await this.getTask(id);
+    // The conditions are part of the update, so of two concurrent completions only one changes the row
+    const result = await db
+      .update(tasks)
+      .set({ status: "completed", completedAt: new Date() })
+      .where(and(eq(tasks.id, id), ne(tasks.status, "completed"), isNull(tasks.nextTaskId)))
+      .returning();
+    if (result[0]) await this.audit("task", before, result[0]);
+    return result[0];
+  }
+
+  // Task checklist and comment methods
+  async getTaskChecklistItems(taskIds: string[]): Promise<TaskChecklistItem[]> {
+    if (taskIds.length === 0) return [];
+    const items = await db
+      .select()
+      .from(taskChecklistItems)
+      .where(inArray(taskChecklistItems.taskId, taskIds))
+      .orderBy(asc(taskChecklistItems.sortOrder), asc(taskChecklistItems.id));
+    return items.sort(byTaskThen(taskIds, () => 0));
+  }
+
+  async getTaskChecklistItem(id: string): Promise<TaskChecklistItem | undefined> {
+    const result = await db.select().from(taskChecklistItems).where(eq(taskChecklistItems.id, parseInt(id)));
+    return result[0];
+  }
+
+  async createTaskChecklistItem(taskId: string, insertItem: InsertTaskChecklistItem): Promise<TaskChecklistItem> {
+    const [{ nextOrder }] = await db
+      .select({ nextOrder: sql<number>`coalesce(max(${taskChecklistItems.sortOrder}) + 1, 0)` })
+      .from(taskChecklistItems)
+      .where(eq(taskChecklistItems.taskId, taskId));
+    const [item] = await db
+      .insert(taskChecklistItems)
+      .values({ taskId, text: insertItem.text, sortOrder: Number(nextOrder) })
+      .returning();
+    return item;
+  }
+
+  async updateTaskChecklistItem(id: string, updates: TaskChecklistItemUpdate): Promise<TaskChecklistItem | undefined> {
+    const result = await db
+      .update(taskChecklistItems)
+      .set(updates)
+      .where(eq(taskChecklistItems.id, parseInt(id)))
+      .returning();
+    return result[0];
+  }
+
+  async deleteTaskChecklistItem(id: string): Promise<boolean> {
+    const result = await db.delete(taskChecklistItems).where(eq(taskChecklistItems.id, parseInt(id))).returning();
+    return result.length > 0;
+  }
+
+  async getTaskComments(taskIds: string[]): Promise<TaskComment[]> {
+    if (taskIds.length === 0) return [];
+    const comments = await db
+      .select()
+      .from(taskComments)
+      .where(inArray(taskComments.taskId, taskIds))
+      .orderBy(asc(taskComments.createdAt), asc(taskComments.id));
+    return comments.sort(byTaskThen(taskIds, () => 0));
+  }
+
+  async getTaskComment(id: string): Promise<TaskComment | undefined> {
+    const result = await db.select().from(taskComments).where(eq(taskComments.id, parseInt(id)));
     return result[0];
   }
 
+  async createTaskComment(insertComment: InsertTaskComment & Pick<TaskComment, "taskId" | "authorId" | "authorName">): Promise<TaskComment> {
+    const [comment] = await db.insert(taskComments).values(insertComment).returning();
+    return comment;
+  }
+
+  async deleteTaskComment(id: string): Promise<boolean> {
+    const result = await db.delete(taskComments).where(eq(taskComments.id, parseInt(id))).returning();
+    return result.length > 0;
+  }
+
+  async getAttachmentsByTaskCommentIds(commentIds: number[]): Promise<Attachment[]> {
+    if (commentIds.length === 0) return [];
+    return await db.select().from(attachments).where(inArray(attachments.taskCommentId, commentIds));
+  }
+
   // Service Record methods
   async getServiceRecord(id: string): Promise<ServiceRecord | undefined> {
     const result = await db.select().from(serviceRecords).where(eq(serviceRecords.id, id));
@@ -883,6 +2347,17 @@ export class DbStorage implements IStorage {
     return await db.select().from(serviceRecords);
   }
 
+  async listServiceRecords(query: ServiceRecordListQuery): Promise<ListResult<ServiceRecord>> {
+    const conditions: SQL[] = [];
+    if (query.q) conditions.push(textFilter([serviceRecords.description, serviceRecords.serviceType, serviceRecords.performedBy], query.q));
+    if (query.mowerId !== undefined) conditions.push(eq(serviceRecords.mowerId, query.mowerId));
+    if (query.serviceType) conditions.push(eq(serviceRecords.serviceType, query.serviceType));
+    if (query.status) conditions.push(eq(serviceRecords.status, query.status));
+    if (query.from) conditions.push(gte(serviceRecords.serviceDate, query.from));
+    if (query.to) conditions.push(lte(serviceRecords.serviceDate, query.to));
+    return this.listRows(serviceRecords, conditions, query, "-serviceDate");
+  }
+
   async createServiceRecordWithMowerUpdate(insertServiceRecord: InsertServiceRecord): Promise<ServiceRecord> {
     // Create service record
     const serviceRecordData: typeof serviceRecords.$inferInsert = {
@@ -892,29 +2367,51 @@ export class DbStorage implements IStorage {
     };
 
     const [createdServiceRecord] = await db.insert(serviceRecords).values(serviceRecordData).returning();
+    await this.audit("service_record", null, createdServiceRecord);
+    if (createdServiceRecord.status === "completed") await this.applyServiceToMower(createdServiceRecord);
+    return createdServiceRecord;
+  }
 
-    // Update mower's service dates
-    const serviceDate = insertServiceRecord.serviceDate;
-    const nextServiceDate = new Date(serviceDate);
-    nextServiceDate.setFullYear(nextServiceDate.getFullYear() + 1); // Add 12 months
+  async completeServiceRecord(id: string, serviceDate: Date): Promise<ServiceRecord | undefined> {
+    const completed = await this.updateServiceRecord(id, { status: "completed", serviceDate });
+    if (completed) await this.applyServiceToMower(completed);
+    return completed;
+  }
+
+  // Moves the mower's service dates and hour meter on to a completed service record
+  private async applyServiceToMower(serviceRecord: ServiceRecord): Promise<void> {
+    const serviceDate = serviceRecord.serviceDate;
+    const mowerBefore = await this.getMower(serviceRecord.mowerId.toString());
+    if (!mowerBefore) return;
+    const hourMeter = hourMeterAfterService(mowerBefore, serviceRecord);
+    // Soonest item of the mower's maintenance plan, now that this record counts
+    const schedule = computeMaintenanceSchedule(
+      { ...mowerBefore, ...hourMeter },
+      await this.getMaintenancePlans(),
+      await this.getServiceRecordsByMowerId(serviceRecord.mowerId.toString()),
+      await this.getMeterReadingsByMowerId(serviceRecord.mowerId.toString()),
+    );
 
-    await db
+    const [updatedMower] = await db
       .update(mowers)
       .set({
+        ...hourMeter,
         lastServiceDate: serviceDate.toISOString().split('T')[0], // Convert to date string
-        nextServiceDate: nextServiceDate.toISOString().split('T')[0], // Convert to date string
+        nextServiceDate: nextServiceDateFor(schedule, serviceDate),
       })
-      .where(eq(mowers.id, insertServiceRecord.mowerId));
-
-    return createdServiceRecord;
+      .where(eq(mowers.id, serviceRecord.mowerId))
+      .returning();
+    if (updatedMower) await this.audit("mower", mowerBefore, updatedMower);
   }
 
   async updateServiceRecord(id: string, updateData: Partial<InsertServiceRecord>): Promise<ServiceRecord | undefined> {
+    const before = await this.getServiceRecord(id);
     const result = await db
       .update(serviceRecords)
       .set(updateData)
       .where(eq(serviceRecords.id, id))
       .returning();
+    if (result[0]) await this.audit("service_record", before, result[0]);
     return result[0];
   }
 
@@ -923,6 +2420,7 @@ export class DbStorage implements IStorage {
       .delete(serviceRecords)
       .where(eq(serviceRecords.id, id))
       .returning();
+    if (result[0]) await this.audit("service_record", result[0], null);
     return result.length > 0;
   }
 
@@ -956,19 +2454,63 @@ export class DbStorage implements IStorage {
     };
     
     const result = await db.insert(attachments).values(attachmentData).returning();
+    await this.audit("attachment", null, result[0]);
     return result[0];
   }
 
   async deleteAttachment(id: string): Promise<boolean> {
-    const result = await db.delete(attachments).where(eq(attachments.id, id));
-    return (result.rowCount ?? 0) > 0;
+    const result = await db.delete(attachments).where(eq(attachments.id, id)).returning();
+    if (result[0]) await this.audit("attachment", result[0], null);
+    return result.length > 0;
+  }
+
+  async countAttachmentsByContentHash(contentHash: string): Promise<number> {
+    const result = await db.select({ count: sql<number>`count(*)::int` })
+      .from(attachments)
+      .where(eq(attachments.contentHash, contentHash));
+    return result[0]?.count ?? 0;
+  }
+
+  async getAttachmentContentHashes(): Promise<string[]> {
+    const result: { contentHash: string | null }[] = await db.selectDistinct({ contentHash: attachments.contentHash })
+      .from(attachments)
+      .where(isNotNull(attachments.contentHash));
+    return result.map(row => row.contentHash!);
+  }
+
+  async getLegacyAttachmentIds(): Promise<string[]> {
+    const result: { id: string }[] = await db.select({ id: attachments.id })
+      .from(attachments)
+      .where(isNotNull(attachments.legacyFileData));
+    return result.map(row => row.id);
+  }
+
+  async setAttachmentContentHash(id: string, contentHash: string): Promise<void> {
+    await db.update(attachments)
+      .set({ contentHash, legacyFileData: null })
+      .where(eq(attachments.id, id));
+  }
+
+  async getAttachmentIdsMissingText(): Promise<string[]> {
+    const result: { id: string }[] = await db.select({ id: attachments.id })
+      .from(attachments)
+      .where(and(isNull(attachments.textContent), inArray(attachments.fileType, TEXT_SEARCHABLE_FILE_TYPES)));
+    return result.map(row => row.id);
+  }
+
+  async setAttachmentTextContent(id: string, textContent: string): Promise<void> {
+    await db.update(attachments)
+      .set({ textContent })
+      .where(eq(attachments.id, id));
   }
 
   async updateAttachmentMetadata(id: string, metadata: { title?: string; description?: string }): Promise<Attachment | undefined> {
+    const before = await this.getAttachment(id);
     const result = await db.update(attachments)
       .set(metadata)
       .where(eq(attachments.id, id))
       .returning();
+    if (result[0]) await this.audit("attachment", before, result[0]);
     return result[0];
   }
 
@@ -986,6 +2528,15 @@ export class DbStorage implements IStorage {
     return await db.select().from(engines);
   }
 
+  async listEngines(query: EngineListQuery): Promise<ListResult<Engine>> {
+    const conditions: SQL[] = [];
+    if (query.q) conditions.push(textFilter([engines.name, engines.manufacturer, engines.model, engines.serialNumber, engines.partNumber], query.q));
+    if (query.status) conditions.push(eq(engines.status, query.status));
+    if (query.condition) conditions.push(eq(engines.condition, query.condition));
+    if (query.mowerId !== undefined) conditions.push(eq(engines.mowerId, query.mowerId));
+    return this.listRows(engines, conditions, query, "name");
+  }
+
   async createEngine(insertEngine: InsertEngine): Promise<Engine> {
     // Check if the mower already has an engine
     if (insertEngine.mowerId) {
@@ -996,6 +2547,7 @@ export class DbStorage implements IStorage {
     }
     
     const result = await db.insert(engines).values(insertEngine).returning();
+    await this.audit("engine", null, result[0]);
     return result[0];
   }
 
@@ -1025,20 +2577,24 @@ export class DbStorage implements IStorage {
       .set({ ...updateData, updatedAt: new Date() })
       .where(eq(engines.id, parseInt(id)))
       .returning();
+    if (result[0]) await this.audit("engine", currentEngine, result[0]);
     return result[0];
   }
 
   async deleteEngine(id: string): Promise<boolean> {
-    const result = await db.delete(engines).where(eq(engines.id, parseInt(id)));
-    return (result.rowCount ?? 0) > 0;
+    const result = await db.delete(engines).where(eq(engines.id, parseInt(id))).returning();
+    if (result[0]) await this.audit("engine", result[0], null);
+    return result.length > 0;
   }
 
   async updateEngineThumbnail(engineId: string, thumbnailAttachmentId: string | null): Promise<boolean> {
+    const before = await this.getEngine(engineId);
     const result = await db
       .update(engines)
       .set({ thumbnailAttachmentId })
       .where(eq(engines.id, parseInt(engineId)))
       .returning();
+    if (result[0]) await this.audit("engine", before, result[0]);
     return result.length > 0;
   }
 
@@ -1066,30 +2622,54 @@ export class DbStorage implements IStorage {
     return await db.select().from(parts);
   }
 
+  async listParts(query: PartListQuery): Promise<ListResult<Part>> {
+    const conditions: SQL[] = [];
+    if (query.q) conditions.push(textFilter([parts.name, parts.partNumber, parts.manufacturer], query.q));
+    if (query.category) conditions.push(eq(parts.category, query.category));
+    if (query.lowStock !== undefined) {
+      const isLowStock = sql`(${parts.minStockLevel} IS NOT NULL AND ${parts.stockQuantity} <= ${parts.minStockLevel})`;
+      conditions.push(query.lowStock ? isLowStock : sql`NOT ${isLowStock}`);
+    }
+    return this.listRows(parts, conditions, query, "name");
+  }
+
+  async getPartCategories(): Promise<string[]> {
+    const result: { category: string }[] = await db.selectDistinct({ category: parts.category })
+      .from(parts)
+      .orderBy(asc(parts.category));
+    return result.map(row => row.category);
+  }
+
   async createPart(insertPart: InsertPart): Promise<Part> {
     const result = await db.insert(parts).values(insertPart).returning();
+    await this.audit("part", null, result[0]);
     return result[0];
   }
 
   async updatePart(id: string, updateData: Partial<InsertPart>): Promise<Part | undefined> {
+    const before = await this.getPart(id);
     const result = await db.update(parts)
       .set({ ...updateData, updatedAt: new Date() })
       .where(eq(parts.id, parseInt(id)))
       .returning();
+    if (result[0]) await this.audit("part", before, result[0]);
     return result[0];
   }
 
   async deletePart(id: string): Promise<boolean> {
-    const result = await db.delete(parts).where(eq(parts.id, parseInt(id)));
-    return (result.rowCount ?? 0) > 0;
+    const result = await db.delete(parts).where(eq(parts.id, parseInt(id))).returning();
+    if (result[0]) await this.audit("part", result[0], null);
+    return result.length > 0;
   }
 
   async updatePartThumbnail(partId: string, thumbnailAttachmentId: string | null): Promise<boolean> {
+    const before = await this.getPart(partId);
     const result = await db
       .update(parts)
       .set({ thumbnailAttachmentId })
       .where(eq(parts.id, parseInt(partId)))
       .returning();
+    if (result[0]) await this.audit("part", before, result[0]);
     return result.length > 0;
   }
 
@@ -1108,6 +2688,7 @@ export class DbStorage implements IStorage {
         quantity: assetParts.quantity,
         installDate: assetParts.installDate,
         serviceRecordId: assetParts.serviceRecordId,
+        workOrderId: assetParts.workOrderId,
         notes: assetParts.notes,
         createdAt: assetParts.createdAt,
         part: {
@@ -1120,6 +2701,7 @@ export class DbStorage implements IStorage {
           unitCost: parts.unitCost,
           stockQuantity: parts.stockQuantity,
           minStockLevel: parts.minStockLevel,
+          binLocation: parts.binLocation,
           notes: parts.notes,
           createdAt: parts.createdAt,
           updatedAt: parts.updatedAt,
@@ -1146,6 +2728,7 @@ export class DbStorage implements IStorage {
         quantity: assetParts.quantity,
         installDate: assetParts.installDate,
         serviceRecordId: assetParts.serviceRecordId,
+        workOrderId: assetParts.workOrderId,
         notes: assetParts.notes,
         createdAt: assetParts.createdAt,
         part: {
@@ -1158,6 +2741,7 @@ export class DbStorage implements IStorage {
           unitCost: parts.unitCost,
           stockQuantity: parts.stockQuantity,
           minStockLevel: parts.minStockLevel,
+          binLocation: parts.binLocation,
           notes: parts.notes,
           createdAt: parts.createdAt,
           updatedAt: parts.updatedAt,
@@ -1180,6 +2764,7 @@ export class DbStorage implements IStorage {
         quantity: assetParts.quantity,
         installDate: assetParts.installDate,
         serviceRecordId: assetParts.serviceRecordId,
+        workOrderId: assetParts.workOrderId,
         notes: assetParts.notes,
         createdAt: assetParts.createdAt,
         // Include related data
@@ -1192,6 +2777,7 @@ export class DbStorage implements IStorage {
           unitCost: parts.unitCost,
           stockQuantity: parts.stockQuantity,
           minStockLevel: parts.minStockLevel,
+          binLocation: parts.binLocation,
           notes: parts.notes,
           createdAt: parts.createdAt,
           updatedAt: parts.updatedAt,
@@ -1228,7 +2814,16 @@ export class DbStorage implements IStorage {
     return results[0];
   }
 
-  async createAssetPart(insertAssetPart: InsertAssetPart): Promise<AssetPart> {
+  async getAssetPartsByWorkOrderId(workOrderId: string): Promise<AssetPartWithDetails[]> {
+    const result = await db
+      .select({ ...getTableColumns(assetParts), part: getTableColumns(parts) })
+      .from(assetParts)
+      .innerJoin(parts, eq(assetParts.partId, parts.id))
+      .where(eq(assetParts.workOrderId, parseInt(workOrderId)));
+    return result as AssetPartWithDetails[];
+  }
+
+  async createAssetPart(insertAssetPart: InsertAssetPart & { workOrderId?: number | null }): Promise<AssetPart> {
     // Start a transaction to ensure atomicity
     const result = await db.transaction(async (tx: any) => {
       // First, decrement the stock quantity of the part
@@ -1251,10 +2846,13 @@ export class DbStorage implements IStorage {
 
       // Create the asset part allocation
       const assetPartResult = await tx.insert(assetParts).values(insertAssetPart).returning();
-      return assetPartResult[0];
+      return { assetPart: assetPartResult[0] as AssetPart, part: stockResult[0] as Part };
     });
 
-    return result;
+    const quantity = insertAssetPart.quantity || 1;
+    await this.audit("part", { ...result.part, stockQuantity: result.part.stockQuantity + quantity }, result.part);
+    await this.audit("asset_part", null, result.assetPart);
+    return result.assetPart;
   }
 
   async updateAssetPart(id: string, updateData: Partial<InsertAssetPart>): Promise<AssetPart | undefined> {
@@ -1267,6 +2865,7 @@ export class DbStorage implements IStorage {
       }
       
       const currentAssetPart = currentAssetPartResult[0];
+      let stockChange: { before: Part; after: Part } | undefined;
       
       // Check if quantity is being updated
       if (updateData.quantity !== undefined && updateData.quantity !== currentAssetPart.quantity) {
@@ -1289,6 +2888,10 @@ export class DbStorage implements IStorage {
         if (stockResult[0].stockQuantity < 0) {
           throw new Error(`Insufficient stock. Available: ${stockResult[0].stockQuantity + quantityDifference}, Required: ${quantityDifference}`);
         }
+        stockChange = {
+          before: { ...stockResult[0], stockQuantity: stockResult[0].stockQuantity + quantityDifference },
+          after: stockResult[0],
+        };
       }
 
       // Update the asset part
@@ -1297,10 +2900,13 @@ export class DbStorage implements IStorage {
         .where(eq(assetParts.id, parseInt(id)))
         .returning();
       
-      return updateResult[0];
+      return { before: currentAssetPart as AssetPart, after: updateResult[0] as AssetPart, stockChange };
     });
 
-    return result;
+    if (!result) return undefined;
+    if (result.stockChange) await this.audit("part", result.stockChange.before, result.stockChange.after);
+    await this.audit("asset_part", result.before, result.after);
+    return result.after;
   }
 
   async deleteAssetPart(id: string): Promise<boolean> {
@@ -1322,17 +2928,259 @@ export class DbStorage implements IStorage {
       }
 
       // Restore the stock quantity
-      await tx.update(parts)
+      const stockResult = await tx.update(parts)
         .set({ 
           stockQuantity: sql`${parts.stockQuantity} + ${assetPart.quantity}`,
           updatedAt: new Date()
         })
-        .where(eq(parts.id, assetPart.partId));
+        .where(eq(parts.id, assetPart.partId))
+        .returning();
+
+      return { assetPart: assetPart as AssetPart, part: stockResult[0] as Part | undefined };
+    });
+
+    if (!result) return false;
+    if (result.part) {
+      await this.audit("part", { ...result.part, stockQuantity: result.part.stockQuantity - result.assetPart.quantity }, result.part);
+    }
+    await this.audit("asset_part", result.assetPart, null);
+    return true;
+  }
+
+  // Work order methods
+  async getWorkOrders(): Promise<WorkOrder[]> {
+    return await db.select().from(workOrders).orderBy(desc(workOrders.createdAt), desc(workOrders.id));
+  }
+
+  async getWorkOrdersByMowerId(mowerId: string): Promise<WorkOrder[]> {
+    return await db
+      .select()
+      .from(workOrders)
+      .where(eq(workOrders.mowerId, parseInt(mowerId)))
+      .orderBy(desc(workOrders.createdAt), desc(workOrders.id));
+  }
+
+  async getWorkOrder(id: string): Promise<WorkOrder | undefined> {
+    const result = await db.select().from(workOrders).where(eq(workOrders.id, parseInt(id)));
+    return result[0];
+  }
+
+  async createWorkOrder(insertWorkOrder: Omit<InsertWorkOrder, "taskIds"> & { mowerId: number }): Promise<WorkOrder> {
+    const [workOrder] = await db.insert(workOrders).values(insertWorkOrder).returning();
+    await this.audit("work_order", null, workOrder);
+    return workOrder;
+  }
+
+  async updateWorkOrder(id: string, updates: WorkOrderUpdate): Promise<WorkOrder | undefined> {
+    const before = await this.getWorkOrder(id);
+    const result = await db
+      .update(workOrders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(workOrders.id, parseInt(id)))
+      .returning();
+    if (result[0]) await this.audit("work_order", before, result[0]);
+    return result[0];
+  }
+
+  async updateOpenWorkOrder(id: string, updates: WorkOrderUpdate): Promise<WorkOrder | undefined> {
+    const before = await this.getWorkOrder(id);
+    // The status check is part of the update, so of two concurrent calls only one changes the row
+    const result = await db
+      .update(workOrders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(workOrders.id, parseInt(id)), inArray(workOrders.status, ["open", "in_progress"])))
+      .returning();
+    if (result[0]) await this.audit("work_order", before, result[0]);
+    return result[0];
+  }
+
+  async deleteWorkOrder(id: string): Promise<boolean> {
+    const result = await db.delete(workOrders).where(eq(workOrders.id, parseInt(id))).returning();
+    if (result[0]) await this.audit("work_order", result[0], null);
+    return result.length > 0;
+  }
+
+  async getTasksByWorkOrderId(workOrderId: string): Promise<Task[]> {
+    return await db.select().from(tasks).where(eq(tasks.workOrderId, parseInt(workOrderId)));
+  }
+
+  async getWorkOrderLabor(workOrderId: string): Promise<WorkOrderLabor[]> {
+    return await db
+      .select()
+      .from(workOrderLabor)
+      .where(eq(workOrderLabor.workOrderId, parseInt(workOrderId)))
+      .orderBy(asc(workOrderLabor.workDate), asc(workOrderLabor.id));
+  }
+
+  async getWorkOrderLaborEntry(id: string): Promise<WorkOrderLabor | undefined> {
+    const result = await db.select().from(workOrderLabor).where(eq(workOrderLabor.id, parseInt(id)));
+    return result[0];
+  }
+
+  async createWorkOrderLabor(insertLabor: WorkOrderLaborCreate): Promise<WorkOrderLabor> {
+    const [labor] = await db.insert(workOrderLabor).values(insertLabor).returning();
+    return labor;
+  }
+
+  async deleteWorkOrderLabor(id: string): Promise<boolean> {
+    const result = await db.delete(workOrderLabor).where(eq(workOrderLabor.id, parseInt(id))).returning();
+    return result.length > 0;
+  }
+
+  // Technician methods
+  async getTechnicians(): Promise<Technician[]> {
+    return await db.select().from(technicians).orderBy(asc(technicians.name));
+  }
+
+  async getTechnician(id: number): Promise<Technician | undefined> {
+    const result = await db.select().from(technicians).where(eq(technicians.id, id));
+    return result[0];
+  }
+
+  async createTechnician(insertTechnician: TechnicianCreate): Promise<Technician> {
+    const [technician] = await db.insert(technicians).values(insertTechnician).returning();
+    return technician;
+  }
+
+  async updateTechnician(id: number, updates: Partial<TechnicianCreate>): Promise<Technician | undefined> {
+    const result = await db
+      .update(technicians)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(technicians.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteTechnician(id: number): Promise<boolean> {
+    const result = await db.delete(technicians).where(eq(technicians.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async mergeTechnicians(targetId: number, sourceIds: number[]): Promise<void> {
+    await db.transaction(async (tx: any) => {
+      await tx.update(serviceRecordLabor).set({ technicianId: targetId }).where(inArray(serviceRecordLabor.technicianId, sourceIds));
+      await tx.update(workOrderLabor).set({ technicianId: targetId }).where(inArray(workOrderLabor.technicianId, sourceIds));
+      await tx.delete(technicians).where(inArray(technicians.id, sourceIds));
+    });
+  }
+
+  async getServiceRecordLabor(serviceRecordIds: string[]): Promise<ServiceRecordLabor[]> {
+    if (serviceRecordIds.length === 0) return [];
+    return await db
+      .select()
+      .from(serviceRecordLabor)
+      .where(inArray(serviceRecordLabor.serviceRecordId, serviceRecordIds))
+      .orderBy(asc(serviceRecordLabor.id));
+  }
+
+  async getAllServiceRecordLabor(): Promise<ServiceRecordLabor[]> {
+    return await db.select().from(serviceRecordLabor);
+  }
+
+  async setServiceRecordLabor(serviceRecordId: string, labor: ServiceRecordLaborCreate[]): Promise<ServiceRecordLabor[]> {
+    return await db.transaction(async (tx: any) => {
+      await tx.delete(serviceRecordLabor).where(eq(serviceRecordLabor.serviceRecordId, serviceRecordId));
+      if (labor.length === 0) return [];
+      return await tx.insert(serviceRecordLabor).values(labor.map((entry) => ({ ...entry, serviceRecordId }))).returning();
+    });
+  }
+
+  async getServiceRecordFees(serviceRecordIds: string[]): Promise<ServiceRecordFee[]> {
+    if (serviceRecordIds.length === 0) return [];
+    return await db
+      .select()
+      .from(serviceRecordFees)
+      .where(inArray(serviceRecordFees.serviceRecordId, serviceRecordIds))
+      .orderBy(asc(serviceRecordFees.id));
+  }
+
+  async setServiceRecordFees(serviceRecordId: string, fees: ServiceRecordFeeCreate[]): Promise<ServiceRecordFee[]> {
+    return await db.transaction(async (tx: any) => {
+      await tx.delete(serviceRecordFees).where(eq(serviceRecordFees.serviceRecordId, serviceRecordId));
+      if (fees.length === 0) return [];
+      return await tx.insert(serviceRecordFees).values(fees.map((entry) => ({ ...entry, serviceRecordId }))).returning();
+    });
+  }
+
+  // Maintenance plan methods
+  async getMaintenancePlans(): Promise<MaintenancePlanWithItems[]> {
+    const plans: MaintenancePlan[] = await db.select().from(maintenancePlans).orderBy(asc(maintenancePlans.name));
+    const items: MaintenancePlanItem[] = await db.select()
+      .from(maintenancePlanItems)
+      .orderBy(asc(maintenancePlanItems.sortOrder), asc(maintenancePlanItems.id));
+    return plans.map(plan => ({ ...plan, items: items.filter(item => item.planId === plan.id) }));
+  }
+
+  async getMaintenancePlan(id: string): Promise<MaintenancePlanWithItems | undefined> {
+    const [plan]: MaintenancePlan[] = await db.select().from(maintenancePlans).where(eq(maintenancePlans.id, parseInt(id)));
+    if (!plan) return undefined;
+    const items: MaintenancePlanItem[] = await db.select()
+      .from(maintenancePlanItems)
+      .where(eq(maintenancePlanItems.planId, plan.id))
+      .orderBy(asc(maintenancePlanItems.sortOrder), asc(maintenancePlanItems.id));
+    return { ...plan, items };
+  }
+
+  async createMaintenancePlan({ items, ...insertPlan }: InsertMaintenancePlan): Promise<MaintenancePlanWithItems> {
+    return await db.transaction(async (tx: any) => {
+      const [plan]: MaintenancePlan[] = await tx.insert(maintenancePlans).values(insertPlan).returning();
+      const createdItems: MaintenancePlanItem[] = items.length === 0 ? [] : await tx.insert(maintenancePlanItems)
+        .values(items.map((item, index) => ({ ...item, planId: plan.id, sortOrder: index })))
+        .returning();
+      return { ...plan, items: createdItems };
+    });
+  }
+
+  async updateMaintenancePlan(id: string, { items, ...updateData }: InsertMaintenancePlan): Promise<MaintenancePlanWithItems | undefined> {
+    return await db.transaction(async (tx: any) => {
+      const [plan]: MaintenancePlan[] = await tx.update(maintenancePlans)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(eq(maintenancePlans.id, parseInt(id)))
+        .returning();
+      if (!plan) return undefined;
 
-      return true;
+      // Items are replaced wholesale; nothing references them by id
+      await tx.delete(maintenancePlanItems).where(eq(maintenancePlanItems.planId, plan.id));
+      const updatedItems: MaintenancePlanItem[] = items.length === 0 ? [] : await tx.insert(maintenancePlanItems)
+        .values(items.map((item, index) => ({ ...item, planId: plan.id, sortOrder: index })))
+        .returning();
+      return { ...plan, items: updatedItems };
     });
+  }
+
+  async deleteMaintenancePlan(id: string): Promise<boolean> {
+    const result = await db.delete(maintenancePlans).where(eq(maintenancePlans.id, parseInt(id))).returning();
+    return result.length > 0;
+  }
+
+  // Meter reading methods
+  async getMeterReadingsByMowerId(mowerId: string): Promise<MeterReading[]> {
+    return await db.select().from(meterReadings).where(eq(meterReadings.mowerId, parseInt(mowerId)));
+  }
+
+  async getMeterReadingsByEngineId(engineId: string): Promise<MeterReading[]> {
+    return await db.select().from(meterReadings).where(eq(meterReadings.engineId, parseInt(engineId)));
+  }
+
+  async getAllMeterReadings(): Promise<MeterReading[]> {
+    return await db.select().from(meterReadings);
+  }
+
+  async getMeterReading(id: string): Promise<MeterReading | undefined> {
+    const result = await db.select().from(meterReadings).where(eq(meterReadings.id, parseInt(id)));
+    return result[0];
+  }
+
+  async createMeterReading(insertReading: InsertMeterReading): Promise<MeterReading> {
+    const [reading] = await db.insert(meterReadings).values(insertReading).returning();
+    await this.audit("meter_reading", null, reading);
+    return reading;
+  }
 
-    return result;
+  async deleteMeterReading(id: string): Promise<boolean> {
+    const result = await db.delete(meterReadings).where(eq(meterReadings.id, parseInt(id))).returning();
+    if (result[0]) await this.audit("meter_reading", result[0], null);
+    return result.length > 0;
   }
 
   // Notification methods
@@ -1340,6 +3188,15 @@ export class DbStorage implements IStorage {
     return await db.select().from(notifications).orderBy(desc(notifications.createdAt));
   }
 
+  async listNotifications(query: NotificationListQuery): Promise<ListResult<Notification>> {
+    const conditions: SQL[] = [];
+    if (query.isRead !== undefined) conditions.push(eq(notifications.isRead, query.isRead));
+    if (query.type) conditions.push(eq(notifications.type, query.type));
+    if (query.priority) conditions.push(eq(notifications.priority, query.priority));
+    if (query.entityType) conditions.push(eq(notifications.entityType, query.entityType));
+    return this.listRows(notifications, conditions, query, "-createdAt", NOTIFICATION_SORT_RANKS);
+  }
+
   async getUnreadNotifications(): Promise<Notification[]> {
     return await db.select().from(notifications).where(eq(notifications.isRead, false)).orderBy(desc(notifications.createdAt));
   }
@@ -1379,6 +3236,196 @@ export class DbStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
+  async getNotificationRuleHits(): Promise<NotificationRuleHit[]> {
+    return await db.select().from(notificationRuleHits);
+  }
+
+  async addNotificationRuleHit(key: string, notificationId: string | null): Promise<NotificationRuleHit> {
+    const result = await db.insert(notificationRuleHits)
+      .values({ key, notificationId })
+      .onConflictDoUpdate({ target: notificationRuleHits.key, set: { notificationId } })
+      .returning();
+    return result[0];
+  }
+
+  async removeNotificationRuleHits(keys: string[]): Promise<number> {
+    if (keys.length === 0) return 0;
+    const result = await db.delete(notificationRuleHits).where(inArray(notificationRuleHits.key, keys));
+    return result.rowCount ?? 0;
+  }
+
+  async getNotificationPreferences(userId?: number): Promise<NotificationPreference[]> {
+    return await db
+      .select()
+      .from(notificationPreferences)
+      .where(userId === undefined ? undefined : eq(notificationPreferences.userId, userId))
+      .orderBy(asc(notificationPreferences.id));
+  }
+
+  async setNotificationPreferences(userId: number, preferences: NotificationPreferenceCreate[]): Promise<NotificationPreference[]> {
+    return await db.transaction(async (tx: any) => {
+      await tx.delete(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+      if (preferences.length === 0) return [];
+      return await tx.insert(notificationPreferences).values(preferences.map((entry) => ({ ...entry, userId }))).returning();
+    });
+  }
+
+  async getNotificationDelivery(id: number): Promise<NotificationDelivery | undefined> {
+    const result = await db.select().from(notificationDeliveries).where(eq(notificationDeliveries.id, id));
+    return result[0];
+  }
+
+  async getNotificationDeliveries(filters: NotificationDeliveryFilters): Promise<NotificationDelivery[]> {
+    const conditions: SQL[] = [];
+    if (filters.userId !== undefined) conditions.push(eq(notificationDeliveries.userId, filters.userId));
+    if (filters.kind) conditions.push(eq(notificationDeliveries.kind, filters.kind));
+    if (filters.status) conditions.push(eq(notificationDeliveries.status, filters.status));
+    if (filters.retryDueBy) {
+      conditions.push(eq(notificationDeliveries.status, "failed"), lte(notificationDeliveries.nextAttemptAt, filters.retryDueBy));
+    }
+    let query = db.select()
+      .from(notificationDeliveries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(notificationDeliveries.createdAt), desc(notificationDeliveries.id));
+    if (filters.limit) query = query.limit(filters.limit);
+    return await query;
+  }
+
+  async createNotificationDelivery(delivery: NotificationDeliveryCreate): Promise<NotificationDelivery> {
+    const result = await db.insert(notificationDeliveries).values(delivery).returning();
+    return result[0];
+  }
+
+  async updateNotificationDelivery(id: number, delivery: NotificationDeliveryUpdate): Promise<NotificationDelivery | undefined> {
+    const result = await db.update(notificationDeliveries).set(delivery).where(eq(notificationDeliveries.id, id)).returning();
+    return result[0];
+  }
+
+  async getWebhooks(): Promise<Webhook[]> {
+    return await db.select().from(webhooks).orderBy(asc(webhooks.name), asc(webhooks.id));
+  }
+
+  async getWebhook(id: number): Promise<Webhook | undefined> {
+    const result = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return result[0];
+  }
+
+  async createWebhook(webhook: WebhookCreate): Promise<Webhook> {
+    const result = await db.insert(webhooks).values(webhook).returning();
+    return result[0];
+  }
+
+  async updateWebhook(id: number, webhook: Partial<WebhookCreate>): Promise<Webhook | undefined> {
+    const result = await db.update(webhooks).set({ ...webhook, updatedAt: new Date() }).where(eq(webhooks.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteWebhook(id: number): Promise<boolean> {
+    const result = await db.delete(webhooks).where(eq(webhooks.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const result = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return result[0];
+  }
+
+  async getWebhookDeliveries(filters: WebhookDeliveryFilters): Promise<WebhookDelivery[]> {
+    const conditions: SQL[] = [];
+    if (filters.webhookId !== undefined) conditions.push(eq(webhookDeliveries.webhookId, filters.webhookId));
+    if (filters.status) conditions.push(eq(webhookDeliveries.status, filters.status));
+    if (filters.retryDueBy) {
+      conditions.push(eq(webhookDeliveries.status, "failed"), lte(webhookDeliveries.nextAttemptAt, filters.retryDueBy));
+    }
+    let query = db.select()
+      .from(webhookDeliveries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id));
+    if (filters.limit) query = query.limit(filters.limit);
+    return await query;
+  }
+
+  async createWebhookDelivery(delivery: WebhookDeliveryCreate): Promise<WebhookDelivery> {
+    const result = await db.insert(webhookDeliveries).values(delivery).returning();
+    return result[0];
+  }
+
+  async updateWebhookDelivery(id: number, delivery: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined> {
+    const result = await db.update(webhookDeliveries).set(delivery).where(eq(webhookDeliveries.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteWebhookDeliveriesBefore(date: Date): Promise<number> {
+    const result = await db.delete(webhookDeliveries)
+      .where(and(lt(webhookDeliveries.createdAt, date), ne(webhookDeliveries.status, "pending")));
+    return result.rowCount ?? 0;
+  }
+
+  async getMqttSettings(): Promise<MqttSettings | undefined> {
+    const result = await db.select().from(mqttSettings).where(eq(mqttSettings.id, 1));
+    return result[0];
+  }
+
+  async saveMqttSettings(settings: MqttSettingsSave): Promise<MqttSettings> {
+    const row = { ...settings, updatedAt: new Date() };
+    const result = await db.insert(mqttSettings)
+      .values({ ...row, id: 1 })
+      .onConflictDoUpdate({ target: mqttSettings.id, set: row })
+      .returning();
+    return result[0];
+  }
+
+  // Audit log methods
+  async getAuditEvents(filters: AuditEventFilters): Promise<AuditEvent[]> {
+    const conditions: SQL[] = [];
+    if (filters.entityType) conditions.push(eq(auditEvents.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditEvents.entityId, filters.entityId));
+    if (filters.action) conditions.push(eq(auditEvents.action, filters.action));
+    if (filters.actorId !== undefined) conditions.push(eq(auditEvents.actorId, filters.actorId));
+    if (filters.mowerId !== undefined) conditions.push(eq(auditEvents.mowerId, filters.mowerId));
+    if (filters.engineId !== undefined) conditions.push(eq(auditEvents.engineId, filters.engineId));
+    if (filters.partId !== undefined) conditions.push(eq(auditEvents.partId, filters.partId));
+    if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditEvents.createdAt, filters.to));
+
+    return await db.select()
+      .from(auditEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(filters.limit ?? 100);
+  }
+
+  // Search methods
+  async search(terms: string[], limit: number): Promise<SearchMatches> {
+    // Terms are letters/digits only, so they are safe to join into tsquery syntax
+    const query = sql`to_tsquery('simple', ${terms.map(term => `${term}:*`).join(" & ")})`;
+    const searchTable = (table: PgTable, fields: readonly string[]) => {
+      const document = searchDocument(getTableColumns(table), fields);
+      return db.select()
+        .from(table)
+        .where(sql`${document} @@ ${query}`)
+        .orderBy(desc(sql`ts_rank(${document}, ${query})`))
+        .limit(limit);
+    };
+
+    const [mowerRows, engineRows, partRows, serviceRecordRows, taskRows, attachmentRows] = await Promise.all([
+      searchTable(mowers, SEARCH_FIELDS.mowers),
+      searchTable(engines, SEARCH_FIELDS.engines),
+      searchTable(parts, SEARCH_FIELDS.parts),
+      searchTable(serviceRecords, SEARCH_FIELDS.serviceRecords),
+      searchTable(tasks, SEARCH_FIELDS.tasks),
+      searchTable(attachments, SEARCH_FIELDS.attachments),
+    ]);
+    return {
+      mowers: mowerRows,
+      engines: engineRows,
+      parts: partRows,
+      serviceRecords: serviceRecordRows,
+      tasks: taskRows,
+      attachments: attachmentRows,
+    };
+  }
+
   // Reminders methods
   async getLowStockParts(): Promise<Part[]> {
     return await db.select()
@@ -1388,32 +3435,16 @@ export class DbStorage implements IStorage {
       );
   }
 
-  async getUpcomingServiceReminders(): Promise<{ mower: Mower; serviceType: string; daysUntilDue: number; dueDate: Date }[]> {
-    const today = new Date();
-    const thirtyDaysFromNow = new Date(today.getTime() + (30 * 24 * 60 * 60 * 1000));
-    
-    // Get mowers with upcoming service dates
-    const mowersWithServices = await db.select()
-      .from(mowers)
-      .where(
-        sql`${mowers.nextServiceDate} IS NOT NULL 
-            AND ${mowers.nextServiceDate} >= ${today.toISOString().split('T')[0]}
-            AND ${mowers.nextServiceDate} <= ${thirtyDaysFromNow.toISOString().split('T')[0]}`
-      );
-
-    return mowersWithServices.map((mower: Mower) => {
-      const serviceDate = new Date(mower.nextServiceDate!);
-      const timeDiff = serviceDate.getTime() - today.getTime();
-      const daysUntilDue = Math.ceil(timeDiff / (1000 * 60 * 60 * 24));
-      
-      return {
-        mower,
-        serviceType: 'Scheduled Maintenance', // Generic service type since we don't have specific types in mower table
-        daysUntilDue,
-        dueDate: serviceDate
-      };
-    });
+  async getUpcomingServiceReminders(): Promise<UpcomingServiceReminder[]> {
+    const [allMowers, plans, records, readings] = await Promise.all([
+      this.getAllMowers(),
+      this.getMaintenancePlans(),
+      this.getAllServiceRecords(),
+      this.getAllMeterReadings(),
+    ]);
+    return upcomingServiceReminders(allMowers, plans, records, readings);
   }
+
 }
 
 // Initialize storage based on environment
@@ -0,0 +1,91 @@
+import { addDays, addMonths, addWeeks } from "date-fns";
+import type { InsertTask, Task } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type HourMeterState = {
+  currentHours: number | null;
+  hoursPerDay: number | null; // recent usage rate, null when unknown
+};
+
+type Recurrence = Pick<Task, "recurrenceUnit" | "recurrenceInterval">;
+
+// Why a task's recurrence rule is incomplete or does not fit its asset, or null when it is fine
+export function checkTaskRecurrence(task: Partial<Recurrence & Pick<Task, "partId">>): string | null {
+  if ((task.recurrenceUnit ?? null) === null && (task.recurrenceInterval ?? null) === null) return null;
+  if (!task.recurrenceUnit || !task.recurrenceInterval) return "Set both how often the task repeats and the unit it repeats in";
+  if (task.recurrenceUnit === "hours" && task.partId) return "Parts have no hour meter; repeat part tasks in days, weeks or months";
+  return null;
+}
+
+function addRecurrence(date: Date, unit: string, amount: number): Date {
+  if (unit === "weeks") return addWeeks(date, amount);
+  if (unit === "months") return addMonths(date, amount);
+  return addDays(date, amount);
+}
+
+/**
+ * Hour-meter reading an hour-based task falls due at when it is set up without
+ * one: a full interval from the asset's current reading.
+ */
+export function initialDueHours(task: Recurrence & Pick<Task, "dueHours">, meter: HourMeterState): number | null {
+  if (task.recurrenceUnit !== "hours" || !task.recurrenceInterval) return task.dueHours ?? null;
+  return task.dueHours ?? (meter.currentHours ?? 0) + task.recurrenceInterval;
+}
+
+/**
+ * Due date and hours of the instance that follows a recurring task completed at
+ * completedAt, or null for one-off tasks. Calendar series keep the cadence of
+ * the task's due date, skipping occurrences that were already past when it was
+ * completed. Hour-based series restart from the hour meter at completion; their
+ * due date is estimated from the usage rate when there is one.
+ */
+export function nextTaskOccurrence(
+  task: Recurrence & Pick<Task, "dueDate">,
+  completedAt: Date,
+  meter: HourMeterState,
+): { dueDate: Date | null; dueHours: number | null } | null {
+  const { recurrenceUnit: unit, recurrenceInterval: interval } = task;
+  if (!unit || !interval) return null;
+
+  if (unit === "hours") {
+    const dueDate = meter.hoursPerDay
+      ? new Date(completedAt.getTime() + Math.ceil(interval / meter.hoursPerDay) * DAY_MS)
+      : null;
+    return { dueDate, dueHours: (meter.currentHours ?? 0) + interval };
+  }
+
+  const anchor = task.dueDate ? new Date(task.dueDate) : completedAt;
+  let occurrence = 1;
+  let dueDate = addRecurrence(anchor, unit, interval);
+  while (dueDate <= completedAt) {
+    occurrence++;
+    dueDate = addRecurrence(anchor, unit, interval * occurrence);
+  }
+  return { dueDate, dueHours: null };
+}
+
+// The task a completed recurring task is followed by; it joins the same series
+export function nextTaskInstance(
+  task: Task,
+  occurrence: { dueDate: Date | null; dueHours: number | null },
+): InsertTask & { seriesId: string } {
+  return {
+    mowerId: task.mowerId,
+    engineId: task.engineId,
+    partId: task.partId,
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    status: "pending",
+    category: task.category,
+    estimatedCost: task.estimatedCost,
+    partNumber: task.partNumber,
+    recurrenceUnit: task.recurrenceUnit as InsertTask["recurrenceUnit"],
+    recurrenceInterval: task.recurrenceInterval,
+    dueDate: occurrence.dueDate,
+    dueHours: occurrence.dueHours,
+    assigneeId: task.assigneeId,
+    seriesId: task.seriesId ?? task.id,
+  };
+}
@@ -0,0 +1,179 @@
+import type { InsertTask, Task, TaskAssignee, TaskBoardItem, TaskCommentWithPhotos, TaskStatus, TaskWithActivity } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { storage } from "./storage";
+import { getHourMeterState } from "./meterReadings";
+import { initialDueHours, nextTaskOccurrence, nextTaskInstance, type HourMeterState } from "./taskRecurrence";
+
+export type TaskAsset = { type: "mower" | "engine" | "part"; id: string };
+
+// The mower, engine or part a task belongs to
+export function taskAsset(task: Pick<Task, "mowerId" | "engineId" | "partId">): TaskAsset | null {
+  if (task.mowerId) return { type: "mower", id: String(task.mowerId) };
+  if (task.engineId) return { type: "engine", id: String(task.engineId) };
+  if (task.partId) return { type: "part", id: String(task.partId) };
+  return null;
+}
+
+// Owner columns of a new task for the asset; the other two are cleared
+export function taskOwnerFields(asset: TaskAsset): Pick<Task, "mowerId" | "engineId" | "partId"> {
+  return {
+    mowerId: asset.type === "mower" ? parseInt(asset.id) : null,
+    engineId: asset.type === "engine" ? parseInt(asset.id) : null,
+    partId: asset.type === "part" ? parseInt(asset.id) : null,
+  };
+}
+
+// Page of the asset a task belongs to, opened on its Tasks tab
+export function taskAssetUrl(task: Pick<Task, "mowerId" | "engineId" | "partId">): string | null {
+  const asset = taskAsset(task);
+  if (!asset) return null;
+  if (asset.type === "engine") return `/catalog/engines/${asset.id}?tab=tasks`;
+  if (asset.type === "part") return `/catalog/parts/${asset.id}?tab=tasks`;
+  return `/mowers/${asset.id}?tab=tasks`;
+}
+
+export async function getTasksForAsset(asset: TaskAsset): Promise<Task[]> {
+  if (asset.type === "engine") return storage.getTasksByEngineId(asset.id);
+  if (asset.type === "part") return storage.getTasksByPartId(asset.id);
+  return storage.getTasksByMowerId(asset.id);
+}
+
+// Parts have no hour meter
+async function hourMeterFor(asset: TaskAsset | null): Promise<HourMeterState> {
+  if (!asset || asset.type === "part") return { currentHours: null, hoursPerDay: null };
+  return getHourMeterState({ type: asset.type, id: asset.id });
+}
+
+/**
+ * Fills in the hour-meter reading an hour-based recurring task is first due at
+ * when none was given. Other tasks are returned unchanged.
+ */
+export async function withInitialDueHours<T extends Partial<InsertTask>>(task: T, asset: TaskAsset | null): Promise<T> {
+  if (task.recurrenceUnit !== "hours" || !task.recurrenceInterval || task.dueHours != null) return task;
+  const meter = await hourMeterFor(asset);
+  return {
+    ...task,
+    dueHours: initialDueHours({ recurrenceUnit: "hours", recurrenceInterval: task.recurrenceInterval, dueHours: null }, meter),
+  };
+}
+
+// Active users who may work on tasks, by name
+export async function getTaskAssignees(): Promise<TaskAssignee[]> {
+  return (await storage.getAllUsers())
+    .filter((user) => user.isActive && hasPermission(user.role, "tasks:write"))
+    .map((user) => ({ id: user.id, name: user.displayName || user.username }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Why a task cannot be assigned to the user, or null when it can (or is unassigned)
+export async function checkTaskAssignee(assigneeId: number | null | undefined): Promise<string | null> {
+  if (assigneeId == null) return null;
+  const assignees = await getTaskAssignees();
+  return assignees.some((assignee) => assignee.id === assigneeId)
+    ? null
+    : "Tasks can only be assigned to active admins and technicians";
+}
+
+/**
+ * Marks a task completed. A recurring task that was still open is followed by
+ * the next instance of its series (with a fresh copy of its checklist), returned
+ * as nextTask. The task remembers that instance, so completing it again after
+ * it was reopened does not add another. It runs in one transaction that starts
+ * by completing the task only if that has not happened yet, so of concurrent
+ * completions only one creates the next instance.
+ */
+export async function completeTask(id: string): Promise<{ task: Task; nextTask: Task | null } | undefined> {
+  return storage.runInTransaction(async () => {
+    const task = await storage.markTaskCompleteOnce(id);
+    if (!task) {
+      // Already completed, or reopened after creating its next instance
+      const existing = await storage.getTask(id);
+      if (!existing) return undefined;
+      const completed = existing.status === "completed" ? existing : await storage.markTaskComplete(id);
+      return completed && { task: completed, nextTask: null };
+    }
+    if (!task.recurrenceUnit) return { task, nextTask: null };
+
+    const meter = task.recurrenceUnit === "hours"
+      ? await hourMeterFor(taskAsset(task))
+      : { currentHours: null, hoursPerDay: null };
+    const occurrence = nextTaskOccurrence(task, task.completedAt ?? new Date(), meter);
+    if (!occurrence) return { task, nextTask: null };
+
+    const nextTask = await storage.createTask(nextTaskInstance(task, occurrence));
+    // The next instance starts with the same steps, none of them ticked off
+    for (const item of await storage.getTaskChecklistItems([task.id])) {
+      await storage.createTaskChecklistItem(nextTask.id, { text: item.text });
+    }
+    return { task: (await storage.updateTask(task.id, { nextTaskId: nextTask.id })) ?? task, nextTask };
+  });
+}
+
+/**
+ * Moves a task to another status column of the board. Moving it to completed
+ * completes it like the task list does (so recurring tasks regenerate); moving
+ * it out of completed reopens it.
+ */
+export async function moveTask(id: string, status: TaskStatus): Promise<{ task: Task; nextTask: Task | null } | undefined> {
+  if (status === "completed") return completeTask(id);
+  const existing = await storage.getTask(id);
+  if (!existing) return undefined;
+  if (existing.status === status) return { task: existing, nextTask: null };
+  const task = await storage.updateTask(id, { status, ...(existing.status === "completed" ? { completedAt: null } : {}) });
+  return task && { task, nextTask: null };
+}
+
+// Adds checklist progress and comment counts for the task list
+export async function withTaskActivity(tasks: Task[]): Promise<TaskWithActivity[]> {
+  const ids = tasks.map((task) => task.id);
+  const [items, comments] = await Promise.all([storage.getTaskChecklistItems(ids), storage.getTaskComments(ids)]);
+  return tasks.map((task) => {
+    const checklist = items.filter((item) => item.taskId === task.id);
+    return {
+      ...task,
+      checklistDone: checklist.filter((item) => item.isDone).length,
+      checklistTotal: checklist.length,
+      commentCount: comments.filter((comment) => comment.taskId === task.id).length,
+    };
+  });
+}
+
+// A task's comment thread, oldest first, with the photos of each comment
+export async function getTaskCommentThread(taskId: string): Promise<TaskCommentWithPhotos[]> {
+  const comments = await storage.getTaskComments([taskId]);
+  const photos = await storage.getAttachmentsByTaskCommentIds(comments.map((comment) => comment.id));
+  return comments.map((comment) => ({
+    ...comment,
+    photos: photos
+      .filter((photo) => photo.taskCommentId === comment.id)
+      .map(({ legacyFileData: _data, textContent: _text, ...photo }) => photo),
+  }));
+}
+
+// Every task in the fleet, with its asset and assignee names for the board
+export async function getTaskBoard(): Promise<TaskBoardItem[]> {
+  const [tasks, mowers, engines, parts, users] = await Promise.all([
+    storage.getAllTasks(),
+    storage.getAllMowers(),
+    storage.getAllEngines(),
+    storage.getAllParts(),
+    storage.getAllUsers(),
+  ]);
+  const names = new Map<string, string>([
+    ...mowers.map((mower): [string, string] => [`mower:${mower.id}`, `${mower.make} ${mower.model}`]),
+    ...engines.map((engine): [string, string] => [`engine:${engine.id}`, engine.name]),
+    ...parts.map((part): [string, string] => [`part:${part.id}`, part.name]),
+  ]);
+  const userNames = new Map(users.map((user) => [user.id, user.displayName || user.username]));
+
+  return (await withTaskActivity(tasks)).map((task) => {
+    const asset = taskAsset(task);
+    return {
+      ...task,
+      assetType: asset?.type ?? null,
+      assetName: asset ? names.get(`${asset.type}:${asset.id}`) ?? null : null,
+      assetUrl: taskAssetUrl(task),
+      assigneeName: task.assigneeId != null ? userNames.get(task.assigneeId) ?? null : null,
+    };
+  });
+}
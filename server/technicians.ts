@@ -0,0 +1,222 @@
+import { z } from "zod";
+import { serviceRecordLaborSchema, tokenizeSearchText, type InsertTechnician, type ServiceRecord, type ServiceRecordLabor, type Technician, type TechnicianWithUsage, type UpdateTechnician } from "@shared/schema";
+import { storage, type ServiceRecordLaborCreate, type TechnicianCreate } from "./storage";
+
+// Labor for a performedBy name that is not in the directory yet; the technician is added when the record is saved
+export interface NewTechnicianLabor {
+  newTechnicianName: string;
+  hours: null;
+  hourlyRate: null;
+}
+
+export type RequestedLabor = ServiceRecordLaborCreate | NewTechnicianLabor;
+
+// Typos this far apart still count as the same name, for names of at least NEAR_DUPLICATE_MIN_LENGTH letters
+const NEAR_DUPLICATE_MAX_EDITS = 2;
+const NEAR_DUPLICATE_MIN_LENGTH = 5;
+
+// Case, punctuation and spacing do not tell technicians apart
+export function technicianNameKey(name: string): string {
+  return tokenizeSearchText(name).join(" ");
+}
+
+export async function findTechnicianByName(name: string): Promise<Technician | undefined> {
+  const key = technicianNameKey(name);
+  return (await storage.getTechnicians()).find((technician) => technicianNameKey(technician.name) === key);
+}
+
+// Why the name cannot be used, or null when no other technician has it
+export async function checkTechnicianName(name: string, technicianId: number | null): Promise<string | null> {
+  const existing = await findTechnicianByName(name);
+  return existing && existing.id !== technicianId ? `"${existing.name}" is already in the technician directory` : null;
+}
+
+function technicianFields(data: UpdateTechnician): Partial<TechnicianCreate> {
+  const { hourlyRate, ...rest } = data;
+  return {
+    ...rest,
+    ...(hourlyRate !== undefined ? { hourlyRate: hourlyRate != null ? hourlyRate.toFixed(2) : null } : {}),
+  };
+}
+
+export async function createTechnician(data: InsertTechnician): Promise<Technician> {
+  return storage.createTechnician({
+    name: data.name,
+    kind: data.kind,
+    hourlyRate: data.hourlyRate != null ? data.hourlyRate.toFixed(2) : null,
+    phone: data.phone || null,
+    email: data.email || null,
+    notes: data.notes || null,
+    isActive: data.isActive ?? true,
+  });
+}
+
+export async function updateTechnician(id: number, data: UpdateTechnician): Promise<Technician | undefined> {
+  return storage.updateTechnician(id, technicianFields(data));
+}
+
+// The technician with this name, added to the directory if there is none yet
+export async function technicianForName(name: string): Promise<Technician> {
+  return (await findTechnicianByName(name)) ?? createTechnician({ name: name.trim(), kind: "staff", isActive: true });
+}
+
+export async function getTechniciansWithUsage(): Promise<TechnicianWithUsage[]> {
+  const [technicians, labor] = await Promise.all([storage.getTechnicians(), storage.getAllServiceRecordLabor()]);
+  return technicians.map((technician) => {
+    const entries = labor.filter((entry) => entry.technicianId === technician.id);
+    return {
+      ...technician,
+      serviceRecordCount: new Set(entries.map((entry) => entry.serviceRecordId)).size,
+      laborHours: entries.reduce((sum, entry) => sum + Number(entry.hours ?? 0), 0),
+    };
+  });
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Whether two names probably mean the same person: each word of the shorter
+ * name starts the word in the same place of the longer one ("Mike" and "Mike S",
+ * "M. Smith" and "Mike Smith"), or the names are a typo or two apart.
+ */
+function isNearDuplicate(a: string, b: string): boolean {
+  const [shorter, longer] = [tokenizeSearchText(a), tokenizeSearchText(b)].sort((x, y) => x.length - y.length);
+  if (shorter.length === 0) return false;
+  if (shorter.every((word, i) => word.startsWith(longer[i]) || longer[i].startsWith(word))) return true;
+  const [x, y] = [shorter.join(" "), longer.join(" ")];
+  return Math.min(x.length, y.length) >= NEAR_DUPLICATE_MIN_LENGTH && editDistance(x, y) <= NEAR_DUPLICATE_MAX_EDITS;
+}
+
+// Groups of technicians whose names look like the same person, each sorted by name
+export async function getDuplicateTechnicians(): Promise<Technician[][]> {
+  const technicians = await storage.getTechnicians();
+  const groupOf = technicians.map((_, i) => i);
+  const root = (i: number): number => (groupOf[i] === i ? i : (groupOf[i] = root(groupOf[i])));
+  for (let i = 0; i < technicians.length; i++) {
+    for (let j = i + 1; j < technicians.length; j++) {
+      if (isNearDuplicate(technicians[i].name, technicians[j].name)) groupOf[root(j)] = root(i);
+    }
+  }
+  const groups = new Map<number, Technician[]>();
+  technicians.forEach((technician, i) => groups.set(root(i), [...(groups.get(root(i)) ?? []), technician]));
+  return Array.from(groups.values()).filter((group) => group.length > 1);
+}
+
+// performedBy text of a record: its technicians' names, each once, in labor order
+export async function performedByNames(labor: (Pick<ServiceRecordLabor, "technicianId"> | NewTechnicianLabor)[]): Promise<string | null> {
+  const technicians = await storage.getTechnicians();
+  const names = Array.from(new Set(labor.map((entry) =>
+    "newTechnicianName" in entry ? entry.newTechnicianName : technicians.find((technician) => technician.id === entry.technicianId)?.name)))
+    .filter((name): name is string => !!name);
+  return names.length > 0 ? names.join(", ") : null;
+}
+
+/**
+ * Replaces a service record's labor and brings its performedBy text in line,
+ * adding technicians named by the request to the directory first. Returns the
+ * record as updated.
+ */
+export async function saveServiceRecordLabor(record: ServiceRecord, requested: RequestedLabor[]): Promise<ServiceRecord> {
+  const labor: ServiceRecordLaborCreate[] = [];
+  for (const entry of requested) {
+    labor.push("newTechnicianName" in entry
+      ? { technicianId: (await technicianForName(entry.newTechnicianName)).id, hours: entry.hours, hourlyRate: entry.hourlyRate }
+      : entry);
+  }
+  await storage.setServiceRecordLabor(record.id, labor);
+  const performedBy = await performedByNames(labor);
+  if (performedBy === record.performedBy) return record;
+  return (await storage.updateServiceRecord(record.id, { performedBy })) ?? record;
+}
+
+/**
+ * The labor a service record request sets: its labor list, or for clients that
+ * still send free text, the technician named by performedBy (added to the
+ * directory by saveServiceRecordLabor if it is not there yet). Technicians must
+ * be active unless they are already on the record, and missing rates are taken
+ * from the technician. Returns undefined when the request leaves labor alone.
+ */
+export async function laborFromRequest(
+  body: { labor?: unknown; performedBy?: unknown },
+  serviceRecordId: string | null,
+): Promise<{ labor: RequestedLabor[] } | { error: string } | undefined> {
+  if (body.labor === undefined) {
+    if (body.performedBy === undefined) return undefined;
+    const name = typeof body.performedBy === "string" ? body.performedBy.trim() : "";
+    if (!name) return { labor: [] };
+    const technician = await findTechnicianByName(name);
+    return { labor: [technician ? { technicianId: technician.id, hours: null, hourlyRate: null } : { newTechnicianName: name, hours: null, hourlyRate: null }] };
+  }
+
+  const parsed = z.array(serviceRecordLaborSchema).safeParse(body.labor);
+  if (!parsed.success) return { error: parsed.error.errors[0]?.message ?? "Invalid labor" };
+  const current = serviceRecordId ? await storage.getServiceRecordLabor([serviceRecordId]) : [];
+  const labor: RequestedLabor[] = [];
+  for (const entry of parsed.data) {
+    const technician = await storage.getTechnician(entry.technicianId);
+    if (!technician) return { error: "Technician not found" };
+    if (!technician.isActive && !current.some((existing) => existing.technicianId === technician.id)) {
+      return { error: `${technician.name} is inactive` };
+    }
+    labor.push({
+      technicianId: technician.id,
+      hours: entry.hours != null ? entry.hours.toFixed(2) : null,
+      hourlyRate: entry.hourlyRate != null ? entry.hourlyRate.toFixed(2) : technician.hourlyRate,
+    });
+  }
+  return { labor };
+}
+
+// Several labor rows of one technician as one, with the hours added up and a rate that keeps their cost
+function combineLabor(entries: ServiceRecordLabor[]): ServiceRecordLaborCreate {
+  const hours = entries.reduce((sum, entry) => sum + Number(entry.hours ?? 0), 0);
+  const cost = entries.reduce((sum, entry) => sum + Number(entry.hours ?? 0) * Number(entry.hourlyRate ?? 0), 0);
+  return {
+    technicianId: entries[0].technicianId,
+    hours: entries.some((entry) => entry.hours != null) ? hours.toFixed(2) : null,
+    hourlyRate: hours > 0 && cost > 0 ? (cost / hours).toFixed(2) : entries.find((entry) => entry.hourlyRate != null)?.hourlyRate ?? null,
+  };
+}
+
+/**
+ * Folds the sources into the target technician. Their labor moves over, a
+ * record that ends up with several rows for the target gets them combined into
+ * one, and the performedBy text of every service record they were on is
+ * rewritten. Returns those records.
+ */
+export async function mergeTechnicians(target: Technician, sourceIds: number[]): Promise<ServiceRecord[]> {
+  return storage.runInTransaction(async () => {
+    const labor = await storage.getAllServiceRecordLabor();
+    const recordIds = Array.from(new Set(labor.filter((entry) => sourceIds.includes(entry.technicianId)).map((entry) => entry.serviceRecordId)));
+    await storage.mergeTechnicians(target.id, sourceIds);
+
+    const updated: ServiceRecord[] = [];
+    for (const recordId of recordIds) {
+      const record = await storage.getServiceRecord(recordId);
+      if (!record) continue;
+      const recordLabor = await storage.getServiceRecordLabor([recordId]);
+      const targetLabor = recordLabor.filter((entry) => entry.technicianId === target.id);
+      if (targetLabor.length > 1) {
+        // The combined row takes the place of the first one
+        await storage.setServiceRecordLabor(recordId, recordLabor
+          .filter((entry) => entry.technicianId !== target.id || entry === targetLabor[0])
+          .map((entry) => entry === targetLabor[0]
+            ? combineLabor(targetLabor)
+            : { technicianId: entry.technicianId, hours: entry.hours, hourlyRate: entry.hourlyRate }));
+      }
+      const performedBy = await performedByNames(recordLabor);
+      updated.push(performedBy === record.performedBy ? record : (await storage.updateServiceRecord(recordId, { performedBy })) ?? record);
+    }
+    return updated;
+  });
+}
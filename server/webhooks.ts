@@ -0,0 +1,130 @@
+import { createHmac, randomBytes } from "crypto";
+import type { Webhook, WebhookDelivery } from "@shared/schema";
+import { storage } from "./storage";
+import { webSocketService, type WebSocketMessage } from "./websocketService";
+
+// Delays before each retry of a failed delivery, doubling from 30 seconds; it gives up after the last one
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_ATTEMPTS = 6;
+
+// How long an endpoint gets to answer
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// How often due retries are picked up, and how long the delivery history is kept
+const SCHEDULER_INTERVAL_MS = 30 * 1000;
+const HISTORY_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function newWebhookSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Value of the X-MowerM8-Signature header: an HMAC-SHA256 of
+ * "<timestamp>.<body>" with the webhook's secret. Receivers recompute it from
+ * the X-MowerM8-Timestamp header and the raw body, and can reject old
+ * timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+const subscribes = (webhook: Webhook, eventType: string) =>
+  webhook.isActive && (webhook.eventTypes.length === 0 || webhook.eventTypes.includes(eventType));
+
+/**
+ * Posts a delivery to its webhook once. Any 2xx answer counts as delivered;
+ * anything else, or no answer in time, schedules another try after a doubling
+ * delay until MAX_ATTEMPTS is reached.
+ */
+export async function attemptWebhookDelivery(delivery: WebhookDelivery, now: Date = new Date()): Promise<WebhookDelivery> {
+  const webhook = await storage.getWebhook(delivery.webhookId);
+  if (!webhook) return delivery;
+
+  const attempts = delivery.attempts + 1;
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(now.getTime() / 1000).toString();
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "MowerM8-Webhooks/1.0",
+        "X-MowerM8-Event": delivery.eventType,
+        "X-MowerM8-Delivery": String(delivery.id),
+        "X-MowerM8-Timestamp": timestamp,
+        "X-MowerM8-Signature": signWebhookPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) error = `Endpoint answered ${response.status} ${response.statusText}`.trim();
+  } catch (caught) {
+    error = caught instanceof Error ? caught.message : String(caught);
+  }
+
+  const update = error === null
+    ? { status: "success" as const, attempts, responseStatus, lastError: null, nextAttemptAt: null, deliveredAt: now }
+    : {
+        status: "failed" as const,
+        attempts,
+        responseStatus,
+        lastError: error,
+        nextAttemptAt: attempts < MAX_ATTEMPTS ? new Date(now.getTime() + BASE_RETRY_DELAY_MS * 2 ** (attempts - 1)) : null,
+      };
+  return (await storage.updateWebhookDelivery(delivery.id, update)) ?? { ...delivery, ...update };
+}
+
+// Queues an event for every active webhook subscribed to it and sends it straight away
+export async function dispatchWebhookEvent(message: { type: string; data: unknown; timestamp: string }): Promise<WebhookDelivery[]> {
+  const targets = (await storage.getWebhooks()).filter((webhook) => subscribes(webhook, message.type));
+  return Promise.all(targets.map(async (webhook) => {
+    const delivery = await storage.createWebhookDelivery({ webhookId: webhook.id, eventType: message.type, payload: message });
+    return attemptWebhookDelivery(delivery);
+  }));
+}
+
+// A "ping" event to one webhook, whatever it subscribes to, to check the endpoint and its signature check
+export async function sendWebhookPing(webhook: Webhook): Promise<WebhookDelivery> {
+  const message = {
+    type: "ping",
+    data: { id: webhook.id, entityType: "webhook", name: webhook.name },
+    timestamp: new Date().toISOString(),
+  };
+  const delivery = await storage.createWebhookDelivery({ webhookId: webhook.id, eventType: "ping", payload: message });
+  return attemptWebhookDelivery(delivery);
+}
+
+// Tries again every failed delivery whose retry is due
+export async function retryFailedWebhookDeliveries(now: Date = new Date()): Promise<number> {
+  const due = await storage.getWebhookDeliveries({ retryDueBy: now });
+  for (const delivery of due) {
+    await attemptWebhookDelivery(delivery, now);
+  }
+  return due.length;
+}
+
+/**
+ * Mirrors every WebSocket event to the subscribed webhooks, and every
+ * SCHEDULER_INTERVAL_MS retries failed deliveries and drops history older
+ * than HISTORY_DAYS.
+ */
+export function startWebhookDispatcher(): void {
+  webSocketService.onBroadcast((message: WebSocketMessage) => {
+    dispatchWebhookEvent(message).catch((error) => console.error(`Failed to dispatch webhooks for ${message.type}:`, error));
+  });
+  // A run with slow endpoints can outlast the interval; skip ticks until it is done so nothing is sent twice
+  let running = false;
+  setInterval(() => {
+    if (running) return;
+    running = true;
+    retryFailedWebhookDeliveries()
+      .then(() => storage.deleteWebhookDeliveriesBefore(new Date(Date.now() - HISTORY_DAYS * DAY_MS)))
+      .catch((error) => console.error("Failed to retry webhook deliveries:", error))
+      .finally(() => { running = false; });
+  }, SCHEDULER_INTERVAL_MS).unref();
+}
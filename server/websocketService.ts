@@ -1,11 +1,11 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
+import { Server, IncomingMessage } from 'http';
 
 export interface WebSocketMessage {
-  type: 'asset-created' | 'asset-updated' | 'asset-deleted' | 'service-created' | 'service-updated' | 'service-deleted' | 'task-created' | 'task-updated' | 'task-deleted' | 'engine-created' | 'engine-updated' | 'engine-deleted' | 'part-created' | 'part-updated' | 'part-deleted' | 'asset-part-created' | 'asset-part-updated' | 'asset-part-deleted';
+  type: 'asset-created' | 'asset-updated' | 'asset-deleted' | 'service-created' | 'service-updated' | 'service-deleted' | 'task-created' | 'task-updated' | 'task-deleted' | 'engine-created' | 'engine-updated' | 'engine-deleted' | 'part-created' | 'part-updated' | 'part-deleted' | 'asset-part-created' | 'asset-part-updated' | 'asset-part-deleted' | 'work-order-created' | 'work-order-updated' | 'work-order-deleted' | 'notification-created';
   data: {
     id: string | number;
-    entityType: 'mower' | 'engine' | 'part' | 'asset-part' | 'task' | 'service-record';
+    entityType: 'mower' | 'engine' | 'part' | 'asset-part' | 'task' | 'service-record' | 'work-order' | 'notification';
     mowerId?: string | number;
     engineId?: string | number;
     [key: string]: any;
@@ -13,20 +13,112 @@ export interface WebSocketMessage {
   timestamp: string;
 }
 
+type WebSocketMessageListener = (message: WebSocketMessage) => void;
+
+// Collections ("parts") and single records ("mower:42") a client can subscribe to
+const TOPIC_PATTERN = /^(mowers|engines|parts|tasks|service-records|work-orders|notifications)$|^(mower|engine|part|work-order):[\w-]+$/;
+const MAX_TOPICS_PER_CLIENT = 50;
+
+// How often open connections are checked for a session that was logged out or a user that was deactivated or deleted
+const SESSION_RECHECK_INTERVAL_MS = 60 * 1000;
+
+export function isWebSocketTopic(topic: unknown): topic is string {
+  return typeof topic === 'string' && TOPIC_PATTERN.test(topic);
+}
+
+/**
+ * Topics a message is routed to: the collection of the record it is about,
+ * the record itself, and every mower, engine and part it belongs to, so a
+ * mower page subscribed to "mower:42" also hears about that mower's tasks,
+ * service records, engines, parts and work orders.
+ */
+export function messageTopics(message: WebSocketMessage): string[] {
+  const { data } = message;
+  const topics = new Set<string>();
+  const record = (kind: string, id: unknown) => {
+    if (id !== null && id !== undefined && id !== '') topics.add(`${kind}:${id}`);
+  };
+  record('mower', data.mowerId);
+  record('engine', data.engineId);
+  record('part', data.partId);
+
+  switch (data.entityType) {
+    case 'mower':
+      topics.add('mowers');
+      record('mower', data.id);
+      break;
+    case 'engine':
+      topics.add('engines');
+      record('engine', data.id);
+      break;
+    case 'part':
+      topics.add('parts');
+      record('part', data.id);
+      break;
+    case 'asset-part':
+      // Allocations change the part's stock level
+      topics.add('parts');
+      record('part', data.assetPart?.partId);
+      break;
+    case 'task':
+      topics.add('tasks');
+      break;
+    case 'service-record':
+      // Services move the mower's last and next service dates in the fleet lists
+      topics.add('service-records');
+      topics.add('mowers');
+      break;
+    case 'work-order':
+      topics.add('work-orders');
+      record('work-order', data.id);
+      break;
+    case 'notification':
+      topics.add('notifications');
+      break;
+  }
+  return Array.from(topics);
+}
+
 class WebSocketService {
   private wss: WebSocketServer | null = null;
-  private clients: Set<WebSocket> = new Set();
+  // Each connected client with the topics it subscribed to; it only gets messages for those
+  private clients: Map<WebSocket, Set<string>> = new Map();
+  // The upgrade request of each client, whose session is rechecked while the connection is open
+  private upgradeRequests: Map<WebSocket, IncomingMessage> = new Map();
+  private listeners: Set<WebSocketMessageListener> = new Set();
+  private recheckTimer: NodeJS.Timeout | null = null;
+  private recheckRunning = false;
 
-  initialize(server: Server) {
+  // Server-side consumers of the event stream (e.g. outbound webhooks); they get every message even without a WebSocket server
+  onBroadcast(listener: WebSocketMessageListener) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  initialize(server: Server, authenticate?: (req: IncomingMessage) => Promise<boolean>) {
     this.wss = new WebSocketServer({ 
       server,
       path: '/ws',
-      perMessageDeflate: false 
+      perMessageDeflate: false,
+      // Reject the upgrade unless the request carries a valid login session
+      verifyClient: authenticate
+        ? (info, done) => {
+            authenticate(info.req)
+              .then((ok) => done(ok, ok ? undefined : 401, ok ? undefined : 'Unauthorized'))
+              .catch(() => done(false, 500));
+          }
+        : undefined
     });
 
+    if (authenticate) {
+      this.recheckTimer = setInterval(() => this.recheckSessions(authenticate), SESSION_RECHECK_INTERVAL_MS);
+      this.recheckTimer.unref();
+    }
+
     this.wss.on('connection', (ws: WebSocket, req) => {
       console.log('WebSocket client connected from:', req.socket.remoteAddress);
-      this.clients.add(ws);
+      this.clients.set(ws, new Set());
+      this.upgradeRequests.set(ws, req);
 
       // Send a welcome message
       ws.send(JSON.stringify({
@@ -35,27 +127,26 @@ class WebSocketService {
         timestamp: new Date().toISOString()
       }));
 
-      // Handle client messages (for potential future use)
+      // Clients send { type: 'subscribe' | 'unsubscribe', topics: [...] } and get their topics back
       ws.on('message', (message) => {
         try {
-          const data = JSON.parse(message.toString());
-          console.log('WebSocket message received:', data);
-          // Handle client messages if needed in future
+          this.handleClientMessage(ws, JSON.parse(message.toString()));
         } catch (error) {
           console.error('Invalid WebSocket message:', error);
+          this.sendError(ws, 'Messages must be JSON');
         }
       });
 
       // Handle client disconnect
       ws.on('close', () => {
         console.log('WebSocket client disconnected');
-        this.clients.delete(ws);
+        this.removeClient(ws);
       });
 
       // Handle errors
       ws.on('error', (error) => {
         console.error('WebSocket error:', error);
-        this.clients.delete(ws);
+        this.removeClient(ws);
       });
     });
 
@@ -63,19 +154,30 @@ class WebSocketService {
   }
 
   broadcast(message: WebSocketMessage) {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error('Error in WebSocket broadcast listener:', error);
+      }
+    });
+
     if (!this.wss) {
       console.warn('WebSocket server not initialized');
       return;
     }
 
     const messageString = JSON.stringify(message);
-    console.log('Broadcasting WebSocket message:', message.type, 'to', this.clients.size, 'clients');
+    const topics = messageTopics(message);
+    let recipients = 0;
 
-    // Remove closed connections and send to active ones
+    // Remove closed connections and send to active ones that subscribed to one of the message's topics
     const closedConnections: WebSocket[] = [];
     
-    this.clients.forEach((ws) => {
+    this.clients.forEach((subscriptions, ws) => {
+      if (!topics.some((topic) => subscriptions.has(topic))) return;
       if (ws.readyState === WebSocket.OPEN) {
+        recipients++;
         try {
           ws.send(messageString);
         } catch (error) {
@@ -89,8 +191,67 @@ class WebSocketService {
 
     // Clean up closed connections
     closedConnections.forEach((ws) => {
-      this.clients.delete(ws);
+      this.removeClient(ws);
     });
+    console.log('Broadcasting WebSocket message:', message.type, 'to', recipients, 'of', this.clients.size, 'clients');
+  }
+
+  // Closes connections whose session is gone; skipped while the previous check is still going
+  private async recheckSessions(authenticate: (req: IncomingMessage) => Promise<boolean>) {
+    if (this.recheckRunning) return;
+    this.recheckRunning = true;
+    try {
+      for (const [ws, req] of Array.from(this.upgradeRequests)) {
+        const ok = await authenticate(req).catch(() => false);
+        if (ok || !this.upgradeRequests.has(ws)) continue;
+        console.log('Closing WebSocket client whose session has ended');
+        this.removeClient(ws);
+        ws.close(1008, 'Session ended');
+      }
+    } finally {
+      this.recheckRunning = false;
+    }
+  }
+
+  private removeClient(ws: WebSocket) {
+    this.clients.delete(ws);
+    this.upgradeRequests.delete(ws);
+  }
+
+  private handleClientMessage(ws: WebSocket, message: any) {
+    const subscriptions = this.clients.get(ws);
+    if (!subscriptions) return;
+    if (message?.type !== 'subscribe' && message?.type !== 'unsubscribe') {
+      this.sendError(ws, `Unknown message type: ${message?.type}`);
+      return;
+    }
+    const topics: unknown[] = Array.isArray(message.topics) ? message.topics : [];
+    const invalid = topics.filter((topic) => !isWebSocketTopic(topic));
+    if (invalid.length > 0) {
+      this.sendError(ws, `Unknown topics: ${invalid.join(', ')}`);
+    }
+
+    const valid = topics.filter(isWebSocketTopic);
+    if (message.type === 'subscribe') {
+      for (const topic of valid) {
+        if (subscriptions.size >= MAX_TOPICS_PER_CLIENT) {
+          this.sendError(ws, `At most ${MAX_TOPICS_PER_CLIENT} topics per connection`);
+          break;
+        }
+        subscriptions.add(topic);
+      }
+    } else {
+      valid.forEach((topic) => subscriptions.delete(topic));
+    }
+    this.send(ws, { type: 'subscribed', data: { topics: Array.from(subscriptions) }, timestamp: new Date().toISOString() });
+  }
+
+  private sendError(ws: WebSocket, message: string) {
+    this.send(ws, { type: 'error', data: { message }, timestamp: new Date().toISOString() });
+  }
+
+  private send(ws: WebSocket, message: object) {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
   }
 
   // Helper methods for common broadcast scenarios
@@ -111,9 +272,14 @@ class WebSocketService {
   }
 
   close() {
+    if (this.recheckTimer) {
+      clearInterval(this.recheckTimer);
+      this.recheckTimer = null;
+    }
     if (this.wss) {
       this.wss.close();
       this.clients.clear();
+      this.upgradeRequests.clear();
       console.log('WebSocket server closed');
     }
   }
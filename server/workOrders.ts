@@ -0,0 +1,197 @@
+import type { AssetPart, AssetPartWithDetails, CloseWorkOrder, InsertWorkOrderLabor, ReserveWorkOrderPart, ServiceRecord, Task, WorkOrder, WorkOrderLabor, WorkOrderWithDetails } from "@shared/schema";
+import { storage } from "./storage";
+import { completeTask } from "./tasks";
+import { performedByNames, saveServiceRecordLabor, technicianForName } from "./technicians";
+import { refreshServiceRecordCost } from "./serviceRecords";
+import type { ServiceRecordLaborCreate } from "./storage";
+
+// Open and in-progress work orders can still be changed; closed and cancelled ones are final
+export function isWorkOrderOpen(workOrder: Pick<WorkOrder, "status">): boolean {
+  return workOrder.status === "open" || workOrder.status === "in_progress";
+}
+
+function partsCost(parts: AssetPartWithDetails[]): number {
+  return parts.reduce((sum, assetPart) => sum + Number(assetPart.part.unitCost ?? 0) * assetPart.quantity, 0);
+}
+
+function laborCost(labor: WorkOrderLabor[]): number {
+  return labor.reduce((sum, entry) => sum + Number(entry.hours) * Number(entry.hourlyRate ?? 0), 0);
+}
+
+async function withDetails(workOrder: WorkOrder): Promise<WorkOrderWithDetails> {
+  const id = String(workOrder.id);
+  const [tasks, parts, labor] = await Promise.all([
+    storage.getTasksByWorkOrderId(id),
+    storage.getAssetPartsByWorkOrderId(id),
+    storage.getWorkOrderLabor(id),
+  ]);
+  const cost = { partsCost: partsCost(parts), laborCost: laborCost(labor) };
+  return { ...workOrder, tasks, parts, labor, ...cost, totalCost: cost.partsCost + cost.laborCost };
+}
+
+export async function getWorkOrderDetails(id: string): Promise<WorkOrderWithDetails | undefined> {
+  const workOrder = await storage.getWorkOrder(id);
+  return workOrder && withDetails(workOrder);
+}
+
+export async function getMowerWorkOrders(mowerId: string): Promise<WorkOrderWithDetails[]> {
+  return Promise.all((await storage.getWorkOrdersByMowerId(mowerId)).map(withDetails));
+}
+
+/**
+ * Why the tasks cannot make up the work order, or null when they can: each one
+ * must be an unfinished task of the work order's mower that no other work
+ * order has taken.
+ */
+export async function checkWorkOrderTasks(mowerId: number, taskIds: string[], workOrderId: number | null): Promise<string | null> {
+  for (const taskId of taskIds) {
+    const task = await storage.getTask(taskId);
+    if (!task || task.mowerId !== mowerId) return "Work orders can only include tasks of their mower";
+    if (task.workOrderId != null && task.workOrderId !== workOrderId) return `"${task.title}" is already on another work order`;
+    if (task.status === "completed" || task.status === "cancelled") return `"${task.title}" is already ${task.status}`;
+  }
+  return null;
+}
+
+// Links the tasks to the work order and unlinks the ones no longer on it
+export async function setWorkOrderTasks(workOrder: WorkOrder, taskIds: string[]): Promise<void> {
+  const current = await storage.getTasksByWorkOrderId(String(workOrder.id));
+  for (const task of current) {
+    if (!taskIds.includes(task.id)) await storage.updateTask(task.id, { workOrderId: null });
+  }
+  for (const taskId of taskIds) {
+    if (!current.some((task) => task.id === taskId)) await storage.updateTask(taskId, { workOrderId: workOrder.id });
+  }
+}
+
+/**
+ * Reserves parts for the work order. Like any allocation this takes them out of
+ * stock straight away; they count as installed once the work order is closed.
+ */
+export async function reserveWorkOrderPart(workOrder: WorkOrder, reservation: ReserveWorkOrderPart): Promise<AssetPart> {
+  if (reservation.engineId != null) {
+    const engine = await storage.getEngine(String(reservation.engineId));
+    if (!engine || engine.mowerId !== workOrder.mowerId) throw new Error("The engine is not installed on this work order's mower");
+  }
+  return storage.createAssetPart({
+    partId: reservation.partId,
+    mowerId: workOrder.mowerId,
+    engineId: reservation.engineId ?? null,
+    quantity: reservation.quantity,
+    notes: reservation.notes ?? null,
+    workOrderId: workOrder.id,
+  });
+}
+
+// Books labor for an active technician under their current name, at their own rate unless one is given
+export async function addWorkOrderLabor(workOrder: WorkOrder, labor: InsertWorkOrderLabor): Promise<WorkOrderLabor | null> {
+  const technician = await storage.getTechnician(labor.technicianId);
+  if (!technician?.isActive) return null;
+  return storage.createWorkOrderLabor({
+    workOrderId: workOrder.id,
+    technicianId: technician.id,
+    technicianName: technician.name,
+    workDate: labor.workDate,
+    hours: labor.hours.toFixed(2),
+    hourlyRate: labor.hourlyRate != null ? labor.hourlyRate.toFixed(2) : technician.hourlyRate,
+    notes: labor.notes || null,
+  });
+}
+
+// Returns the reserved parts to stock and frees the tasks for another work order
+async function releaseWorkOrder(workOrder: WorkOrder): Promise<void> {
+  const id = String(workOrder.id);
+  for (const assetPart of await storage.getAssetPartsByWorkOrderId(id)) {
+    await storage.deleteAssetPart(String(assetPart.id));
+  }
+  await setWorkOrderTasks(workOrder, []);
+}
+
+export async function cancelWorkOrder(workOrder: WorkOrder): Promise<WorkOrder | undefined> {
+  await releaseWorkOrder(workOrder);
+  return storage.updateWorkOrder(String(workOrder.id), { status: "cancelled" });
+}
+
+// Parts of a closed work order stay installed; an open one gives its reservations back first
+export async function deleteWorkOrder(workOrder: WorkOrder): Promise<boolean> {
+  if (isWorkOrderOpen(workOrder)) await releaseWorkOrder(workOrder);
+  return storage.deleteWorkOrder(String(workOrder.id));
+}
+
+/**
+ * The service record labor for a work order's bookings: one entry per technician
+ * and rate with the hours added up. Without any labor booked the record gets no
+ * labor, and so no performedBy.
+ */
+async function serviceRecordLabor(labor: WorkOrderLabor[]): Promise<ServiceRecordLaborCreate[]> {
+  const entries: ServiceRecordLaborCreate[] = [];
+  for (const booking of labor) {
+    // Bookings whose technician has since been deleted fall back to the name they were booked under
+    const technicianId = booking.technicianId ?? (await technicianForName(booking.technicianName)).id;
+    const entry = entries.find((candidate) => candidate.technicianId === technicianId && candidate.hourlyRate === booking.hourlyRate);
+    if (entry) entry.hours = (Number(entry.hours) + Number(booking.hours)).toFixed(2);
+    else entries.push({ technicianId, hours: booking.hours, hourlyRate: booking.hourlyRate });
+  }
+  return entries;
+}
+
+/**
+ * Signs off a work order. This writes its service record, with the booked hours
+ * as its labor and the reserved parts installed under it (its cost adds both
+ * up), and completes the tasks that are still open, so recurring ones roll on
+ * to their next instance. It all happens in one transaction that starts by
+ * closing the work order, so a repeated or concurrent close changes nothing and
+ * returns undefined.
+ */
+export async function closeWorkOrder(
+  workOrder: WorkOrder,
+  signOff: CloseWorkOrder,
+  signedOffBy: { id: number; name: string },
+): Promise<{ workOrder: WorkOrder; serviceRecord: ServiceRecord; assetParts: AssetPart[]; completedTasks: Task[]; nextTasks: Task[] } | undefined> {
+  return storage.runInTransaction(async () => {
+    const now = new Date();
+    const closing = await storage.updateOpenWorkOrder(String(workOrder.id), {
+      status: "closed",
+      closedAt: now,
+      signedOffById: signedOffBy.id,
+      signedOffByName: signedOffBy.name,
+      signOffNotes: signOff.signOffNotes || null,
+    });
+    if (!closing) return undefined;
+
+    const details = await withDetails(closing);
+    const labor = await serviceRecordLabor(details.labor);
+    const taskLines = details.tasks.map((task) => `- ${task.title}`);
+
+    const created = await storage.createServiceRecordWithMowerUpdate({
+      mowerId: workOrder.mowerId,
+      serviceDate: now,
+      serviceType: workOrder.serviceType,
+      description: [workOrder.title, workOrder.description, ...taskLines].filter(Boolean).join("\n"),
+      cost: null,
+      performedBy: await performedByNames(labor),
+      mileage: signOff.mileage ?? null,
+      nextServiceDue: null,
+    });
+    const withLabor = await saveServiceRecordLabor(created, labor);
+
+    const installDate = now.toISOString().slice(0, 10);
+    const assetParts: AssetPart[] = [];
+    for (const assetPart of details.parts) {
+      const installed = await storage.updateAssetPart(String(assetPart.id), { serviceRecordId: withLabor.id, installDate: assetPart.installDate ?? installDate });
+      if (installed) assetParts.push(installed);
+    }
+    const serviceRecord = await refreshServiceRecordCost(withLabor);
+    const completedTasks: Task[] = [];
+    const nextTasks: Task[] = [];
+    for (const task of details.tasks) {
+      if (task.status === "completed" || task.status === "cancelled") continue;
+      const result = await completeTask(task.id);
+      if (result) completedTasks.push(result.task);
+      if (result?.nextTask) nextTasks.push(result.nextTask);
+    }
+
+    const closed = await storage.updateWorkOrder(String(workOrder.id), { serviceRecordId: serviceRecord.id });
+    return { workOrder: closed ?? closing, serviceRecord, assetParts, completedTasks, nextTasks };
+  });
+}
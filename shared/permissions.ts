@@ -0,0 +1,73 @@
+// Role-based access control shared by the API and the client.
+// Viewer = read only, Technician = day-to-day shop work, Admin = everything.
+
+export const USER_ROLES = ["admin", "technician", "viewer"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export type Permission =
+  | "mowers:write"       // create, edit, delete mowers
+  | "engines:write"      // create, edit, delete, allocate engines
+  | "parts:write"        // parts catalog and stock levels
+  | "parts:allocate"     // allocate parts to mowers/engines (changes stock)
+  | "service:write"      // service records
+  | "readings:write"     // hour-meter readings
+  | "plans:write"        // maintenance plans
+  | "tasks:write"        // tasks, including completion
+  | "workorders:write"   // work orders, their labor and sign-off
+  | "technicians:write"  // add and edit technicians in the directory
+  | "technicians:manage" // delete and merge technicians (rewrites labor history)
+  | "attachments:write"  // upload, edit, delete attachments and thumbnails
+  | "notifications:write" // create notifications manually
+  | "notifications:dismiss" // mark the shared notifications read and delete them
+  | "webhooks:manage"    // outbound webhooks and their delivery history
+  | "mqtt:manage"        // MQTT broker settings for the publisher
+  | "backup:manage"      // backup and restore
+  | "users:manage";      // user accounts and roles
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: [
+    "mowers:write",
+    "engines:write",
+    "parts:write",
+    "parts:allocate",
+    "service:write",
+    "readings:write",
+    "plans:write",
+    "tasks:write",
+    "workorders:write",
+    "technicians:write",
+    "technicians:manage",
+    "attachments:write",
+    "notifications:write",
+    "notifications:dismiss",
+    "webhooks:manage",
+    "mqtt:manage",
+    "backup:manage",
+    "users:manage",
+  ],
+  technician: [
+    "service:write",
+    "readings:write",
+    "tasks:write",
+    "workorders:write",
+    "technicians:write",
+    "attachments:write",
+    "notifications:dismiss",
+  ],
+  viewer: [],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Admin",
+  technician: "Technician",
+  viewer: "Viewer",
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && (USER_ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  if (!isUserRole(role)) return false;
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -1,8 +1,31 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, decimal, integer, boolean, serial, date } from "drizzle-orm/pg-core";
+import { sql, type SQL, type SQLWrapper } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, decimal, integer, boolean, serial, date, json, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { USER_ROLES } from "./permissions";
+
+// Columns covered by global search, per table. The same lists build the GIN
+// index expressions below and the queries in DbStorage.search, so they always match.
+export const SEARCH_FIELDS = {
+  mowers: ["make", "model", "serialNumber", "location", "notes"],
+  engines: ["name", "description", "partNumber", "manufacturer", "model", "serialNumber", "notes"],
+  parts: ["name", "description", "partNumber", "manufacturer", "category", "notes"],
+  serviceRecords: ["serviceType", "description", "performedBy"],
+  tasks: ["title", "description", "partNumber"],
+  attachments: ["fileName", "title", "description", "textContent"],
+} as const;
+
+// Lowercase letter/digit runs; used to turn search input into terms
+export function tokenizeSearchText(text: string): string[] {
+  return text.toLowerCase().split(new RegExp("[^\\p{L}\\p{N}]+", "u")).filter(Boolean);
+}
+
+// 'simple' config: no stemming, so serial and part numbers are indexed as typed
+export function searchDocument<Field extends string>(table: Record<Field, SQLWrapper>, fields: readonly Field[]): SQL {
+  const columns = fields.map((field) => sql`coalesce(${table[field]}, '')`);
+  return sql`to_tsvector('simple', ${sql.join(columns, sql` || ' ' || `)})`;
+}
 
 export const mowers = pgTable("mowers", {
   id: serial("id").primaryKey(),
@@ -12,46 +35,67 @@ export const mowers = pgTable("mowers", {
   serialNumber: text("serialnumber"),
   purchaseDate: date("purchasedate"),
   purchasePrice: decimal("purchaseprice", { precision: 10, scale: 2 }),
+  warrantyExpirationDate: date("warranty_expiration_date"),
   location: text("location"),
   condition: text("condition").notNull().default("good"), // excellent, good, fair, poor
   status: text("status").notNull().default("active"), // active, maintenance, retired
   lastServiceDate: date("last_service_date"),
   nextServiceDate: date("next_service_date"),
+  currentHours: integer("current_hours"), // Latest hour-meter reading
+  currentHoursRecordedAt: timestamp("current_hours_recorded_at"),
+  maintenancePlanId: integer("maintenance_plan_id").references(() => maintenancePlans.id, { onDelete: "set null" }), // Overrides the plan matched by make/model
   thumbnailAttachmentId: varchar("thumbnail_attachment_id"), // References attachments.id
   notes: text("notes"),
-});
+}, (table) => [
+  index("IDX_mowers_search").using("gin", searchDocument(table, SEARCH_FIELDS.mowers)),
+]);
 
 export const serviceRecords = pgTable("service_records", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   mowerId: integer("mower_id").notNull().references(() => mowers.id, { onDelete: "cascade" }),
-  serviceDate: timestamp("service_date").notNull(),
+  serviceDate: timestamp("service_date").notNull(), // when the work was done; the planned date until the record is completed
+  scheduledDate: timestamp("scheduled_date"), // planned date of a booked appointment
+  status: text("status").notNull().default("completed"), // scheduled, in_progress, completed, cancelled
   serviceType: text("service_type").notNull(), // maintenance, repair, inspection, warranty
   description: text("description").notNull(),
-  cost: decimal("cost", { precision: 10, scale: 2 }),
-  performedBy: text("performed_by"),
+  cost: decimal("cost", { precision: 10, scale: 2 }), // total of the line items, or costOverride when set
+  costOverride: decimal("cost_override", { precision: 10, scale: 2 }), // manual total that replaces the computed one
+  performedBy: text("performed_by"), // names of the record's technicians, kept in step with service_record_labor
   nextServiceDue: timestamp("next_service_due"),
   mileage: integer("mileage"), // hours of operation
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("IDX_service_records_search").using("gin", searchDocument(table, SEARCH_FIELDS.serviceRecords)),
+  index("IDX_service_records_status").on(table.status),
+]);
 
 export const attachments = pgTable("attachments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   mowerId: integer("mower_id").references(() => mowers.id, { onDelete: "cascade" }),
   engineId: integer("engine_id").references(() => engines.id, { onDelete: "cascade" }),
   partId: integer("part_id").references(() => parts.id, { onDelete: "cascade" }),
+  taskCommentId: integer("task_comment_id").references(() => taskComments.id, { onDelete: "cascade" }), // photo on a task comment
   fileName: text("file_name").notNull(),
   title: text("title"), // User-provided title, defaults to fileName if not provided
   fileType: text("file_type").notNull(), // pdf, image, document
-  fileData: text("file_path").notNull(), // Base64 encoded file content
+  contentHash: text("content_hash"), // SHA-256 of the file bytes; key into the blob store
+  legacyFileData: text("file_path"), // Base64 content from before the blob store; cleared by the startup migration
   fileSize: integer("file_size").notNull(),
   pageCount: integer("page_count"), // Number of pages for PDFs and documents
   description: text("description"), // User-provided description
+  textContent: text("text_content"), // Text extracted from PDFs/TXT for search; "" when there is none
   uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("IDX_attachments_content_hash").on(table.contentHash),
+  index("IDX_attachments_search").using("gin", searchDocument(table, SEARCH_FIELDS.attachments)),
+]);
 
+// A task belongs to exactly one of a mower, an engine or a part
 export const tasks = pgTable("tasks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  mowerId: integer("mower_id").notNull().references(() => mowers.id, { onDelete: "cascade" }),
+  mowerId: integer("mower_id").references(() => mowers.id, { onDelete: "cascade" }),
+  engineId: integer("engine_id").references(() => engines.id, { onDelete: "cascade" }),
+  partId: integer("part_id").references(() => parts.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   description: text("description"),
   priority: text("priority").notNull().default("medium"), // low, medium, high, urgent
@@ -62,7 +106,22 @@ export const tasks = pgTable("tasks", {
   category: text("category").notNull().default("maintenance"), // maintenance, repair, parts, inspection, other
   createdAt: timestamp("created_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
-});
+  // Recurring tasks: completing one creates the next instance of the series
+  recurrenceUnit: text("recurrence_unit"), // days, weeks, months, hours (of use); null = one-off
+  recurrenceInterval: integer("recurrence_interval"),
+  dueHours: integer("due_hours"), // hour-meter reading the task is due at, for hour-based recurrence
+  seriesId: varchar("series_id"), // id of the first task of the series
+  nextTaskId: varchar("next_task_id"), // instance created when this one was completed; a reopened task does not create another
+  assigneeId: integer("assignee_id").references(() => users.id, { onDelete: "set null" }),
+  workOrderId: integer("work_order_id").references(() => workOrders.id, { onDelete: "set null" }),
+}, (table) => [
+  index("IDX_tasks_series").on(table.seriesId),
+  index("IDX_tasks_assignee").on(table.assigneeId),
+  index("IDX_tasks_work_order").on(table.workOrderId),
+  index("IDX_tasks_engine").on(table.engineId),
+  index("IDX_tasks_part").on(table.partId),
+  index("IDX_tasks_search").using("gin", searchDocument(table, SEARCH_FIELDS.tasks)),
+]);
 
 export const engines = pgTable("engines", {
   id: serial("id").primaryKey(),
@@ -81,7 +140,9 @@ export const engines = pgTable("engines", {
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("IDX_engines_search").using("gin", searchDocument(table, SEARCH_FIELDS.engines)),
+]);
 
 export const parts = pgTable("parts", {
   id: serial("id").primaryKey(),
@@ -93,11 +154,14 @@ export const parts = pgTable("parts", {
   unitCost: decimal("unit_cost", { precision: 10, scale: 2 }),
   stockQuantity: integer("stock_quantity").notNull().default(0),
   minStockLevel: integer("min_stock_level").default(0),
+  binLocation: text("bin_location"), // where the part is shelved, e.g. "A3-04"
   thumbnailAttachmentId: varchar("thumbnail_attachment_id"), // References attachments.id
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("IDX_parts_search").using("gin", searchDocument(table, SEARCH_FIELDS.parts)),
+]);
 
 export const assetParts = pgTable("asset_parts", {
   id: serial("id").primaryKey(),
@@ -107,6 +171,7 @@ export const assetParts = pgTable("asset_parts", {
   quantity: integer("quantity").notNull().default(1),
   installDate: date("install_date"),
   serviceRecordId: varchar("service_record_id").references(() => serviceRecords.id, { onDelete: "set null" }),
+  workOrderId: integer("work_order_id").references(() => workOrders.id, { onDelete: "set null" }), // reserved for a work order
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -125,6 +190,277 @@ export const notifications = pgTable("notifications", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Conditions the notification rules have already reported, e.g. "overdue-task:<id>:2025-06-01".
+// A row is removed once its condition clears, so the same condition can be reported again later.
+export const notificationRuleHits = pgTable("notification_rule_hits", {
+  key: text("key").primaryKey(),
+  notificationId: varchar("notification_id").references(() => notifications.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(), // scrypt hash, "<hash>.<salt>"
+  displayName: text("display_name"),
+  role: text("role").notNull().default("viewer"), // admin, technician, viewer
+  isActive: boolean("is_active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at"),
+  calendarToken: text("calendar_token").unique(), // secret in the user's calendar feed URL; null until one is created
+  email: text("email"), // where notification emails go; none are sent without one
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// How a user wants notifications of each type and priority emailed: instant, digest or off.
+// Combinations without a row are off.
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // error, warning, info, success
+  priority: text("priority").notNull(), // high, medium, low
+  delivery: text("delivery").notNull().default("off"), // instant, digest, off
+}, (table) => [
+  uniqueIndex("IDX_notification_preferences_user_type_priority").on(table.userId, table.type, table.priority),
+]);
+
+// Every notification email sent or attempted, with the rendered message so a retry sends the same email
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(), // instant, digest, test
+  notificationIds: text("notification_ids").array().notNull(), // the notifications in the email (no FK so the log outlives them)
+  toAddress: text("to_address").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  status: text("status").notNull().default("pending"), // pending, sent, failed
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at"), // when a failed email is tried again; null once it gives up
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_notification_deliveries_user").on(table.userId, table.createdAt),
+  index("IDX_notification_deliveries_retry").on(table.status, table.nextAttemptAt),
+]);
+
+// Outbound HTTP endpoints that receive the same events as the WebSocket, signed with their secret
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC-SHA256 key for the X-MowerM8-Signature header
+  eventTypes: text("event_types").array().notNull(), // events sent to the endpoint; empty means all
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Each event sent (or being retried) to a webhook, with the endpoint's last response
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  eventType: text("event_type").notNull(),
+  payload: json("payload").notNull(), // the WebSocket message, sent as the request body
+  status: text("status").notNull().default("pending"), // pending, success, failed
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at"), // when a failed delivery is tried again; null once it gives up
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_webhook_deliveries_webhook").on(table.webhookId, table.createdAt),
+  index("IDX_webhook_deliveries_retry").on(table.status, table.nextAttemptAt),
+]);
+
+// Broker the MQTT publisher connects to; a single row (id 1), edited under Settings
+export const mqttSettings = pgTable("mqtt_settings", {
+  id: integer("id").primaryKey(),
+  enabled: boolean("enabled").notNull().default(false),
+  brokerUrl: text("broker_url").notNull(), // mqtt://, mqtts://, ws:// or wss://
+  username: text("username"),
+  password: text("password"),
+  topicPrefix: text("topic_prefix").notNull().default("mowerm8"),
+  discoveryEnabled: boolean("discovery_enabled").notNull().default(true), // Home Assistant MQTT discovery
+  discoveryPrefix: text("discovery_prefix").notNull().default("homeassistant"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Recurring service schedules. A plan applies to every mower of its make (and
+// model, when set) unless the mower is assigned a plan directly.
+export const maintenancePlans = pgTable("maintenance_plans", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  make: text("make"), // null = only mowers assigned this plan directly
+  model: text("model"), // null = every model of the make
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One recurring job in a plan. It was last done on the newest service record of
+// serviceType whose description contains matchText (any record of the type when matchText is null).
+// It is due after intervalDays or intervalHours of use, whichever comes first; at least one is set.
+export const maintenancePlanItems = pgTable("maintenance_plan_items", {
+  id: serial("id").primaryKey(),
+  planId: integer("plan_id").notNull().references(() => maintenancePlans.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // e.g. "Oil change", "Blade sharpening"
+  serviceType: text("service_type").notNull().default("maintenance"), // maintenance, repair, inspection, warranty
+  matchText: text("match_text"),
+  intervalDays: integer("interval_days"),
+  intervalHours: integer("interval_hours"),
+  sortOrder: integer("sort_order").notNull().default(0),
+}, (table) => [
+  index("IDX_maintenance_plan_items_plan").on(table.planId),
+]);
+
+// Hour-meter reading of a mower or an engine (one of the two is set). A meter
+// replacement reading is the first from a new meter, so it may be lower than the one before.
+export const meterReadings = pgTable("meter_readings", {
+  id: serial("id").primaryKey(),
+  mowerId: integer("mower_id").references(() => mowers.id, { onDelete: "cascade" }),
+  engineId: integer("engine_id").references(() => engines.id, { onDelete: "cascade" }),
+  hours: integer("hours").notNull(),
+  readingDate: timestamp("reading_date").notNull(),
+  isMeterReplacement: boolean("is_meter_replacement").notNull().default(false),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_meter_readings_mower").on(table.mowerId),
+  index("IDX_meter_readings_engine").on(table.engineId),
+]);
+
+// Ordered sub-steps of a task, ticked off individually
+export const taskChecklistItems = pgTable("task_checklist_items", {
+  id: serial("id").primaryKey(),
+  taskId: varchar("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  text: text("text").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  isDone: boolean("is_done").notNull().default(false),
+  completedById: integer("completed_by_id").references(() => users.id, { onDelete: "set null" }),
+  completedByName: text("completed_by_name"), // username at the time the step was ticked off
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_task_checklist_items_task").on(table.taskId),
+]);
+
+// Comment thread of a task; photos are attachments with taskCommentId set
+export const taskComments = pgTable("task_comments", {
+  id: serial("id").primaryKey(),
+  taskId: varchar("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  authorId: integer("author_id").references(() => users.id, { onDelete: "set null" }),
+  authorName: text("author_name"), // username at the time of posting
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_task_comments_task").on(table.taskId),
+]);
+
+// A job on one mower: the tasks it covers, the parts reserved for it (asset_parts
+// with workOrderId set) and the labor booked against it. Closing it with a
+// sign-off writes the service record, costed from the parts and labor.
+export const workOrders = pgTable("work_orders", {
+  id: serial("id").primaryKey(),
+  mowerId: integer("mower_id").notNull().references(() => mowers.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  description: text("description"),
+  serviceType: text("service_type").notNull().default("repair"), // of the service record written on close
+  status: text("status").notNull().default("open"), // open, in_progress, closed, cancelled
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  closedAt: timestamp("closed_at"),
+  signedOffById: integer("signed_off_by_id").references(() => users.id, { onDelete: "set null" }),
+  signedOffByName: text("signed_off_by_name"), // display name (or username) at the time of sign-off
+  signOffNotes: text("sign_off_notes"),
+  serviceRecordId: varchar("service_record_id").references(() => serviceRecords.id, { onDelete: "set null" }),
+}, (table) => [
+  index("IDX_work_orders_mower").on(table.mowerId),
+]);
+
+// Time a technician spent on a work order
+export const workOrderLabor = pgTable("work_order_labor", {
+  id: serial("id").primaryKey(),
+  workOrderId: integer("work_order_id").notNull().references(() => workOrders.id, { onDelete: "cascade" }),
+  technicianId: integer("technician_id").references(() => technicians.id, { onDelete: "set null" }),
+  technicianName: text("technician_name").notNull(), // name at the time the labor was booked
+  workDate: date("work_date").notNull(),
+  hours: decimal("hours", { precision: 6, scale: 2 }).notNull(),
+  hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_work_order_labor_work_order").on(table.workOrderId),
+]);
+
+// Staff and outside service shops who work on the fleet. Service records and
+// work order labor point here instead of naming people in free text.
+export const technicians = pgTable("technicians", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // unique, ignoring case and spacing
+  kind: text("kind").notNull().default("staff"), // staff, shop
+  hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }), // default rate for new labor entries
+  phone: text("phone"),
+  email: text("email"),
+  notes: text("notes"),
+  isActive: boolean("is_active").notNull().default(true), // inactive technicians keep their history but cannot book new labor
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Who performed a service record and for how long. Hours are null on records
+// migrated from the old free-text performedBy, where they were never captured.
+export const serviceRecordLabor = pgTable("service_record_labor", {
+  id: serial("id").primaryKey(),
+  serviceRecordId: varchar("service_record_id").notNull().references(() => serviceRecords.id, { onDelete: "cascade" }),
+  technicianId: integer("technician_id").notNull().references(() => technicians.id),
+  hours: decimal("hours", { precision: 6, scale: 2 }),
+  hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }), // rate charged, copied from the technician unless given
+}, (table) => [
+  index("IDX_service_record_labor_service_record").on(table.serviceRecordId),
+  index("IDX_service_record_labor_technician").on(table.technicianId),
+]);
+
+// Misc charges on a service record besides parts and labor, e.g. disposal fees or shop supplies
+export const serviceRecordFees = pgTable("service_record_fees", {
+  id: serial("id").primaryKey(),
+  serviceRecordId: varchar("service_record_id").notNull().references(() => serviceRecords.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull().default("fee"), // fee, supplies
+  description: text("description").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+}, (table) => [
+  index("IDX_service_record_fees_service_record").on(table.serviceRecordId),
+]);
+
+// Session table used by connect-pg-simple (declared here so drizzle-kit push does not drop it)
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+// Change log written by the storage layer for every create/update/delete.
+// mowerId/engineId/partId point at the asset the change belongs to (no FK so history outlives the asset).
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").notNull(), // mower, engine, part, asset_part, task, service_record, attachment, meter_reading
+  entityId: text("entity_id").notNull(),
+  action: text("action").notNull(), // create, update, delete
+  actorId: integer("actor_id").references(() => users.id, { onDelete: "set null" }),
+  actorName: text("actor_name"), // username at the time of the change; null for system changes
+  changes: json("changes").$type<AuditChanges>().notNull(),
+  mowerId: integer("mower_id"),
+  engineId: integer("engine_id"),
+  partId: integer("part_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_audit_events_entity").on(table.entityType, table.entityId),
+  index("IDX_audit_events_created_at").on(table.createdAt),
+]);
+
 // Relations
 export const mowersRelations = relations(mowers, ({ many, one }) => ({
   serviceRecords: many(serviceRecords),
@@ -136,6 +472,11 @@ export const mowersRelations = relations(mowers, ({ many, one }) => ({
     fields: [mowers.thumbnailAttachmentId],
     references: [attachments.id],
   }),
+  maintenancePlan: one(maintenancePlans, {
+    fields: [mowers.maintenancePlanId],
+    references: [maintenancePlans.id],
+  }),
+  workOrders: many(workOrders),
 }));
 
 export const serviceRecordsRelations = relations(serviceRecords, ({ one, many }) => ({
@@ -159,13 +500,50 @@ export const attachmentsRelations = relations(attachments, ({ one }) => ({
     fields: [attachments.partId],
     references: [parts.id],
   }),
+  taskComment: one(taskComments, {
+    fields: [attachments.taskCommentId],
+    references: [taskComments.id],
+  }),
 }));
 
-export const tasksRelations = relations(tasks, ({ one }) => ({
+export const tasksRelations = relations(tasks, ({ one, many }) => ({
   mower: one(mowers, {
     fields: [tasks.mowerId],
     references: [mowers.id],
   }),
+  engine: one(engines, {
+    fields: [tasks.engineId],
+    references: [engines.id],
+  }),
+  part: one(parts, {
+    fields: [tasks.partId],
+    references: [parts.id],
+  }),
+  assignee: one(users, {
+    fields: [tasks.assigneeId],
+    references: [users.id],
+  }),
+  workOrder: one(workOrders, {
+    fields: [tasks.workOrderId],
+    references: [workOrders.id],
+  }),
+  checklistItems: many(taskChecklistItems),
+  comments: many(taskComments),
+}));
+
+export const taskChecklistItemsRelations = relations(taskChecklistItems, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskChecklistItems.taskId],
+    references: [tasks.id],
+  }),
+}));
+
+export const taskCommentsRelations = relations(taskComments, ({ one, many }) => ({
+  task: one(tasks, {
+    fields: [taskComments.taskId],
+    references: [tasks.id],
+  }),
+  photos: many(attachments),
 }));
 
 export const enginesRelations = relations(engines, ({ one, many }) => ({
@@ -175,6 +553,7 @@ export const enginesRelations = relations(engines, ({ one, many }) => ({
   }),
   assetParts: many(assetParts),
   attachments: many(attachments),
+  tasks: many(tasks),
   thumbnailAttachment: one(attachments, {
     fields: [engines.thumbnailAttachmentId],
     references: [attachments.id],
@@ -184,6 +563,7 @@ export const enginesRelations = relations(engines, ({ one, many }) => ({
 export const partsRelations = relations(parts, ({ one, many }) => ({
   assetParts: many(assetParts),
   attachments: many(attachments),
+  tasks: many(tasks),
   thumbnailAttachment: one(attachments, {
     fields: [parts.thumbnailAttachmentId],
     references: [attachments.id],
@@ -207,20 +587,136 @@ export const assetPartsRelations = relations(assetParts, ({ one }) => ({
     fields: [assetParts.serviceRecordId],
     references: [serviceRecords.id],
   }),
+  workOrder: one(workOrders, {
+    fields: [assetParts.workOrderId],
+    references: [workOrders.id],
+  }),
+}));
+
+export const workOrdersRelations = relations(workOrders, ({ one, many }) => ({
+  mower: one(mowers, {
+    fields: [workOrders.mowerId],
+    references: [mowers.id],
+  }),
+  serviceRecord: one(serviceRecords, {
+    fields: [workOrders.serviceRecordId],
+    references: [serviceRecords.id],
+  }),
+  tasks: many(tasks),
+  parts: many(assetParts),
+  labor: many(workOrderLabor),
+}));
+
+export const workOrderLaborRelations = relations(workOrderLabor, ({ one }) => ({
+  workOrder: one(workOrders, {
+    fields: [workOrderLabor.workOrderId],
+    references: [workOrders.id],
+  }),
+  technician: one(users, {
+    fields: [workOrderLabor.technicianId],
+    references: [users.id],
+  }),
+}));
+
+export const maintenancePlansRelations = relations(maintenancePlans, ({ many }) => ({
+  items: many(maintenancePlanItems),
+  mowers: many(mowers),
+}));
+
+export const maintenancePlanItemsRelations = relations(maintenancePlanItems, ({ one }) => ({
+  plan: one(maintenancePlans, {
+    fields: [maintenancePlanItems.planId],
+    references: [maintenancePlans.id],
+  }),
+}));
+
+export const meterReadingsRelations = relations(meterReadings, ({ one }) => ({
+  mower: one(mowers, {
+    fields: [meterReadings.mowerId],
+    references: [mowers.id],
+  }),
+  engine: one(engines, {
+    fields: [meterReadings.engineId],
+    references: [engines.id],
+  }),
 }));
 
 export const notificationsRelations = relations(notifications, ({ }) => ({
   // Notifications don't need direct relations since they use generic entityId
 }));
 
+export const SERVICE_TYPES = ["maintenance", "repair", "inspection", "warranty"] as const;
+export type ServiceType = typeof SERVICE_TYPES[number];
+
+// Appointments are booked as scheduled; only completed records count as service done
+export const SERVICE_RECORD_STATUSES = ["scheduled", "in_progress", "completed", "cancelled"] as const;
+export type ServiceRecordStatus = typeof SERVICE_RECORD_STATUSES[number];
+
+export const WORK_ORDER_STATUSES = ["open", "in_progress", "closed", "cancelled"] as const;
+export type WorkOrderStatus = typeof WORK_ORDER_STATUSES[number];
+
+export const TECHNICIAN_KINDS = ["staff", "shop"] as const;
+export type TechnicianKind = typeof TECHNICIAN_KINDS[number];
+
+export const SERVICE_FEE_KINDS = ["fee", "supplies"] as const;
+export type ServiceFeeKind = typeof SERVICE_FEE_KINDS[number];
+
+export const TASK_STATUSES = ["pending", "in_progress", "completed", "cancelled"] as const;
+export type TaskStatus = typeof TASK_STATUSES[number];
+
+export const TASK_RECURRENCE_UNITS = ["days", "weeks", "months", "hours"] as const;
+export type TaskRecurrenceUnit = typeof TASK_RECURRENCE_UNITS[number];
+
 // Insert schemas
+// currentHours mirrors the latest hour-meter reading; a new value sent to the API is recorded as a reading
 export const insertMowerSchema = createInsertSchema(mowers).omit({
   id: true,
+  currentHoursRecordedAt: true,
+}).extend({
+  currentHours: z.number().int().min(0, "Hours cannot be negative").nullish(),
 });
 
 export const insertServiceRecordSchema = createInsertSchema(serviceRecords).omit({
   id: true,
   createdAt: true,
+}).extend({
+  status: z.enum(SERVICE_RECORD_STATUSES).optional(),
+});
+
+// Moving a service record through its lifecycle; serviceDate is the actual date when completing it (default now)
+export const updateServiceRecordStatusSchema = z.object({
+  status: z.enum(SERVICE_RECORD_STATUSES),
+  serviceDate: z.coerce.date().optional(),
+});
+
+// One technician's time on a service record; the rate defaults to the technician's own
+export const serviceRecordLaborSchema = z.object({
+  technicianId: z.number().int(),
+  hours: z.coerce.number().min(0, "Hours cannot be negative").max(1000, "At most 1000 hours").nullish(),
+  hourlyRate: z.coerce.number().min(0, "Rate cannot be negative").nullish(),
+});
+
+export const serviceRecordFeeSchema = z.object({
+  kind: z.enum(SERVICE_FEE_KINDS).default("fee"),
+  description: z.string().trim().min(1, "Describe the fee"),
+  amount: z.coerce.number().min(0, "Amount cannot be negative"),
+});
+
+export const insertTechnicianSchema = createInsertSchema(technicians).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  kind: z.enum(TECHNICIAN_KINDS).default("staff"),
+  hourlyRate: z.coerce.number().min(0, "Rate cannot be negative").nullish(),
+});
+
+export const updateTechnicianSchema = insertTechnicianSchema.partial();
+
+// The listed technicians are folded into the one merged into, taking their labor with them
+export const mergeTechniciansSchema = z.object({
+  sourceIds: z.array(z.number().int()).min(1, "Pick at least one technician to merge"),
 });
 
 export const insertAttachmentSchema = createInsertSchema(attachments).omit({
@@ -228,10 +724,65 @@ export const insertAttachmentSchema = createInsertSchema(attachments).omit({
   uploadedAt: true,
 });
 
+// seriesId, nextTaskId and workOrderId are assigned by the server; set recurrenceUnit and recurrenceInterval together
 export const insertTaskSchema = createInsertSchema(tasks).omit({
   id: true,
   createdAt: true,
   completedAt: true,
+  seriesId: true,
+  nextTaskId: true,
+  workOrderId: true,
+}).extend({
+  dueDate: z.coerce.date().nullish(), // sent as an ISO string
+  recurrenceUnit: z.enum(TASK_RECURRENCE_UNITS).nullish(),
+  recurrenceInterval: z.number().int().min(1, "Repeat interval must be at least 1").nullish(),
+  dueHours: z.number().int().min(0, "Hours cannot be negative").nullish(),
+  assigneeId: z.number().int().nullish(),
+});
+
+// Moving a card on the task board
+export const updateTaskStatusSchema = z.object({
+  status: z.enum(TASK_STATUSES),
+});
+
+// taskIds are tasks of the same mower the work order covers
+export const insertWorkOrderSchema = createInsertSchema(workOrders).pick({
+  title: true,
+  description: true,
+  serviceType: true,
+}).extend({
+  title: z.string().trim().min(1, "Title is required"),
+  serviceType: z.enum(SERVICE_TYPES).default("repair"),
+  taskIds: z.array(z.string()).default([]),
+});
+
+// A work order is closed only through sign-off, so "closed" cannot be set here
+export const updateWorkOrderSchema = insertWorkOrderSchema.partial().extend({
+  status: z.enum(["open", "in_progress", "cancelled"]).optional(),
+  taskIds: z.array(z.string()).optional(),
+});
+
+export const reserveWorkOrderPartSchema = z.object({
+  partId: z.number().int(),
+  engineId: z.number().int().nullish(), // install on one of the mower's engines
+  quantity: z.number().int().min(1, "Quantity must be at least 1").default(1),
+  notes: z.string().nullish(),
+});
+
+export const insertWorkOrderLaborSchema = createInsertSchema(workOrderLabor).pick({
+  technicianId: true,
+  workDate: true,
+  notes: true,
+}).extend({
+  technicianId: z.number().int(),
+  workDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Work date must be YYYY-MM-DD"),
+  hours: z.coerce.number().positive("Hours must be more than 0").max(24, "At most 24 hours per entry"),
+  hourlyRate: z.coerce.number().min(0, "Rate cannot be negative").nullish(),
+});
+
+export const closeWorkOrderSchema = z.object({
+  signOffNotes: z.string().trim().nullish(),
+  mileage: z.number().int().min(0, "Hours cannot be negative").nullish(), // hour meter at completion
 });
 
 export const insertEngineSchema = createInsertSchema(engines).omit({
@@ -246,9 +797,11 @@ export const insertPartSchema = createInsertSchema(parts).omit({
   updatedAt: true,
 });
 
+// Parts are reserved for a work order through the work order's own routes
 export const insertAssetPartSchema = createInsertSchema(assetParts).omit({
   id: true,
   createdAt: true,
+  workOrderId: true,
 });
 
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
@@ -256,12 +809,275 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
   createdAt: true,
 });
 
+// Make/model are matched case-insensitively; blank means "any"
+const optionalMatchField = z.string().trim().nullish().transform((value) => value || null);
+
+// sortOrder is not sent: items are stored in the order given
+export const insertMaintenancePlanItemSchema = createInsertSchema(maintenancePlanItems).omit({
+  id: true,
+  planId: true,
+  sortOrder: true,
+}).extend({
+  name: z.string().trim().min(1, "Item name is required"),
+  matchText: optionalMatchField,
+  intervalDays: z.number().int().min(1, "Interval must be at least 1 day").nullish(),
+  intervalHours: z.number().int().min(1, "Interval must be at least 1 hour").nullish(),
+}).refine((item) => item.intervalDays || item.intervalHours, {
+  message: "Set an interval in days, hours or both",
+  path: ["intervalDays"],
+});
+
+// A plan is always written together with its full list of items
+export const insertMaintenancePlanSchema = createInsertSchema(maintenancePlans).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Plan name is required"),
+  make: optionalMatchField,
+  model: optionalMatchField,
+  items: z.array(insertMaintenancePlanItemSchema).default([]),
+}).refine((plan) => !plan.model || plan.make, {
+  message: "A plan for a model must also name the make",
+  path: ["model"],
+});
+
+// The asset comes from the URL, so mowerId/engineId are not part of the request body
+export const insertMeterReadingSchema = createInsertSchema(meterReadings).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  hours: z.number().int().min(0, "Hours cannot be negative"),
+  readingDate: z.coerce.date(),
+  notes: z.string().trim().nullish().transform((value) => value || null),
+});
+
+// Steps are added by text; order, completion and who ticked them off are managed by the server
+export const insertTaskChecklistItemSchema = createInsertSchema(taskChecklistItems).pick({
+  text: true,
+}).extend({
+  text: z.string().trim().min(1, "Step text is required"),
+});
+
+export const updateTaskChecklistItemSchema = z.object({
+  text: z.string().trim().min(1, "Step text is required").optional(),
+  isDone: z.boolean().optional(),
+});
+
+export const reorderTaskChecklistSchema = z.object({
+  itemIds: z.array(z.number().int()),
+});
+
+// The body may be empty when the comment carries photos
+export const insertTaskCommentSchema = createInsertSchema(taskComments).pick({
+  body: true,
+}).extend({
+  body: z.string().trim().max(5000, "Comment is too long").default(""),
+});
+
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  lastLoginAt: true,
+  calendarToken: true,
+  createdAt: true,
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const registerUserSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  displayName: z.string().trim().optional().nullable(),
+  role: z.enum(USER_ROLES).default("viewer"),
+});
+
+export const updateUserSchema = z.object({
+  displayName: z.string().trim().optional().nullable(),
+  email: z.string().trim().email("Enter a valid email address").nullable().or(z.literal("").transform(() => null)).optional(),
+  role: z.enum(USER_ROLES).optional(),
+  isActive: z.boolean().optional(),
+  password: z.string().min(8, "Password must be at least 8 characters").optional(),
+});
+
+export const AUDIT_ENTITY_TYPES = ["mower", "engine", "part", "asset_part", "task", "service_record", "attachment", "meter_reading", "work_order"] as const;
+
+// Query string filters for GET /api/audit
+export const auditQuerySchema = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().optional(),
+  action: z.enum(["create", "update", "delete"]).optional(),
+  actorId: z.coerce.number().int().optional(),
+  mowerId: z.coerce.number().int().optional(),
+  engineId: z.coerce.number().int().optional(),
+  partId: z.coerce.number().int().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export const SEARCH_ENTITY_TYPES = ["mower", "engine", "part", "service_record", "task", "attachment"] as const;
+
+// Query string for GET /api/search; limit applies per entity type
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2, "Search text must be at least 2 characters").max(200),
+  limit: z.coerce.number().int().min(1).max(25).default(5),
+});
+
+// List endpoints (/api/mowers, /api/service-records, /api/parts, /api/engines, /api/notifications).
+// Without `page` they return every matching row as an array; with it, a PaginatedResponse.
+// `sort` is a field name, prefixed with "-" for descending, e.g. sort=-serviceDate.
+const paginationParams = {
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+};
+
+function sortParam(fields: readonly string[]) {
+  return z.string()
+    .refine((value) => fields.includes(value.replace(/^-/, "")), {
+      message: `sort must be one of ${fields.join(", ")} (prefix with - for descending)`,
+    })
+    .optional();
+}
+
+const booleanParam = z.enum(["true", "false"]).transform((value) => value === "true");
+
+// Upper bound of a date range; a date without a time (YYYY-MM-DD) includes that whole day
+const rangeEnd = z.preprocess(
+  (value) => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value,
+  z.coerce.date(),
+);
+
+export const MOWER_SORT_FIELDS = ["make", "model", "year", "serialNumber", "status", "condition", "purchaseDate", "lastServiceDate", "nextServiceDate", "currentHours"] as const;
+export const mowerListQuerySchema = z.object({
+  ...paginationParams,
+  sort: sortParam(MOWER_SORT_FIELDS),
+  q: z.string().trim().optional(), // make, model, serial number, location
+  status: z.string().optional(),
+  condition: z.string().optional(),
+  nextServiceFrom: z.coerce.date().optional(),
+  nextServiceTo: z.coerce.date().optional(),
+});
+
+export const SERVICE_RECORD_SORT_FIELDS = ["serviceDate", "serviceType", "cost", "createdAt"] as const;
+export const serviceRecordListQuerySchema = z.object({
+  ...paginationParams,
+  sort: sortParam(SERVICE_RECORD_SORT_FIELDS),
+  q: z.string().trim().optional(), // description, service type, performed by
+  mowerId: z.coerce.number().int().optional(),
+  serviceType: z.string().optional(),
+  status: z.enum(SERVICE_RECORD_STATUSES).optional(),
+  from: z.coerce.date().optional(), // service date/time range, inclusive
+  to: rangeEnd.optional(),
+});
+
+export const PART_SORT_FIELDS = ["name", "partNumber", "manufacturer", "category", "stockQuantity", "unitCost", "createdAt"] as const;
+export const partListQuerySchema = z.object({
+  ...paginationParams,
+  sort: sortParam(PART_SORT_FIELDS),
+  q: z.string().trim().optional(), // name, part number, manufacturer
+  category: z.string().optional(),
+  lowStock: booleanParam.optional(), // stock at or below the minimum level
+});
+
+export const ENGINE_SORT_FIELDS = ["name", "manufacturer", "model", "serialNumber", "status", "condition", "installDate", "createdAt"] as const;
+export const engineListQuerySchema = z.object({
+  ...paginationParams,
+  sort: sortParam(ENGINE_SORT_FIELDS),
+  q: z.string().trim().optional(), // name, manufacturer, model, serial and part number
+  status: z.string().optional(),
+  condition: z.string().optional(),
+  mowerId: z.coerce.number().int().optional(),
+});
+
+export const NOTIFICATION_SORT_FIELDS = ["createdAt", "priority", "type"] as const;
+export const notificationListQuerySchema = z.object({
+  ...paginationParams,
+  sort: sortParam(NOTIFICATION_SORT_FIELDS),
+  isRead: booleanParam.optional(),
+  type: z.string().optional(),
+  priority: z.string().optional(),
+  entityType: z.string().optional(),
+});
+
+const calendarDay = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+export const NOTIFICATION_TYPES = ["error", "warning", "info", "success"] as const;
+export const NOTIFICATION_PRIORITIES = ["high", "medium", "low"] as const;
+export const EMAIL_DELIVERY_MODES = ["instant", "digest", "off"] as const;
+export const NOTIFICATION_DELIVERY_STATUSES = ["pending", "sent", "failed"] as const;
+
+// Body of PUT /api/notification-preferences: the user's email address and the full type × priority grid
+export const notificationPreferencesUpdateSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address").nullable().or(z.literal("").transform(() => null)),
+  preferences: z.array(z.object({
+    type: z.enum(NOTIFICATION_TYPES),
+    priority: z.enum(NOTIFICATION_PRIORITIES),
+    delivery: z.enum(EMAIL_DELIVERY_MODES),
+  })),
+});
+
+// Query string filters for GET /api/notification-deliveries
+export const notificationDeliveryQuerySchema = z.object({
+  status: z.enum(NOTIFICATION_DELIVERY_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Events a webhook can subscribe to: everything the server broadcasts over the WebSocket
+export const WEBHOOK_EVENT_TYPES = [
+  "asset-created", "asset-updated", "asset-deleted",
+  "service-created", "service-updated", "service-deleted",
+  "task-created", "task-updated", "task-deleted",
+  "engine-created", "engine-updated", "engine-deleted",
+  "part-created", "part-updated", "part-deleted",
+  "asset-part-created", "asset-part-updated", "asset-part-deleted",
+  "work-order-created", "work-order-updated", "work-order-deleted",
+  "notification-created",
+] as const;
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "success", "failed"] as const;
+
+export const insertWebhookSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  url: z.string().trim().url("Enter a valid URL").refine((url) => /^https?:\/\//i.test(url), "Use an http or https URL"),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).default([]),
+  isActive: z.boolean().default(true),
+});
+
+export const webhookDeliveryQuerySchema = z.object({
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// A topic level: no wildcards, no empty levels and no leading or trailing slash
+const mqttTopicPrefix = z.string().trim().min(1, "Required")
+  .regex(/^[^#+/]+(\/[^#+/]+)*$/, "Use topic levels separated by /, without + or #");
+
+// PUT /api/mqtt/settings and POST /api/mqtt/test; a missing password keeps the saved one
+export const mqttSettingsSchema = z.object({
+  enabled: z.boolean(),
+  brokerUrl: z.string().trim().min(1, "Broker URL is required")
+    .refine((url) => /^(mqtts?|wss?):\/\/[^/\s]+/i.test(url), "Use an mqtt://, mqtts://, ws:// or wss:// URL"),
+  username: z.string().trim().nullable().default(null).transform((value) => value || null),
+  password: z.string().optional(),
+  topicPrefix: mqttTopicPrefix.default("mowerm8"),
+  discoveryEnabled: z.boolean().default(true),
+  discoveryPrefix: mqttTopicPrefix.default("homeassistant"),
+});
+
+export const calendarQuerySchema = z.object({
+  from: calendarDay.optional(), // inclusive
+  to: calendarDay.optional(),
+});
+
 // Types
 export type InsertMower = z.infer<typeof insertMowerSchema>;
 export type Mower = typeof mowers.$inferSelect;
 
 export type InsertServiceRecord = z.infer<typeof insertServiceRecordSchema>;
 export type ServiceRecord = typeof serviceRecords.$inferSelect;
+export type UpdateServiceRecordStatus = z.infer<typeof updateServiceRecordStatusSchema>;
 
 export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
 export type Attachment = typeof attachments.$inferSelect;
@@ -278,8 +1094,234 @@ export type Part = typeof parts.$inferSelect;
 export type InsertAssetPart = z.infer<typeof insertAssetPartSchema>;
 export type AssetPart = typeof assetParts.$inferSelect;
 
+export type InsertWorkOrder = z.infer<typeof insertWorkOrderSchema>;
+export type UpdateWorkOrder = z.infer<typeof updateWorkOrderSchema>;
+export type WorkOrder = typeof workOrders.$inferSelect;
+export type InsertWorkOrderLabor = z.infer<typeof insertWorkOrderLaborSchema>;
+export type WorkOrderLabor = typeof workOrderLabor.$inferSelect;
+export type ReserveWorkOrderPart = z.infer<typeof reserveWorkOrderPartSchema>;
+export type CloseWorkOrder = z.infer<typeof closeWorkOrderSchema>;
+
+export type InsertTechnician = z.infer<typeof insertTechnicianSchema>;
+export type UpdateTechnician = z.infer<typeof updateTechnicianSchema>;
+export type Technician = typeof technicians.$inferSelect;
+export type ServiceRecordLaborInput = z.infer<typeof serviceRecordLaborSchema>;
+export type ServiceRecordLabor = typeof serviceRecordLabor.$inferSelect;
+export type ServiceRecordFeeInput = z.infer<typeof serviceRecordFeeSchema>;
+export type ServiceRecordFee = typeof serviceRecordFees.$inferSelect;
+
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type Notification = typeof notifications.$inferSelect;
+export type NotificationRuleHit = typeof notificationRuleHits.$inferSelect;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+export type NotificationPriority = typeof NOTIFICATION_PRIORITIES[number];
+export type EmailDeliveryMode = typeof EMAIL_DELIVERY_MODES[number];
+export type NotificationDeliveryStatus = typeof NOTIFICATION_DELIVERY_STATUSES[number];
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+export type NotificationPreferencesUpdate = z.infer<typeof notificationPreferencesUpdateSchema>;
+export type NotificationDeliveryQuery = z.infer<typeof notificationDeliveryQuerySchema>;
+
+// GET /api/notification-preferences: every type × priority combination, plus whether the server can send email at all
+export interface NotificationPreferencesView {
+  email: string | null;
+  emailConfigured: boolean;
+  preferences: { type: NotificationType; priority: NotificationPriority; delivery: EmailDeliveryMode }[];
+}
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type WebhookDeliveryQuery = z.infer<typeof webhookDeliveryQuerySchema>;
+
+export type MqttSettings = typeof mqttSettings.$inferSelect;
+export type MqttSettingsInput = z.infer<typeof mqttSettingsSchema>;
+
+// GET /api/mqtt/settings: the saved settings without the password, and the publisher's connection state
+export interface MqttSettingsView {
+  settings: Omit<MqttSettings, "id" | "password" | "updatedAt"> & { hasPassword: boolean };
+  status: { connected: boolean; lastError: string | null; lastPublishedAt: string | null };
+}
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+export type SafeUser = Omit<User, "passwordHash" | "calendarToken">;
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+export type AuditAction = "create" | "update" | "delete";
+// Only changed fields are stored; before is null on create, after is null on delete
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+export type InsertMaintenancePlan = z.infer<typeof insertMaintenancePlanSchema>;
+export type InsertMaintenancePlanItem = z.infer<typeof insertMaintenancePlanItemSchema>;
+export type MaintenancePlan = typeof maintenancePlans.$inferSelect;
+export type MaintenancePlanItem = typeof maintenancePlanItems.$inferSelect;
+export type MaintenancePlanWithItems = MaintenancePlan & { items: MaintenancePlanItem[] };
+
+// Computed by the server from a mower's plan and its service records
+export type MaintenanceDueStatus = "overdue" | "due_soon" | "upcoming";
+export type MaintenanceScheduleItem = {
+  itemId: number;
+  name: string;
+  serviceType: string;
+  intervalDays: number | null;
+  intervalHours: number | null;
+  lastServiceDate: string | null; // YYYY-MM-DD of the last matching service record
+  lastServiceRecordId: string | null;
+  // YYYY-MM-DD; the hour-based date is estimated from the usage rate. Null when
+  // the item is hour-based only and there are too few readings to estimate it
+  nextDueDate: string | null;
+  daysUntilDue: number | null;
+  nextDueHours: number | null; // hour-meter reading the item is due at
+  hoursUntilDue: number | null; // null until the mower has a reading
+  dueBy: "days" | "hours"; // the trigger that comes first
+  status: MaintenanceDueStatus;
+};
+export type MaintenanceSchedule = {
+  mowerId: number;
+  plan: { id: number; name: string; assigned: boolean } | null; // assigned = set on the mower, not matched by make/model
+  items: MaintenanceScheduleItem[]; // most urgent first
+  nextDueDate: string | null;
+  currentHours: number | null; // latest hour-meter reading
+  hoursPerDay: number | null; // usage rate estimated from recent readings
+};
+
+export type InsertMeterReading = z.infer<typeof insertMeterReadingSchema>;
+export type MeterReading = typeof meterReadings.$inferSelect;
+// One point of an asset's hour-meter history; totalHours keeps counting across meter replacements
+export type MeterReadingPoint = {
+  date: string;
+  hours: number;
+  totalHours: number;
+  source: "reading" | "service_record";
+  isMeterReplacement: boolean;
+};
+export type MeterReadingHistory = {
+  readings: MeterReading[]; // logged readings, newest first
+  points: MeterReadingPoint[]; // readings and service record hours, oldest first
+  currentHours: number | null;
+  hoursPerWeek: number | null; // average over recent readings
+};
+
+export type InsertTaskChecklistItem = z.infer<typeof insertTaskChecklistItemSchema>;
+export type TaskChecklistItem = typeof taskChecklistItems.$inferSelect;
+export type InsertTaskComment = z.infer<typeof insertTaskCommentSchema>;
+export type TaskComment = typeof taskComments.$inferSelect;
+export type TaskCommentWithPhotos = TaskComment & {
+  photos: Omit<Attachment, "legacyFileData" | "textContent">[];
+};
+// Task as listed per mower, with checklist progress and the size of its comment thread
+export type TaskWithActivity = Task & {
+  checklistDone: number;
+  checklistTotal: number;
+  commentCount: number;
+};
+// Task on the fleet-wide board, with the asset it belongs to and who it is assigned to
+export type TaskBoardItem = TaskWithActivity & {
+  assetType: "mower" | "engine" | "part" | null;
+  assetName: string | null;
+  assetUrl: string | null;
+  assigneeName: string | null;
+};
+// A user tasks can be assigned to
+export type TaskAssignee = {
+  id: number;
+  name: string;
+};
+// Work order with its tasks, reserved parts and labor, and what they cost
+export type WorkOrderWithDetails = WorkOrder & {
+  tasks: Task[];
+  parts: AssetPartWithDetails[];
+  labor: WorkOrderLabor[];
+  partsCost: number;
+  laborCost: number;
+  totalCost: number;
+};
+
+// Technician as listed in the directory, with how much service work they have on record
+export type TechnicianWithUsage = Technician & {
+  serviceRecordCount: number;
+  laborHours: number;
+};
+// Service record labor entry with the technician's current name
+export type ServiceRecordLaborWithTechnician = ServiceRecordLabor & {
+  technicianName: string;
+  technicianKind: string;
+};
+// A part installed under a service record, priced from the catalog
+export type ServiceRecordPartLine = {
+  assetPartId: number;
+  partId: number;
+  name: string;
+  partNumber: string;
+  quantity: number;
+  unitCost: number;
+  total: number;
+};
+// Service record with its line items and what each kind adds up to. computedCost
+// is the sum of the lines; the record's cost is that or its costOverride.
+export type ServiceRecordWithCosts = ServiceRecord & {
+  parts: ServiceRecordPartLine[];
+  labor: ServiceRecordLaborWithTechnician[];
+  fees: ServiceRecordFee[];
+  partsCost: number;
+  laborCost: number;
+  feesCost: number;
+  computedCost: number;
+};
+// A booked appointment (scheduled or in progress) with its mower
+export type ServiceAppointment = ServiceRecord & {
+  mower: Pick<Mower, "id" | "make" | "model" | "serialNumber">;
+  daysUntilDue: number; // to the planned date; negative once it has passed
+};
+
+export type MowerListQuery = z.infer<typeof mowerListQuerySchema>;
+export type ServiceRecordListQuery = z.infer<typeof serviceRecordListQuerySchema>;
+export type PartListQuery = z.infer<typeof partListQuerySchema>;
+export type EngineListQuery = z.infer<typeof engineListQuerySchema>;
+export type NotificationListQuery = z.infer<typeof notificationListQuerySchema>;
+export type CalendarQuery = z.infer<typeof calendarQuerySchema>;
+
+export const CALENDAR_EVENT_KINDS = ["appointment", "next_service", "service_due", "task", "warranty"] as const;
+export type CalendarEventKind = typeof CALENDAR_EVENT_KINDS[number];
+
+// A dated item on the fleet calendar. Every event is all-day.
+export type CalendarEvent = {
+  id: string; // stable across requests; the UID in the iCalendar feed
+  kind: CalendarEventKind;
+  date: string; // YYYY-MM-DD
+  title: string;
+  description: string | null;
+  mowerId: number | null;
+  serviceRecordId: string | null;
+  taskId: string | null;
+  path: string; // app page the event opens
+};
+export type PaginatedResponse<T> = {
+  items: T[];
+  total: number; // all rows matching the filters
+  page: number;
+  pageSize: number;
+};
+
+export type SearchEntityType = typeof SEARCH_ENTITY_TYPES[number];
+export type SearchResult = {
+  entityType: SearchEntityType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  snippet: string | null; // matching excerpt, for long text such as attachment contents
+  url: string; // client route to open
+};
+export type SearchResponse = {
+  query: string;
+  total: number;
+  groups: { entityType: SearchEntityType; results: SearchResult[] }[]; // only non-empty groups, in SEARCH_ENTITY_TYPES order
+};
 
 // Combined types for API responses
 export type MowerWithDetails = Mower & {